@@ -0,0 +1,19 @@
+import { parseAccessConfig, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_CONSOLE } from './src/constants';
+import type { ConsoleConfig } from './src/types';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function parseConsoleConfig(options: Record<string, unknown>): ConsoleConfig {
+  return {
+    chat_id: readString(options.chat_id) || 'console',
+    sender_id: readString(options.sender_id) || 'console-user',
+    input_path: readString(options.input_path) || undefined,
+    output_path: readString(options.output_path) || undefined,
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
@@ -0,0 +1,27 @@
+import { parseAccessConfig, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_DINGTALK } from './src/constants';
+import type { DingTalkConfig } from './src/types';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function parseDingTalkConfig(options: Record<string, unknown>): DingTalkConfig {
+  const clientId = readString(options.client_id) || readString(options.app_key);
+  const clientSecret = readString(options.client_secret) || readString(options.app_secret);
+  if (!clientId || !clientSecret) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_DINGTALK}: client_id, client_secret`);
+  }
+
+  const apiBaseUrl = readString(options.api_base_url) || 'https://api.dingtalk.com';
+
+  return {
+    client_id: clientId,
+    client_secret: clientSecret,
+    robot_code: readString(options.robot_code) || clientId,
+    api_base_url: apiBaseUrl.replace(/\/+$/, ''),
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
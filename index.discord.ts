@@ -0,0 +1,25 @@
+import { parseAccessConfig, parseBoolean, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_DISCORD } from './src/constants';
+import type { DiscordConfig } from './src/types';
+
+export function parseDiscordConfig(options: Record<string, unknown>): DiscordConfig {
+  const botToken = typeof options.bot_token === 'string' ? options.bot_token.trim() : '';
+  if (!botToken) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_DISCORD}: bot_token`);
+  }
+
+  const apiBaseUrl =
+    typeof options.api_base_url === 'string' && options.api_base_url.trim()
+      ? options.api_base_url.trim()
+      : 'https://discord.com/api/v10';
+
+  return {
+    bot_token: botToken,
+    use_threads: parseBoolean(options.use_threads, true),
+    require_mention: parseBoolean(options.require_mention, true),
+    api_base_url: apiBaseUrl.replace(/\/+$/, ''),
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
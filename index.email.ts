@@ -0,0 +1,66 @@
+import { parseAccessConfig, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_EMAIL } from './src/constants';
+import type { EmailConfig } from './src/types';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function readUrl(value: unknown, protocols: string[], field: string): string | undefined {
+  const raw = readString(value);
+  if (!raw) return undefined;
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`[Plugin] Invalid ${field} for ${AGENT_EMAIL}: ${raw}`);
+  }
+  if (!protocols.includes(url.protocol)) {
+    throw new Error(`[Plugin] ${field} for ${AGENT_EMAIL} must use ${protocols.join(' or ')}`);
+  }
+  return raw;
+}
+
+// Sender ids are compared with the lower-cased From address.
+function lowerIds(ids: string[] | undefined): string[] | undefined {
+  return ids?.map(id => id.toLowerCase());
+}
+
+export function parseEmailConfig(options: Record<string, unknown>): EmailConfig {
+  const mode = options.mode === 'handoff' ? 'handoff' : 'imap';
+  const address = readString(options.address).toLowerCase();
+  const smtpUrl = readUrl(options.smtp_url, ['smtp:', 'smtps:'], 'smtp_url');
+  if (!address || !smtpUrl) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_EMAIL}: address, smtp_url`);
+  }
+
+  const imapUrl = readUrl(options.imap_url, ['imap:', 'imaps:'], 'imap_url');
+  if (mode === 'imap' && !imapUrl) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_EMAIL} in imap mode: imap_url`);
+  }
+
+  const access = parseAccessConfig(options);
+  const intervalRaw = Number(options.poll_interval_ms);
+  const poll_interval_ms = Number.isFinite(intervalRaw) && intervalRaw > 0 ? intervalRaw : 60000;
+
+  return {
+    mode,
+    address,
+    username: readString(options.username) || address,
+    password: typeof options.password === 'string' ? options.password : '',
+    smtp_url: smtpUrl,
+    imap_url: imapUrl,
+    mailbox: readString(options.mailbox) || 'INBOX',
+    poll_interval_ms,
+    handoff_listen_url:
+      readUrl(options.handoff_listen_url, ['smtp:'], 'handoff_listen_url') ||
+      'smtp://127.0.0.1:2525',
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...access,
+    allowed_sender_ids: lowerIds(access.allowed_sender_ids),
+    admin_sender_ids: lowerIds(access.admin_sender_ids),
+    member_sender_ids: lowerIds(access.member_sender_ids),
+    viewer_sender_ids: lowerIds(access.viewer_sender_ids),
+  };
+}
@@ -1,16 +1,20 @@
 // index.feishu.ts
-import type { Config } from '@opencode-ai/sdk';
 import type { BridgeAdapter, FeishuConfig } from './src/types';
-import { asRecord, globalState } from './src/utils';
+import {
+  globalState,
+  parseAccessConfig,
+  parseBoolean,
+  parseDefaultGroupPolicy,
+  parseGroupPolicies,
+  parseQueueMode,
+  parseStateFile,
+} from './src/utils';
 import { AGENT_LARK } from './src/constants';
 import { bridgeLogger } from './src/logger';
 
 let feishuAdapter: BridgeAdapter | null = globalState.__bridge_feishu_adapter || null;
 
-export function parseFeishuConfig(cfg: Config | undefined): FeishuConfig {
-  const node = cfg?.agent?.[AGENT_LARK];
-  const options = asRecord(node?.options);
-
+export function parseFeishuConfig(options: Record<string, unknown>): FeishuConfig {
   const app_id = typeof options.app_id === 'string' ? options.app_id : '';
   const app_secret = typeof options.app_secret === 'string' ? options.app_secret : '';
   const mode = options.mode === 'webhook' ? 'webhook' : 'ws';
@@ -36,5 +40,11 @@ export function parseFeishuConfig(cfg: Config | undefined): FeishuConfig {
     mode,
     callback_url: callbackUrl,
     encrypt_key: typeof options.encrypt_key === 'string' ? options.encrypt_key : undefined,
+    state_file: parseStateFile(options.state_file),
+    group_policy: parseDefaultGroupPolicy(options.group_policy, AGENT_LARK),
+    group_policies: parseGroupPolicies(options.group_policies, AGENT_LARK),
+    thread_sessions: parseBoolean(options.thread_sessions, false),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
   };
 }
@@ -0,0 +1,31 @@
+import { parseAccessConfig, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_HTTP } from './src/constants';
+import type { HttpConfig } from './src/types';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function parseHttpConfig(options: Record<string, unknown>): HttpConfig {
+  const authToken = readString(options.auth_token);
+  if (!authToken) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_HTTP}: auth_token`);
+  }
+
+  const listenUrlRaw = readString(options.listen_url) || 'http://127.0.0.1:8787/bridge';
+  const listenUrl = listenUrlRaw.startsWith('http') ? listenUrlRaw : `http://${listenUrlRaw}`;
+  try {
+    new URL(listenUrl);
+  } catch {
+    throw new Error(`[Plugin] Invalid listen_url for ${AGENT_HTTP}: ${listenUrlRaw}`);
+  }
+
+  return {
+    listen_url: listenUrl,
+    auth_token: authToken,
+    cors_origin: readString(options.cors_origin) || undefined,
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
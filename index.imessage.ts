@@ -1,8 +1,31 @@
-// index.imessage.ts (imessage-bridge placeholder)
-import type { Plugin } from '@opencode-ai/plugin';
-import { bridgeLogger } from './src/logger';
+import { parseAccessConfig, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_IMESSAGE } from './src/constants';
+import type { IMessageConfig } from './src/types';
 
-export const BridgePlugin: Plugin = async () => {
-  bridgeLogger.info('[Plugin] imessage-bridge is not implemented yet.');
-  return {};
-};
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function parseIMessageConfig(options: Record<string, unknown>): IMessageConfig {
+  const transport = readString(options.transport) || 'bluebubbles';
+  if (transport !== 'bluebubbles') {
+    throw new Error(`[Plugin] Unsupported transport for ${AGENT_IMESSAGE}: ${transport}`);
+  }
+  const serverUrl = readString(options.server_url);
+  const password = readString(options.password);
+  if (!serverUrl || !password) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_IMESSAGE}: server_url, password`);
+  }
+
+  const intervalRaw = Number(options.poll_interval_ms);
+  return {
+    transport,
+    server_url: serverUrl.replace(/\/+$/, ''),
+    password,
+    send_method: options.send_method === 'private-api' ? 'private-api' : 'apple-script',
+    poll_interval_ms: Number.isFinite(intervalRaw) && intervalRaw > 0 ? intervalRaw : 2000,
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
@@ -0,0 +1,25 @@
+import { parseAccessConfig, parseBoolean, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_MATRIX } from './src/constants';
+import type { MatrixConfig } from './src/types';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function parseMatrixConfig(options: Record<string, unknown>): MatrixConfig {
+  const homeserverUrl = readString(options.homeserver_url);
+  const accessToken = readString(options.access_token);
+  if (!homeserverUrl || !accessToken) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_MATRIX}: homeserver_url, access_token`);
+  }
+
+  return {
+    homeserver_url: homeserverUrl.replace(/\/+$/, ''),
+    access_token: accessToken,
+    auto_join: parseBoolean(options.auto_join, true),
+    require_mention: parseBoolean(options.require_mention, true),
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
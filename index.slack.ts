@@ -0,0 +1,49 @@
+import { parseAccessConfig, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_SLACK } from './src/constants';
+import type { SlackConfig } from './src/types';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function parseSlackConfig(options: Record<string, unknown>): SlackConfig {
+  const mode = options.mode === 'webhook' || options.mode === 'events' ? 'webhook' : 'socket';
+  const botToken = readString(options.bot_token);
+  if (!botToken) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_SLACK}: bot_token`);
+  }
+
+  const appToken = readString(options.app_token);
+  if (mode === 'socket' && !appToken) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_SLACK} in socket mode: app_token`);
+  }
+
+  const signingSecret = readString(options.signing_secret);
+  const callbackUrlRaw = readString(options.callback_url);
+  const callbackUrl = callbackUrlRaw
+    ? callbackUrlRaw.startsWith('http')
+      ? callbackUrlRaw
+      : `http://${callbackUrlRaw}`
+    : undefined;
+  if (mode === 'webhook' && (!callbackUrl || !signingSecret)) {
+    throw new Error(
+      `[Plugin] Missing options for ${AGENT_SLACK} in webhook mode: callback_url, signing_secret`,
+    );
+  }
+
+  const slashCommand = readString(options.slash_command) || '/opencode';
+  const apiBaseUrl = readString(options.api_base_url) || 'https://slack.com/api';
+
+  return {
+    mode,
+    bot_token: botToken,
+    app_token: appToken || undefined,
+    signing_secret: signingSecret || undefined,
+    callback_url: callbackUrl,
+    slash_command: slashCommand.startsWith('/') ? slashCommand : `/${slashCommand}`,
+    api_base_url: apiBaseUrl.replace(/\/+$/, ''),
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
@@ -1,13 +1,14 @@
-import type { Config } from '@opencode-ai/sdk';
-
-import { asRecord } from './src/utils';
+import {
+  parseAccessConfig,
+  parseDefaultGroupPolicy,
+  parseGroupPolicies,
+  parseQueueMode,
+  parseStateFile,
+} from './src/utils';
 import { AGENT_TELEGRAM } from './src/constants';
 import type { TelegramConfig } from './src/types';
 
-export function parseTelegramConfig(cfg: Config | undefined): TelegramConfig {
-  const node = cfg?.agent?.[AGENT_TELEGRAM];
-  const options = asRecord(node?.options);
-
+export function parseTelegramConfig(options: Record<string, unknown>): TelegramConfig {
   const mode = options.mode === 'webhook' ? 'webhook' : 'polling';
   const botToken = typeof options.bot_token === 'string' ? options.bot_token.trim() : '';
   if (!botToken) {
@@ -42,5 +43,10 @@ export function parseTelegramConfig(cfg: Config | undefined): TelegramConfig {
       typeof options.webhook_secret_token === 'string'
         ? options.webhook_secret_token.trim()
         : undefined,
+    state_file: parseStateFile(options.state_file),
+    group_policy: parseDefaultGroupPolicy(options.group_policy, AGENT_TELEGRAM),
+    group_policies: parseGroupPolicies(options.group_policies, AGENT_TELEGRAM),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
   };
 }
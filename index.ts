@@ -1,19 +1,66 @@
 // index.ts
 import type { Plugin } from '@opencode-ai/plugin';
 
-import { globalState, isEnabled, runtimeInstanceId } from './src/utils';
-import { AGENT_LARK, AGENT_IMESSAGE, AGENT_TELEGRAM } from './src/constants';
+import { globalState, listBridgeInstances, runtimeInstanceId } from './src/utils';
+import type { BridgeInstance } from './src/utils';
+import {
+  AGENT_CONSOLE,
+  AGENT_DINGTALK,
+  AGENT_DISCORD,
+  AGENT_EMAIL,
+  AGENT_HTTP,
+  AGENT_LARK,
+  AGENT_IMESSAGE,
+  AGENT_MATRIX,
+  AGENT_SLACK,
+  AGENT_TELEGRAM,
+  AGENT_WECOM,
+} from './src/constants';
 import { bridgeLogger, getBridgeLogFilePath } from './src/logger';
 
 import { AdapterMux } from './src/handler/mux';
-import { startGlobalEventListener, createIncomingHandler } from './src/handler';
+import {
+  attachBridgeStateStore,
+  startGlobalEventListener,
+  createIncomingHandler,
+  createActionHandler,
+  setAdapterAccess,
+  setAdapterQueueMode,
+  setAdapterDefaultAgent,
+  listBridgeCommands,
+  describeBridgeChat,
+  listBridgeChatIds,
+  handleBridgeEvent,
+  handleBridgeChatMessage,
+  handleBridgeToolStart,
+  handleBridgeToolEnd,
+} from './src/handler';
+import { JsonFileStateStore } from './src/bridge/state.store';
 
 import { FeishuAdapter } from './src/feishu/feishu.adapter';
-import type { BridgeAdapter } from './src/types';
+import type { BridgeAccessConfig, BridgeAdapter, BridgeQueueMode } from './src/types';
 import { TelegramAdapter } from './src/telegram/telegram.adapter';
+import { SlackAdapter } from './src/slack/slack.adapter';
+import { DiscordAdapter } from './src/discord/discord.adapter';
+import { DingTalkAdapter } from './src/dingtalk/dingtalk.adapter';
+import { WeComAdapter } from './src/wecom/wecom.adapter';
+import { MatrixAdapter } from './src/matrix/matrix.adapter';
+import { EmailAdapter } from './src/email/email.adapter';
+import { IMessageAdapter } from './src/imessage/imessage.adapter';
+import { HttpAdapter } from './src/http/http.adapter';
+import { ConsoleAdapter } from './src/console/console.adapter';
 
 import { parseFeishuConfig } from './index.feishu';
 import { parseTelegramConfig } from './index.telegram';
+import { parseSlackConfig } from './index.slack';
+import { parseDiscordConfig } from './index.discord';
+import { parseDingTalkConfig } from './index.dingtalk';
+import { parseWeComConfig } from './index.wecom';
+import { parseMatrixConfig } from './index.matrix';
+import { parseEmailConfig } from './index.email';
+import { parseIMessageConfig } from './index.imessage';
+import { parseHttpConfig } from './index.http';
+import { parseConsoleConfig } from './index.console';
 
 export const BridgePlugin: Plugin = async ctx => {
   const { client } = ctx;
@@ -21,14 +68,15 @@ export const BridgePlugin: Plugin = async ctx => {
     `[Plugin] bridge entry initializing logFile=${getBridgeLogFilePath()} pid=${process.pid} instance=${runtimeInstanceId}`,
   );
 
+  // mux 单例：插件钩子与 bootstrap 共用
+  const mux: AdapterMux = globalState.__bridge_mux || new AdapterMux();
+  globalState.__bridge_mux = mux;
+
   const bootstrap = async () => {
     try {
       const raw = await client.config.get();
       const cfg = raw?.data;
 
-      // mux 单例
-      const mux: AdapterMux = globalState.__bridge_mux || new AdapterMux();
-      globalState.__bridge_mux = mux;
       const adapterInstances: Map<string, BridgeAdapter> =
         globalState.__bridge_adapter_instances || new Map<string, BridgeAdapter>();
       const startedAdapters: Set<string> =
@@ -39,25 +87,83 @@ export const BridgePlugin: Plugin = async ctx => {
       globalState.__bridge_started_adapters = startedAdapters;
       globalState.__bridge_starting_adapters = startingAdapters;
 
-      // 允许多个 adapter 同时启用
+      // 允许多个 adapter 同时启用；同一平台的多个实例（options.instances）各有自己的 key
       const adaptersToStart: Array<{ key: string; create: () => BridgeAdapter }> = [];
+      let stateFile: string | undefined;
+
+      const register = (
+        instance: BridgeInstance,
+        config: BridgeAccessConfig & { state_file?: string; queue_mode?: BridgeQueueMode },
+        create: () => BridgeAdapter,
+      ) => {
+        stateFile = stateFile || config.state_file;
+        setAdapterAccess(instance.key, config);
+        setAdapterQueueMode(instance.key, config.queue_mode);
+        setAdapterDefaultAgent(instance.key, instance.defaultAgent);
+        adaptersToStart.push({ key: instance.key, create });
+      };
+
+      for (const instance of listBridgeInstances(cfg, AGENT_LARK)) {
+        const feishuCfg = parseFeishuConfig(instance.options);
+        register(
+          instance,
+          feishuCfg,
+          () => new FeishuAdapter(feishuCfg, () => listBridgeChatIds(instance.key)),
+        );
+      }
 
-      if (isEnabled(cfg, AGENT_LARK)) {
-        const feishuCfg = parseFeishuConfig(cfg);
-        adaptersToStart.push({ key: AGENT_LARK, create: () => new FeishuAdapter(feishuCfg) });
+      for (const instance of listBridgeInstances(cfg, AGENT_TELEGRAM)) {
+        const telegramCfg = parseTelegramConfig(instance.options);
+        register(instance, telegramCfg, () => new TelegramAdapter(telegramCfg));
       }
 
-      if (isEnabled(cfg, AGENT_TELEGRAM)) {
-        const telegramCfg = parseTelegramConfig(cfg);
-        adaptersToStart.push({
-          key: AGENT_TELEGRAM,
-          create: () => new TelegramAdapter(telegramCfg),
-        });
+      for (const instance of listBridgeInstances(cfg, AGENT_SLACK)) {
+        const slackCfg = parseSlackConfig(instance.options);
+        register(instance, slackCfg, () => new SlackAdapter(slackCfg));
+      }
+
+      for (const instance of listBridgeInstances(cfg, AGENT_DISCORD)) {
+        const discordCfg = parseDiscordConfig(instance.options);
+        register(instance, discordCfg, () => new DiscordAdapter(discordCfg));
+      }
+
+      for (const instance of listBridgeInstances(cfg, AGENT_DINGTALK)) {
+        const dingtalkCfg = parseDingTalkConfig(instance.options);
+        register(instance, dingtalkCfg, () => new DingTalkAdapter(dingtalkCfg));
+      }
+
+      for (const instance of listBridgeInstances(cfg, AGENT_WECOM)) {
+        const wecomCfg = parseWeComConfig(instance.options);
+        register(instance, wecomCfg, () => new WeComAdapter(wecomCfg));
+      }
+
+      for (const instance of listBridgeInstances(cfg, AGENT_MATRIX)) {
+        const matrixCfg = parseMatrixConfig(instance.options);
+        register(instance, matrixCfg, () => new MatrixAdapter(matrixCfg));
       }
 
-      if (isEnabled(cfg, AGENT_IMESSAGE)) {
-        bridgeLogger.info('[Plugin] imessage-bridge enabled (not implemented yet).');
-        // TODO: mux.register(AGENT_IMESSAGE, new IMessageAdapter(...))
+      for (const instance of listBridgeInstances(cfg, AGENT_EMAIL)) {
+        const emailCfg = parseEmailConfig(instance.options);
+        register(instance, emailCfg, () => new EmailAdapter(emailCfg));
+      }
+
+      for (const instance of listBridgeInstances(cfg, AGENT_HTTP)) {
+        const httpCfg = parseHttpConfig(instance.options);
+        register(
+          instance,
+          httpCfg,
+          () => new HttpAdapter(httpCfg, chatId => describeBridgeChat(instance.key, chatId)),
+        );
+      }
+
+      for (const instance of listBridgeInstances(cfg, AGENT_CONSOLE)) {
+        const consoleCfg = parseConsoleConfig(instance.options);
+        register(instance, consoleCfg, () => new ConsoleAdapter(consoleCfg));
+      }
+
+      for (const instance of listBridgeInstances(cfg, AGENT_IMESSAGE)) {
+        const imessageCfg = parseIMessageConfig(instance.options);
+        register(instance, imessageCfg, () => new IMessageAdapter(imessageCfg));
       }
 
       if (adaptersToStart.length === 0) {
@@ -65,6 +171,14 @@ export const BridgePlugin: Plugin = async ctx => {
         return;
       }
 
+      // 会话绑定持久化：先恢复再启动 adapter，避免首条消息新建会话
+      if (!globalState.__bridge_state_store) {
+        const store = new JsonFileStateStore(stateFile);
+        await attachBridgeStateStore(store);
+        globalState.__bridge_state_store = store;
+        bridgeLogger.info(`[Plugin] bridge state file=${store.filePath}`);
+      }
+
       // 注册 + start（incoming）
       for (const { key, create } of adaptersToStart) {
         const adapter = adapterInstances.get(key) || create();
@@ -80,8 +194,9 @@ export const BridgePlugin: Plugin = async ctx => {
         }
         startingAdapters.add(key);
         const incoming = createIncomingHandler(client, mux, key);
+        const action = createActionHandler(client, mux, key);
         try {
-          await adapter.start(incoming);
+          await adapter.start(incoming, action, listBridgeCommands());
           startedAdapters.add(key);
           bridgeLogger.info(`[Plugin] started adapter=${key}`);
         } finally {
@@ -107,5 +222,20 @@ export const BridgePlugin: Plugin = async ctx => {
   };
 
   bootstrap();
-  return {};
+
+  // 钩子不等待平台消息发送完成，避免拖慢 OpenCode 本身（事件在 handler 内按顺序处理）
+  return {
+    event: async ({ event }) => {
+      void handleBridgeEvent(mux, event);
+    },
+    'chat.message': async (_input, output) => {
+      handleBridgeChatMessage(output.message);
+    },
+    'tool.execute.before': async (input, output) => {
+      void handleBridgeToolStart(mux, input, output.args);
+    },
+    'tool.execute.after': async (input, output) => {
+      void handleBridgeToolEnd(mux, input, { title: output.title, output: output.output });
+    },
+  };
 };
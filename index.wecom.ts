@@ -0,0 +1,38 @@
+import { parseAccessConfig, parseQueueMode, parseStateFile } from './src/utils';
+import { AGENT_WECOM } from './src/constants';
+import type { WeComConfig } from './src/types';
+
+function readString(value: unknown): string {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function parseWeComConfig(options: Record<string, unknown>): WeComConfig {
+  const required = ['corp_id', 'agent_id', 'secret', 'token', 'encoding_aes_key', 'callback_url'];
+  const missing = required.filter(key => !readString(options[key]));
+  if (missing.length > 0) {
+    throw new Error(`[Plugin] Missing options for ${AGENT_WECOM}: ${missing.join(', ')}`);
+  }
+
+  const encodingAesKey = readString(options.encoding_aes_key);
+  if (encodingAesKey.length !== 43) {
+    throw new Error(`[Plugin] ${AGENT_WECOM}: encoding_aes_key must be 43 characters`);
+  }
+
+  const callbackUrlRaw = readString(options.callback_url);
+  const callbackUrl = callbackUrlRaw.startsWith('http') ? callbackUrlRaw : `http://${callbackUrlRaw}`;
+  const apiBaseUrl = readString(options.api_base_url) || 'https://qyapi.weixin.qq.com';
+
+  return {
+    corp_id: readString(options.corp_id),
+    agent_id: readString(options.agent_id),
+    secret: readString(options.secret),
+    token: readString(options.token),
+    encoding_aes_key: encodingAesKey,
+    callback_url: callbackUrl,
+    api_base_url: apiBaseUrl.replace(/\/+$/, ''),
+    state_file: parseStateFile(options.state_file),
+    queue_mode: parseQueueMode(options.queue_mode),
+    ...parseAccessConfig(options),
+  };
+}
@@ -2,11 +2,11 @@
 import type { FilePart, ToolPart, ToolState } from '@opencode-ai/sdk';
 import {
   SAFE_MAX_REASONING,
-  SAFE_MAX_TEXT,
   SAFE_MAX_TOOL_INPUT,
   SAFE_MAX_TOOL_OUTPUT,
 } from '../constants';
 import { getUpdateIntervalByAdapter } from '../utils';
+import type { DisplayModel, DisplayToolView } from '../types';
 import { Part } from '@opencode-ai/sdk';
 
 export type BufferStatus = 'streaming' | 'done' | 'aborted' | 'error';
@@ -26,7 +26,9 @@ export type ToolView = {
 };
 
 export interface MessageBuffer {
-  platformMsgId: string | null; // 平台消息ID（飞书 message_id / 其他平台 id）
+  platformMsgId: string | null; // 平台消息ID（飞书 message_id / 其他平台 id），分页时为最后一页
+  pageMsgIds: string[]; // 已定稿的前序分页消息ID
+  pagedTextLength: number; // 已写入前序分页的 answer 字符数
   reasoning: string; // 原始 reasoning
   text: string; // 原始 answer text
   tools: Map<string, ToolView>; // callID -> tool
@@ -52,6 +54,12 @@ export function clipTail(s: string, max: number): string {
   return s.slice(-max);
 }
 
+/** Clips `s` to `max` characters and marks the cut with `…`; `tail` keeps the end instead. */
+export function ellipsize(s: string, max: number, keep: 'head' | 'tail' = 'head'): string {
+  if (s.length <= max) return s;
+  return keep === 'head' ? `${s.slice(0, max - 1)}…` : `…${s.slice(-(max - 1))}`;
+}
+
 function safeJsonStringify(x: unknown, maxChars: number): string {
   try {
     const s = JSON.stringify(x, null, 2);
@@ -69,6 +77,8 @@ export function getOrInitBuffer(
   if (!buf) {
     buf = {
       platformMsgId: null,
+      pageMsgIds: [],
+      pagedTextLength: 0,
       reasoning: '',
       text: '',
       tools: new Map<string, ToolView>(),
@@ -95,97 +105,38 @@ export function markStatus(
   if (note) buf.statusNote = clipTail(String(note), 500);
 }
 
-export function buildDisplayContent(buffer: MessageBuffer): string {
-  const out: string[] = [];
-
-  out.push(buffer.isCommand ? '## Command' : '## Answer');
-  out.push(buffer.text ? clipTail(buffer.text, SAFE_MAX_TEXT) : '');
-  out.push('');
-
-  // Thinking
-  if (buffer.reasoning && buffer.reasoning.trim()) {
-    out.push('## Thinking');
-    out.push(clipTail(buffer.reasoning, SAFE_MAX_REASONING));
-    out.push('');
-  }
-
-  if (buffer.tools.size > 0) {
-    out.push('## Tools');
-
-    for (const t of buffer.tools.values()) {
-      const head = ['-', t.tool || 'tool', `(${t.status})`, t.title ? ` ${t.title}` : ''].join('');
-      out.push(head);
-
-      // input/output/error 保持“字段块”，renderer 再决定是否折叠/裁剪/隐藏
-      if (t.input !== undefined) {
-        out.push('  input:');
-        out.push('  ```json');
-        out.push(
-          safeJsonStringify(t.input, SAFE_MAX_TOOL_INPUT)
-            .split('\n')
-            .map(l => `  ${l}`)
-            .join('\n')
-        );
-        out.push('  ```');
-      }
-
-      if (t.output) {
-        out.push('  output:');
-        out.push('  ```');
-        out.push(
-          clipTail(t.output, SAFE_MAX_TOOL_OUTPUT)
-            .split('\n')
-            .map(l => `  ${l}`)
-            .join('\n')
-        );
-        out.push('  ```');
-      }
-
-      if (t.error) {
-        out.push('  error:');
-        out.push('  ```');
-        out.push(
-          clipTail(t.error, SAFE_MAX_TOOL_OUTPUT)
-            .split('\n')
-            .map(l => `  ${l}`)
-            .join('\n')
-        );
-        out.push('  ```');
-      }
-
-      // time（纯字段）
-      if (t.start || t.end) {
-        out.push(`  time: ${t.start ?? ''}${t.end ? ` -> ${t.end}` : ''}`);
-      }
-    }
-
-    out.push('');
-  }
-
-  if (buffer.files.length > 0) {
-    out.push('## Files');
-    buffer.files.forEach((f, idx) => {
-      const name = f.filename ? `${f.filename}` : `file-${idx + 1}`;
-      out.push(`- ${name} (${f.mime})`);
-      out.push(`  ${f.url}`);
-    });
-    out.push('');
-  }
-
-  // Status（纯字段，无 label/emoji）
-  out.push('## Status');
-  out.push(`${buffer.status}${buffer.statusNote ? `: ${buffer.statusNote}` : ''}`);
-  out.push(buffer.selectedAgent || 'default');
+export function buildDisplayModel(buffer: MessageBuffer): DisplayModel {
+  const tools: DisplayToolView[] = Array.from(buffer.tools.values()).map(t => ({
+    callID: t.callID,
+    tool: t.tool,
+    status: t.status,
+    title: t.title,
+    input: t.input !== undefined ? safeJsonStringify(t.input, SAFE_MAX_TOOL_INPUT) : undefined,
+    output: t.output ? clipTail(t.output, SAFE_MAX_TOOL_OUTPUT) : undefined,
+    error: t.error ? clipTail(t.error, SAFE_MAX_TOOL_OUTPUT) : undefined,
+    start: t.start,
+    end: t.end,
+  }));
+
+  let modelLabel: string | undefined;
   if (buffer.selectedModel) {
     const model = buffer.selectedModel;
     const rawModelLabel = model.name || model.modelID;
-    const modelLabel = rawModelLabel.includes('/')
+    modelLabel = rawModelLabel.includes('/')
       ? rawModelLabel.split('/').filter(Boolean).pop() || rawModelLabel
       : rawModelLabel;
-    out.push(modelLabel);
   }
 
-  return out.join('\n');
+  return {
+    kind: buffer.isCommand ? 'command' : 'answer',
+    answer: buffer.text,
+    reasoning: buffer.reasoning.trim() ? clipTail(buffer.reasoning, SAFE_MAX_REASONING) : '',
+    tools,
+    files: buffer.files.map(f => ({ ...f })),
+    status: { state: buffer.status, note: buffer.statusNote || undefined },
+    agent: buffer.selectedAgent,
+    model: modelLabel,
+  };
 }
 
 export function applyPartToBuffer(buffer: MessageBuffer, part: Part, delta?: string) {
@@ -217,6 +168,10 @@ export function applyPartToBuffer(buffer: MessageBuffer, part: Part, delta?: str
         status: state.status,
       } as ToolView);
 
+    // tool.execute.after 钩子可能先于 part 事件到达，已结束的工具不回退为运行中
+    const finished = view.status === 'completed' || view.status === 'error';
+    if (finished && (state.status === 'pending' || state.status === 'running')) return;
+
     view.tool = tool;
     view.status = state.status;
 
@@ -270,6 +225,42 @@ export function applyPartToBuffer(buffer: MessageBuffer, part: Part, delta?: str
   // 其它 part：暂不处理（renderer/后续需要再加）
 }
 
+/** `tool.execute.before` 钩子：工具开始执行，早于对应的 part 事件。 */
+export function applyToolStartToBuffer(
+  buffer: MessageBuffer,
+  tool: { callID: string; tool: string; args?: unknown },
+) {
+  const view = buffer.tools.get(tool.callID);
+  if (view && view.status !== 'pending') return;
+  buffer.tools.set(tool.callID, {
+    ...view,
+    callID: tool.callID,
+    tool: tool.tool,
+    status: 'running',
+    input: tool.args ?? view?.input,
+    start: view?.start ?? Date.now(),
+  });
+}
+
+/** `tool.execute.after` 钩子：工具执行完成（失败只通过 part 事件上报）。 */
+export function applyToolEndToBuffer(
+  buffer: MessageBuffer,
+  tool: { callID: string; tool: string; title?: string; output?: string },
+) {
+  const view = buffer.tools.get(tool.callID);
+  if (view?.status === 'completed' || view?.status === 'error') return;
+  buffer.tools.set(tool.callID, {
+    ...view,
+    callID: tool.callID,
+    tool: tool.tool,
+    status: 'completed',
+    title: tool.title || view?.title,
+    output: tool.output,
+    start: view?.start,
+    end: Date.now(),
+  });
+}
+
 export function shouldFlushNow(buffer: MessageBuffer, adapterKey?: string): boolean {
   const now = Date.now();
   const timeSinceLastUpdate = now - buffer.lastUpdateTime;
@@ -0,0 +1,130 @@
+// src/bridge/display.ts
+import type {
+  BridgeMessageContent,
+  DisplayFile,
+  DisplayKind,
+  DisplayModel,
+  DisplayToolView,
+} from '../types';
+
+const KIND_HEADERS: Record<DisplayKind, string> = {
+  answer: '## Answer',
+  command: '## Command',
+  error: '## Error',
+  status: '## Status',
+};
+
+export function isDisplayModel(content: BridgeMessageContent): content is DisplayModel {
+  return typeof content === 'object' && content !== null && 'kind' in content;
+}
+
+export function createTextDisplay(kind: DisplayKind, text: string): DisplayModel {
+  return { kind, answer: text, reasoning: '', tools: [], files: [] };
+}
+
+/** Agent runs (as opposed to one-off replies) carry a run status. */
+export function isRunDisplay(content: BridgeMessageContent): content is DisplayModel {
+  return isDisplayModel(content) && content.status !== undefined;
+}
+
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map(l => `  ${l}`)
+    .join('\n');
+}
+
+export function formatToolMarkdown(t: DisplayToolView): string {
+  const out: string[] = [];
+  out.push(['-', t.tool || 'tool', `(${t.status})`, t.title ? ` ${t.title}` : ''].join(''));
+
+  if (t.input !== undefined) {
+    out.push('  input:');
+    out.push('  ```json');
+    out.push(indent(t.input));
+    out.push('  ```');
+  }
+
+  if (t.output) {
+    out.push('  output:');
+    out.push('  ```');
+    out.push(indent(t.output));
+    out.push('  ```');
+  }
+
+  if (t.error) {
+    out.push('  error:');
+    out.push('  ```');
+    out.push(indent(t.error));
+    out.push('  ```');
+  }
+
+  if (t.start || t.end) {
+    out.push(`  time: ${t.start ?? ''}${t.end ? ` -> ${t.end}` : ''}`);
+  }
+  return out.join('\n');
+}
+
+export function formatFilesMarkdown(files: DisplayFile[]): string {
+  return files
+    .map((f, idx) => {
+      const name = f.filename ? `${f.filename}` : `file-${idx + 1}`;
+      return `- ${name} (${f.mime})\n  ${f.url}`;
+    })
+    .join('\n');
+}
+
+/** Status block lines: `state[: note]`, agent, optional model and page labels. */
+export function formatStatusLines(model: DisplayModel): string[] {
+  if (!model.status) return [];
+  if (model.page && !model.page.last) return [`page ${model.page.number} ↓`];
+  const { state, note } = model.status;
+  const lines = [`${state}${note ? `: ${note}` : ''}`, model.agent || 'default'];
+  if (model.model) lines.push(model.model);
+  if (model.page) lines.push(`page ${model.page.number}`);
+  return lines;
+}
+
+export function displayModelToMarkdown(model: DisplayModel): string {
+  const out: string[] = [];
+
+  if (model.kind === 'status') {
+    out.push(KIND_HEADERS.status);
+    out.push(model.answer);
+    return out.join('\n');
+  }
+
+  out.push(KIND_HEADERS[model.kind]);
+  out.push(model.answer);
+  out.push('');
+
+  if (model.reasoning.trim()) {
+    out.push('## Thinking');
+    out.push(model.reasoning);
+    out.push('');
+  }
+
+  if (model.tools.length > 0) {
+    out.push('## Tools');
+    model.tools.forEach(t => out.push(formatToolMarkdown(t)));
+    out.push('');
+  }
+
+  if (model.files.length > 0) {
+    out.push('## Files');
+    out.push(formatFilesMarkdown(model.files));
+    out.push('');
+  }
+
+  const statusLines = formatStatusLines(model);
+  if (statusLines.length > 0) {
+    out.push('## Status');
+    out.push(...statusLines);
+  }
+
+  return out.join('\n').trim();
+}
+
+export function toMarkdown(content: BridgeMessageContent): string {
+  return isDisplayModel(content) ? displayModelToMarkdown(content) : content;
+}
@@ -0,0 +1,260 @@
+// src/bridge/sections.ts
+import type { BridgeMessageContent, DisplayModel } from '../types';
+import {
+  formatFilesMarkdown,
+  formatStatusLines,
+  formatToolMarkdown,
+  isDisplayModel,
+} from './display';
+
+/**
+ * The card layout shared by the card-style renderers (Feishu, DingTalk, WeCom): one slot per
+ * section, filled either from a DisplayModel or from legacy handler markdown.
+ */
+export type CardSections = {
+  command: string;
+  error: string;
+  thinking: string;
+  answer: string;
+  toolPanels: string[];
+  files: string;
+  status: string;
+  streaming: boolean;
+};
+
+function trimSafe(s: string) {
+  return (s || '').trim();
+}
+
+function splitToolsIntoExecutionPanels(rawTools: string): string[] {
+  const raw = trimSafe(rawTools);
+  if (!raw) return [];
+
+  const lines = raw.split('\n');
+
+  const stepHeaderIndexes: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*###\s*steps?\s+\d+/i.test(lines[i])) stepHeaderIndexes.push(i);
+  }
+  if (stepHeaderIndexes.length > 0) {
+    const panels: string[] = [];
+    for (let i = 0; i < stepHeaderIndexes.length; i++) {
+      const start = stepHeaderIndexes[i];
+      const end = i + 1 < stepHeaderIndexes.length ? stepHeaderIndexes[i + 1] : lines.length;
+      const block = trimSafe(lines.slice(start + 1, end).join('\n'));
+      if (block) panels.push(block);
+    }
+    if (panels.length > 0) return panels;
+  }
+
+  const toolStartIndexes: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (/^-\s*\S+/.test(lines[i])) toolStartIndexes.push(i);
+  }
+  if (toolStartIndexes.length === 0) return [raw];
+
+  const panels: string[] = [];
+  for (let i = 0; i < toolStartIndexes.length; i++) {
+    const start = toolStartIndexes[i];
+    const end = i + 1 < toolStartIndexes.length ? toolStartIndexes[i + 1] : lines.length;
+    const block = trimSafe(lines.slice(start, end).join('\n'));
+    if (block) panels.push(block);
+  }
+  return panels.length > 0 ? panels : [raw];
+}
+
+function normalizeSectionTitle(rawTitle: string): string {
+  return (rawTitle || '')
+    .trim()
+    .replace(/[*#:：]/g, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+function matchSectionKey(
+  rawTitle: string,
+): 'thinking' | 'error' | 'command' | 'tools' | 'files' | 'status' | 'answer' | null {
+  const t = normalizeSectionTitle(rawTitle);
+  if (!t) return null;
+
+  if (['thinking', 'thought', '思考'].includes(t)) return 'thinking';
+  if (['error', '错误'].includes(t)) return 'error';
+  if (['command', '命令'].includes(t)) return 'command';
+  if (['tool', 'tools', 'step', 'steps', '工具', '步骤', 'tools / steps'].includes(t))
+    return 'tools';
+  if (['file', 'files', '文件'].includes(t)) return 'files';
+  if (['status', '状态'].includes(t)) return 'status';
+  if (['answer', '回答'].includes(t)) return 'answer';
+
+  return null;
+}
+
+export function getStatusWithEmoji(statusText: string): string {
+  const s = statusText.toLowerCase();
+  const isDone =
+    s.includes('done') || s.includes('stop') || s.includes('finish') || s.includes('idle');
+
+  const emoji = isDone ? '✅' : '⚡️';
+
+  const cleanText = statusText.replace(/\n/g, ' | ').slice(0, 100);
+  return `${emoji} ${cleanText}`;
+}
+
+export function splitStatusPaths(statusText: string): { status: string; paths: string[] } {
+  const lines = (statusText || '').split('\n');
+  const paths: string[] = [];
+  const keep: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('- ')) {
+      const p = trimmed.slice(2).trim();
+      if (p) {
+        paths.push(p);
+        continue;
+      }
+    }
+    keep.push(line);
+  }
+
+  return { status: keep.join('\n').trim(), paths };
+}
+
+function pickHeaderForStatus(statusRaw: string): { title: string; color: string } {
+  const statusText = trimSafe(statusRaw).toLowerCase();
+  const isFail =
+    statusText.includes('失败') ||
+    statusText.includes('error') ||
+    statusText.includes('fail') ||
+    statusText.includes('❌');
+  const isSuccess =
+    statusText.includes('成功') ||
+    statusText.includes('已保存') ||
+    statusText.includes('已存在') ||
+    statusText.includes('✅') ||
+    statusText.includes('🟡');
+  const isProcessing =
+    statusText.includes('正在处理') ||
+    statusText.includes('处理中') ||
+    statusText.includes('processing') ||
+    statusText.includes('loading') ||
+    statusText.includes('⏳');
+
+  if (isFail) return { title: '🚨 Error', color: 'red' };
+  if (isSuccess) return { title: '✅ Saved', color: 'green' };
+  if (isProcessing) return { title: '⏳ Loading', color: 'orange' };
+  return { title: '📝 Status', color: 'blue' };
+}
+
+export function parseSections(md: string) {
+  const sectionMap: Record<string, string> = {
+    command: '',
+    error: '',
+    thinking: '',
+    answer: '',
+    tools: '',
+    files: '',
+    status: '',
+  };
+
+  let cleanMd = md;
+
+  const thinkingBlockRegex = /^(\s*> [^]*?)(?=\n[^>]|$)/;
+  const thinkingMatch = md.match(thinkingBlockRegex);
+
+  if (thinkingMatch && !md.includes('## Thinking')) {
+    sectionMap.thinking = thinkingMatch[1];
+    cleanMd = md.slice(thinkingMatch[0].length);
+  }
+
+  const headerRegex = /(?:^|\n)(##+|(?:\*\*))\s*(.*?)(?:(?:\*\*|:)?)(?=\n|$)/g;
+  let match;
+
+  const firstMatch = headerRegex.exec(cleanMd);
+  if (firstMatch && firstMatch.index > 0) {
+    sectionMap.answer = cleanMd.slice(0, firstMatch.index);
+  }
+  headerRegex.lastIndex = 0;
+
+  while ((match = headerRegex.exec(cleanMd)) !== null) {
+    const rawTitle = match[2].toLowerCase().trim();
+    const startIndex = match.index + match[0].length;
+    const nextMatch = headerRegex.exec(cleanMd);
+    const endIndex = nextMatch ? nextMatch.index : cleanMd.length;
+    headerRegex.lastIndex = endIndex;
+
+    const content = cleanMd.slice(startIndex, endIndex);
+
+    const sectionKey = matchSectionKey(match[2]);
+    if (sectionKey) {
+      sectionMap[sectionKey] += content;
+    } else {
+      sectionMap.answer += `\n\n**${match[2]}**\n${content}`;
+    }
+
+    if (!nextMatch) break;
+    headerRegex.lastIndex = nextMatch.index;
+  }
+
+  if (
+    !sectionMap.answer &&
+    !sectionMap.command &&
+    !sectionMap.error &&
+    !sectionMap.thinking &&
+    !sectionMap.status
+  ) {
+    sectionMap.answer = cleanMd;
+  }
+
+  return sectionMap;
+}
+
+export function sectionsFromMarkdown(markdown: string): CardSections {
+  const { command, error, thinking, answer, tools, files, status } = parseSections(markdown);
+  return {
+    command,
+    error,
+    thinking,
+    answer,
+    toolPanels: splitToolsIntoExecutionPanels(tools),
+    files,
+    status,
+    streaming: /^streaming\b/i.test(splitStatusPaths(trimSafe(status)).status),
+  };
+}
+
+export function sectionsFromDisplayModel(model: DisplayModel): CardSections {
+  return {
+    command: model.kind === 'command' ? model.answer : '',
+    error: model.kind === 'error' ? model.answer : '',
+    thinking: model.reasoning,
+    answer: model.kind === 'answer' ? model.answer : '',
+    toolPanels: model.tools.map(formatToolMarkdown),
+    files: formatFilesMarkdown(model.files),
+    status: model.kind === 'status' ? model.answer : formatStatusLines(model).join('\n'),
+    streaming: model.status?.state === 'streaming',
+  };
+}
+
+export function sectionsFromContent(content: BridgeMessageContent): CardSections {
+  return isDisplayModel(content)
+    ? sectionsFromDisplayModel(content)
+    : sectionsFromMarkdown(content);
+}
+
+export function hasOnlyStatus(sections: CardSections): boolean {
+  const { command, answer, toolPanels, thinking } = sections;
+  return !trimSafe(command) && !trimSafe(answer) && toolPanels.length === 0 && !trimSafe(thinking);
+}
+
+/** Card header for the dominant section; `color` is a Feishu template name. */
+export function pickCardHeader(sections: CardSections): { title: string; color: string } {
+  const { command, error, thinking, answer, toolPanels, status } = sections;
+  if (trimSafe(error)) return { title: '🚨 Error', color: 'red' };
+  if (hasOnlyStatus(sections) && trimSafe(status)) return pickHeaderForStatus(status);
+  if (trimSafe(command)) return { title: '🧭 Command', color: 'green' };
+  if (trimSafe(answer)) return { title: '📝 Answer', color: 'blue' };
+  if (toolPanels.length > 0) return { title: '🧰 Tools / Steps', color: 'wathet' };
+  if (trimSafe(thinking)) return { title: '🤔 Thinking Process', color: 'turquoise' };
+  return { title: '🤖 AI Assistant', color: 'blue' };
+}
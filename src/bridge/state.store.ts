@@ -0,0 +1,219 @@
+// src/bridge/state.store.ts
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { BridgeStateSnapshot, BridgeStateStore } from '../types';
+import { bridgeLogger } from '../logger';
+
+export const DEFAULT_STATE_FILE =
+  process.env.BRIDGE_STATE_FILE || path.join(process.cwd(), 'bridge_files', 'state.json');
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === 'object' && x !== null && !Array.isArray(x);
+}
+
+function pickRecord<T>(value: unknown, map: (item: unknown) => T | null): Record<string, T> {
+  const out: Record<string, T> = {};
+  if (!isRecord(value)) return out;
+  for (const [k, v] of Object.entries(value)) {
+    const mapped = map(v);
+    if (mapped !== null) out[k] = mapped;
+  }
+  return out;
+}
+
+function asString(v: unknown): string | null {
+  return typeof v === 'string' && v ? v : null;
+}
+
+function asNonNegativeNumber(v: unknown): number | null {
+  return typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : null;
+}
+
+export function emptyStateSnapshot(): BridgeStateSnapshot {
+  return {
+    version: 1,
+    sessionCache: {},
+    sessionToAdapterKey: {},
+    sessionToCtx: {},
+    chatAgent: {},
+    chatModel: {},
+    chatMaxFileSizeMb: {},
+    chatMaxFileRetry: {},
+  };
+}
+
+export function normalizeStateSnapshot(raw: unknown): BridgeStateSnapshot | null {
+  if (!isRecord(raw) || raw.version !== 1) return null;
+  return {
+    version: 1,
+    sessionCache: pickRecord(raw.sessionCache, asString),
+    sessionToAdapterKey: pickRecord(raw.sessionToAdapterKey, asString),
+    sessionToCtx: pickRecord(raw.sessionToCtx, v =>
+      isRecord(v) && typeof v.chatId === 'string'
+        ? { chatId: v.chatId, senderId: typeof v.senderId === 'string' ? v.senderId : '' }
+        : null,
+    ),
+    chatAgent: pickRecord(raw.chatAgent, asString),
+    chatModel: pickRecord(raw.chatModel, v =>
+      isRecord(v) && typeof v.providerID === 'string' && typeof v.modelID === 'string'
+        ? {
+            providerID: v.providerID,
+            modelID: v.modelID,
+            ...(typeof v.name === 'string' ? { name: v.name } : {}),
+          }
+        : null,
+    ),
+    chatMaxFileSizeMb: pickRecord(raw.chatMaxFileSizeMb, asNonNegativeNumber),
+    chatMaxFileRetry: pickRecord(raw.chatMaxFileRetry, asNonNegativeNumber),
+  };
+}
+
+/**
+ * Map that reports every mutation, so callers keep using plain `set/delete/clear`
+ * while the owner persists the result.
+ */
+export class ObservedMap<K, V> extends Map<K, V> {
+  private onChange?: () => void;
+
+  observe(onChange: (() => void) | undefined) {
+    this.onChange = onChange;
+  }
+
+  set(key: K, value: V): this {
+    super.set(key, value);
+    this.onChange?.();
+    return this;
+  }
+
+  delete(key: K): boolean {
+    const removed = super.delete(key);
+    if (removed) this.onChange?.();
+    return removed;
+  }
+
+  clear(): void {
+    const hadEntries = this.size > 0;
+    super.clear();
+    if (hadEntries) this.onChange?.();
+  }
+}
+
+export type PersistedBridgeMaps = {
+  [K in Exclude<keyof BridgeStateSnapshot, 'version'>]: ObservedMap<
+    string,
+    BridgeStateSnapshot[K][string]
+  >;
+};
+
+/**
+ * Keeps the routing maps in sync with a `BridgeStateStore`: restores them once on attach,
+ * then saves a snapshot after every change.
+ */
+export class BridgeStateSync {
+  private store: BridgeStateStore | null = null;
+  private scheduled = false;
+  private chain = Promise.resolve();
+
+  // `maps` may be a larger deps object; only the snapshot's maps are observed.
+  constructor(private readonly maps: PersistedBridgeMaps) {}
+
+  async attach(store: BridgeStateStore) {
+    this.store = null;
+    const snapshot = await store.load();
+    if (snapshot) {
+      const { maps } = this;
+      const hydrate = <V>(target: Map<string, V>, source: Record<string, V>) => {
+        // Bindings made while the file was loading are newer than the file.
+        for (const [k, v] of Object.entries(source)) {
+          if (!target.has(k)) target.set(k, v);
+        }
+      };
+      hydrate(maps.sessionCache, snapshot.sessionCache);
+      hydrate(maps.sessionToAdapterKey, snapshot.sessionToAdapterKey);
+      hydrate(maps.sessionToCtx, snapshot.sessionToCtx);
+      hydrate(maps.chatAgent, snapshot.chatAgent);
+      hydrate(maps.chatModel, snapshot.chatModel);
+      hydrate(maps.chatMaxFileSizeMb, snapshot.chatMaxFileSizeMb);
+      hydrate(maps.chatMaxFileRetry, snapshot.chatMaxFileRetry);
+      bridgeLogger.info(
+        `[StateStore] restored chats=${maps.sessionCache.size} sessions=${maps.sessionToCtx.size}`,
+      );
+    }
+
+    this.store = store;
+    const keys = Object.keys(emptyStateSnapshot()).filter(k => k !== 'version');
+    for (const key of keys as Array<keyof PersistedBridgeMaps>) {
+      this.maps[key].observe(() => this.schedule());
+    }
+  }
+
+  snapshot(): BridgeStateSnapshot {
+    const { maps } = this;
+    const snapshot = emptyStateSnapshot();
+    snapshot.sessionCache = Object.fromEntries(maps.sessionCache);
+    snapshot.sessionToAdapterKey = Object.fromEntries(maps.sessionToAdapterKey);
+    snapshot.sessionToCtx = Object.fromEntries(maps.sessionToCtx);
+    snapshot.chatAgent = Object.fromEntries(maps.chatAgent);
+    snapshot.chatModel = Object.fromEntries(maps.chatModel);
+    snapshot.chatMaxFileSizeMb = Object.fromEntries(maps.chatMaxFileSizeMb);
+    snapshot.chatMaxFileRetry = Object.fromEntries(maps.chatMaxFileRetry);
+    return snapshot;
+  }
+
+  /** Resolves once every change made so far has been written. */
+  async flush() {
+    await Promise.resolve(); // let an already scheduled write join the chain
+    await this.chain;
+  }
+
+  private schedule() {
+    if (!this.store || this.scheduled) return;
+    this.scheduled = true;
+    // Coalesce the burst of set() calls from one handler step into a single write.
+    queueMicrotask(() => {
+      this.scheduled = false;
+      const store = this.store;
+      if (!store) return;
+      const snapshot = this.snapshot();
+      this.chain = this.chain
+        .then(() => store.save(snapshot))
+        .catch(err => bridgeLogger.error('[StateStore] ❌ persist failed', err));
+    });
+  }
+}
+
+export class JsonFileStateStore implements BridgeStateStore {
+  readonly filePath: string;
+
+  constructor(filePath: string = DEFAULT_STATE_FILE) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load(): Promise<BridgeStateSnapshot | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch {
+      bridgeLogger.info(`[StateStore] no state file yet path=${this.filePath}`);
+      return null;
+    }
+    try {
+      const snapshot = normalizeStateSnapshot(JSON.parse(raw));
+      if (!snapshot) {
+        bridgeLogger.warn(`[StateStore] ⚠️ unsupported state file, ignored path=${this.filePath}`);
+      }
+      return snapshot;
+    } catch (e) {
+      bridgeLogger.warn(`[StateStore] ⚠️ corrupted state file, ignored path=${this.filePath}`, e);
+      return null;
+    }
+  }
+
+  async save(snapshot: BridgeStateSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a sibling temp file first so a crash never leaves a half-written state file.
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(snapshot, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,173 @@
+// src/console/console.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeCommandInfo,
+  BridgeMessageContent,
+  ConsoleConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { ConsoleTerminal } from './console.terminal';
+import type { ConsoleIo } from './console.terminal';
+import { renderConsole, renderConsoleActionPrompt } from './console.renderer';
+import type { ConsoleStyle } from './console.renderer';
+import { bridgeLogger } from '../logger';
+import { isRunDisplay } from '../bridge/display';
+import { PAGE_TEXT_LIMIT } from '../constants';
+
+const STOP_ACTION_VALUE = 'abort';
+
+/**
+ * One local chat over stdin/stdout (or named pipes). Lines are prompts or slash commands,
+ * `!<n>` presses button n of the latest prompt and `!stop` aborts. On a terminal replies are
+ * redrawn in place; otherwise a streaming reply is printed once it is final.
+ */
+export class ConsoleAdapter implements BridgeAdapter {
+  provider: 'console' = 'console';
+  readonly pageTextLimit = PAGE_TEXT_LIMIT;
+  private readonly config: ConsoleConfig;
+  private readonly terminal: ConsoleTerminal;
+  private readonly style: ConsoleStyle;
+  private readonly rendered = new Map<string, string>(); // messageId -> last printed block
+  private latestPrompt: { id: string; prompt: BridgeActionPrompt } | null = null;
+  private seq = 0;
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: ConsoleConfig, io?: Partial<ConsoleIo>) {
+    this.config = config;
+    this.terminal = new ConsoleTerminal(
+      { inputPath: config.input_path, outputPath: config.output_path },
+      io,
+    );
+    this.style = { ansi: this.terminal.isTTY };
+  }
+
+  async start(
+    handler: IncomingMessageHandler,
+    onAction?: IncomingActionHandler,
+    commands?: BridgeCommandInfo[],
+  ) {
+    this.handler = handler;
+    this.actionHandler = onAction;
+    this.terminal.start(line => this.handleLine(line));
+    const hint = commands?.length ? ', /help for commands' : '';
+    this.terminal.print(
+      'banner',
+      `💻 console-bridge chat=${this.config.chat_id}: type a message${hint}, !stop to abort`,
+    );
+    bridgeLogger.info(
+      `[Console] adapter started chat=${this.config.chat_id} tty=${this.terminal.isTTY}`,
+    );
+  }
+
+  async stop() {
+    this.terminal.stop();
+    this.rendered.clear();
+  }
+
+  async sendMessage(_chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    const messageId = this.newMessageId('out');
+    if (this.isStreaming(content) && !this.terminal.isTTY) {
+      // Without redraws every flush would append a block; wait for the final edit instead.
+      this.rendered.set(messageId, '');
+      return messageId;
+    }
+    const block = renderConsole(content, this.style);
+    this.rendered.set(messageId, block);
+    this.terminal.print(messageId, block);
+    return messageId;
+  }
+
+  async editMessage(
+    _chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const previous = this.rendered.get(messageId);
+    if (previous === undefined) return false;
+    if (this.isStreaming(content) && !this.terminal.isTTY) return true;
+
+    const block = renderConsole(content, this.style);
+    if (block === previous) return true;
+    this.rendered.set(messageId, block);
+    if (previous && this.terminal.isLast(messageId)) this.terminal.redraw(messageId, block);
+    else this.terminal.print(messageId, block);
+    return true;
+  }
+
+  async sendActionPrompt(_chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    const messageId = this.newMessageId('prompt');
+    const block = renderConsoleActionPrompt(prompt, this.style);
+    this.rendered.set(messageId, block);
+    this.latestPrompt = prompt.actions.length > 0 ? { id: messageId, prompt } : null;
+    this.terminal.print(messageId, block);
+    return messageId;
+  }
+
+  async editActionPrompt(
+    _chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    if (!this.rendered.has(messageId)) return false;
+    if (this.latestPrompt?.id === messageId && prompt.actions.length === 0) {
+      this.latestPrompt = null;
+    }
+    const block = renderConsoleActionPrompt(prompt, this.style);
+    this.rendered.set(messageId, block);
+    this.terminal.redraw(messageId, block);
+    return true;
+  }
+
+  private handleLine(raw: string) {
+    const text = raw.trim();
+    if (!text) return;
+    const chatId = this.config.chat_id;
+    const senderId = this.config.sender_id;
+    // Input from a pipe is not echoed by any terminal, so show what is being asked.
+    if (this.config.input_path) this.terminal.print('input', `› ${text}`);
+
+    if (text.startsWith('!')) {
+      const value = this.resolveActionValue(text.slice(1).trim());
+      if (!value) {
+        this.terminal.print('notice', '⚠️ no such choice');
+        return;
+      }
+      const messageId = this.latestPrompt?.id || '';
+      bridgeLogger.info(`[Console] action chat=${chatId} value=${value}`);
+      void (this.actionHandler?.(chatId, value, senderId, messageId) || Promise.resolve(null))
+        .then(reply => {
+          if (reply) this.terminal.print('notice', reply);
+        })
+        .catch(err => bridgeLogger.warn('[Console] action handler failed', err));
+      return;
+    }
+
+    const messageId = this.newMessageId('in');
+    bridgeLogger.info(`[Console] incoming chat=${chatId} msg=${messageId} textLen=${text.length}`);
+    void this.handler?.(chatId, text, messageId, senderId).catch(err => {
+      bridgeLogger.error(`[Console] handler failed chat=${chatId} msg=${messageId}`, err);
+    });
+  }
+
+  /** `stop` / `abort`, a 1-based choice of the latest prompt, or a raw action value. */
+  private resolveActionValue(arg: string): string {
+    const lower = arg.toLowerCase();
+    if (lower === 'stop' || lower === STOP_ACTION_VALUE) return STOP_ACTION_VALUE;
+    if (/^\d+$/.test(arg)) {
+      return this.latestPrompt?.prompt.actions[Number(arg) - 1]?.value || '';
+    }
+    return arg;
+  }
+
+  private isStreaming(content: BridgeMessageContent): boolean {
+    return isRunDisplay(content) && content.status?.state === 'streaming';
+  }
+
+  private newMessageId(kind: string): string {
+    this.seq += 1;
+    return `console_${kind}_${this.seq}`;
+  }
+}
@@ -0,0 +1,86 @@
+// src/console/console.renderer.ts
+import type { BridgeActionPrompt, BridgeMessageContent } from '../types';
+import {
+  getStatusWithEmoji,
+  pickCardHeader,
+  sectionsFromContent,
+  splitStatusPaths,
+} from '../bridge/sections';
+
+/** `ansi` turns on colors; it is only set when the output is a terminal. */
+export type ConsoleStyle = { ansi: boolean };
+
+const MAX_THINKING_LINES = 4;
+const MAX_TOOL_LINES = 8;
+
+function trimSafe(s: string) {
+  return (s || '').trim();
+}
+
+function paint(style: ConsoleStyle, code: string, text: string): string {
+  return style.ansi && text ? `\x1b[${code}m${text}\x1b[0m` : text;
+}
+
+function clipChars(s: string, max: number): string {
+  return s.length <= max ? s : `${s.slice(0, max - 1)}…`;
+}
+
+/** Keeps the last lines of long thinking; the latest reasoning is the interesting part. */
+function tailLines(text: string, max: number): string[] {
+  const lines = trimSafe(text).split('\n').filter(Boolean);
+  return lines.length <= max ? lines : ['…', ...lines.slice(-max)];
+}
+
+/**
+ * Plain-text view of a reply: header, dim thinking tail, one line per tool step, file names,
+ * the body and a dim status line. Redraws replace the whole block, so it stays compact.
+ */
+export function renderConsole(content: BridgeMessageContent, style: ConsoleStyle): string {
+  const sections = sectionsFromContent(content);
+  const { command, error, thinking, answer, toolPanels, files, status, streaming } = sections;
+  const out: string[] = [paint(style, '1', pickCardHeader(sections).title)];
+
+  if (trimSafe(thinking)) {
+    for (const line of tailLines(thinking, MAX_THINKING_LINES)) {
+      out.push(paint(style, '2', `💭 ${line}`));
+    }
+  }
+
+  const hidden = toolPanels.length - MAX_TOOL_LINES;
+  if (hidden > 0) out.push(paint(style, '2', `⚙️ … +${hidden} earlier step(s)`));
+  for (const panel of toolPanels.slice(-MAX_TOOL_LINES)) {
+    const firstLine = trimSafe(panel).split('\n')[0].replace(/^-\s*/, '');
+    out.push(paint(style, '36', `⚙️ ${clipChars(firstLine, 100)}`));
+  }
+
+  // Inline data URLs would flood the terminal; names (and real links) are enough.
+  const fileLines = files
+    .split('\n')
+    .filter(line => trimSafe(line) && !/^\s*data:/.test(line))
+    .map(line => `🖼️ ${trimSafe(line).replace(/^-\s*/, '')}`);
+  out.push(...fileLines);
+
+  if (trimSafe(error)) out.push(paint(style, '31', trimSafe(error)));
+  for (const body of [command, answer]) {
+    if (trimSafe(body)) out.push(trimSafe(body));
+  }
+
+  if (trimSafe(status)) {
+    const { status: cleanStatus, paths } = splitStatusPaths(trimSafe(status));
+    const lines = paths.length > 0 ? [cleanStatus, ...paths] : [getStatusWithEmoji(cleanStatus)];
+    const hint = streaming ? '  (!stop to abort)' : '';
+    out.push(paint(style, '2', `${lines.filter(Boolean).join(' | ')}${hint}`));
+  }
+
+  return out.join('\n');
+}
+
+/** Buttons become numbered choices answered with `!<n>`. */
+export function renderConsoleActionPrompt(prompt: BridgeActionPrompt, style: ConsoleStyle): string {
+  const out = [paint(style, '1;33', prompt.title), trimSafe(prompt.body)];
+  prompt.actions.forEach((action, idx) => {
+    const color = action.style === 'danger' ? '31' : '32';
+    out.push(paint(style, color, `  !${idx + 1}  ${action.label}`));
+  });
+  return out.filter(Boolean).join('\n');
+}
@@ -0,0 +1,130 @@
+// src/console/console.terminal.ts
+import * as fs from 'node:fs';
+import * as readline from 'node:readline';
+import * as tty from 'node:tty';
+import { bridgeLogger } from '../logger';
+
+/** Streams the console bridge talks to; tests pass in-memory streams instead of stdin/stdout. */
+export type ConsoleIo = {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+  /** Redraws and colors are only used on a real terminal. */
+  isTTY: boolean;
+  columns: () => number;
+};
+
+const ANSI_RE = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+/** Terminal cells of one line: wide (CJK / emoji) characters take two. */
+function displayWidth(line: string): number {
+  let width = 0;
+  for (const ch of line.replace(ANSI_RE, '')) {
+    const code = ch.codePointAt(0) || 0;
+    width += code >= 0x1100 && (code <= 0x115f || code >= 0x2e80) ? 2 : 1;
+  }
+  return width;
+}
+
+function openOutput(path: string): Pick<ConsoleIo, 'output' | 'isTTY' | 'columns'> {
+  const fd = fs.openSync(path, 'a');
+  if (tty.isatty(fd)) {
+    const output = new tty.WriteStream(fd);
+    return { output, isTTY: true, columns: () => output.columns || 80 };
+  }
+  return { output: fs.createWriteStream(path, { fd }), isTTY: false, columns: () => 80 };
+}
+
+/**
+ * Line-based terminal I/O. The last printed block can be redrawn in place (cursor up + clear to
+ * end of screen), which only holds while nothing else writes to the same terminal.
+ */
+export class ConsoleTerminal {
+  readonly isTTY: boolean;
+  private readonly output: NodeJS.WritableStream;
+  private readonly columns: () => number;
+  private readonly inputPath?: string;
+  private input: NodeJS.ReadableStream;
+  private reader: readline.Interface | null = null;
+  private running = false;
+  private last: { key: string; rows: number } | null = null;
+
+  constructor(options: { inputPath?: string; outputPath?: string }, io: Partial<ConsoleIo> = {}) {
+    const out = io.output
+      ? { output: io.output, isTTY: !!io.isTTY, columns: io.columns || (() => 80) }
+      : options.outputPath
+        ? openOutput(options.outputPath)
+        : {
+            output: process.stdout,
+            isTTY: !!process.stdout.isTTY,
+            columns: () => process.stdout.columns || 80,
+          };
+    this.output = out.output;
+    this.isTTY = out.isTTY;
+    this.columns = out.columns;
+    this.inputPath = io.input ? undefined : options.inputPath;
+    this.input = io.input || process.stdin;
+  }
+
+  start(onLine: (line: string) => void) {
+    if (this.running) return;
+    this.running = true;
+    this.listen(onLine);
+  }
+
+  stop() {
+    this.running = false;
+    this.reader?.close();
+    this.reader = null;
+    if (this.inputPath) (this.input as fs.ReadStream).destroy();
+    else if (this.input === process.stdin) process.stdin.pause();
+  }
+
+  /** Prints a new block under `key`; a later `redraw` of the same key replaces it. */
+  print(key: string, block: string) {
+    this.output.write(`${block}\n`);
+    this.last = { key, rows: this.countRows(block) };
+  }
+
+  /** Replaces the block in place when it is still the last thing printed, else prints anew. */
+  redraw(key: string, block: string) {
+    if (!this.isTTY || this.last?.key !== key) {
+      this.print(key, block);
+      return;
+    }
+    this.output.write(`\x1b[${this.last.rows}A\r\x1b[0J${block}\n`);
+    this.last = { key, rows: this.countRows(block) };
+  }
+
+  isLast(key: string): boolean {
+    return this.last?.key === key;
+  }
+
+  private listen(onLine: (line: string) => void) {
+    if (this.inputPath) this.input = fs.createReadStream(this.inputPath);
+    const reader = readline.createInterface({ input: this.input, terminal: false });
+    this.reader = reader;
+    reader.on('line', line => {
+      // Typed input scrolls the terminal, so nothing above it can be redrawn any more.
+      if (!this.inputPath) this.last = null;
+      onLine(line);
+    });
+    reader.on('close', () => {
+      if (!this.running || this.reader !== reader) return;
+      this.reader = null;
+      if (!this.inputPath) {
+        bridgeLogger.info('[Console] input closed');
+        return;
+      }
+      // A named pipe hits EOF whenever its writer goes away; open it again for the next one.
+      bridgeLogger.debug(`[Console] input pipe closed, reopening path=${this.inputPath}`);
+      this.listen(onLine);
+    });
+  }
+
+  private countRows(block: string): number {
+    const columns = Math.max(this.columns(), 1);
+    return block
+      .split('\n')
+      .reduce((rows, line) => rows + Math.max(1, Math.ceil(displayWidth(line) / columns)), 0);
+  }
+}
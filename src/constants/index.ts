@@ -3,13 +3,43 @@
 export const AGENT_LARK = 'lark-bridge';
 export const AGENT_IMESSAGE = 'imessage-bridge';
 export const AGENT_TELEGRAM = 'telegram-bridge';
+export const AGENT_SLACK = 'slack-bridge';
+export const AGENT_DISCORD = 'discord-bridge';
+export const AGENT_DINGTALK = 'dingtalk-bridge';
+export const AGENT_WECOM = 'wecom-bridge';
+export const AGENT_MATRIX = 'matrix-bridge';
+export const AGENT_EMAIL = 'email-bridge';
+export const AGENT_HTTP = 'http-bridge';
+export const AGENT_CONSOLE = 'console-bridge';
 
-export const BRIDGE_AGENT_IDS = [AGENT_LARK, AGENT_IMESSAGE, AGENT_TELEGRAM] as const;
+export const BRIDGE_AGENT_IDS = [
+  AGENT_LARK,
+  AGENT_IMESSAGE,
+  AGENT_TELEGRAM,
+  AGENT_SLACK,
+  AGENT_DISCORD,
+  AGENT_DINGTALK,
+  AGENT_WECOM,
+  AGENT_MATRIX,
+  AGENT_EMAIL,
+  AGENT_HTTP,
+  AGENT_CONSOLE,
+] as const;
 
 export const LOADING_EMOJI = 'Typing';
 
 export const UPDATE_INTERVAL = 900;
 export const TELEGRAM_UPDATE_INTERVAL = 250;
+// chat.update is a Tier 3 method (~50 calls per minute per workspace).
+export const SLACK_UPDATE_INTERVAL = 1200;
+// Message edits share a per-channel bucket of 5 requests per 5 seconds.
+export const DISCORD_UPDATE_INTERVAL = 1200;
+// Interactive card updates count against the app's OpenAPI QPS quota.
+export const DINGTALK_UPDATE_INTERVAL = 1000;
+// Each m.replace edit is a new room event and counts against the homeserver's rate limit.
+export const MATRIX_UPDATE_INTERVAL = 1500;
+// SSE pushes are local and unmetered.
+export const HTTP_UPDATE_INTERVAL = 250;
 
 export const MAX_REASONING_CHARS = 4000;
 export const MAX_TEXT_CHARS = 16000;
@@ -17,8 +47,22 @@ export const MAX_TOOL_OUTPUT_CHARS = 4000;
 export const MAX_TOOL_INPUT_CHARS = 2000;
 
 export const SAFE_MAX_REASONING = 8000;
-export const SAFE_MAX_TEXT = 24000;
 export const SAFE_MAX_TOOL_INPUT = 4000;
 export const SAFE_MAX_TOOL_OUTPUT = 8000;
 
+// Answer characters per platform message before the rest moves to a new page.
+export const PAGE_TEXT_LIMIT = 8000;
+export const TELEGRAM_PAGE_TEXT_LIMIT = 3000;
+export const SLACK_PAGE_TEXT_LIMIT = 12000;
+export const DISCORD_PAGE_TEXT_LIMIT = 1900;
+// WeCom markdown messages are capped at 2048 bytes, and CJK text takes 3 bytes per character.
+export const WECOM_PAGE_TEXT_LIMIT = 600;
+// A run is answered with one mail, so the answer is never split across messages.
+export const EMAIL_PAGE_TEXT_LIMIT = 200000;
+
 export const BRIDGE_FEISHU_RESPONSE_TIMEOUT_MS = 60000;
+
+// OpenCode hands bus events to the plugin `event` hook; `event.subscribe()` is only the fallback
+// for hosts that never call it.
+export const HOOK_EVENT_GRACE_MS = 5000;
+export const EVENT_SUBSCRIPTION_RETRY_MS = 5000;
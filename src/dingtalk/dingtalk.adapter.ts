@@ -0,0 +1,60 @@
+// src/dingtalk/dingtalk.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  DingTalkConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { DingTalkClient } from './dingtalk.client';
+import { renderDingTalkActionPromptCard, renderDingTalkCard } from './dingtalk.renderer';
+import { bridgeLogger } from '../logger';
+import { PAGE_TEXT_LIMIT } from '../constants';
+
+/**
+ * DingTalk has no bot reactions and replies as StandardCard interactive cards, which are the
+ * only DingTalk bot messages that can be updated in place.
+ */
+export class DingTalkAdapter implements BridgeAdapter {
+  provider: 'dingtalk' = 'dingtalk';
+  readonly pageTextLimit = PAGE_TEXT_LIMIT;
+  private readonly client: DingTalkClient;
+
+  constructor(config: DingTalkConfig) {
+    this.client = new DingTalkClient(config);
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.client.start(handler, onAction);
+    bridgeLogger.info('[DingTalk] adapter started');
+  }
+
+  async stop() {
+    await this.client.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    return this.client.sendCard(chatId, renderDingTalkCard(content));
+  }
+
+  async editMessage(
+    _chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    return this.client.updateCard(messageId, renderDingTalkCard(content));
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.sendCard(chatId, renderDingTalkActionPromptCard(prompt));
+  }
+
+  async editActionPrompt(
+    _chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    return this.client.updateCard(messageId, renderDingTalkActionPromptCard(prompt));
+  }
+}
@@ -0,0 +1,390 @@
+// src/dingtalk/dingtalk.client.ts
+import * as crypto from 'node:crypto';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import type { DingTalkConfig, IncomingActionHandler, IncomingMessageHandler } from '../types';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId } from '../utils';
+import type { DingTalkCard } from './dingtalk.renderer';
+
+type StreamFrame = {
+  specVersion?: string;
+  type: 'SYSTEM' | 'CALLBACK' | 'EVENT';
+  headers: { topic?: string; messageId?: string; contentType?: string };
+  data: string;
+};
+
+type DingTalkRichTextItem = { text?: string; type?: string; downloadCode?: string };
+
+type DingTalkBotMessage = {
+  conversationId: string;
+  /** `1` = one-on-one chat, `2` = group chat (only @ mentions are delivered). */
+  conversationType: string;
+  msgId: string;
+  msgtype: string;
+  senderStaffId?: string;
+  senderId?: string;
+  robotCode?: string;
+  text?: { content?: string };
+  content?: {
+    downloadCode?: string;
+    fileName?: string;
+    recognition?: string;
+    richText?: DingTalkRichTextItem[];
+  };
+};
+
+type DingTalkCardCallback = {
+  outTrackId?: string;
+  userId?: string;
+  content?: string;
+};
+
+type ConversationTarget = { type: 'single' | 'group'; userId: string };
+
+const TOPIC_BOT_MESSAGE = '/v1.0/im/bot/messages/get';
+const TOPIC_CARD_CALLBACK = '/v1.0/card/instances/callback';
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const DINGTALK_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+export class DingTalkClient {
+  private readonly config: DingTalkConfig;
+  private socket: WebSocket | null = null;
+  private running = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = RECONNECT_MIN_MS;
+  private accessToken = '';
+  private accessTokenExpiresAt = 0;
+  private refreshAccessTokenPromise?: Promise<string>;
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private readonly seenMessageIds = new Set<string>();
+  private readonly targets = new Map<string, ConversationTarget>();
+  private readonly cardChats = new Map<string, string>();
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: DingTalkConfig) {
+    this.config = config;
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.running) {
+      bridgeLogger.info('[DingTalk] stream already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+    this.running = true;
+    await this.connect();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000);
+    bridgeLogger.info('[DingTalk] stream stopped');
+  }
+
+  /** Sends a StandardCard; the generated `outTrackId` is the message id used for updates. */
+  async sendCard(chatId: string, card: DingTalkCard): Promise<string | null> {
+    const target = this.targets.get(chatId);
+    if (!target) {
+      bridgeLogger.warn(`[DingTalk] send skipped: unknown conversation chat=${chatId}`);
+      return null;
+    }
+    const outTrackId = `bridge_${crypto.randomUUID()}`;
+    await this.apiCall('POST', '/v1.0/im/interactiveCards/send', {
+      cardTemplateId: 'StandardCard',
+      outTrackId,
+      robotCode: this.config.robot_code,
+      conversationType: target.type === 'group' ? 1 : 0,
+      ...(target.type === 'group'
+        ? { openConversationId: chatId }
+        : { singleChatReceiver: JSON.stringify({ userId: target.userId }) }),
+      cardData: JSON.stringify(card),
+      userIdType: 1,
+      pullStrategy: false,
+    });
+    this.cardChats.set(outTrackId, chatId);
+    return outTrackId;
+  }
+
+  async updateCard(outTrackId: string, card: DingTalkCard): Promise<boolean> {
+    await this.apiCall('PUT', '/v1.0/im/interactiveCards', {
+      outTrackId,
+      cardData: JSON.stringify(card),
+      userIdType: 1,
+      cardOptions: { updateCardDataByKey: false, updatePrivateDataByKey: false },
+    });
+    return true;
+  }
+
+  /** Feeds one Stream Mode frame through the client; returns the ack the server expects. */
+  async handleFrame(frame: StreamFrame): Promise<Record<string, unknown> | null> {
+    const messageId = frame.headers?.messageId || '';
+    const topic = frame.headers?.topic || '';
+    if (frame.type === 'SYSTEM') {
+      if (topic === 'ping') {
+        return { code: 200, headers: frame.headers, message: 'OK', data: frame.data };
+      }
+      if (topic === 'disconnect') {
+        bridgeLogger.info('[DingTalk] stream asked to reconnect');
+        this.socket?.close(1000);
+      }
+      return null;
+    }
+
+    const ack = {
+      code: 200,
+      headers: { contentType: 'application/json', messageId },
+      message: 'OK',
+      data: JSON.stringify({ response: null }),
+    };
+    let data: unknown;
+    try {
+      data = JSON.parse(frame.data || '{}');
+    } catch {
+      bridgeLogger.warn(`[DingTalk] frame data is not JSON topic=${topic}`);
+      return ack;
+    }
+    if (topic === TOPIC_BOT_MESSAGE) {
+      void this.handleBotMessage(data as DingTalkBotMessage).catch(err => {
+        bridgeLogger.warn('[DingTalk] message handling failed', asError(err).message);
+      });
+    } else if (topic === TOPIC_CARD_CALLBACK) {
+      void this.handleCardCallback(data as DingTalkCardCallback).catch(err => {
+        bridgeLogger.warn('[DingTalk] card callback failed', asError(err).message);
+      });
+    }
+    return ack;
+  }
+
+  private async connect(): Promise<void> {
+    const res = await this.apiCall<{ endpoint?: string; ticket?: string }>(
+      'POST',
+      '/v1.0/gateway/connections/open',
+      {
+        clientId: this.config.client_id,
+        clientSecret: this.config.client_secret,
+        subscriptions: [
+          { type: 'CALLBACK', topic: TOPIC_BOT_MESSAGE },
+          { type: 'CALLBACK', topic: TOPIC_CARD_CALLBACK },
+        ],
+        ua: 'opencode-bridge',
+      },
+      false,
+    );
+    if (!res?.endpoint || !res.ticket) {
+      throw new Error('[DingTalk] connections/open returned no endpoint');
+    }
+
+    const socket = new WebSocket(`${res.endpoint}?ticket=${encodeURIComponent(res.ticket)}`);
+    this.socket = socket;
+    socket.addEventListener('message', event => {
+      let frame: StreamFrame;
+      try {
+        frame = JSON.parse(String(event.data)) as StreamFrame;
+      } catch {
+        bridgeLogger.warn('[DingTalk] stream frame is not JSON');
+        return;
+      }
+      void this.handleFrame(frame).then(ack => {
+        if (ack && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(ack));
+      });
+    });
+    socket.addEventListener('close', event => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      bridgeLogger.info(`[DingTalk] stream closed code=${event.code}`);
+      this.scheduleReconnect();
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve(), { once: true });
+      socket.addEventListener('error', () => reject(new Error('stream open failed')), {
+        once: true,
+      });
+    });
+    this.reconnectDelay = RECONNECT_MIN_MS;
+    bridgeLogger.info(`[DingTalk] stream connected ${this.instanceTag}`);
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(err => {
+        bridgeLogger.warn(
+          `[DingTalk] stream reconnect failed delay=${delay}`,
+          asError(err).message,
+        );
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+
+  private rememberMessage(msgId: string): boolean {
+    if (this.seenMessageIds.has(msgId)) return false;
+    this.seenMessageIds.add(msgId);
+    if (this.seenMessageIds.size > 2000) {
+      const first = this.seenMessageIds.values().next().value;
+      if (first) this.seenMessageIds.delete(first);
+    }
+    return true;
+  }
+
+  private async handleBotMessage(message: DingTalkBotMessage): Promise<void> {
+    if (!message.msgId || !message.conversationId) return;
+    // Stream Mode redelivers frames whose ack got lost.
+    if (!this.rememberMessage(message.msgId)) return;
+
+    const chatId = message.conversationId;
+    const senderId = message.senderStaffId || message.senderId || '';
+    this.targets.set(chatId, {
+      type: message.conversationType === '2' ? 'group' : 'single',
+      userId: senderId,
+    });
+
+    const texts: string[] = [];
+    const downloadCodes: Array<{ code: string; fileName?: string }> = [];
+    if (message.msgtype === 'text') texts.push(message.text?.content || '');
+    if (message.msgtype === 'richText') {
+      for (const item of message.content?.richText || []) {
+        if (item.text) texts.push(item.text);
+        if (item.downloadCode) downloadCodes.push({ code: item.downloadCode });
+      }
+    }
+    if (message.msgtype === 'audio' && message.content?.recognition) {
+      texts.push(message.content.recognition);
+    }
+    if (['picture', 'file', 'video', 'audio'].includes(message.msgtype)) {
+      const code = message.content?.downloadCode;
+      if (code) downloadCodes.push({ code, fileName: message.content?.fileName });
+    }
+    const text = texts.join('\n').trim();
+
+    const fileParts: FilePartInput[] = [];
+    for (const item of downloadCodes) {
+      const part = await this.downloadFile(item.code, item.fileName).catch(err => {
+        bridgeLogger.warn(`[DingTalk] download failed msg=${message.msgId}`, asError(err).message);
+        return null;
+      });
+      if (part) fileParts.push(part);
+    }
+    if (!text && fileParts.length === 0) {
+      bridgeLogger.debug(`[DingTalk] skip msg=${message.msgId} reason=no_text_or_file`);
+      return;
+    }
+
+    bridgeLogger.info(
+      `[DingTalk] incoming chat=${chatId} type=${message.conversationType} sender=${senderId} msg=${message.msgId} textLen=${text.length} files=${fileParts.length}`,
+    );
+    await this.handler?.(chatId, text, message.msgId, senderId, fileParts);
+  }
+
+  private async handleCardCallback(callback: DingTalkCardCallback): Promise<void> {
+    const outTrackId = callback.outTrackId || '';
+    const chatId = this.cardChats.get(outTrackId);
+    let value = '';
+    try {
+      const content = JSON.parse(callback.content || '{}') as {
+        cardPrivateData?: { actionIds?: string[] };
+      };
+      value = content.cardPrivateData?.actionIds?.[0] || '';
+    } catch {
+      // Malformed content: nothing to route.
+    }
+    bridgeLogger.info(
+      `[DingTalk] card action chat=${chatId || ''} card=${outTrackId} sender=${callback.userId || ''} value=${value}`,
+    );
+    if (!chatId || !value || !this.actionHandler) return;
+
+    const reply = await this.actionHandler(chatId, value, callback.userId || '', outTrackId);
+    if (reply) {
+      await this.sendCard(chatId, {
+        config: { autoLayout: true, enableForward: false },
+        header: { title: { type: 'text', text: '🧭 Command' } },
+        contents: [{ type: 'markdown', text: reply, id: 'reply' }],
+      });
+    }
+  }
+
+  private async downloadFile(downloadCode: string, fileName?: string): Promise<FilePartInput> {
+    const res = await this.apiCall<{ downloadUrl?: string }>(
+      'POST',
+      '/v1.0/robot/messageFiles/download',
+      { downloadCode, robotCode: this.config.robot_code },
+    );
+    if (!res?.downloadUrl) throw new Error('[DingTalk] messageFiles/download returned no url');
+    const resp = await fetch(res.downloadUrl);
+    if (!resp.ok) throw new Error(`[DingTalk] file download failed: ${resp.status}`);
+    const buffer = Buffer.from(await resp.arrayBuffer());
+    if (buffer.length > DINGTALK_MAX_DOWNLOAD_BYTES) {
+      throw new Error(`[DingTalk] file too large size=${buffer.length}`);
+    }
+    const mime = resp.headers.get('content-type')?.split(';')[0] || 'application/octet-stream';
+    return {
+      type: 'file',
+      filename: fileName || `dingtalk-${downloadCode.slice(0, 8)}.${mime.split('/')[1] || 'bin'}`,
+      mime,
+      url: `data:${mime};base64,${buffer.toString('base64')}`,
+    };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) return this.accessToken;
+    // Sends racing on an expired token share one oauth2 call.
+    if (!this.refreshAccessTokenPromise) {
+      this.refreshAccessTokenPromise = this.refreshAccessToken().finally(() => {
+        this.refreshAccessTokenPromise = undefined;
+      });
+    }
+    return this.refreshAccessTokenPromise;
+  }
+
+  private async refreshAccessToken(): Promise<string> {
+    const res = await this.apiCall<{ accessToken?: string; expireIn?: number }>(
+      'POST',
+      '/v1.0/oauth2/accessToken',
+      { appKey: this.config.client_id, appSecret: this.config.client_secret },
+      false,
+    );
+    if (!res?.accessToken) throw new Error('[DingTalk] oauth2/accessToken returned no token');
+    this.accessToken = res.accessToken;
+    // Refresh a minute early so in-flight requests never carry an expired token.
+    this.accessTokenExpiresAt = Date.now() + ((res.expireIn || 7200) - 60) * 1000;
+    return this.accessToken;
+  }
+
+  private async apiCall<T = unknown>(
+    method: 'POST' | 'PUT',
+    path: string,
+    body: Record<string, unknown>,
+    authorized = true,
+  ): Promise<T | null> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (authorized) headers['x-acs-dingtalk-access-token'] = await this.getAccessToken();
+    const resp = await fetch(`${this.config.api_base_url}${path}`, {
+      method,
+      headers,
+      body: JSON.stringify(body),
+    });
+    const json = (await resp.json().catch(() => null)) as
+      | (T & { code?: string; message?: string })
+      | null;
+    if (!resp.ok) {
+      const detail = [json?.code, json?.message].filter(Boolean).join(' ');
+      throw new Error(`[DingTalk] ${method} ${path} failed: ${resp.status} ${detail}`.trim());
+    }
+    return json;
+  }
+}
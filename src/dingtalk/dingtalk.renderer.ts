@@ -0,0 +1,112 @@
+// src/dingtalk/dingtalk.renderer.ts
+import type { BridgeAction, BridgeActionPrompt, BridgeMessageContent } from '../types';
+import {
+  getStatusWithEmoji,
+  pickCardHeader,
+  sectionsFromContent,
+  splitStatusPaths,
+} from '../bridge/sections';
+import type { CardSections } from '../bridge/sections';
+import { ellipsize } from '../bridge/buffer';
+
+type DingTalkCardContent = Record<string, unknown>;
+
+/** `cardData` of a DingTalk `StandardCard` interactive card. */
+export type DingTalkCard = {
+  config: { autoLayout: boolean; enableForward: boolean };
+  header: { title: { type: 'text'; text: string } };
+  contents: DingTalkCardContent[];
+};
+
+const STOP_ACTION_VALUE = 'abort';
+const THINKING_LIMIT = 1000;
+const MAX_TOOL_PANELS = 6;
+
+const BUTTON_STATUS = { primary: 'primary', danger: 'warning', default: 'normal' } as const;
+
+function trimSafe(s: string) {
+  return (s || '').trim();
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map(line => `> ${line}`)
+    .join('\n');
+}
+
+function buttons(actions: BridgeAction[]): DingTalkCardContent {
+  return {
+    type: 'action',
+    actions: actions.map(a => ({
+      type: 'button',
+      label: { type: 'text', text: a.label },
+      actionType: 'request',
+      status: BUTTON_STATUS[a.style || 'default'],
+      // The button id comes back in `cardPrivateData.actionIds` of the callback.
+      id: a.value,
+    })),
+  };
+}
+
+function renderCardFromSections(sections: CardSections): DingTalkCard {
+  const { command, error, thinking, answer, toolPanels, files, status, streaming } = sections;
+  const contents: DingTalkCardContent[] = [];
+  const markdown = (text: string) => contents.push({ type: 'markdown', text });
+
+  if (trimSafe(thinking)) {
+    markdown(quote(`💭 ${ellipsize(trimSafe(thinking), THINKING_LIMIT, 'tail')}`));
+  }
+
+  const hidden = toolPanels.length - MAX_TOOL_PANELS;
+  if (hidden > 0) markdown(`… +${hidden} earlier step(s)`);
+  toolPanels.slice(-MAX_TOOL_PANELS).forEach((panel, idx) => {
+    const number = Math.max(hidden, 0) + idx + 1;
+    markdown(`**⚙️ Execution #${number}**\n\n${trimSafe(panel)}`);
+  });
+
+  // Inline data URLs are far too long for a card; the file names still show.
+  const fileList = files
+    .split('\n')
+    .filter(line => !/^\s*data:/.test(line))
+    .join('\n');
+  if (trimSafe(fileList)) markdown(`**🖼️ Files**\n\n${trimSafe(fileList)}`);
+
+  const body = [error, command, answer].map(trimSafe).filter(Boolean);
+  if (body.length > 0) {
+    if (contents.length > 0) contents.push({ type: 'divider' });
+    body.forEach(markdown);
+  } else if (!trimSafe(status) && !trimSafe(thinking)) {
+    markdown('Allocating resources...');
+  }
+
+  if (trimSafe(status)) {
+    const { status: cleanStatus, paths } = splitStatusPaths(trimSafe(status));
+    if (contents.length > 0) contents.push({ type: 'divider' });
+    const lines = paths.length > 0 ? [cleanStatus, ...paths] : [getStatusWithEmoji(cleanStatus)];
+    markdown(lines.filter(Boolean).join('\n\n'));
+    if (streaming) {
+      contents.push(buttons([{ label: '⏹️ Stop', value: STOP_ACTION_VALUE, style: 'danger' }]));
+    }
+  }
+
+  return {
+    config: { autoLayout: true, enableForward: true },
+    header: { title: { type: 'text', text: pickCardHeader(sections).title } },
+    contents: contents.map((c, idx) => ({ ...c, id: `${c.type}_${idx}` })),
+  };
+}
+
+export function renderDingTalkCard(content: BridgeMessageContent): DingTalkCard {
+  return renderCardFromSections(sectionsFromContent(content));
+}
+
+export function renderDingTalkActionPromptCard(prompt: BridgeActionPrompt): DingTalkCard {
+  const contents: DingTalkCardContent[] = [{ type: 'markdown', text: prompt.body, id: 'body' }];
+  if (prompt.actions.length > 0) contents.push({ ...buttons(prompt.actions), id: 'actions' });
+  return {
+    config: { autoLayout: true, enableForward: false },
+    header: { title: { type: 'text', text: prompt.title } },
+    contents,
+  };
+}
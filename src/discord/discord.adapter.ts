@@ -0,0 +1,115 @@
+// src/discord/discord.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  DiscordConfig,
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { DiscordClient } from './discord.client';
+import { renderDiscord, renderDiscordActionPrompt } from './discord.renderer';
+import { bridgeLogger } from '../logger';
+import { isDisplayModel, isRunDisplay } from '../bridge/display';
+import { simpleHash } from '../bridge/buffer';
+import { DISCORD_PAGE_TEXT_LIMIT } from '../constants';
+
+export class DiscordAdapter implements BridgeAdapter {
+  provider: 'discord' = 'discord';
+  readonly pageTextLimit = DISCORD_PAGE_TEXT_LIMIT;
+  private readonly client: DiscordClient;
+  private readonly sentFilesByMessage = new Map<string, Set<string>>();
+
+  constructor(config: DiscordConfig) {
+    this.client = new DiscordClient(config);
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.client.start(handler, onAction);
+    bridgeLogger.info('[Discord] adapter started');
+  }
+
+  async stop() {
+    this.sentFilesByMessage.clear();
+    await this.client.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    if (isRunDisplay(content) && content.status?.state === 'streaming') {
+      void this.client.sendTyping(chatId).catch(() => {});
+    }
+    const sentFiles = await this.sendNewFiles(chatId, content);
+    const messageId = await this.client.sendMessage(chatId, renderDiscord(content));
+    if (messageId && sentFiles.size > 0) this.sentFilesByMessage.set(messageId, sentFiles);
+    return messageId;
+  }
+
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const sent = this.sentFilesByMessage.get(messageId);
+    const sentNow = await this.sendNewFiles(chatId, content, sent);
+    if (sentNow.size > 0) {
+      this.sentFilesByMessage.set(messageId, new Set([...(sent || []), ...sentNow]));
+    }
+    return this.client.editMessage(chatId, messageId, renderDiscord(content));
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.sendMessage(chatId, renderDiscordActionPrompt(prompt));
+  }
+
+  async editActionPrompt(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    return this.client.editMessage(chatId, messageId, renderDiscordActionPrompt(prompt));
+  }
+
+  /** Discord reactions are keyed by emoji, so the emoji doubles as the reaction id. */
+  async addReaction(messageId: string, emojiType: string): Promise<string | null> {
+    const channelId = this.client.getChannelByIncomingMessageId(messageId);
+    if (!channelId) return null;
+    const emoji = emojiType === 'Typing' ? '⏳' : emojiType || '⏳';
+    try {
+      await this.client.addReaction(channelId, messageId, emoji);
+      return emoji;
+    } catch (err) {
+      bridgeLogger.warn(`[Discord] addReaction failed msg=${messageId} emoji=${emoji}`, err);
+      return null;
+    }
+  }
+
+  async removeReaction(messageId: string, reactionId: string): Promise<void> {
+    const channelId = this.client.getChannelByIncomingMessageId(messageId);
+    if (!channelId) return;
+    await this.client.removeReaction(channelId, messageId, reactionId);
+  }
+
+  private async sendNewFiles(
+    chatId: string,
+    content: BridgeMessageContent,
+    sent?: Set<string>,
+  ): Promise<Set<string>> {
+    const sentNow = new Set<string>();
+    if (!isDisplayModel(content)) return sentNow;
+    for (const file of content.files) {
+      const sig = this.fileSignature(file);
+      if (!file.url || sent?.has(sig)) continue;
+      const ok = await this.client.uploadFile(chatId, file).catch(err => {
+        bridgeLogger.warn(`[Discord] file upload failed chat=${chatId}`, err);
+        return false;
+      });
+      if (ok) sentNow.add(sig);
+    }
+    return sentNow;
+  }
+
+  private fileSignature(file: DisplayFile): string {
+    return simpleHash(`${file.filename || ''}|${file.mime || ''}|${file.url || ''}`);
+  }
+}
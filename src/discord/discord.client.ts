@@ -0,0 +1,422 @@
+// src/discord/discord.client.ts
+import type {
+  DiscordConfig,
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId, sleep } from '../utils';
+import { DiscordGateway } from './discord.gateway';
+import type { DiscordRendered } from './discord.renderer';
+
+type DiscordUser = {
+  id: string;
+  bot?: boolean;
+};
+
+type DiscordAttachment = {
+  id: string;
+  filename?: string;
+  content_type?: string;
+  size?: number;
+  url: string;
+};
+
+type DiscordMessage = {
+  id: string;
+  type?: number;
+  channel_id: string;
+  guild_id?: string;
+  author?: DiscordUser;
+  content?: string;
+  mentions?: DiscordUser[];
+  attachments?: DiscordAttachment[];
+};
+
+type DiscordInteraction = {
+  id: string;
+  token: string;
+  type: number;
+  application_id?: string;
+  channel_id?: string;
+  member?: { user?: DiscordUser };
+  user?: DiscordUser;
+  message?: { id: string };
+  data?: { custom_id?: string };
+};
+
+type DiscordChannel = {
+  id: string;
+  type: number;
+  owner_id?: string;
+};
+
+type ChannelInfo = { isThread: boolean; ownedByBot: boolean };
+
+// GUILDS | GUILD_MESSAGES | DIRECT_MESSAGES | MESSAGE_CONTENT (privileged, enabled in the portal).
+const GATEWAY_INTENTS = (1 << 0) | (1 << 9) | (1 << 12) | (1 << 15);
+const MESSAGE_TYPE_DEFAULT = 0;
+const MESSAGE_TYPE_REPLY = 19;
+const THREAD_CHANNEL_TYPES = new Set([10, 11, 12]);
+const INTERACTION_MESSAGE_COMPONENT = 3;
+const INTERACTION_DEFERRED_UPDATE = 6;
+const EPHEMERAL_FLAG = 1 << 6;
+const THREAD_ARCHIVE_MINUTES = 1440;
+const DISCORD_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+const DISCORD_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function decodeDataUrl(dataUrl: string): { mime: string; buffer: Buffer } | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mime: match[1], buffer: Buffer.from(match[2], 'base64') };
+}
+
+function threadNameFrom(text: string): string {
+  const firstLine = text.split('\n').find(l => l.trim()) || '';
+  const name = firstLine.trim().slice(0, 80);
+  return name || 'OpenCode session';
+}
+
+export class DiscordClient {
+  private readonly config: DiscordConfig;
+  private gateway: DiscordGateway | null = null;
+  private botUserId = '';
+  private applicationId = '';
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private readonly incomingMessageChannelMap = new Map<string, string>();
+  private readonly channelInfo = new Map<string, ChannelInfo>();
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: DiscordConfig) {
+    this.config = config;
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.gateway) {
+      bridgeLogger.info('[Discord] gateway already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+
+    const me = await this.apiCall<DiscordUser>('GET', '/users/@me');
+    this.botUserId = me?.id || '';
+    bridgeLogger.info(`[Discord] auth ok bot=${this.botUserId} ${this.instanceTag}`);
+
+    this.gateway = new DiscordGateway(
+      this.config.bot_token,
+      GATEWAY_INTENTS,
+      async () => {
+        const res = await this.apiCall<{ url: string }>('GET', '/gateway/bot');
+        if (!res?.url) throw new Error('[Discord] /gateway/bot returned no url');
+        return res.url;
+      },
+      (event, data) => this.handleDispatch(event, data),
+    );
+    await this.gateway.connect().catch(err => {
+      // The gateway keeps retrying in the background.
+      bridgeLogger.warn(
+        `[Discord] gateway connect failed ${this.instanceTag}`,
+        asError(err).message,
+      );
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.gateway?.stop();
+    this.gateway = null;
+    bridgeLogger.info('[Discord] gateway stopped');
+  }
+
+  async sendMessage(channelId: string, rendered: DiscordRendered): Promise<string | null> {
+    if (!rendered.content && rendered.embeds.length === 0) return null;
+    const res = await this.apiCall<DiscordMessage>('POST', `/channels/${channelId}/messages`, {
+      ...rendered,
+      allowed_mentions: { parse: [] },
+    });
+    return res?.id || null;
+  }
+
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    rendered: DiscordRendered,
+  ): Promise<boolean> {
+    if (!rendered.content && rendered.embeds.length === 0) return false;
+    const res = await this.apiCall<DiscordMessage>(
+      'PATCH',
+      `/channels/${channelId}/messages/${messageId}`,
+      { ...rendered, allowed_mentions: { parse: [] } },
+    );
+    return Boolean(res);
+  }
+
+  async sendTyping(channelId: string): Promise<void> {
+    await this.apiCall('POST', `/channels/${channelId}/typing`);
+  }
+
+  async addReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    const path = `/channels/${channelId}/messages/${messageId}/reactions`;
+    await this.apiCall('PUT', `${path}/${encodeURIComponent(emoji)}/@me`);
+  }
+
+  async removeReaction(channelId: string, messageId: string, emoji: string): Promise<void> {
+    const path = `/channels/${channelId}/messages/${messageId}/reactions`;
+    await this.apiCall('DELETE', `${path}/${encodeURIComponent(emoji)}/@me`);
+  }
+
+  getChannelByIncomingMessageId(messageId: string): string | null {
+    return this.incomingMessageChannelMap.get(messageId) || null;
+  }
+
+  /** Posts the file as its own message (multipart `files[0]` + `payload_json`). */
+  async uploadFile(channelId: string, file: DisplayFile): Promise<boolean> {
+    const resolved = await this.resolveFileBytes(file);
+    if (!resolved) return false;
+    const filename = file.filename || `file.${resolved.mime.split('/')[1] || 'bin'}`;
+
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify({ attachments: [{ id: 0, filename }] }));
+    const blob = new Blob([new Uint8Array(resolved.buffer)], { type: resolved.mime });
+    form.append('files[0]', blob, filename);
+    const res = await this.apiCall<DiscordMessage>('POST', `/channels/${channelId}/messages`, form);
+    bridgeLogger.info(
+      `[Discord] file uploaded channel=${channelId} msg=${res?.id || ''} name=${filename} size=${resolved.buffer.length}`,
+    );
+    return Boolean(res);
+  }
+
+  /** Gateway dispatch entry point; handlers run detached so the socket is never blocked. */
+  handleDispatch(event: string, data: unknown): void {
+    if (event === 'READY') {
+      const ready = data as { user?: DiscordUser; application?: { id: string } };
+      this.botUserId = ready?.user?.id || this.botUserId;
+      this.applicationId = ready?.application?.id || this.applicationId;
+      bridgeLogger.info(`[Discord] gateway ready bot=${this.botUserId} ${this.instanceTag}`);
+      return;
+    }
+    if (event === 'MESSAGE_CREATE') {
+      void this.handleMessage(data as DiscordMessage).catch(err => {
+        bridgeLogger.warn('[Discord] message handling failed', asError(err).message);
+      });
+      return;
+    }
+    if (event === 'INTERACTION_CREATE') {
+      void this.handleInteraction(data as DiscordInteraction).catch(err => {
+        bridgeLogger.warn('[Discord] interaction handling failed', asError(err).message);
+      });
+      return;
+    }
+    if (event === 'THREAD_DELETE') {
+      this.channelInfo.delete((data as { id?: string })?.id || '');
+    }
+  }
+
+  private async resolveFileBytes(
+    file: DisplayFile,
+  ): Promise<{ mime: string; buffer: Buffer } | null> {
+    let resolved: { mime: string; buffer: Buffer } | null = null;
+    if (file.url.startsWith('data:')) {
+      resolved = decodeDataUrl(file.url);
+      if (!resolved) bridgeLogger.warn('[Discord] skip file: invalid data URL');
+    } else if (/^https?:\/\//.test(file.url)) {
+      const resp = await fetch(file.url);
+      if (!resp.ok) throw new Error(`[Discord] download failed: ${resp.status}`);
+      resolved = {
+        mime: resp.headers.get('content-type') || 'application/octet-stream',
+        buffer: Buffer.from(await resp.arrayBuffer()),
+      };
+    } else {
+      bridgeLogger.warn('[Discord] skip file: unsupported URL scheme');
+    }
+    if (!resolved) return null;
+    if (resolved.buffer.length > DISCORD_MAX_UPLOAD_BYTES) {
+      bridgeLogger.warn(`[Discord] skip file: too large size=${resolved.buffer.length}`);
+      return null;
+    }
+    return { mime: file.mime || resolved.mime, buffer: resolved.buffer };
+  }
+
+  private async buildFileParts(attachments: DiscordAttachment[]): Promise<FilePartInput[]> {
+    const parts: FilePartInput[] = [];
+    for (const att of attachments) {
+      if ((att.size || 0) > DISCORD_MAX_DOWNLOAD_BYTES) {
+        bridgeLogger.warn(`[Discord] skip attachment: too large id=${att.id} size=${att.size}`);
+        continue;
+      }
+      const resp = await fetch(att.url);
+      if (!resp.ok) throw new Error(`[Discord] attachment download failed: ${resp.status}`);
+      const buffer = Buffer.from(await resp.arrayBuffer());
+      const mime = att.content_type || 'application/octet-stream';
+      parts.push({
+        type: 'file',
+        filename: att.filename || `attachment-${att.id}`,
+        mime,
+        url: `data:${mime};base64,${buffer.toString('base64')}`,
+      });
+    }
+    return parts;
+  }
+
+  private async getChannelInfo(channelId: string): Promise<ChannelInfo> {
+    const cached = this.channelInfo.get(channelId);
+    if (cached) return cached;
+    const channel = await this.apiCall<DiscordChannel>('GET', `/channels/${channelId}`);
+    const info = {
+      isThread: THREAD_CHANNEL_TYPES.has(channel?.type ?? -1),
+      ownedByBot: !!this.botUserId && channel?.owner_id === this.botUserId,
+    };
+    this.channelInfo.set(channelId, info);
+    return info;
+  }
+
+  /** Opens a thread on the user's message; the thread id becomes the bridge chat id. */
+  private async startThread(message: DiscordMessage, text: string): Promise<string | null> {
+    try {
+      const thread = await this.apiCall<DiscordChannel>(
+        'POST',
+        `/channels/${message.channel_id}/messages/${message.id}/threads`,
+        { name: threadNameFrom(text), auto_archive_duration: THREAD_ARCHIVE_MINUTES },
+      );
+      if (!thread?.id) return null;
+      this.channelInfo.set(thread.id, { isThread: true, ownedByBot: true });
+      bridgeLogger.info(
+        `[Discord] thread started channel=${message.channel_id} msg=${message.id} thread=${thread.id}`,
+      );
+      return thread.id;
+    } catch (err) {
+      bridgeLogger.warn(
+        `[Discord] start thread failed channel=${message.channel_id} msg=${message.id}`,
+        asError(err).message,
+      );
+      return null;
+    }
+  }
+
+  private stripBotMention(text: string): string {
+    if (!this.botUserId) return text;
+    return text.replace(new RegExp(`<@!?${this.botUserId}>`, 'g'), ' ');
+  }
+
+  private async handleMessage(message: DiscordMessage): Promise<void> {
+    const author = message.author;
+    if (!author || author.bot || author.id === this.botUserId) return;
+    const type = message.type ?? MESSAGE_TYPE_DEFAULT;
+    if (type !== MESSAGE_TYPE_DEFAULT && type !== MESSAGE_TYPE_REPLY) return;
+
+    const channelId = message.channel_id;
+    const mentioned = (message.mentions || []).some(u => u.id === this.botUserId);
+    const text = this.stripBotMention(message.content || '').trim();
+
+    let chatId = channelId;
+    if (message.guild_id) {
+      const info = await this.getChannelInfo(channelId);
+      const needsMention = this.config.require_mention && !(info.isThread && info.ownedByBot);
+      if (needsMention && !mentioned) {
+        bridgeLogger.debug(
+          `[Discord] skip channel=${channelId} msg=${message.id} reason=no_mention`,
+        );
+        return;
+      }
+      if (!info.isThread && this.config.use_threads) {
+        chatId = (await this.startThread(message, text)) || channelId;
+      }
+    }
+
+    let fileParts: FilePartInput[] = [];
+    try {
+      fileParts = await this.buildFileParts(message.attachments || []);
+    } catch (err) {
+      bridgeLogger.warn(`[Discord] build file parts failed msg=${message.id}`, err);
+    }
+    if (!text && fileParts.length === 0) {
+      bridgeLogger.debug(`[Discord] skip msg=${message.id} reason=no_text_or_file`);
+      return;
+    }
+
+    // Reactions go on the user's message, which stays in the parent channel.
+    this.incomingMessageChannelMap.set(message.id, channelId);
+    if (this.incomingMessageChannelMap.size > 2000) {
+      const first = this.incomingMessageChannelMap.keys().next().value;
+      if (first) this.incomingMessageChannelMap.delete(first);
+    }
+
+    bridgeLogger.info(
+      `[Discord] incoming chat=${chatId} channel=${channelId} sender=${author.id} msg=${message.id} textLen=${text.length} files=${fileParts.length}`,
+    );
+    await this.handler?.(chatId, text, message.id, author.id, fileParts);
+  }
+
+  private async handleInteraction(interaction: DiscordInteraction): Promise<void> {
+    if (interaction.type !== INTERACTION_MESSAGE_COMPONENT) return;
+    const channelId = interaction.channel_id || '';
+    const senderId = interaction.member?.user?.id || interaction.user?.id || '';
+    const messageId = interaction.message?.id || '';
+    const value = interaction.data?.custom_id || '';
+    bridgeLogger.info(
+      `[Discord] interaction channel=${channelId} sender=${senderId} msg=${messageId} value=${value}`,
+    );
+
+    // Acknowledge within Discord's 3 second window; the answer follows as an ephemeral message.
+    await this.apiCall('POST', `/interactions/${interaction.id}/${interaction.token}/callback`, {
+      type: INTERACTION_DEFERRED_UPDATE,
+    });
+    if (!channelId || !value || !this.actionHandler) return;
+
+    const reply = await this.actionHandler(channelId, value, senderId, messageId).catch(err => {
+      bridgeLogger.warn('[Discord] interaction handler failed', asError(err).message);
+      return null;
+    });
+    const applicationId = interaction.application_id || this.applicationId;
+    if (!reply || !applicationId) return;
+    await this.apiCall('POST', `/webhooks/${applicationId}/${interaction.token}`, {
+      content: reply,
+      flags: EPHEMERAL_FLAG,
+    }).catch(err => {
+      bridgeLogger.warn('[Discord] interaction follow-up failed', asError(err).message);
+    });
+  }
+
+  private async apiCall<T = unknown>(
+    method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE',
+    path: string,
+    body?: Record<string, unknown> | FormData,
+  ): Promise<T | null> {
+    const url = `${this.config.api_base_url}${path}`;
+    const isForm = body instanceof FormData;
+    const init: RequestInit = {
+      method,
+      headers: {
+        authorization: `Bot ${this.config.bot_token}`,
+        'user-agent': 'DiscordBot (message-bridge-opencode-plugin, 1.0)',
+        ...(body && !isForm ? { 'content-type': 'application/json' } : {}),
+      },
+      ...(body ? { body: isForm ? body : JSON.stringify(body) } : {}),
+    };
+
+    let resp = await fetch(url, init);
+    if (resp.status === 429) {
+      const limited = (await resp.json().catch(() => ({}))) as { retry_after?: number };
+      const retryAfter = Number(limited.retry_after) || 1;
+      bridgeLogger.warn(`[Discord] ${method} ${path} rate limited retryAfter=${retryAfter}s`);
+      await sleep(retryAfter * 1000);
+      resp = await fetch(url, init);
+    }
+
+    if (resp.status === 204) return null;
+    const json = (await resp.json().catch(() => null)) as (T & { message?: string }) | null;
+    if (!resp.ok) {
+      throw new Error(
+        `[Discord] ${method} ${path} failed: ${resp.status} ${json?.message || resp.statusText}`,
+      );
+    }
+    return json;
+  }
+}
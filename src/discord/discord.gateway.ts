@@ -0,0 +1,201 @@
+// src/discord/discord.gateway.ts
+import { bridgeLogger } from '../logger';
+
+type GatewayPayload = {
+  op: number;
+  d?: unknown;
+  s?: number | null;
+  t?: string | null;
+};
+
+export type DiscordDispatchHandler = (event: string, data: unknown) => void;
+
+const GATEWAY_VERSION = 10;
+const OP_DISPATCH = 0;
+const OP_HEARTBEAT = 1;
+const OP_IDENTIFY = 2;
+const OP_RESUME = 6;
+const OP_RECONNECT = 7;
+const OP_INVALID_SESSION = 9;
+const OP_HELLO = 10;
+const OP_HEARTBEAT_ACK = 11;
+// Authentication failed, invalid/disallowed intents: retrying cannot help.
+const FATAL_CLOSE_CODES = new Set([4004, 4010, 4011, 4012, 4013, 4014]);
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * One Discord gateway connection: identify, heartbeat, resume after drops and hand every
+ * dispatch (`MESSAGE_CREATE`, `INTERACTION_CREATE`, ...) to `onDispatch`.
+ */
+export class DiscordGateway {
+  private socket: WebSocket | null = null;
+  private running = false;
+  private seq: number | null = null;
+  private sessionId = '';
+  private resumeUrl = '';
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatAcked = true;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = RECONNECT_MIN_MS;
+
+  constructor(
+    private readonly token: string,
+    private readonly intents: number,
+    private readonly resolveUrl: () => Promise<string>,
+    private readonly onDispatch: DiscordDispatchHandler,
+  ) {}
+
+  async connect(): Promise<void> {
+    this.running = true;
+    await this.open(await this.resolveUrl(), false);
+  }
+
+  stop(): void {
+    this.running = false;
+    this.stopHeartbeat();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000);
+  }
+
+  private async open(baseUrl: string, resume: boolean): Promise<void> {
+    const url = `${baseUrl.replace(/\/+$/, '')}/?v=${GATEWAY_VERSION}&encoding=json`;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.addEventListener('message', event => {
+      let payload: GatewayPayload;
+      try {
+        payload = JSON.parse(String(event.data)) as GatewayPayload;
+      } catch {
+        bridgeLogger.warn('[Discord] gateway payload is not JSON');
+        return;
+      }
+      this.handlePayload(socket, payload, resume);
+    });
+    socket.addEventListener('close', event => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopHeartbeat();
+      if (FATAL_CLOSE_CODES.has(event.code)) {
+        this.running = false;
+        bridgeLogger.error(`[Discord] gateway closed code=${event.code}, not reconnecting`);
+        return;
+      }
+      bridgeLogger.info(`[Discord] gateway closed code=${event.code}`);
+      this.scheduleReconnect();
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve(), { once: true });
+      socket.addEventListener('error', () => reject(new Error('gateway open failed')), {
+        once: true,
+      });
+    });
+  }
+
+  private handlePayload(socket: WebSocket, payload: GatewayPayload, resume: boolean): void {
+    if (typeof payload.s === 'number') this.seq = payload.s;
+
+    switch (payload.op) {
+      case OP_HELLO: {
+        const hello = payload.d as { heartbeat_interval?: number } | undefined;
+        const interval = Number(hello?.heartbeat_interval);
+        this.startHeartbeat(socket, interval > 0 ? interval : 41250);
+        if (resume && this.sessionId) {
+          this.send(socket, OP_RESUME, {
+            token: this.token,
+            session_id: this.sessionId,
+            seq: this.seq,
+          });
+        } else {
+          this.send(socket, OP_IDENTIFY, {
+            token: this.token,
+            intents: this.intents,
+            properties: {
+              os: process.platform,
+              browser: 'opencode-bridge',
+              device: 'opencode-bridge',
+            },
+          });
+        }
+        return;
+      }
+      case OP_HEARTBEAT_ACK:
+        this.heartbeatAcked = true;
+        return;
+      case OP_HEARTBEAT:
+        this.send(socket, OP_HEARTBEAT, this.seq);
+        return;
+      case OP_RECONNECT:
+        bridgeLogger.info('[Discord] gateway asked to reconnect');
+        socket.close(4000);
+        return;
+      case OP_INVALID_SESSION:
+        if (payload.d !== true) {
+          this.sessionId = '';
+          this.seq = null;
+        }
+        bridgeLogger.warn(`[Discord] gateway invalid session resumable=${payload.d === true}`);
+        socket.close(4000);
+        return;
+      case OP_DISPATCH: {
+        const event = payload.t || '';
+        if (event === 'READY') {
+          const ready = payload.d as { session_id?: string; resume_gateway_url?: string };
+          this.sessionId = ready?.session_id || '';
+          this.resumeUrl = ready?.resume_gateway_url || '';
+          this.reconnectDelay = RECONNECT_MIN_MS;
+        }
+        if (event === 'RESUMED') this.reconnectDelay = RECONNECT_MIN_MS;
+        this.onDispatch(event, payload.d);
+        return;
+      }
+    }
+  }
+
+  private send(socket: WebSocket, op: number, d: unknown): void {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ op, d }));
+  }
+
+  private startHeartbeat(socket: WebSocket, intervalMs: number): void {
+    this.stopHeartbeat();
+    this.heartbeatAcked = true;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.heartbeatAcked) {
+        // Zombied connection: no ACK since the last beat.
+        bridgeLogger.warn('[Discord] gateway heartbeat not acknowledged, reconnecting');
+        socket.close(4000);
+        return;
+      }
+      this.heartbeatAcked = false;
+      this.send(socket, OP_HEARTBEAT, this.seq);
+    }, intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      const resume = !!this.sessionId && !!this.resumeUrl;
+      const next = resume ? Promise.resolve(this.resumeUrl) : this.resolveUrl();
+      next
+        .then(url => this.open(url, resume))
+        .catch(err => {
+          bridgeLogger.warn(`[Discord] gateway reconnect failed delay=${delay}`, err);
+          this.scheduleReconnect();
+        });
+    }, delay);
+  }
+}
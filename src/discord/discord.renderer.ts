@@ -0,0 +1,188 @@
+// src/discord/discord.renderer.ts
+import type {
+  BridgeAction,
+  BridgeActionPrompt,
+  BridgeMessageContent,
+  DisplayModel,
+  DisplayToolView,
+} from '../types';
+import { formatStatusLines, isDisplayModel } from '../bridge/display';
+import { ellipsize } from '../bridge/buffer';
+
+export type DiscordEmbed = {
+  title?: string;
+  description?: string;
+  color?: number;
+  footer?: { text: string };
+};
+
+export type DiscordButton = {
+  type: 2;
+  style: number;
+  label: string;
+  custom_id: string;
+};
+
+export type DiscordActionRow = { type: 1; components: DiscordButton[] };
+
+/** Body of a create / edit message request (`content`, `embeds`, `components`). */
+export type DiscordRendered = {
+  content: string;
+  embeds: DiscordEmbed[];
+  components: DiscordActionRow[];
+};
+
+// Discord limits: 2000 chars of content, 4096 per embed description, 6000 across all embeds.
+const CONTENT_LIMIT = 2000;
+const DESCRIPTION_LIMIT = 4096;
+const THINKING_LIMIT = 1000;
+const TOOL_DESCRIPTION_LIMIT = 300;
+const MAX_TOOL_EMBEDS = 6;
+const BUTTONS_PER_ROW = 5;
+
+const COLOR = {
+  brand: 0x5865f2,
+  grey: 0x99aab5,
+  green: 0x57f287,
+  yellow: 0xfee75c,
+  red: 0xed4245,
+};
+
+const TOOL_STATUS: Record<DisplayToolView['status'], { emoji: string; color: number }> = {
+  pending: { emoji: '⏳', color: COLOR.grey },
+  running: { emoji: '⚙️', color: COLOR.yellow },
+  completed: { emoji: '✅', color: COLOR.green },
+  error: { emoji: '❌', color: COLOR.red },
+};
+
+const BUTTON_STYLE = { primary: 1, default: 2, danger: 4 } as const;
+
+function trimSafe(s: string): string {
+  return (s || '').trim();
+}
+
+function toolEmbed(t: DisplayToolView): DiscordEmbed {
+  const { emoji, color } = TOOL_STATUS[t.status];
+  const details: string[] = [];
+  if (t.title) details.push(t.title);
+  if (t.error) {
+    details.push(`\`\`\`\n${ellipsize(t.error.trim(), TOOL_DESCRIPTION_LIMIT)}\n\`\`\``);
+  }
+  const description = ellipsize(details.join('\n'), TOOL_DESCRIPTION_LIMIT + 20);
+  return {
+    title: ellipsize(`${emoji} ${t.tool || 'tool'} · ${t.status}`, 256),
+    ...(description ? { description } : {}),
+    color,
+  };
+}
+
+function statusColor(model: DisplayModel): number {
+  const state = model.status?.state;
+  if (state === 'error' || state === 'aborted') return COLOR.red;
+  if (state === 'done') return COLOR.green;
+  return COLOR.brand;
+}
+
+export function buildDiscordButtons(actions: BridgeAction[]): DiscordActionRow[] {
+  const rows: DiscordActionRow[] = [];
+  for (let i = 0; i < actions.length; i += BUTTONS_PER_ROW) {
+    rows.push({
+      type: 1,
+      components: actions.slice(i, i + BUTTONS_PER_ROW).map(a => ({
+        type: 2,
+        style: BUTTON_STYLE[a.style || 'default'],
+        label: ellipsize(a.label, 80),
+        custom_id: a.value.slice(0, 100),
+      })),
+    });
+  }
+  return rows.slice(0, 5);
+}
+
+function renderRun(model: DisplayModel): DiscordRendered {
+  const embeds: DiscordEmbed[] = [];
+
+  if (trimSafe(model.reasoning)) {
+    embeds.push({
+      title: '💭 Thinking',
+      description: ellipsize(trimSafe(model.reasoning), THINKING_LIMIT, 'tail'),
+      color: COLOR.grey,
+    });
+  }
+
+  const hidden = model.tools.length - MAX_TOOL_EMBEDS;
+  model.tools.slice(-MAX_TOOL_EMBEDS).forEach((t, idx) => {
+    const embed = toolEmbed(t);
+    if (idx === 0 && hidden > 0) embed.footer = { text: `+${hidden} earlier step(s)` };
+    embeds.push(embed);
+  });
+
+  if (model.files.length > 0) {
+    const lines = model.files.map((f, idx) => {
+      const name = f.filename || `file-${idx + 1}`;
+      return /^https?:\/\//.test(f.url) ? `- [${name}](${f.url})` : `- ${name}`;
+    });
+    embeds.push({
+      title: '🖼️ Files',
+      description: ellipsize(lines.join('\n'), 1000),
+      color: COLOR.brand,
+    });
+  }
+
+  const status = formatStatusLines(model).join(' · ');
+  if (status) {
+    // The run status rides on the last embed's footer; a bare status embed when there is none.
+    const last = embeds[embeds.length - 1];
+    if (last && !last.footer) last.footer = { text: status };
+    else embeds.push({ color: statusColor(model), footer: { text: status } });
+  }
+
+  const streaming = model.status?.state === 'streaming';
+  return {
+    content: ellipsize(model.answer.trim(), CONTENT_LIMIT),
+    embeds: embeds.slice(-10),
+    components: streaming
+      ? buildDiscordButtons([{ label: '⏹️ Stop', value: 'abort', style: 'danger' }])
+      : [],
+  };
+}
+
+function renderDisplayModel(model: DisplayModel): DiscordRendered {
+  if (model.status) return renderRun(model);
+
+  const body = ellipsize(trimSafe(model.answer), DESCRIPTION_LIMIT);
+  if (model.kind === 'command') {
+    return {
+      content: '',
+      embeds: [{ title: '🧭 Command', description: body || '-', color: COLOR.brand }],
+      components: [],
+    };
+  }
+  if (model.kind === 'error') {
+    return {
+      content: '',
+      embeds: [{ title: '🚨 Error', description: body || '-', color: COLOR.red }],
+      components: [],
+    };
+  }
+  return { content: ellipsize(trimSafe(model.answer), CONTENT_LIMIT), embeds: [], components: [] };
+}
+
+export function renderDiscord(content: BridgeMessageContent): DiscordRendered {
+  if (isDisplayModel(content)) return renderDisplayModel(content);
+  return { content: ellipsize(trimSafe(content), CONTENT_LIMIT), embeds: [], components: [] };
+}
+
+export function renderDiscordActionPrompt(prompt: BridgeActionPrompt): DiscordRendered {
+  return {
+    content: '',
+    embeds: [
+      {
+        title: ellipsize(prompt.title, 256),
+        description: ellipsize(trimSafe(prompt.body), DESCRIPTION_LIMIT),
+        color: COLOR.yellow,
+      },
+    ],
+    components: buildDiscordButtons(prompt.actions),
+  };
+}
@@ -0,0 +1,146 @@
+// src/email/email.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  DisplayFile,
+  EmailConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { EmailClient } from './email.client';
+import { renderEmail, renderEmailActionPrompt } from './email.renderer';
+import { bridgeLogger } from '../logger';
+import { isDisplayModel, isRunDisplay } from '../bridge/display';
+import { simpleHash } from '../bridge/buffer';
+import { EMAIL_PAGE_TEXT_LIMIT } from '../constants';
+
+/** Messages of one run in one chat, keyed by virtual message id, in the order they appeared. */
+type PendingRun = { parts: Map<string, BridgeMessageContent>; timer: NodeJS.Timeout | null };
+
+// Sent anyway when every message is final but the session-idle flush never came. Generous,
+// since a slow model can think for minutes between two messages of the same run.
+const FINAL_GRACE_MS = 10 * 60 * 1000;
+
+/**
+ * Mail cannot be edited, and a run of many messages should arrive as one mail. Every run message
+ * gets a virtual id; once all of them are final and the session went idle (or the run failed or
+ * was aborted) the collected messages go out as a single HTML reply in the thread.
+ */
+export class EmailAdapter implements BridgeAdapter {
+  provider: 'email' = 'email';
+  readonly pageTextLimit = EMAIL_PAGE_TEXT_LIMIT;
+  private readonly client: EmailClient;
+  private readonly runs = new Map<string, PendingRun>(); // chat id -> run being collected
+  private seq = 0;
+
+  constructor(config: EmailConfig) {
+    this.client = new EmailClient(config);
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.client.start(handler, onAction);
+    bridgeLogger.info('[Email] adapter started');
+  }
+
+  async stop() {
+    for (const run of this.runs.values()) if (run.timer) clearTimeout(run.timer);
+    this.runs.clear();
+    await this.client.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    if (!isRunDisplay(content)) {
+      return this.client.sendReply(chatId, renderEmail([content]), this.filesOf([content]));
+    }
+    const run = this.runs.get(chatId) || { parts: new Map(), timer: null };
+    this.runs.set(chatId, run);
+    this.seq += 1;
+    const virtualId = `pending:${Date.now().toString(36)}:${this.seq}`;
+    run.parts.set(virtualId, content);
+    await this.settle(chatId);
+    return virtualId;
+  }
+
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const run = this.runs.get(chatId);
+    if (!run?.parts.has(messageId)) {
+      // Already mailed; a second mail for a late flush would only repeat the reply.
+      bridgeLogger.debug(`[Email] edit ignored chat=${chatId} msg=${messageId}`);
+      return true;
+    }
+    run.parts.set(messageId, content);
+    await this.settle(chatId);
+    return true;
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.sendPrompt(chatId, renderEmailActionPrompt(prompt), prompt.actions);
+  }
+
+  /** The outcome was already mailed as the action reply; only the choices are closed. */
+  async editActionPrompt(
+    chatId: string,
+    _messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    if (prompt.actions.length === 0) this.client.closePrompt(chatId);
+    return true;
+  }
+
+  private async settle(chatId: string): Promise<void> {
+    const run = this.runs.get(chatId);
+    if (!run) return;
+    if (run.timer) clearTimeout(run.timer);
+    run.timer = null;
+
+    const states = [...run.parts.values()].map(c => (isRunDisplay(c) ? c.status : undefined));
+    if (states.some(s => s?.state === 'streaming')) return;
+    const finished = states.some(
+      s => s?.state === 'error' || s?.state === 'aborted' || s?.note === 'idle',
+    );
+    if (finished) {
+      await this.flushRun(chatId);
+      return;
+    }
+    run.timer = setTimeout(() => void this.flushRun(chatId), FINAL_GRACE_MS);
+    run.timer.unref?.();
+  }
+
+  private async flushRun(chatId: string): Promise<void> {
+    const run = this.runs.get(chatId);
+    if (!run) return;
+    this.runs.delete(chatId);
+    if (run.timer) clearTimeout(run.timer);
+
+    const contents = [...run.parts.values()];
+    try {
+      const rendered = renderEmail(contents);
+      const sent = await this.client.sendReply(chatId, rendered, this.filesOf(contents));
+      bridgeLogger.info(
+        `[Email] run mailed chat=${chatId} parts=${contents.length} msg=${sent || ''}`,
+      );
+    } catch (err) {
+      bridgeLogger.error(`[Email] run reply failed chat=${chatId}`, err);
+    }
+  }
+
+  private filesOf(contents: BridgeMessageContent[]): DisplayFile[] {
+    const seen = new Set<string>();
+    const files: DisplayFile[] = [];
+    for (const content of contents) {
+      if (!isDisplayModel(content)) continue;
+      for (const file of content.files) {
+        const sig = simpleHash(`${file.filename || ''}|${file.mime || ''}|${file.url || ''}`);
+        if (!file.url || seen.has(sig)) continue;
+        seen.add(sig);
+        files.push(file);
+      }
+    }
+    return files;
+  }
+}
@@ -0,0 +1,308 @@
+// src/email/email.client.ts
+import type { FilePartInput } from '@opencode-ai/sdk';
+import type {
+  BridgeAction,
+  DisplayFile,
+  EmailConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId, sleep } from '../utils';
+import { ImapSession } from './email.imap';
+import { buildMail, newMessageId, parseMail, stripQuotedReply } from './email.mime';
+import type { MailAttachment, ParsedMail } from './email.mime';
+import { SmtpHandoffServer, sendMail } from './email.smtp';
+import { renderEmail } from './email.renderer';
+import type { EmailRendered } from './email.renderer';
+
+/** Where replies in one thread go; the chat id is the Message-ID of the thread's first mail. */
+type MailThread = { to: string; subject: string; references: string[] };
+
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+// Long threads would otherwise grow the References header without bound.
+const MAX_REFERENCES = 20;
+const STOP_ACTION_VALUE = 'abort';
+const STOP_WORDS = new Set(['stop', 'abort', '停止', '中止']);
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function decodeDataUrl(dataUrl: string): { mime: string; buffer: Buffer } | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mime: match[1], buffer: Buffer.from(match[2], 'base64') };
+}
+
+export class EmailClient {
+  private readonly config: EmailConfig;
+  private running = false;
+  private pollLoopDone: Promise<void> | null = null;
+  private wakePoll: (() => void) | null = null;
+  private handoff: SmtpHandoffServer | null = null;
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private readonly seenMessageIds = new Set<string>();
+  private readonly threads = new Map<string, MailThread>(); // chat id -> reply target
+  private readonly threadRoots = new Map<string, string>(); // any message id in a thread -> root
+  private readonly openPrompts = new Map<string, BridgeAction[]>(); // chat id -> latest choices
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: EmailConfig) {
+    this.config = config;
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.running) {
+      bridgeLogger.info('[Email] already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+    this.running = true;
+
+    if (this.config.mode === 'handoff') {
+      this.handoff = new SmtpHandoffServer(
+        this.config.handoff_listen_url || 'smtp://127.0.0.1:2525',
+        async raw => this.receive(raw),
+      );
+      await this.handoff.start();
+    } else {
+      this.pollLoopDone = this.pollLoop();
+    }
+    bridgeLogger.info(
+      `[Email] started mode=${this.config.mode} address=${this.config.address} ${this.instanceTag}`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.wakePoll?.();
+    await this.handoff?.stop();
+    this.handoff = null;
+    await this.pollLoopDone?.catch(() => {});
+    this.pollLoopDone = null;
+    bridgeLogger.info('[Email] stopped');
+  }
+
+  /** Sends `rendered` as a reply in the chat's thread and returns the new Message-ID. */
+  async sendReply(
+    chatId: string,
+    rendered: EmailRendered,
+    files: DisplayFile[] = [],
+  ): Promise<string | null> {
+    const thread = this.threads.get(chatId);
+    if (!thread) {
+      bridgeLogger.warn(`[Email] no thread to reply to chat=${chatId}`);
+      return null;
+    }
+    const attachments: MailAttachment[] = [];
+    for (const file of files) {
+      const attachment = await this.toAttachment(file).catch(err => {
+        bridgeLogger.warn(`[Email] attachment skipped chat=${chatId}`, asError(err).message);
+        return null;
+      });
+      if (attachment) attachments.push(attachment);
+    }
+
+    const messageId = newMessageId(this.config.address);
+    const subject = /^re:/i.test(thread.subject) ? thread.subject : `Re: ${thread.subject}`;
+    const data = buildMail({
+      from: this.config.address,
+      to: thread.to,
+      subject,
+      messageId,
+      inReplyTo: thread.references[thread.references.length - 1],
+      references: thread.references,
+      text: rendered.text,
+      html: rendered.html,
+      attachments,
+    });
+    await sendMail(
+      { url: this.config.smtp_url, username: this.config.username, password: this.config.password },
+      this.config.address,
+      [thread.to],
+      data,
+    );
+    this.linkToThread(chatId, messageId);
+    bridgeLogger.info(
+      `[Email] sent chat=${chatId} to=${thread.to} msg=${messageId} files=${attachments.length}`,
+    );
+    return messageId;
+  }
+
+  /** Sends a prompt whose numbered choices a reply in the thread can pick. */
+  async sendPrompt(
+    chatId: string,
+    rendered: EmailRendered,
+    actions: BridgeAction[],
+  ): Promise<string | null> {
+    const messageId = await this.sendReply(chatId, rendered);
+    if (messageId && actions.length > 0) this.openPrompts.set(chatId, actions);
+    return messageId;
+  }
+
+  closePrompt(chatId: string) {
+    this.openPrompts.delete(chatId);
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (this.running) {
+      await this.pollOnce().catch(err => {
+        bridgeLogger.warn(`[Email] IMAP poll failed ${this.instanceTag}`, asError(err).message);
+      });
+      if (!this.running) return;
+      await Promise.race([
+        sleep(this.config.poll_interval_ms),
+        new Promise<void>(resolve => (this.wakePoll = resolve)),
+      ]);
+      this.wakePoll = null;
+    }
+  }
+
+  private async pollOnce(): Promise<void> {
+    const session = await ImapSession.open({
+      url: this.config.imap_url || '',
+      username: this.config.username,
+      password: this.config.password,
+      mailbox: this.config.mailbox,
+    });
+    try {
+      const uids = await session.searchUnseen();
+      for (const uid of uids) {
+        if (!this.running) break;
+        const raw = await session.fetchMessage(uid);
+        // Marked first, so a message that breaks the handler is not fetched again every poll.
+        await session.markSeen(uid);
+        if (raw) await this.receive(raw);
+      }
+    } finally {
+      await session.logout();
+    }
+  }
+
+  private rememberMessageId(messageId: string): boolean {
+    if (this.seenMessageIds.has(messageId)) return false;
+    this.seenMessageIds.add(messageId);
+    if (this.seenMessageIds.size > 2000) {
+      const first = this.seenMessageIds.values().next().value;
+      if (first) this.seenMessageIds.delete(first);
+    }
+    return true;
+  }
+
+  private linkToThread(chatId: string, messageId: string) {
+    const thread = this.threads.get(chatId);
+    if (thread && !thread.references.includes(messageId)) {
+      thread.references.push(messageId);
+      if (thread.references.length > MAX_REFERENCES) thread.references.splice(1, 1);
+    }
+    this.threadRoots.set(messageId, chatId);
+    if (this.threadRoots.size > 2000) {
+      const first = this.threadRoots.keys().next().value;
+      if (first) this.threadRoots.delete(first);
+    }
+  }
+
+  /** The thread root: known from an earlier mail, else the first reference, else itself. */
+  private resolveChatId(mail: ParsedMail): string {
+    for (const id of [mail.inReplyTo, ...mail.references].filter(Boolean)) {
+      const root = this.threadRoots.get(id);
+      if (root) return root;
+    }
+    return mail.references[0] || mail.inReplyTo || mail.messageId;
+  }
+
+  private async receive(raw: Buffer): Promise<void> {
+    const mail = parseMail(raw);
+    if (!mail.messageId || !mail.from) {
+      bridgeLogger.warn('[Email] skip message without Message-ID or From');
+      return;
+    }
+    if (!this.rememberMessageId(mail.messageId)) return;
+    if (mail.from === this.config.address.toLowerCase()) return;
+    if (mail.automated) {
+      bridgeLogger.info(`[Email] skip automated message from=${mail.from} msg=${mail.messageId}`);
+      return;
+    }
+
+    const chatId = this.resolveChatId(mail);
+    const previous = this.threads.get(chatId);
+    const references = [...new Set([...mail.references, mail.inReplyTo])].filter(Boolean);
+    this.threads.set(chatId, {
+      to: mail.replyTo,
+      subject: previous?.subject || mail.subject || '(no subject)',
+      references: previous?.references || references.slice(-MAX_REFERENCES),
+    });
+    this.linkToThread(chatId, mail.messageId);
+
+    const text = stripQuotedReply(mail.text) || (mail.inReplyTo ? '' : mail.subject.trim());
+    if (await this.handleChoice(chatId, text, mail)) return;
+
+    const fileParts: FilePartInput[] = [];
+    for (const attachment of mail.attachments) {
+      if (attachment.data.length > MAX_ATTACHMENT_BYTES) {
+        bridgeLogger.warn(
+          `[Email] attachment too large name=${attachment.filename} size=${attachment.data.length}`,
+        );
+        continue;
+      }
+      fileParts.push({
+        type: 'file',
+        filename: attachment.filename,
+        mime: attachment.mime,
+        url: `data:${attachment.mime};base64,${attachment.data.toString('base64')}`,
+      });
+    }
+    if (!text && fileParts.length === 0) return;
+
+    bridgeLogger.info(
+      `[Email] incoming chat=${chatId} from=${mail.from} msg=${mail.messageId} textLen=${text.length} files=${fileParts.length}`,
+    );
+    // Not awaited: a run can take hours, and the hand-off MTA is waiting for its 250.
+    void this.handler?.(chatId, text, mail.messageId, mail.from, fileParts).catch(err => {
+      bridgeLogger.error(`[Email] handler failed chat=${chatId} msg=${mail.messageId}`, err);
+    });
+  }
+
+  /** A reply that is just a choice number (or a stop word) answers the thread's open prompt. */
+  private async handleChoice(chatId: string, text: string, mail: ParsedMail): Promise<boolean> {
+    if (!this.actionHandler) return false;
+    const word = text.trim().toLowerCase();
+    let value = '';
+    if (STOP_WORDS.has(word)) value = STOP_ACTION_VALUE;
+    else if (/^\d+$/.test(word)) {
+      value = this.openPrompts.get(chatId)?.[Number(word) - 1]?.value || '';
+    }
+    if (!value) return false;
+
+    bridgeLogger.info(`[Email] action chat=${chatId} from=${mail.from} value=${value}`);
+    const reply = await this.actionHandler(chatId, value, mail.from, mail.messageId);
+    if (reply) {
+      await this.sendReply(chatId, renderEmail([reply])).catch(err => {
+        bridgeLogger.warn(`[Email] action reply failed chat=${chatId}`, err);
+      });
+    }
+    return true;
+  }
+
+  private async toAttachment(file: DisplayFile): Promise<MailAttachment | null> {
+    const decoded = decodeDataUrl(file.url);
+    let mime = file.mime || decoded?.mime || 'application/octet-stream';
+    let data: Buffer;
+    if (decoded) {
+      data = decoded.buffer;
+    } else if (/^https?:\/\//i.test(file.url)) {
+      const resp = await fetch(file.url);
+      if (!resp.ok) throw new Error(`[Email] file fetch failed: ${resp.status}`);
+      data = Buffer.from(await resp.arrayBuffer());
+      mime = file.mime || resp.headers.get('content-type')?.split(';')[0] || mime;
+    } else {
+      return null;
+    }
+    if (data.length > MAX_ATTACHMENT_BYTES) throw new Error(`file too large size=${data.length}`);
+    return { filename: file.filename || `file.${mime.split('/')[1] || 'bin'}`, mime, data };
+  }
+}
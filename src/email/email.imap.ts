@@ -0,0 +1,104 @@
+// src/email/email.imap.ts
+import { MailSocket } from './email.socket';
+
+export type ImapTarget = { url: string; username: string; password: string; mailbox: string };
+
+type ImapResponse = { lines: string[]; literals: Buffer[] };
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Just enough IMAP4rev1 to poll one mailbox: LOGIN, SELECT, UID SEARCH UNSEEN, UID FETCH of the
+ * full message and UID STORE \Seen. A session lasts for one poll, so no IDLE or keep-alive.
+ */
+export class ImapSession {
+  private readonly socket: MailSocket;
+  private tagSeq = 0;
+
+  private constructor(socket: MailSocket) {
+    this.socket = socket;
+  }
+
+  /** `imaps://host[:993]` connects over TLS; `imap://host[:143]` is plain (local servers). */
+  static async open(target: ImapTarget): Promise<ImapSession> {
+    const url = new URL(target.url);
+    const secure = url.protocol === 'imaps:';
+    const port = Number(url.port) || (secure ? 993 : 143);
+    const socket = await MailSocket.connect(url.hostname, port, secure);
+    const session = new ImapSession(socket);
+    try {
+      const greeting = await socket.readLine();
+      if (!/^\* (OK|PREAUTH)\b/i.test(greeting)) {
+        throw new Error(`[Email] IMAP greeting: ${greeting}`);
+      }
+      if (!/^\* PREAUTH\b/i.test(greeting)) {
+        await session.command(`LOGIN ${quote(target.username)} ${quote(target.password)}`, 'LOGIN');
+      }
+      await session.command(`SELECT ${quote(target.mailbox)}`);
+      return session;
+    } catch (err) {
+      socket.close();
+      throw err;
+    }
+  }
+
+  async searchUnseen(): Promise<number[]> {
+    const res = await this.command('UID SEARCH UNSEEN');
+    const line = res.lines.find(l => /^\* SEARCH\b/i.test(l)) || '';
+    return line
+      .replace(/^\* SEARCH/i, '')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(Number)
+      .filter(uid => Number.isInteger(uid) && uid > 0);
+  }
+
+  /** The raw RFC 5322 message; `BODY.PEEK` leaves \Seen to `markSeen`. */
+  async fetchMessage(uid: number): Promise<Buffer | null> {
+    const res = await this.command(`UID FETCH ${uid} (BODY.PEEK[])`);
+    return res.literals[0] || null;
+  }
+
+  async markSeen(uid: number): Promise<void> {
+    await this.command(`UID STORE ${uid} +FLAGS.SILENT (\\Seen)`);
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.command('LOGOUT');
+    } catch {
+      // The server may drop the connection right after BYE.
+    } finally {
+      this.socket.close();
+    }
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  private async command(text: string, label = text): Promise<ImapResponse> {
+    this.tagSeq += 1;
+    const tag = `A${this.tagSeq}`;
+    this.socket.write(`${tag} ${text}\r\n`);
+    const res: ImapResponse = { lines: [], literals: [] };
+    for (;;) {
+      let line = await this.socket.readLine();
+      // A `{n}` at the end of a line announces n bytes of literal data before the line goes on.
+      for (let m = line.match(/\{(\d+)\}$/); m; m = line.match(/\{(\d+)\}$/)) {
+        res.literals.push(await this.socket.readBytes(Number(m[1])));
+        line = `${line.slice(0, -m[0].length)}<literal>${await this.socket.readLine()}`;
+      }
+      if (line.startsWith(`${tag} `)) {
+        if (!/^OK\b/i.test(line.slice(tag.length + 1))) {
+          throw new Error(`[Email] IMAP ${label} failed: ${line.slice(tag.length + 1)}`);
+        }
+        return res;
+      }
+      res.lines.push(line);
+    }
+  }
+}
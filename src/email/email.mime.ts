@@ -0,0 +1,328 @@
+// src/email/email.mime.ts
+import * as crypto from 'node:crypto';
+
+export type MailAttachment = { filename: string; mime: string; data: Buffer };
+
+export type ParsedMail = {
+  messageId: string;
+  inReplyTo: string;
+  references: string[];
+  /** Sender address, lower-cased. */
+  from: string;
+  replyTo: string;
+  subject: string;
+  /** Plain text body (HTML-only mail is converted); quoted history is still included. */
+  text: string;
+  attachments: MailAttachment[];
+  /** Auto-replies, bounces and list mail; answering them risks mail loops. */
+  automated: boolean;
+};
+
+export type OutgoingMail = {
+  from: string;
+  to: string;
+  subject: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+};
+
+type Headers = Map<string, string>;
+type Entity = { headers: Headers; body: string };
+
+const MESSAGE_ID_RE = /<[^<>\s]+>/g;
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/** Header values are latin1 strings of the raw bytes; 8-bit headers are UTF-8 in practice. */
+function decodeHeaderValue(value: string): string {
+  const text = /[\x80-\xff]/.test(value) ? Buffer.from(value, 'latin1').toString('utf8') : value;
+  return text
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (_, charset: string, enc: string, data) => {
+      const bytes =
+        enc.toUpperCase() === 'B'
+          ? Buffer.from(data, 'base64')
+          : decodeQuotedPrintable(data.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const soft = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < soft.length; i++) {
+    const ch = soft[i];
+    if (ch === '=' && /^[0-9A-Fa-f]{2}$/.test(soft.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(soft.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(ch.charCodeAt(0) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function percentDecode(text: string): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function parseEntity(source: string): Entity {
+  const split = source.search(/\r?\n\r?\n/);
+  const head = split >= 0 ? source.slice(0, split) : source;
+  const body = split >= 0 ? source.slice(split).replace(/^\r?\n\r?\n/, '') : '';
+  const headers: Headers = new Map();
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(idx + 1).trim());
+  }
+  return { headers, body };
+}
+
+/** `type/subtype; a=b; c="d"` → value plus lower-cased parameters (RFC 2231 `name*` included). */
+function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = value.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const item of rest) {
+    const idx = item.indexOf('=');
+    if (idx < 0) continue;
+    const key = item.slice(0, idx).trim().toLowerCase();
+    let val = item.slice(idx + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (key.endsWith('*')) {
+      const match = val.match(/^([^']*)'[^']*'(.*)$/);
+      val = match ? decodeCharset(percentDecode(match[2]), match[1]) : val;
+      params[key.slice(0, -1)] = val;
+    } else if (!params[key]) {
+      params[key] = decodeHeaderValue(val);
+    }
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function decodeBody(entity: Entity): Buffer {
+  const encoding = (entity.headers.get('content-transfer-encoding') || '').toLowerCase();
+  if (encoding === 'base64') return Buffer.from(entity.body.replace(/\s+/g, ''), 'base64');
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(entity.body);
+  return Buffer.from(entity.body, 'latin1');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function parseAddress(value: string): string {
+  const angle = value.match(/<([^<>\s]+@[^<>\s]+)>/);
+  const bare = value.match(/[^\s<>"',;]+@[^\s<>"',;]+/);
+  return (angle?.[1] || bare?.[0] || '').toLowerCase();
+}
+
+function collectParts(
+  entity: Entity,
+  out: { plain: string[]; html: string[]; attachments: MailAttachment[] },
+) {
+  const type = parseHeaderParams(entity.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderParams(entity.headers.get('content-disposition') || '');
+  const filename = disposition.params.filename || type.params.name || '';
+
+  if (type.value.startsWith('multipart/') && type.params.boundary) {
+    const delimiter = `--${type.params.boundary}`;
+    const chunks = entity.body.split(new RegExp(`\\r?\\n?${escapeRegExp(delimiter)}`));
+    // Everything before the first delimiter is preamble, and the last chunk starts with `--`.
+    const parts = chunks.slice(1).filter(chunk => !chunk.startsWith('--'));
+    for (const chunk of parts) collectParts(parseEntity(chunk.replace(/^[ \t]*\r?\n/, '')), out);
+    return;
+  }
+
+  const isAttachment = disposition.value === 'attachment' || Boolean(filename);
+  if (!isAttachment && type.value === 'text/plain') {
+    out.plain.push(decodeCharset(decodeBody(entity), type.params.charset));
+    return;
+  }
+  if (!isAttachment && type.value === 'text/html') {
+    out.html.push(decodeCharset(decodeBody(entity), type.params.charset));
+    return;
+  }
+  const ext = type.value === 'message/rfc822' ? 'eml' : type.value.split('/')[1] || 'bin';
+  out.attachments.push({
+    filename: filename || `attachment.${ext}`,
+    mime: type.value || 'application/octet-stream',
+    data: decodeBody(entity),
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Parses an RFC 5322 message: threading headers, the text body and attachments. */
+export function parseMail(raw: Buffer): ParsedMail {
+  const entity = parseEntity(raw.toString('latin1'));
+  const header = (name: string) => decodeHeaderValue(entity.headers.get(name) || '');
+  const out = { plain: [] as string[], html: [] as string[], attachments: [] as MailAttachment[] };
+  collectParts(entity, out);
+
+  const autoSubmitted = header('auto-submitted').toLowerCase();
+  const precedence = header('precedence').toLowerCase();
+  const from = parseAddress(header('from'));
+
+  return {
+    messageId: header('message-id').match(MESSAGE_ID_RE)?.[0] || '',
+    inReplyTo: header('in-reply-to').match(MESSAGE_ID_RE)?.[0] || '',
+    references: header('references').match(MESSAGE_ID_RE) || [],
+    from,
+    replyTo: parseAddress(header('reply-to')) || from,
+    subject: header('subject'),
+    text: (out.plain.length > 0 ? out.plain.join('\n') : out.html.map(htmlToText).join('\n'))
+      .replace(/\r\n/g, '\n')
+      .trim(),
+    attachments: out.attachments,
+    automated:
+      (Boolean(autoSubmitted) && autoSubmitted !== 'no') ||
+      ['bulk', 'list', 'junk'].includes(precedence) ||
+      /^(mailer-daemon|postmaster)@/.test(from),
+  };
+}
+
+/**
+ * The new text of a reply: drops the quoted history below an attribution line (`On … wrote:`,
+ * `在 … 写道：`, `-----Original Message-----`), `>` lines and the signature.
+ */
+export function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (/^-{2,}\s*(Original Message|原始邮件)\s*-{2,}$/i.test(trimmed)) break;
+    if (/^On\s.+wrote:$/.test(trimmed) || /^在.+写道[：:]$/.test(trimmed)) break;
+    if (line === '-- ') break;
+    if (trimmed.startsWith('>')) continue;
+    kept.push(line);
+  }
+  return kept.join('\n').trim();
+}
+
+function encodeHeaderWord(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  // Encoded words are limited to 75 characters, so long values are split on code points.
+  const words: string[] = [];
+  let chunk = '';
+  for (const ch of text) {
+    if (Buffer.byteLength(chunk + ch) > 45) {
+      words.push(`=?UTF-8?B?${Buffer.from(chunk).toString('base64')}?=`);
+      chunk = '';
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(`=?UTF-8?B?${Buffer.from(chunk).toString('base64')}?=`);
+  return words.join('\r\n ');
+}
+
+function base64Lines(data: Buffer): string {
+  return (data.toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+function boundary(): string {
+  return `=_bridge_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function attachmentPart(file: MailAttachment): string {
+  const name = /^[\x20-\x7e]*$/.test(file.filename)
+    ? `filename="${file.filename.replace(/"/g, '')}"`
+    : `filename*=UTF-8''${encodeURIComponent(file.filename)}`;
+  return [
+    `Content-Type: ${file.mime}`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; ${name}`,
+    '',
+    base64Lines(file.data),
+  ].join('\r\n');
+}
+
+export function newMessageId(address: string): string {
+  const domain = address.split('@')[1] || 'localhost';
+  return `<bridge.${Date.now().toString(36)}.${crypto.randomBytes(6).toString('hex')}@${domain}>`;
+}
+
+/** Builds the message as sent over SMTP: text + HTML alternatives, then any attachments. */
+export function buildMail(mail: OutgoingMail, date = new Date()): string {
+  const alt = boundary();
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${alt}"`,
+    '',
+    `--${alt}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(mail.text)),
+    `--${alt}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(mail.html)),
+    `--${alt}--`,
+  ].join('\r\n');
+
+  let body = alternative;
+  if (mail.attachments?.length) {
+    const mixed = boundary();
+    body = [
+      `Content-Type: multipart/mixed; boundary="${mixed}"`,
+      '',
+      `--${mixed}`,
+      alternative,
+      ...mail.attachments.map(file => `--${mixed}\r\n${attachmentPart(file)}`),
+      `--${mixed}--`,
+    ].join('\r\n');
+  }
+
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeaderWord(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${mail.messageId}`,
+    ...(mail.inReplyTo ? [`In-Reply-To: ${mail.inReplyTo}`] : []),
+    ...(mail.references?.length ? [`References: ${mail.references.join('\r\n ')}`] : []),
+    'Auto-Submitted: auto-replied',
+    'MIME-Version: 1.0',
+  ];
+  return `${headers.join('\r\n')}\r\n${body}\r\n`;
+}
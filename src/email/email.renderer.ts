@@ -0,0 +1,176 @@
+// src/email/email.renderer.ts
+import type { BridgeActionPrompt, BridgeMessageContent } from '../types';
+import {
+  getStatusWithEmoji,
+  pickCardHeader,
+  sectionsFromContent,
+  splitStatusPaths,
+} from '../bridge/sections';
+
+/** Both alternatives of one outgoing mail. */
+export type EmailRendered = { text: string; html: string };
+
+const PRE_STYLE =
+  'background:#f6f8fa;padding:8px 12px;border-radius:6px;overflow-x:auto;white-space:pre-wrap';
+const CODE_STYLE = 'background:#f6f8fa;padding:1px 4px;border-radius:4px';
+const MUTED_STYLE = 'color:#6a737d;font-size:12px';
+
+function trimSafe(s: string) {
+  return (s || '').trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function inlineHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/`([^`\n]+)`/g, `<code style="${CODE_STYLE}">$1</code>`)
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>');
+}
+
+function listHtml(items: string[]): string {
+  return `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+}
+
+function codeHtml(lines: string[], lang: string): string {
+  const cls = lang ? ` class="language-${lang}"` : '';
+  return `<pre style="${PRE_STYLE}"><code${cls}>${escapeHtml(lines.join('\n'))}</code></pre>`;
+}
+
+/**
+ * Block-level markdown (fenced code, headings, bullet lists, quotes, paragraphs) as HTML that
+ * mail clients render without stylesheets, so styles are inline.
+ */
+export function markdownToEmailHtml(markdown: string): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: string[] = [];
+  let code: string[] | null = null;
+  let lang = '';
+
+  const flush = () => {
+    if (paragraph.length > 0) html.push(`<p>${paragraph.map(inlineHtml).join('<br>')}</p>`);
+    if (list.length > 0) html.push(listHtml(list.map(inlineHtml)));
+    paragraph = [];
+    list = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    const fence = line.match(/^\s*```\s*([a-zA-Z0-9_+-]*)/);
+    if (code) {
+      if (fence) {
+        html.push(codeHtml(code, lang));
+        code = null;
+      } else {
+        code.push(line);
+      }
+      continue;
+    }
+    if (fence) {
+      flush();
+      code = [];
+      lang = fence[1];
+      continue;
+    }
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    const bullet = line.match(/^\s*[-*]\s+(.+)$/);
+    const quote = line.match(/^>\s?(.*)$/);
+    if (heading) {
+      flush();
+      html.push(`<h3>${inlineHtml(heading[1])}</h3>`);
+    } else if (bullet) {
+      if (paragraph.length > 0) flush();
+      list.push(bullet[1]);
+    } else if (quote) {
+      flush();
+      html.push(`<blockquote>${inlineHtml(quote[1])}</blockquote>`);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      if (list.length > 0) flush();
+      paragraph.push(line);
+    }
+  }
+  // An unterminated fence still shows its code.
+  if (code) html.push(codeHtml(code, lang));
+  flush();
+  return html.join('\n');
+}
+
+/**
+ * One reply for a whole run: every assistant message's answer in order, the tool steps as a
+ * short list, produced file names and the final status. Thinking is left out of mail.
+ */
+export function renderEmail(contents: BridgeMessageContent[]): EmailRendered {
+  const bodies: string[] = [];
+  const steps: string[] = [];
+  const files: string[] = [];
+  let title = '';
+  let status = '';
+
+  for (const content of contents) {
+    const sections = sectionsFromContent(content);
+    title = title || pickCardHeader(sections).title;
+    for (const body of [sections.error, sections.command, sections.answer].map(trimSafe)) {
+      if (body) bodies.push(body);
+    }
+    for (const panel of sections.toolPanels) {
+      steps.push(trimSafe(panel).split('\n')[0].replace(/^-\s*/, ''));
+    }
+    for (const line of sections.files.split('\n')) {
+      const name = trimSafe(line).replace(/^-\s*/, '');
+      if (name && !name.startsWith('data:')) files.push(name);
+    }
+    if (trimSafe(sections.status)) status = trimSafe(sections.status);
+  }
+
+  const html: string[] = [];
+  const text: string[] = [];
+  for (const body of bodies) {
+    html.push(markdownToEmailHtml(body));
+    text.push(body, '');
+  }
+  if (steps.length > 0) {
+    html.push(`<h3>⚙️ Steps</h3>${listHtml(steps.map(escapeHtml))}`);
+    text.push('⚙️ Steps', ...steps.map(s => `- ${s}`), '');
+  }
+  if (files.length > 0) {
+    html.push(`<p>${files.map(f => `📎 ${escapeHtml(f)}`).join('<br>')}</p>`);
+    text.push(...files.map(f => `📎 ${f}`), '');
+  }
+  if (status) {
+    const { status: cleanStatus, paths } = splitStatusPaths(status);
+    const lines = paths.length > 0 ? [cleanStatus, ...paths] : [getStatusWithEmoji(cleanStatus)];
+    const statusLine = lines.filter(Boolean).join(' | ');
+    html.push(`<p style="${MUTED_STYLE}">${escapeHtml(statusLine)}</p>`);
+    text.push('--', statusLine);
+  }
+
+  const page = `<div style="font-family:-apple-system,Segoe UI,sans-serif;font-size:14px">`;
+  return {
+    text: text.join('\n').trim() || title,
+    html: `${page}${html.join('\n') || `<p>${escapeHtml(title)}</p>`}</div>`,
+  };
+}
+
+/** Mail has no buttons: each choice is answered by replying with its number. */
+export function renderEmailActionPrompt(prompt: BridgeActionPrompt): EmailRendered {
+  const body = trimSafe(prompt.body);
+  const choices = prompt.actions.map((action, idx) => `${idx + 1} — ${action.label}`);
+  const hint = choices.length > 0 ? '回复对应数字即可选择：' : '';
+  const html = [`<h3>${escapeHtml(prompt.title)}</h3>`];
+  if (body) html.push(markdownToEmailHtml(body));
+  if (choices.length > 0) {
+    html.push(`<p>${escapeHtml(hint)}</p>${listHtml(choices.map(escapeHtml))}`);
+  }
+  return {
+    text: [prompt.title, body, hint, choices.join('\n')].filter(Boolean).join('\n\n'),
+    html: html.join('\n'),
+  };
+}
@@ -0,0 +1,189 @@
+// src/email/email.smtp.ts
+import * as net from 'node:net';
+import * as os from 'node:os';
+import { bridgeLogger } from '../logger';
+import { MailSocket } from './email.socket';
+
+export type SmtpTarget = { url: string; username: string; password: string };
+
+type SmtpReply = { code: number; lines: string[] };
+
+const MAX_HANDOFF_BYTES = 25 * 1024 * 1024;
+
+async function readReply(socket: MailSocket): Promise<SmtpReply> {
+  const lines: string[] = [];
+  for (;;) {
+    const line = await socket.readLine();
+    lines.push(line.slice(4));
+    if (line.charAt(3) !== '-') return { code: Number(line.slice(0, 3)), lines };
+  }
+}
+
+async function command(socket: MailSocket, line: string, expect: number, label = line) {
+  socket.write(`${line}\r\n`);
+  const reply = await readReply(socket);
+  if (reply.code !== expect) {
+    throw new Error(`[Email] SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+  }
+  return reply;
+}
+
+/** Lines starting with `.` get a second one (RFC 5321 §4.5.2); data ends with `<CRLF>.<CRLF>`. */
+function dotStuff(data: string): string {
+  const body = data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${body.endsWith('\r\n') ? body : `${body}\r\n`}.\r\n`;
+}
+
+/**
+ * Delivers one message. `smtps://` connects over TLS (port 465 by default); `smtp://` upgrades
+ * with STARTTLS whenever the server offers it. AUTH PLAIN or LOGIN is used when a user is set.
+ */
+export async function sendMail(target: SmtpTarget, from: string, to: string[], data: string) {
+  const url = new URL(target.url);
+  const secure = url.protocol === 'smtps:';
+  const host = url.hostname;
+  const port = Number(url.port) || (secure ? 465 : 587);
+  const socket = await MailSocket.connect(host, port, secure);
+  try {
+    const greeting = await readReply(socket);
+    if (greeting.code !== 220) throw new Error(`[Email] SMTP greeting: ${greeting.code}`);
+    let ehlo = await command(socket, `EHLO ${os.hostname() || 'localhost'}`, 250, 'EHLO');
+    const offers = (name: string) => ehlo.lines.some(l => l.toUpperCase().startsWith(name));
+
+    if (!socket.isSecure && offers('STARTTLS')) {
+      await command(socket, 'STARTTLS', 220);
+      await socket.upgrade(host);
+      ehlo = await command(socket, `EHLO ${os.hostname() || 'localhost'}`, 250, 'EHLO');
+    }
+
+    // A local relay usually accepts mail without AUTH; `username` defaults to the address.
+    if (target.username && target.password) {
+      const auth = ehlo.lines.find(l => l.toUpperCase().startsWith('AUTH')) || '';
+      if (/\bPLAIN\b/i.test(auth) || !/\bLOGIN\b/i.test(auth)) {
+        const token = Buffer.from(`\0${target.username}\0${target.password}`).toString('base64');
+        await command(socket, `AUTH PLAIN ${token}`, 235, 'AUTH PLAIN');
+      } else {
+        await command(socket, 'AUTH LOGIN', 334);
+        await command(socket, Buffer.from(target.username).toString('base64'), 334, 'AUTH user');
+        await command(socket, Buffer.from(target.password).toString('base64'), 235, 'AUTH pass');
+      }
+    }
+
+    await command(socket, `MAIL FROM:<${from}>`, 250);
+    for (const rcpt of to) await command(socket, `RCPT TO:<${rcpt}>`, 250);
+    await command(socket, 'DATA', 354);
+    socket.write(Buffer.from(dotStuff(data), 'utf8'));
+    const accepted = await readReply(socket);
+    if (accepted.code !== 250) {
+      throw new Error(`[Email] SMTP DATA rejected: ${accepted.code} ${accepted.lines.join(' ')}`);
+    }
+    socket.write('QUIT\r\n');
+  } finally {
+    socket.close();
+  }
+}
+
+/**
+ * Minimal SMTP receiver for a local hand-off (a Postfix transport, fetchmail `--smtphost`, …).
+ * It has no TLS or AUTH, so it should only listen on a loopback or otherwise trusted address.
+ */
+export class SmtpHandoffServer {
+  private readonly listenUrl: string;
+  private readonly onMail: (raw: Buffer) => Promise<void>;
+  private server: net.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+
+  constructor(listenUrl: string, onMail: (raw: Buffer) => Promise<void>) {
+    this.listenUrl = listenUrl;
+    this.onMail = onMail;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+    const url = new URL(this.listenUrl);
+    const host = url.hostname || '127.0.0.1';
+    const server = net.createServer(socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      void this.serve(new MailSocket(socket)).catch(err => {
+        bridgeLogger.debug('[Email] hand-off connection ended', err);
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(Number(url.port) || 2525, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    bridgeLogger.info(`[Email] hand-off listening ${this.address()}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  address(): string {
+    const addr = this.server?.address();
+    return addr && typeof addr === 'object' ? `smtp://${addr.address}:${addr.port}` : '';
+  }
+
+  private async serve(socket: MailSocket): Promise<void> {
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 opencode-bridge ESMTP ready');
+    let rcpts = 0;
+    for (;;) {
+      const line = await socket.readLine();
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO') {
+        reply(`250-opencode-bridge\r\n250-SIZE ${MAX_HANDOFF_BYTES}\r\n250 8BITMIME`);
+      } else if (verb === 'HELO' || verb === 'NOOP') {
+        reply('250 OK');
+      } else if (verb === 'MAIL' || verb === 'RSET') {
+        rcpts = 0;
+        reply('250 OK');
+      } else if (verb === 'RCPT') {
+        rcpts += 1;
+        reply('250 OK');
+      } else if (verb === 'DATA') {
+        if (rcpts === 0) {
+          reply('503 RCPT first');
+          continue;
+        }
+        reply('354 End data with <CR><LF>.<CR><LF>');
+        reply(await this.receiveData(socket));
+        rcpts = 0;
+      } else if (verb === 'QUIT') {
+        reply('221 Bye');
+        socket.close();
+        return;
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  }
+
+  private async receiveData(socket: MailSocket): Promise<string> {
+    const lines: string[] = [];
+    let size = 0;
+    for (;;) {
+      const line = await socket.readLine();
+      if (line === '.') break;
+      size += line.length + 2;
+      if (size <= MAX_HANDOFF_BYTES) lines.push(line.startsWith('..') ? line.slice(1) : line);
+    }
+    if (size > MAX_HANDOFF_BYTES) return '552 Message too large';
+    try {
+      await this.onMail(Buffer.from(lines.join('\r\n'), 'latin1'));
+      return '250 OK queued';
+    } catch (err) {
+      bridgeLogger.warn('[Email] hand-off message rejected', err);
+      return '451 Temporary failure';
+    }
+  }
+}
@@ -0,0 +1,113 @@
+// src/email/email.socket.ts
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+
+const CRLF = Buffer.from('\r\n');
+
+/**
+ * Line/byte reader over a TCP or TLS socket for the text protocols (IMAP, SMTP). Lines are
+ * returned as latin1 strings so 8-bit message bytes survive until the MIME parser decodes them.
+ */
+export class MailSocket {
+  private socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private waiter: (() => void) | null = null;
+  private closedError: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /** Connects to `host:port`, over TLS when `secure` is set. */
+  static async connect(host: string, port: number, secure: boolean, timeoutMs = 30000) {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s = secure
+        ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+        : net.connect({ host, port });
+      const onError = (err: Error) => reject(err);
+      s.once('error', onError);
+      s.once(secure ? 'secureConnect' : 'connect', () => {
+        s.off('error', onError);
+        resolve(s);
+      });
+    });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('socket timeout')));
+    return new MailSocket(socket);
+  }
+
+  get isSecure(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  /** STARTTLS: continues the same conversation over TLS on the existing connection. */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const s = tls.connect({ socket: plain, servername: net.isIP(host) ? undefined : host });
+      s.once('error', reject);
+      s.once('secureConnect', () => {
+        s.off('error', reject);
+        resolve(s);
+      });
+    });
+    this.socket = secure;
+    this.buffer = Buffer.alloc(0);
+    this.attach(secure);
+  }
+
+  write(data: string | Buffer) {
+    this.socket.write(typeof data === 'string' ? Buffer.from(data, 'latin1') : data);
+  }
+
+  async readLine(): Promise<string> {
+    for (;;) {
+      const idx = this.buffer.indexOf(CRLF);
+      if (idx >= 0) {
+        const line = this.buffer.subarray(0, idx).toString('latin1');
+        this.buffer = this.buffer.subarray(idx + 2);
+        return line;
+      }
+      await this.waitForData();
+    }
+  }
+
+  async readBytes(count: number): Promise<Buffer> {
+    while (this.buffer.length < count) await this.waitForData();
+    const bytes = this.buffer.subarray(0, count);
+    this.buffer = this.buffer.subarray(count);
+    return bytes;
+  }
+
+  close() {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket) {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.wake();
+    });
+    socket.on('error', err => {
+      this.closedError = err;
+      this.wake();
+    });
+    socket.on('close', () => {
+      this.closedError = this.closedError || new Error('connection closed');
+      this.wake();
+    });
+  }
+
+  private wake() {
+    const resolve = this.waiter;
+    this.waiter = null;
+    resolve?.();
+  }
+
+  private waitForData(): Promise<void> {
+    if (this.closedError) return Promise.reject(this.closedError);
+    return new Promise(resolve => (this.waiter = resolve));
+  }
+}
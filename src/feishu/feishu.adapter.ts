@@ -1,6 +1,19 @@
-import type { BridgeAdapter, FeishuConfig, IncomingMessageHandler } from '../types';
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  FeishuConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
 import { FeishuClient } from './feishu.client';
-import { FeishuRenderer, extractFilesFromHandlerMarkdown, RenderedFile } from './feishu.renderer';
+import {
+  FeishuRenderer,
+  extractFilesFromContent,
+  renderFeishuActionPromptCard,
+  RenderedFile,
+} from './feishu.renderer';
+import { PAGE_TEXT_LIMIT } from '../constants';
 
 function clip(s: string, n = 8000) {
   if (!s) return '';
@@ -8,23 +21,27 @@ function clip(s: string, n = 8000) {
 }
 
 export class FeishuAdapter implements BridgeAdapter {
+  readonly pageTextLimit = PAGE_TEXT_LIMIT;
   private client: FeishuClient;
   private renderer: FeishuRenderer;
   private config: FeishuConfig;
   private sentFilesByMessage: Map<string, Set<string>>;
+  private listChats?: () => string[];
 
-  constructor(config: FeishuConfig) {
+  constructor(config: FeishuConfig, listChats?: () => string[]) {
     this.config = config;
+    this.listChats = listChats;
     this.client = new FeishuClient(config);
     this.renderer = new FeishuRenderer();
     this.sentFilesByMessage = new Map();
   }
 
-  async start(onMessage: IncomingMessageHandler): Promise<void> {
+  async start(onMessage: IncomingMessageHandler, onAction?: IncomingActionHandler): Promise<void> {
+    if (this.config.thread_sessions) this.client.restoreThreads(this.listChats?.() || []);
     if (this.config.mode === 'webhook') {
-      await this.client.startWebhook(onMessage);
+      await this.client.startWebhook(onMessage, onAction);
     } else {
-      await this.client.startWebSocket(onMessage);
+      await this.client.startWebSocket(onMessage, onAction);
     }
   }
 
@@ -32,25 +49,41 @@ export class FeishuAdapter implements BridgeAdapter {
     await this.client.stop();
   }
 
-  async sendMessage(chatId: string, text: string): Promise<string | null> {
-    const files = extractFilesFromHandlerMarkdown(text);
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    const files = extractFilesFromContent(content);
     const sentSignatures = await this.sendNewFiles(chatId, files, undefined);
-    const messageId = await this.client.sendMessage(chatId, this.renderer.render(text));
+    const messageId = await this.client.sendMessage(chatId, this.renderer.render(content));
     if (messageId && sentSignatures.size > 0) {
       this.sentFilesByMessage.set(messageId, sentSignatures);
     }
     return messageId;
   }
 
-  async editMessage(chatId: string, messageId: string, text: string): Promise<boolean> {
-    const files = extractFilesFromHandlerMarkdown(text);
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const files = extractFilesFromContent(content);
     const sent = this.sentFilesByMessage.get(messageId);
     const newSent = await this.sendNewFiles(chatId, files, sent);
     if (newSent.size > 0) {
       const merged = new Set([...(sent || []), ...newSent]);
       this.sentFilesByMessage.set(messageId, merged);
     }
-    return this.client.editMessage(chatId, messageId, this.renderer.render(text));
+    return this.client.editMessage(chatId, messageId, this.renderer.render(content));
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.sendMessage(chatId, renderFeishuActionPromptCard(prompt));
+  }
+
+  async editActionPrompt(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    return this.client.editMessage(chatId, messageId, renderFeishuActionPromptCard(prompt));
   }
 
   async addReaction(messageId: string, emojiType: string): Promise<string | null> {
@@ -6,7 +6,12 @@ import * as crypto from 'crypto';
 import * as path from 'path';
 import * as https from 'https';
 
-import type { FeishuConfig, IncomingMessageHandler } from '../types';
+import type {
+  BridgeQuotedMessage,
+  FeishuConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
 import type { FilePartInput } from '@opencode-ai/sdk';
 import { bridgeLogger } from '../logger';
 import {
@@ -16,7 +21,20 @@ import {
   globalState,
   sleep,
 } from '../utils';
+import { createTextDisplay } from '../bridge/display';
 import { FeishuRenderer } from './feishu.renderer';
+import {
+  feishuCardActionChatId,
+  parseFeishuChatId,
+  routeFeishuMessage,
+  tagFeishuCardThread,
+} from './feishu.group';
+import {
+  parseFeishuPost,
+  renderFeishuTranscript,
+  summarizeFeishuMessage,
+  type FeishuInlineResource,
+} from './feishu.content';
 import { fetchFeishuResourceToBuffer } from './patch';
 import { LoggerLevel } from '@larksuiteoapi/node-sdk';
 import { BRIDGE_FEISHU_RESPONSE_TIMEOUT_MS } from '../constants';
@@ -80,7 +98,35 @@ function isUnresolvedVariableError(payload: unknown): boolean {
   return false;
 }
 
-type MentionLike = { key?: string };
+type MentionLike = { key?: string; id?: { open_id?: string } };
+
+/** `im.message.receive_v1` as both the WebSocket and webhook paths hand it over. */
+type FeishuInboundMessage = {
+  messageId: string;
+  chatId: string;
+  chatType?: string;
+  rootId?: string;
+  /** The message this one replies to or quotes. */
+  parentId?: string;
+  msgType: string;
+  content: string;
+  mentions?: MentionLike[];
+  senderId: string;
+};
+
+/** The fields of an `im.message.get` item the bridge reads. */
+type FeishuMessageItem = {
+  message_id?: string;
+  upper_message_id?: string;
+  msg_type?: string;
+  deleted?: boolean;
+  body?: { content: string };
+  sender?: { id: string; sender_type: string };
+  mentions?: Array<{ key: string; name?: string }>;
+};
+
+// Thread chats the bot answers in; bounded like the processed-id set.
+const MAX_TRACKED_THREADS = 2000;
 type TenantTokenResponse = {
   token?: string;
   expiresIn?: number;
@@ -123,6 +169,21 @@ function parseTenantTokenResponse(res: unknown): TenantTokenResponse {
   return { token, expiresIn: Number.isFinite(expiresIn) ? expiresIn : undefined };
 }
 
+const FEISHU_TEXT_KEYS = new Set(['title', 'text', 'content']);
+
+// Card and rich-text bodies: every title / text / content string, in document order.
+function collectFeishuText(value: unknown, out: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach(v => collectFeishuText(v, out));
+  } else if (isRecord(value)) {
+    for (const [key, v] of Object.entries(value)) {
+      if (typeof v !== 'string') collectFeishuText(v, out);
+      else if (FEISHU_TEXT_KEYS.has(key) && v.trim()) out.push(v.trim());
+    }
+  }
+  return out;
+}
+
 function getMessageType(value: unknown): string {
   if (!isRecord(value)) return 'text';
   const msgType = value.msg_type;
@@ -132,9 +193,33 @@ function getMessageType(value: unknown): string {
   return 'text';
 }
 
-const processedMessageIds: Set<string> =
-  globalState.__feishu_processed_ids || new Set<string>();
+type CardActionPayload = {
+  value: string;
+  chatId: string;
+  messageId: string;
+  senderId: string;
+};
+
+function parseCardActionPayload(event: unknown): CardActionPayload | null {
+  const action = getNestedRecord(event, 'action');
+  const actionValue = action ? getNestedRecord(action, 'value') : undefined;
+  const context = getNestedRecord(event, 'context');
+  const operator = getNestedRecord(event, 'operator');
+  const value = typeof actionValue?.action === 'string' ? actionValue.action : '';
+  const openChatId = typeof context?.open_chat_id === 'string' ? context.open_chat_id : '';
+  const chatId = openChatId && feishuCardActionChatId(openChatId, actionValue);
+  const messageId = typeof context?.open_message_id === 'string' ? context.open_message_id : '';
+  const senderId = typeof operator?.open_id === 'string' ? operator.open_id : '';
+  if (!value || !chatId) return null;
+  return { value, chatId, messageId, senderId };
+}
+
+// Kept per app: two bots in one chat both receive the same message_id.
+const processedMessageIds: Map<string, Set<string>> =
+  globalState.__feishu_processed_ids || new Map<string, Set<string>>();
 globalState.__feishu_processed_ids = processedMessageIds;
+const wsClients: Map<string, unknown> = globalState.__feishu_ws_clients || new Map();
+globalState.__feishu_ws_clients = wsClients;
 
 function decryptEvent(encrypted: string, encryptKey: string): string {
   const key = crypto.createHash('sha256').update(encryptKey).digest();
@@ -158,6 +243,9 @@ export class FeishuClient {
   private tenantToken?: string;
   private tenantTokenExpiresAt?: number;
   private refreshTenantTokenPromise?: Promise<string>;
+  private botOpenId?: string;
+  private activeThreads = new Set<string>();
+  private senderNames = new Map<string, string>();
 
   constructor(config: FeishuConfig) {
     this.config = config;
@@ -188,18 +276,89 @@ export class FeishuClient {
   }
 
   private isMessageProcessed(messageId: string): boolean {
-    if (processedMessageIds.has(messageId)) {
+    let processed = processedMessageIds.get(this.config.app_id);
+    if (!processed) {
+      processed = new Set<string>();
+      processedMessageIds.set(this.config.app_id, processed);
+    }
+    if (processed.has(messageId)) {
       bridgeLogger.info(`[Feishu] 🚫 Ignoring duplicate message ID: ${messageId}`);
       return true;
     }
-    processedMessageIds.add(messageId);
-    if (processedMessageIds.size > 2000) {
-      const first = processedMessageIds.values().next().value || '';
-      processedMessageIds.delete(first);
+    processed.add(messageId);
+    if (processed.size > 2000) {
+      const first = processed.values().next().value || '';
+      processed.delete(first);
     }
     return false;
   }
 
+  private rememberThread(threadChatId: string) {
+    this.activeThreads.delete(threadChatId);
+    this.activeThreads.add(threadChatId);
+    if (this.activeThreads.size > MAX_TRACKED_THREADS) {
+      this.activeThreads.delete(this.activeThreads.values().next().value || '');
+    }
+  }
+
+  /** Thread chats with a persisted session keep answering without a mention after a restart. */
+  restoreThreads(chatIds: string[]) {
+    const threads = chatIds.filter(chatId => parseFeishuChatId(chatId).rootId);
+    threads.forEach(chatId => this.rememberThread(chatId));
+    if (threads.length > 0) bridgeLogger.info(`[Feishu] restored threads=${threads.length}`);
+  }
+
+  /** Without the bot's open_id any @mention in a group counts as mentioning the bot. */
+  private async loadBotOpenId() {
+    if (this.botOpenId) return;
+    try {
+      const res = await this.runWithTenantRetry(options =>
+        this.apiClient.request<{ code?: number; msg?: string; bot?: { open_id?: string } }>(
+          { method: 'GET', url: '/open-apis/bot/v3/info' },
+          options,
+        ),
+      );
+      this.botOpenId = res?.bot?.open_id || undefined;
+      if (!this.botOpenId) {
+        bridgeLogger.warn('[Feishu] ⚠️ bot/v3/info returned no open_id:', res);
+      }
+    } catch (e) {
+      bridgeLogger.warn(`[Feishu] ⚠️ Failed to load bot identity: ${getErrorMessage(e) || e}`);
+    }
+  }
+
+  /** Thread chats (`oc_x#om_root`) reply to the thread root so the answer lands in the thread. */
+  private async createMessage(
+    chatId: string,
+    msgType: string,
+    content: string,
+    options?: TenantRequestOptions,
+  ) {
+    const { chatId: receiveId, rootId } = parseFeishuChatId(chatId);
+    if (!rootId) {
+      return this.apiClient.im.message.create(
+        {
+          params: { receive_id_type: 'chat_id' },
+          data: { receive_id: receiveId, msg_type: msgType, content },
+        },
+        options,
+      );
+    }
+    const res = await this.apiClient.im.message.reply(
+      {
+        path: { message_id: rootId },
+        data: {
+          msg_type: msgType,
+          content: msgType === 'interactive' ? tagFeishuCardThread(content, chatId) : content,
+          reply_in_thread: true,
+        },
+      },
+      options,
+    );
+    if (res.code === 0) this.rememberThread(chatId);
+    return res;
+  }
+
   private decodeDataUrl(dataUrl: string): { mime: string; buffer: Buffer } | null {
     const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
     if (!match) return null;
@@ -346,17 +505,7 @@ export class FeishuClient {
         )}`,
       );
       const res = await this.runWithTenantRetry(options =>
-        this.apiClient.im.message.create(
-          {
-            params: { receive_id_type: 'chat_id' },
-            data: {
-              receive_id: chatId,
-              msg_type: msgType,
-              content: JSON.stringify(content),
-            },
-          },
-          options,
-        ),
+        this.createMessage(chatId, msgType, JSON.stringify(content), options),
       );
       return res.code === 0;
     } catch (e) {
@@ -576,6 +725,8 @@ export class FeishuClient {
     msgType: string,
     contentJson: string,
     chatId: string,
+    announce = true, // quoted attachments load silently
+    progressKey = messageId, // the inbound message whose progress card this download reports to
   ): Promise<FilePartInput | null> {
     let content: Record<string, unknown>;
 
@@ -602,7 +753,6 @@ export class FeishuClient {
       globalState.__bridge_progress_msg_ids || new Map<string, string>();
     globalState.__bridge_progress_msg_ids = progressMap;
 
-    const progressKey = messageId;
     try {
       bridgeLogger.info(
         `[Feishu] 📦 Download resource start: msg=${messageId} type=${msgType} key=${fileKey} name=${fileName}`,
@@ -619,13 +769,19 @@ export class FeishuClient {
       const maxRetry =
         globalState.__bridge_max_file_retry?.get(chatId) ?? DEFAULT_MAX_FILE_RETRY;
 
-      if (maxRetry > 0) {
-        progressMsgId = await this.sendMessage(
-          chatId,
-          this.renderer.render(`## Status\n⏳ 正在处理 ${msgType} 文件：${fileName}`),
+      if (announce && maxRetry > 0) {
+        const status = this.renderer.render(
+          createTextDisplay('status', `⏳ 正在处理 ${msgType} 文件：${fileName}`),
         );
-        if (progressMsgId) {
-          progressMap.set(progressKey, progressMsgId);
+        // Further attachments of the same message update its card instead of adding one each.
+        const existing = progressMap.get(progressKey);
+        if (existing && (await this.editMessage(chatId, existing, status))) {
+          progressMsgId = existing;
+        } else {
+          progressMsgId = await this.sendMessage(chatId, status);
+          if (progressMsgId) {
+            progressMap.set(progressKey, progressMsgId);
+          }
         }
       }
 
@@ -655,12 +811,14 @@ export class FeishuClient {
       const contentLength = contentLengthRaw ? Number(contentLengthRaw) : 0;
 
       if (contentLength && contentLength > maxBytes) {
-        await this.sendMessage(
-          chatId,
-          `❌ 文件过大（${(contentLength / 1024 / 1024).toFixed(
-            2,
-          )}MB），当前限制 ${maxSizeMb}MB。可用 /maxFileSize <xmb> 调整。`,
-        );
+        if (announce) {
+          await this.sendMessage(
+            chatId,
+            `❌ 文件过大（${(contentLength / 1024 / 1024).toFixed(
+              2,
+            )}MB），当前限制 ${maxSizeMb}MB。可用 /maxFileSize <xmb> 调整。`,
+          );
+        }
         bridgeLogger.warn(
           `[Feishu] ⚠️ Resource too large by header: ${contentLength} bytes > ${maxBytes}`,
         );
@@ -669,9 +827,12 @@ export class FeishuClient {
             chatId,
             progressMsgId,
             this.renderer.render(
-              `## Status\n❌ 文件过大（${(contentLength / 1024 / 1024).toFixed(
-                2,
-              )}MB），当前限制 ${maxSizeMb}MB。`,
+              createTextDisplay(
+                'status',
+                `❌ 文件过大（${(contentLength / 1024 / 1024).toFixed(
+                  2,
+                )}MB），当前限制 ${maxSizeMb}MB。`,
+              ),
             ),
           ).catch(() => {});
           progressMap.delete(progressKey);
@@ -682,21 +843,26 @@ export class FeishuClient {
       const buf = res.buffer;
 
       if (buf.length > maxBytes) {
-        await this.sendMessage(
-          chatId,
-          `❌ 文件过大（${(buf.length / 1024 / 1024).toFixed(
-            2,
-          )}MB），当前限制 ${maxSizeMb}MB。可用 /maxFileSize <xmb> 调整。`,
-        );
+        if (announce) {
+          await this.sendMessage(
+            chatId,
+            `❌ 文件过大（${(buf.length / 1024 / 1024).toFixed(
+              2,
+            )}MB），当前限制 ${maxSizeMb}MB。可用 /maxFileSize <xmb> 调整。`,
+          );
+        }
         bridgeLogger.warn(`[Feishu] ⚠️ Resource too large by body: ${buf.length} bytes > ${maxBytes}`);
         if (progressMsgId) {
           await this.editMessage(
             chatId,
             progressMsgId,
             this.renderer.render(
-              `## Status\n❌ 文件过大（${(buf.length / 1024 / 1024).toFixed(
-                2,
-              )}MB），当前限制 ${maxSizeMb}MB。`,
+              createTextDisplay(
+                'status',
+                `❌ 文件过大（${(buf.length / 1024 / 1024).toFixed(
+                  2,
+                )}MB），当前限制 ${maxSizeMb}MB。`,
+              ),
             ),
           ).catch(() => {});
           progressMap.delete(progressKey);
@@ -728,10 +894,12 @@ export class FeishuClient {
         await this.editMessage(
           chatId,
           progressMsgId,
-          this.renderer.render('## Status\n❌ 文件上传失败，请重试。'),
+          this.renderer.render(createTextDisplay('status', '❌ 文件上传失败，请重试。')),
         ).catch(() => {});
         progressMap.delete(progressKey);
       }
+      // A quoted attachment is context only; the prompt still goes out without it.
+      if (!announce) return null;
       const sendError = globalState.__bridge_send_error_message;
       if (sendError) {
         await sendError(chatId, '资源下载失败，请稍后重试。');
@@ -817,17 +985,7 @@ export class FeishuClient {
     try {
       const res = await this.withResponseTimeout(
         this.runWithTenantRetry(options =>
-          this.apiClient.im.message.create(
-            {
-              params: { receive_id_type: 'chat_id' },
-              data: {
-                receive_id: chatId,
-                msg_type: 'text',
-                content: JSON.stringify({ text: fallbackText }),
-              },
-            },
-            options,
-          ),
+          this.createMessage(chatId, 'text', JSON.stringify({ text: fallbackText }), options),
         ),
         'sendMessage(text-fallback)',
       );
@@ -886,18 +1044,9 @@ export class FeishuClient {
       const finalContent = isCard ? text : this.makeCard(text);
 
       const res = await this.withResponseTimeout(
+        // 永远使用 interactive
         this.runWithTenantRetry(options =>
-          this.apiClient.im.message.create(
-            {
-              params: { receive_id_type: 'chat_id' },
-              data: {
-                receive_id: chatId,
-                msg_type: 'interactive', // 永远使用 interactive
-                content: finalContent,
-              },
-            },
-            options,
-          ),
+          this.createMessage(chatId, 'interactive', finalContent, options),
         ),
         'sendMessage(interactive)',
       );
@@ -930,7 +1079,7 @@ export class FeishuClient {
             {
               path: { message_id: messageId },
               data: {
-                content: text,
+                content: tagFeishuCardThread(text, chatId),
               },
             },
             options,
@@ -994,8 +1143,245 @@ export class FeishuClient {
     }
   }
 
-  async startWebSocket(onMessage: IncomingMessageHandler) {
-    if (globalState.__feishu_ws_client_instance) return;
+  private async handleCardAction(
+    event: unknown,
+    onAction?: IncomingActionHandler,
+  ): Promise<Record<string, unknown>> {
+    const payload = parseCardActionPayload(event);
+    if (!payload || !onAction) return {};
+    bridgeLogger.info(
+      `[Feishu] 🖱️ card action chat=${payload.chatId} msg=${payload.messageId} sender=${payload.senderId} value=${payload.value}`,
+    );
+    const reply = await onAction(
+      payload.chatId,
+      payload.value,
+      payload.senderId,
+      payload.messageId,
+    ).catch(err => {
+      bridgeLogger.error('[Feishu] ❌ Card action handler error:', err);
+      return null;
+    });
+    return reply ? { toast: { type: 'info', content: reply } } : {};
+  }
+
+  private async fetchQuote(
+    messageId: string,
+    chatId: string,
+  ): Promise<BridgeQuotedMessage | undefined> {
+    try {
+      const res = await this.runWithTenantRetry(options =>
+        this.apiClient.im.message.get({ path: { message_id: messageId } }, options),
+      );
+      const item = res.data?.items?.[0];
+      if (res.code !== 0 || !item || item.deleted) return undefined;
+      const msgType = item.msg_type || 'text';
+      const content = item.body?.content || '{}';
+      const sender = item.sender;
+      const fromBot = sender?.sender_type === 'app' && sender.id === this.config.app_id;
+      const author = fromBot ? undefined : sender?.id;
+
+      if (msgType === 'text') {
+        const mentions = (item.mentions || []).map(m => ({ key: m.key }));
+        const text = this.parseAndCleanContent(content, mentions);
+        return text ? { text, author, fromBot } : undefined;
+      }
+      if (msgType === 'post') {
+        const post = parseFeishuPost(content);
+        const files = await this.downloadResources(messageId, post.resources, chatId, false);
+        return post.text || files.length ? { text: post.text, author, fromBot, files } : undefined;
+      }
+      if (msgType === 'interactive') {
+        const text = collectFeishuText(JSON.parse(content)).join('\n');
+        return text ? { text, author, fromBot } : undefined;
+      }
+      const part = await this.buildFilePart(messageId, msgType, content, chatId, false);
+      return part ? { text: '', author, fromBot, files: [part] } : undefined;
+    } catch (e) {
+      bridgeLogger.warn(
+        `[Feishu] ⚠️ Failed to load quoted message msg=${messageId}: ${getErrorMessage(e) || e}`,
+      );
+      return undefined;
+    }
+  }
+
+  private async dispatchMessage(
+    via: 'ws' | 'webhook',
+    message: FeishuInboundMessage,
+    onMessage: IncomingMessageHandler,
+  ) {
+    const { messageId, senderId, msgType } = message;
+    const isText = msgType === 'text';
+    const post = msgType === 'post' ? parseFeishuPost(message.content) : undefined;
+    const text = isText
+      ? this.parseAndCleanContent(message.content, message.mentions)
+      : post?.text || '';
+    if (isText && !text) return;
+
+    const route = routeFeishuMessage(
+      {
+        messageId,
+        chatId: message.chatId,
+        chatType: message.chatType,
+        rootId: message.rootId,
+        mentionedOpenIds: (message.mentions || []).flatMap(m => m.id?.open_id || []),
+        text,
+      },
+      {
+        policy: this.config.group_policies[message.chatId] || this.config.group_policy,
+        threadSessions: this.config.thread_sessions,
+        botOpenId: this.botOpenId,
+        activeThreads: this.activeThreads,
+      },
+    );
+    if ('skip' in route) {
+      bridgeLogger.debug(
+        `[Feishu] 🔇 ${via} skip chat=${message.chatId} msg=${messageId} reason=${route.skip}`,
+      );
+      return;
+    }
+    const chatId = route.chatId;
+    const inThread = chatId !== message.chatId;
+    if (inThread) this.rememberThread(chatId);
+    // Plain follow-ups in a thread point at the root, which the thread session already has.
+    const quotedId = inThread && message.parentId === message.rootId ? '' : message.parentId;
+    const resolveQuote = quotedId ? () => this.fetchQuote(quotedId, chatId) : undefined;
+
+    if (isText) {
+      bridgeLogger.info(
+        `[Feishu] 📥 ${via} text chat=${chatId} msg=${messageId} sender=${senderId} len=${text.length}`,
+      );
+      await onMessage(chatId, text, messageId, senderId, undefined, resolveQuote);
+      return;
+    }
+
+    if (post || msgType === 'merge_forward') {
+      const body = post
+        ? { text, parts: await this.downloadResources(messageId, post.resources, chatId, true) }
+        : await this.expandMergeForward(messageId, chatId);
+      if (!body.text && body.parts.length === 0) return;
+      if (body.text) await this.finishProgress(chatId, messageId, body.parts.length);
+      bridgeLogger.info(
+        `[Feishu] 📥 ${via} ${msgType} chat=${chatId} msg=${messageId} sender=${senderId} len=${body.text.length} files=${body.parts.length}`,
+      );
+      await onMessage(chatId, body.text, messageId, senderId, body.parts, resolveQuote);
+      return;
+    }
+
+    const part = await this.buildFilePart(messageId, msgType, message.content, chatId);
+    if (!part) return;
+    bridgeLogger.info(
+      `[Feishu] 📥 ${via} file chat=${chatId} msg=${messageId} sender=${senderId} type=${msgType} name=${part.filename || ''} mime=${part.mime || ''}`,
+    );
+    await onMessage(chatId, '', messageId, senderId, [part], resolveQuote);
+  }
+
+  /**
+   * Inline images and videos of a post or forwarded message; failures only cost the file.
+   * `announce` reports progress, size limits and errors like a plain file message does.
+   */
+  private async downloadResources(
+    messageId: string,
+    resources: FeishuInlineResource[],
+    chatId: string,
+    announce: boolean,
+    progressKey = messageId,
+  ): Promise<FilePartInput[]> {
+    const parts: FilePartInput[] = [];
+    for (const r of resources) {
+      const content =
+        r.kind === 'image' ? { image_key: r.key } : { file_key: r.key, file_name: r.name };
+      const part = await this.buildFilePart(
+        messageId,
+        r.kind,
+        JSON.stringify(content),
+        chatId,
+        announce,
+        progressKey,
+      );
+      if (part) parts.push(part);
+    }
+    return parts;
+  }
+
+  // The incoming flow settles the card of a file-only message; one with text goes straight
+  // to the prompt, so the card is settled here.
+  private async finishProgress(chatId: string, messageId: string, files: number) {
+    const progressMap = globalState.__bridge_progress_msg_ids;
+    const progressMsgId = progressMap?.get(messageId);
+    if (!progressMsgId) return;
+    progressMap?.delete(messageId);
+    await this.editMessage(
+      chatId,
+      progressMsgId,
+      this.renderer.render(createTextDisplay('status', `✅ 已接收 ${files} 个附件`)),
+    ).catch(() => {});
+  }
+
+  private async senderName(sender?: { id: string; sender_type: string }): Promise<string> {
+    if (!sender?.id) return 'Unknown';
+    if (sender.sender_type === 'app') return sender.id === this.config.app_id ? 'Bot' : sender.id;
+    const cached = this.senderNames.get(sender.id);
+    if (cached) return cached;
+    let name = sender.id;
+    try {
+      const res = await this.runWithTenantRetry(options =>
+        this.apiClient.contact.user.get(
+          { path: { user_id: sender.id }, params: { user_id_type: 'open_id' } },
+          options,
+        ),
+      );
+      name = res.data?.user?.name || sender.id;
+    } catch (e) {
+      // Needs the contact permission; the open_id still tells senders apart.
+      bridgeLogger.debug(`[Feishu] user name lookup failed id=${sender.id}: ${getErrorMessage(e)}`);
+    }
+    this.senderNames.set(sender.id, name);
+    return name;
+  }
+
+  /** A forwarded chat bundle becomes one transcript prompt plus the files it contained. */
+  private async expandMergeForward(
+    messageId: string,
+    chatId: string,
+  ): Promise<{ text: string; parts: FilePartInput[] }> {
+    let items: FeishuMessageItem[] = [];
+    try {
+      const res = await this.runWithTenantRetry(options =>
+        this.apiClient.im.message.get({ path: { message_id: messageId } }, options),
+      );
+      items = res.data?.items || [];
+    } catch (e) {
+      bridgeLogger.warn(
+        `[Feishu] ⚠️ Failed to load forwarded messages msg=${messageId}: ${getErrorMessage(e) || e}`,
+      );
+    }
+
+    const lines: Array<{ sender: string; text: string }> = [];
+    const parts: FilePartInput[] = [];
+    for (const item of items) {
+      if (item.upper_message_id !== messageId || !item.message_id || item.deleted) continue;
+      const summary = summarizeFeishuMessage({
+        msgType: item.msg_type || 'text',
+        content: item.body?.content || '{}',
+        mentions: item.mentions,
+      });
+      lines.push({ sender: await this.senderName(item.sender), text: summary.text });
+      parts.push(
+        ...(await this.downloadResources(
+          item.message_id,
+          summary.resources,
+          chatId,
+          true,
+          messageId,
+        )),
+      );
+    }
+    return { text: lines.length > 0 ? renderFeishuTranscript(lines) : '', parts };
+  }
+
+  async startWebSocket(onMessage: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    if (wsClients.has(this.config.app_id)) return;
+    await this.loadBotOpenId();
 
     this.wsClient = new lark.WSClient({
       appId: this.config.app_id,
@@ -1003,43 +1389,40 @@ export class FeishuClient {
       loggerLevel: lark.LoggerLevel.trace,
     });
 
-    const dispatcher = new lark.EventDispatcher({}).register({
+    const dispatcher = new lark.EventDispatcher({}).register<{
+      'card.action.trigger': (data: unknown) => Promise<Record<string, unknown>>;
+    }>({
+      'card.action.trigger': async data => this.handleCardAction(data, onAction),
       'im.message.receive_v1': async data => {
         bridgeLogger.info('.message.receive--->', data);
         const { message, sender } = data;
-        const messageId = message.message_id;
-        const chatId = message.chat_id;
-        const senderId = sender?.sender_id?.open_id || '';
-
-        if (this.isMessageProcessed(messageId)) return;
-
-        const msgType = getMessageType(message);
-        if (msgType === 'text') {
-          const text = this.parseAndCleanContent(message.content, message.mentions);
-          if (!text) return;
-          bridgeLogger.info(
-            `[Feishu] 📥 ws text chat=${chatId} msg=${messageId} sender=${senderId} len=${text.length}`,
-          );
-          await onMessage(chatId, text, messageId, senderId);
-          return;
-        }
-
-        const part = await this.buildFilePart(messageId, msgType, message.content, chatId);
-        if (!part) return;
-        bridgeLogger.info(
-          `[Feishu] 📥 ws file chat=${chatId} msg=${messageId} sender=${senderId} type=${msgType} name=${part.filename || ''} mime=${part.mime || ''}`,
+        if (this.isMessageProcessed(message.message_id)) return;
+        await this.dispatchMessage(
+          'ws',
+          {
+            messageId: message.message_id,
+            chatId: message.chat_id,
+            chatType: message.chat_type,
+            rootId: message.root_id || undefined,
+            parentId: message.parent_id || undefined,
+            msgType: getMessageType(message),
+            content: message.content,
+            mentions: message.mentions,
+            senderId: sender?.sender_id?.open_id || '',
+          },
+          onMessage,
         );
-        await onMessage(chatId, '', messageId, senderId, [part]);
       },
     });
 
     await this.wsClient.start({ eventDispatcher: dispatcher });
-    globalState.__feishu_ws_client_instance = this.wsClient;
+    wsClients.set(this.config.app_id, this.wsClient);
     bridgeLogger.info('✅ Feishu WebSocket Connected!');
   }
 
-  async startWebhook(onMessage: IncomingMessageHandler) {
+  async startWebhook(onMessage: IncomingMessageHandler, onAction?: IncomingActionHandler) {
     if (this.httpServer) return;
+    await this.loadBotOpenId();
 
     const port = this.callbackPort || 8080;
     this.httpServer = http.createServer((req, res) => {
@@ -1087,6 +1470,13 @@ export class FeishuClient {
           }
 
           const header = getNestedRecord(body, 'header');
+          if (header?.event_type === 'card.action.trigger') {
+            const result = await this.handleCardAction(getNestedRecord(body, 'event'), onAction);
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(result));
+            return;
+          }
+
           if (header?.event_type === 'im.message.receive_v1') {
             res.writeHead(200, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ code: 0 }));
@@ -1101,37 +1491,29 @@ export class FeishuClient {
             const senderId = typeof senderID?.open_id === 'string' ? senderID.open_id : '';
 
             if (messageId && chatId && !this.isMessageProcessed(messageId)) {
-              const msgType = getMessageType(eventMessage);
-              const content =
-                typeof eventMessage?.content === 'string' ? eventMessage.content : '{}';
-              const mentions = Array.isArray(eventMessage?.mentions)
-                ? (eventMessage.mentions as MentionLike[])
-                : undefined;
-              if (msgType === 'text') {
-                const text = this.parseAndCleanContent(content, mentions);
-                if (text) {
-                  bridgeLogger.info(
-                    `[Feishu] 📥 webhook text chat=${chatId} msg=${messageId} sender=${senderId} len=${text.length}`,
-                  );
-                  onMessage(chatId, text, messageId, senderId).catch(err => {
-                    bridgeLogger.error('[Feishu Webhook] ❌ Handler Error:', err);
-                  });
-                }
-              } else {
-                const part = await this.buildFilePart(
-                  messageId,
-                  msgType,
-                  content,
-                  chatId,
-                );
-                if (!part) return;
-                bridgeLogger.info(
-                  `[Feishu] 📥 webhook file chat=${chatId} msg=${messageId} sender=${senderId} type=${msgType} name=${part.filename || ''} mime=${part.mime || ''}`,
-                );
-                onMessage(chatId, '', messageId, senderId, [part]).catch(err => {
-                  bridgeLogger.error('[Feishu Webhook] ❌ Handler Error:', err);
-                });
-              }
+              const message: FeishuInboundMessage = {
+                messageId,
+                chatId,
+                chatType:
+                  typeof eventMessage?.chat_type === 'string' ? eventMessage.chat_type : undefined,
+                rootId:
+                  typeof eventMessage?.root_id === 'string' && eventMessage.root_id
+                    ? eventMessage.root_id
+                    : undefined,
+                parentId:
+                  typeof eventMessage?.parent_id === 'string' && eventMessage.parent_id
+                    ? eventMessage.parent_id
+                    : undefined,
+                msgType: getMessageType(eventMessage),
+                content: typeof eventMessage?.content === 'string' ? eventMessage.content : '{}',
+                mentions: Array.isArray(eventMessage?.mentions)
+                  ? (eventMessage.mentions as MentionLike[])
+                  : undefined,
+                senderId,
+              };
+              this.dispatchMessage('webhook', message, onMessage).catch(err => {
+                bridgeLogger.error('[Feishu Webhook] ❌ Handler Error:', err);
+              });
             }
             return;
           }
@@ -1160,8 +1542,8 @@ export class FeishuClient {
 
   async stop() {
     if (this.wsClient) {
+      if (wsClients.get(this.config.app_id) === this.wsClient) wsClients.delete(this.config.app_id);
       this.wsClient = null;
-      globalState.__feishu_ws_client_instance = null;
     }
     if (this.httpServer) {
       this.httpServer.close();
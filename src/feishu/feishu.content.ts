@@ -0,0 +1,153 @@
+// src/feishu/feishu.content.ts
+
+/** An attachment referenced inside a message body, downloaded through the message resource API. */
+export type FeishuInlineResource = { kind: 'image' | 'file'; key: string; name?: string };
+
+export type FeishuParsedContent = { text: string; resources: FeishuInlineResource[] };
+
+/** One message of a `merge_forward` bundle, as `im.message.get` lists it. */
+export type FeishuForwardedItem = {
+  msgType: string;
+  content: string;
+  mentions?: Array<{ key: string; name?: string }>;
+};
+
+type PostElement = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function parseJson(contentJson: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(contentJson);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Events deliver `{ title, content }`; sent and fetched posts may still be wrapped in a locale.
+function unwrapPost(post: Record<string, unknown>): Record<string, unknown> {
+  if (Array.isArray(post.content)) return post;
+  const localized = Object.values(post).find(v => isRecord(v) && Array.isArray(v.content));
+  return isRecord(localized) ? localized : post;
+}
+
+function styled(text: string, style: unknown): string {
+  if (!text.trim() || !Array.isArray(style)) return text;
+  let out = text;
+  if (style.includes('bold')) out = `**${out}**`;
+  if (style.includes('italic')) out = `*${out}*`;
+  if (style.includes('lineThrough')) out = `~~${out}~~`;
+  return out;
+}
+
+function renderElement(el: PostElement, resources: FeishuInlineResource[]): string {
+  switch (el.tag) {
+    case 'text':
+      return styled(str(el.text), el.style);
+    case 'md':
+      return str(el.text);
+    case 'a': {
+      const href = str(el.href);
+      const text = str(el.text) || href;
+      return href ? `[${text}](${href})` : text;
+    }
+    case 'at':
+      // Mentions are dropped, as in text messages.
+      return '';
+    case 'emotion':
+      return el.emoji_type ? `:${str(el.emoji_type)}:` : '';
+    case 'img': {
+      const key = str(el.image_key);
+      if (!key) return '';
+      resources.push({ kind: 'image', key });
+      return `[image ${resources.filter(r => r.kind === 'image').length}]`;
+    }
+    case 'media': {
+      const key = str(el.file_key);
+      if (!key) return '';
+      resources.push({ kind: 'file', key, name: str(el.file_name) || undefined });
+      return '[video]';
+    }
+    case 'code_block': {
+      const code = str(el.text).replace(/\n$/, '');
+      return `\n\`\`\`${str(el.language).toLowerCase()}\n${code}\n\`\`\`\n`;
+    }
+    case 'hr':
+      return '\n---\n';
+    default:
+      return str(el.text);
+  }
+}
+
+/**
+ * Flattens a `post` body into markdown: one line per paragraph, styles, links and code blocks
+ * kept, images and videos replaced by placeholders and returned for download.
+ */
+export function parseFeishuPost(contentJson: string): FeishuParsedContent {
+  const post = unwrapPost(parseJson(contentJson));
+  const resources: FeishuInlineResource[] = [];
+  const lines: string[] = [];
+  const title = str(post.title).trim();
+  if (title) lines.push(`**${title}**`, '');
+  for (const paragraph of Array.isArray(post.content) ? post.content : []) {
+    if (!Array.isArray(paragraph)) continue;
+    lines.push(
+      paragraph
+        .filter(isRecord)
+        .map(el => renderElement(el, resources))
+        .join('')
+        .trim(),
+    );
+  }
+  const text = lines
+    .join('\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { text, resources };
+}
+
+/** One line of a forwarded transcript; mention keys become `@name`. */
+export function summarizeFeishuMessage(item: FeishuForwardedItem): FeishuParsedContent {
+  const content = parseJson(item.content);
+  switch (item.msgType) {
+    case 'text': {
+      let text = str(content.text);
+      for (const m of item.mentions || []) {
+        if (m.key) text = text.split(m.key).join(m.name ? `@${m.name}` : '');
+      }
+      return { text: text.trim(), resources: [] };
+    }
+    case 'post':
+      return parseFeishuPost(item.content);
+    case 'image': {
+      const key = str(content.image_key);
+      return { text: '[image]', resources: key ? [{ kind: 'image', key }] : [] };
+    }
+    case 'file': {
+      const key = str(content.file_key);
+      const name = str(content.file_name) || undefined;
+      return {
+        text: `[file${name ? ` ${name}` : ''}]`,
+        resources: key ? [{ kind: 'file', key, name }] : [],
+      };
+    }
+    case 'merge_forward':
+      return { text: '[forwarded messages]', resources: [] };
+    default:
+      return { text: `[${item.msgType}]`, resources: [] };
+  }
+}
+
+/** `Alice: hello` lines under a header, multi-line messages indented under their sender. */
+export function renderFeishuTranscript(lines: Array<{ sender: string; text: string }>): string {
+  const body = lines.map(l => `${l.sender}: ${l.text.replace(/\n/g, '\n  ')}`);
+  return ['[Forwarded messages]', ...body].join('\n');
+}
@@ -0,0 +1,102 @@
+// src/feishu/feishu.group.ts
+import type { BridgeGroupPolicy } from '../types';
+import { THREAD_CHAT_SEPARATOR, threadParentChatId } from '../utils';
+
+/** The parts of an `im.message.receive_v1` message that decide whether and where to answer. */
+export type FeishuRouteInput = {
+  messageId: string;
+  chatId: string;
+  chatType?: string; // `p2p` | `group`
+  rootId?: string;
+  mentionedOpenIds: string[];
+  text: string;
+};
+
+export type FeishuRouteOptions = {
+  policy: BridgeGroupPolicy;
+  threadSessions: boolean;
+  /** Unknown until `bot/v3/info` answered; then any mention counts. */
+  botOpenId?: string;
+  /** Thread chats the bot already answers in; follow-ups there need no mention. */
+  activeThreads: ReadonlySet<string>;
+};
+
+export type FeishuRoute =
+  | { chatId: string; mentioned: boolean }
+  | { skip: 'no_mention' | 'not_command' };
+
+/** `oc_x` + `om_root` -> `oc_x#om_root`: one bridge chat (and session) per thread. */
+export function feishuThreadChatId(chatId: string, rootId: string): string {
+  return `${chatId}${THREAD_CHAT_SEPARATOR}${rootId}`;
+}
+
+/** Splits a bridge chat id into the Feishu chat and, for thread chats, the thread root message. */
+export function parseFeishuChatId(chatId: string): { chatId: string; rootId?: string } {
+  const parent = threadParentChatId(chatId);
+  if (!parent) return { chatId };
+  return { chatId: parent, rootId: chatId.slice(parent.length + 1) || undefined };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function tagButtonValues(node: unknown, rootId: string): unknown {
+  if (Array.isArray(node)) return node.map(n => tagButtonValues(n, rootId));
+  if (!isRecord(node)) return node;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    out[key] =
+      key === 'value' && isRecord(value) && typeof value.action === 'string'
+        ? { ...value, thread_root: rootId }
+        : tagButtonValues(value, rootId);
+  }
+  return out;
+}
+
+/**
+ * Card callbacks only report the group chat. Cards sent to a thread chat carry the thread root
+ * in every button value, so a click finds its thread again after a restart.
+ */
+export function tagFeishuCardThread(cardJson: string, chatId: string): string {
+  const { rootId } = parseFeishuChatId(chatId);
+  if (!rootId) return cardJson;
+  try {
+    return JSON.stringify(tagButtonValues(JSON.parse(cardJson), rootId));
+  } catch {
+    return cardJson;
+  }
+}
+
+/** The bridge chat of a card click: the thread chat when the button carries a thread root. */
+export function feishuCardActionChatId(openChatId: string, actionValue: unknown): string {
+  const rootId = isRecord(actionValue) ? actionValue.thread_root : undefined;
+  return typeof rootId === 'string' && rootId ? feishuThreadChatId(openChatId, rootId) : openChatId;
+}
+
+/**
+ * Direct chats are always answered. In groups the policy decides: `all` answers everything,
+ * `mention` only messages that @mention the bot, `commands` only slash commands. With thread
+ * sessions a group message starts (or continues) a thread rooted at the first message, and
+ * replies inside a thread the bot already answers in need no mention.
+ */
+export function routeFeishuMessage(
+  input: FeishuRouteInput,
+  options: FeishuRouteOptions,
+): FeishuRoute {
+  const mentioned = options.botOpenId
+    ? input.mentionedOpenIds.includes(options.botOpenId)
+    : input.mentionedOpenIds.length > 0;
+  if (input.chatType !== 'group') return { chatId: input.chatId, mentioned };
+
+  const threadChatId = options.threadSessions
+    ? feishuThreadChatId(input.chatId, input.rootId || input.messageId)
+    : undefined;
+  const inActiveThread = Boolean(threadChatId && options.activeThreads.has(threadChatId));
+
+  if (options.policy === 'mention' && !mentioned && !inActiveThread) return { skip: 'no_mention' };
+  if (options.policy === 'commands' && !input.text.trim().startsWith('/')) {
+    return { skip: 'not_command' };
+  }
+  return { chatId: threadChatId || input.chatId, mentioned };
+}
@@ -1,5 +1,16 @@
 // src/feishu/feishu.renderer.ts
+import type { BridgeActionPrompt, BridgeMessageContent, DisplayModel } from '../types';
 import { sanitizeTemplateMarkers } from '../utils';
+import { isDisplayModel } from '../bridge/display';
+import {
+  getStatusWithEmoji,
+  parseSections,
+  pickCardHeader,
+  sectionsFromDisplayModel,
+  sectionsFromMarkdown,
+  splitStatusPaths,
+} from '../bridge/sections';
+import type { CardSections } from '../bridge/sections';
 
 type FeishuCard = {
   config?: { wide_screen_mode?: boolean };
@@ -9,6 +20,8 @@ type FeishuCard = {
 
 type FeishuCardElement = Record<string, unknown>;
 
+const STOP_ACTION_VALUE = 'abort';
+
 export type RenderedFile = {
   filename?: string;
   mime?: string;
@@ -71,189 +84,6 @@ function collapsiblePanel(title: string, content: string, expanded = false, bord
   };
 }
 
-function splitToolsIntoExecutionPanels(rawTools: string): string[] {
-  const raw = trimSafe(rawTools);
-  if (!raw) return [];
-
-  const lines = raw.split('\n');
-
-  const stepHeaderIndexes: number[] = [];
-  for (let i = 0; i < lines.length; i++) {
-    if (/^\s*###\s*steps?\s+\d+/i.test(lines[i])) stepHeaderIndexes.push(i);
-  }
-  if (stepHeaderIndexes.length > 0) {
-    const panels: string[] = [];
-    for (let i = 0; i < stepHeaderIndexes.length; i++) {
-      const start = stepHeaderIndexes[i];
-      const end = i + 1 < stepHeaderIndexes.length ? stepHeaderIndexes[i + 1] : lines.length;
-      const block = trimSafe(lines.slice(start + 1, end).join('\n'));
-      if (block) panels.push(block);
-    }
-    if (panels.length > 0) return panels;
-  }
-
-  const toolStartIndexes: number[] = [];
-  for (let i = 0; i < lines.length; i++) {
-    if (/^-\s*\S+/.test(lines[i])) toolStartIndexes.push(i);
-  }
-  if (toolStartIndexes.length === 0) return [raw];
-
-  const panels: string[] = [];
-  for (let i = 0; i < toolStartIndexes.length; i++) {
-    const start = toolStartIndexes[i];
-    const end = i + 1 < toolStartIndexes.length ? toolStartIndexes[i + 1] : lines.length;
-    const block = trimSafe(lines.slice(start, end).join('\n'));
-    if (block) panels.push(block);
-  }
-  return panels.length > 0 ? panels : [raw];
-}
-
-function normalizeSectionTitle(rawTitle: string): string {
-  return (rawTitle || '')
-    .trim()
-    .replace(/[*#:：]/g, '')
-    .replace(/\s+/g, ' ')
-    .toLowerCase();
-}
-
-function matchSectionKey(
-  rawTitle: string,
-): 'thinking' | 'error' | 'command' | 'tools' | 'files' | 'status' | 'answer' | null {
-  const t = normalizeSectionTitle(rawTitle);
-  if (!t) return null;
-
-  if (['thinking', 'thought', '思考'].includes(t)) return 'thinking';
-  if (['error', '错误'].includes(t)) return 'error';
-  if (['command', '命令'].includes(t)) return 'command';
-  if (['tool', 'tools', 'step', 'steps', '工具', '步骤', 'tools / steps'].includes(t))
-    return 'tools';
-  if (['file', 'files', '文件'].includes(t)) return 'files';
-  if (['status', '状态'].includes(t)) return 'status';
-  if (['answer', '回答'].includes(t)) return 'answer';
-
-  return null;
-}
-
-function getStatusWithEmoji(statusText: string): string {
-  const s = statusText.toLowerCase();
-  const isDone =
-    s.includes('done') || s.includes('stop') || s.includes('finish') || s.includes('idle');
-
-  const emoji = isDone ? '✅' : '⚡️';
-
-  const cleanText = statusText.replace(/\n/g, ' | ').slice(0, 100);
-  return `${emoji} ${cleanText}`;
-}
-
-function splitStatusPaths(statusText: string): { status: string; paths: string[] } {
-  const lines = (statusText || '').split('\n');
-  const paths: string[] = [];
-  const keep: string[] = [];
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed.startsWith('- ')) {
-      const p = trimmed.slice(2).trim();
-      if (p) {
-        paths.push(p);
-        continue;
-      }
-    }
-    keep.push(line);
-  }
-
-  return { status: keep.join('\n').trim(), paths };
-}
-
-function pickHeaderForStatus(statusRaw: string): { title: string; color: string } {
-  const statusText = trimSafe(statusRaw).toLowerCase();
-  const isFail =
-    statusText.includes('失败') ||
-    statusText.includes('error') ||
-    statusText.includes('fail') ||
-    statusText.includes('❌');
-  const isSuccess =
-    statusText.includes('成功') ||
-    statusText.includes('已保存') ||
-    statusText.includes('已存在') ||
-    statusText.includes('✅') ||
-    statusText.includes('🟡');
-  const isProcessing =
-    statusText.includes('正在处理') ||
-    statusText.includes('处理中') ||
-    statusText.includes('processing') ||
-    statusText.includes('loading') ||
-    statusText.includes('⏳');
-
-  if (isFail) return { title: '🚨 Error', color: 'red' };
-  if (isSuccess) return { title: '✅ Saved', color: 'green' };
-  if (isProcessing) return { title: '⏳ Loading', color: 'orange' };
-  return { title: '📝 Status', color: 'blue' };
-}
-
-function parseSections(md: string) {
-  const sectionMap: Record<string, string> = {
-    command: '',
-    error: '',
-    thinking: '',
-    answer: '',
-    tools: '',
-    files: '',
-    status: '',
-  };
-
-  let cleanMd = md;
-
-  const thinkingBlockRegex = /^(\s*> [^]*?)(?=\n[^>]|$)/;
-  const thinkingMatch = md.match(thinkingBlockRegex);
-
-  if (thinkingMatch && !md.includes('## Thinking')) {
-    sectionMap.thinking = thinkingMatch[1];
-    cleanMd = md.slice(thinkingMatch[0].length);
-  }
-
-  const headerRegex = /(?:^|\n)(##+|(?:\*\*))\s*(.*?)(?:(?:\*\*|:)?)(?=\n|$)/g;
-  let match;
-
-  const firstMatch = headerRegex.exec(cleanMd);
-  if (firstMatch && firstMatch.index > 0) {
-    sectionMap.answer = cleanMd.slice(0, firstMatch.index);
-  }
-  headerRegex.lastIndex = 0;
-
-  while ((match = headerRegex.exec(cleanMd)) !== null) {
-    const rawTitle = match[2].toLowerCase().trim();
-    const startIndex = match.index + match[0].length;
-    const nextMatch = headerRegex.exec(cleanMd);
-    const endIndex = nextMatch ? nextMatch.index : cleanMd.length;
-    headerRegex.lastIndex = endIndex;
-
-    const content = cleanMd.slice(startIndex, endIndex);
-
-    const sectionKey = matchSectionKey(match[2]);
-    if (sectionKey) {
-      sectionMap[sectionKey] += content;
-    } else {
-      sectionMap.answer += `\n\n**${match[2]}**\n${content}`;
-    }
-
-    if (!nextMatch) break;
-    headerRegex.lastIndex = nextMatch.index;
-  }
-
-  if (
-    !sectionMap.answer &&
-    !sectionMap.command &&
-    !sectionMap.error &&
-    !sectionMap.thinking &&
-    !sectionMap.status
-  ) {
-    sectionMap.answer = cleanMd;
-  }
-
-  return sectionMap;
-}
-
 export function extractFilesFromHandlerMarkdown(markdown: string): RenderedFile[] {
   const { files } = parseSections(markdown);
   const raw = trimSafe(files);
@@ -376,47 +206,34 @@ function renderModelsCommand(command: string): FeishuCardElement[] | null {
   return elements.length ? elements : null;
 }
 
+export function extractFilesFromContent(content: BridgeMessageContent): RenderedFile[] {
+  if (isDisplayModel(content)) return content.files.map(f => ({ ...f }));
+  return extractFilesFromHandlerMarkdown(content);
+}
+
 export function renderFeishuCardFromHandlerMarkdown(handlerMarkdown: string): string {
-  const { command, error, thinking, answer, tools, files, status } = parseSections(handlerMarkdown);
+  return renderFeishuCardFromSections(sectionsFromMarkdown(handlerMarkdown));
+}
+
+export function renderFeishuCardFromDisplayModel(model: DisplayModel): string {
+  return renderFeishuCardFromSections(sectionsFromDisplayModel(model));
+}
+
+function renderFeishuCardFromSections(sections: CardSections): string {
+  const { command, error, thinking, answer, toolPanels, files, status, streaming } = sections;
 
   const elements: FeishuCardElement[] = [];
 
-  let headerTitle = '🤖 AI Assistant';
-  let headerColor = 'blue';
-
-  const hasOnlyStatus =
-    !trimSafe(command) && !trimSafe(answer) && !trimSafe(tools) && !trimSafe(thinking);
-
-  if (trimSafe(error)) {
-    headerTitle = '🚨 Error';
-    headerColor = 'red';
-  } else if (hasOnlyStatus && trimSafe(status)) {
-    const picked = pickHeaderForStatus(status);
-    headerTitle = picked.title;
-    headerColor = picked.color;
-  } else if (trimSafe(command)) {
-    headerTitle = '🧭 Command';
-    headerColor = 'green';
-  } else if (trimSafe(answer)) {
-    headerTitle = '📝 Answer';
-    headerColor = 'blue';
-  } else if (trimSafe(tools)) {
-    headerTitle = '🧰 Tools / Steps';
-    headerColor = 'wathet';
-  } else if (trimSafe(thinking)) {
-    headerTitle = '🤔 Thinking Process';
-    headerColor = 'turquoise';
-  }
+  const { title: headerTitle, color: headerColor } = pickCardHeader(sections);
 
   if (thinking.trim()) {
     const panel = collapsiblePanel('💭 Thinking', thinking, false);
     if (panel) elements.push(panel);
   }
 
-  if (tools.trim()) {
+  if (toolPanels.length > 0) {
     if (elements.length > 0) elements.push(spacer());
-    const panels = splitToolsIntoExecutionPanels(tools);
-    panels.forEach((panel, idx) => {
+    toolPanels.forEach((panel, idx) => {
       const rendered = collapsiblePanel(`⚙️ Execution #${idx + 1}`, panel, false, 'turquoise');
       if (rendered) elements.push(rendered);
     });
@@ -499,6 +316,20 @@ export function renderFeishuCardFromHandlerMarkdown(handlerMarkdown: string): st
         elements: [{ tag: 'plain_text', content: getStatusWithEmoji(cleanStatus) }],
       });
     }
+
+    if (streaming) {
+      elements.push({
+        tag: 'action',
+        actions: [
+          {
+            tag: 'button',
+            text: { tag: 'plain_text', content: '⏹️ Stop' },
+            type: 'danger',
+            value: { action: STOP_ACTION_VALUE },
+          },
+        ],
+      });
+    }
   }
 
   const card: FeishuCard = {
@@ -513,8 +344,36 @@ export function renderFeishuCardFromHandlerMarkdown(handlerMarkdown: string): st
   return JSON.stringify(sanitizeCardValue(card));
 }
 
+export function renderFeishuActionPromptCard(prompt: BridgeActionPrompt): string {
+  const elements: FeishuCardElement[] = [larkMd(prompt.body)];
+  if (prompt.actions.length > 0) {
+    elements.push({
+      tag: 'action',
+      actions: prompt.actions.map(a => ({
+        tag: 'button',
+        text: { tag: 'plain_text', content: a.label },
+        type: a.style || 'default',
+        value: { action: a.value },
+      })),
+    });
+  }
+
+  const card: FeishuCard = {
+    config: { wide_screen_mode: true },
+    header: {
+      template: prompt.actions.length > 0 ? 'orange' : 'grey',
+      title: { tag: 'plain_text', content: prompt.title },
+    },
+    elements,
+  };
+
+  return JSON.stringify(sanitizeCardValue(card));
+}
+
 export class FeishuRenderer {
-  render(markdown: string): string {
-    return renderFeishuCardFromHandlerMarkdown(markdown);
+  render(content: BridgeMessageContent): string {
+    return isDisplayModel(content)
+      ? renderFeishuCardFromDisplayModel(content)
+      : renderFeishuCardFromHandlerMarkdown(content);
   }
 }
@@ -1,5 +1,5 @@
 import type { AdapterMux } from './handler/mux';
-import type { BridgeAdapter } from './types';
+import type { BridgeAdapter, BridgeStateStore } from './types';
 
 export type BridgeSendErrorFn = (chatId: string, content: string) => Promise<void>;
 
@@ -14,11 +14,12 @@ type BridgeRuntimeState = {
   __bridge_progress_msg_ids?: Map<string, string>;
   __bridge_max_file_size?: Map<string, number>;
   __bridge_max_file_retry?: Map<string, number>;
+  __bridge_state_store?: BridgeStateStore;
 };
 
 type FeishuRuntimeState = {
-  __feishu_processed_ids?: Set<string>;
-  __feishu_ws_client_instance?: unknown;
+  __feishu_processed_ids?: Map<string, Set<string>>; // app_id -> handled message ids
+  __feishu_ws_clients?: Map<string, unknown>; // app_id -> connected WS client
 };
 
 export type BridgeGlobalState = typeof globalThis & BridgeRuntimeState & FeishuRuntimeState;
@@ -0,0 +1,71 @@
+// src/handler/abort.flow.ts
+import type { OpencodeClient } from '@opencode-ai/sdk';
+import type { BridgeAdapter } from '../types';
+import { markStatus } from '../bridge/buffer';
+import type { MessageBuffer } from '../bridge/buffer';
+import { bridgeLogger } from '../logger';
+import { flushMessage } from './message.delivery';
+import { buildPlatformDisplay } from './execution.flow';
+
+export const ABORT_ACTION_VALUE = 'abort';
+
+export type ActiveReaction = { messageId: string; reactionId: string };
+
+export type AbortFlowDeps = {
+  sessionCache: Map<string, string>;
+  sessionActiveMsg: Map<string, string>;
+  msgBuffers: Map<string, MessageBuffer>;
+  // adapterKey:chatId -> loading reactions of the running prompt and follow-ups merged into it
+  activeReactions: Map<string, ActiveReaction[]>;
+};
+
+export type AbortResult = 'aborted' | 'idle' | 'no-session';
+
+export async function clearActiveReactions(
+  adapter: BridgeAdapter,
+  cacheKey: string,
+  activeReactions: Map<string, ActiveReaction[]>,
+) {
+  const active = activeReactions.get(cacheKey);
+  if (!active) return;
+  activeReactions.delete(cacheKey);
+  if (!adapter.removeReaction) return;
+  for (const { messageId, reactionId } of active) {
+    await adapter.removeReaction(messageId, reactionId).catch(() => {});
+  }
+}
+
+export async function abortChatSession(params: {
+  api: OpencodeClient;
+  adapter: BridgeAdapter;
+  chatId: string;
+  cacheKey: string;
+  deps: AbortFlowDeps;
+}): Promise<AbortResult> {
+  const { api, adapter, chatId, cacheKey, deps } = params;
+  const sessionId = deps.sessionCache.get(cacheKey);
+  if (!sessionId) return 'no-session';
+
+  await api.session.abort({ path: { id: sessionId } });
+
+  const mid = deps.sessionActiveMsg.get(sessionId);
+  const buffer = mid ? deps.msgBuffers.get(mid) : undefined;
+  const wasStreaming = buffer?.status === 'streaming';
+  if (mid && wasStreaming) {
+    markStatus(deps.msgBuffers, mid, 'aborted', 'aborted by user');
+    await flushMessage({
+      adapter,
+      chatId,
+      messageId: mid,
+      msgBuffers: deps.msgBuffers,
+      buildDisplay: buildPlatformDisplay,
+      force: true,
+    });
+  }
+  await clearActiveReactions(adapter, cacheKey, deps.activeReactions);
+
+  bridgeLogger.info(
+    `[Abort] chat=${cacheKey} session=${sessionId} activeMsg=${mid || '-'} wasStreaming=${wasStreaming}`,
+  );
+  return wasStreaming ? 'aborted' : 'idle';
+}
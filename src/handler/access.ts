@@ -0,0 +1,102 @@
+// src/handler/access.ts
+import type { BridgeAccessConfig, BridgeRole } from '../types';
+import { bridgeLogger } from '../logger';
+import { threadParentChatId } from '../utils';
+
+export type AccessDenyReason = 'chat' | 'sender' | 'role';
+
+export type AccessDecision = { allowed: true } | { allowed: false; reason: AccessDenyReason };
+
+export const ACCESS_DENIED_MESSAGE = '⛔ 抱歉，你暂无权限使用此机器人。如需开通，请联系管理员。';
+
+// A denied chat hears the ⛔ reply once per sender in this window; later denials are only logged.
+const ACCESS_DENIED_NOTICE_WINDOW_MS = 10 * 60 * 1000;
+const ACCESS_DENIED_NOTICE_MAX = 2000;
+
+export function isAdminSender(access: BridgeAccessConfig | undefined, senderId: string): boolean {
+  return Boolean(senderId && access?.admin_sender_ids?.includes(senderId));
+}
+
+const ROLE_RANK: Record<BridgeRole, number> = { viewer: 0, member: 1, admin: 2 };
+
+export function hasRole(role: BridgeRole, required: BridgeRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Explicit lists win (admin > member > viewer), then `default_role`.
+ * Without any role configuration everyone is admin, which keeps the pre-role behaviour.
+ */
+export function resolveSenderRole(
+  access: BridgeAccessConfig | undefined,
+  senderId: string,
+): BridgeRole {
+  if (isAdminSender(access, senderId)) return 'admin';
+  if (senderId && access?.member_sender_ids?.includes(senderId)) return 'member';
+  if (senderId && access?.viewer_sender_ids?.includes(senderId)) return 'viewer';
+  if (access?.default_role) return access.default_role;
+  const hasRoleConfig = Boolean(
+    access?.admin_sender_ids?.length ||
+      access?.member_sender_ids?.length ||
+      access?.viewer_sender_ids?.length,
+  );
+  return hasRoleConfig ? 'member' : 'admin';
+}
+
+export function checkAccess(
+  access: BridgeAccessConfig | undefined,
+  chatId: string,
+  senderId: string,
+): AccessDecision {
+  if (!access || isAdminSender(access, senderId)) return { allowed: true };
+
+  // A thread chat is allowed wherever its parent chat is.
+  const chats = access.allowed_chat_ids;
+  const parentChatId = threadParentChatId(chatId);
+  if (
+    chats &&
+    chats.length > 0 &&
+    !chats.includes(chatId) &&
+    !(parentChatId && chats.includes(parentChatId))
+  ) {
+    return { allowed: false, reason: 'chat' };
+  }
+
+  const senders = access.allowed_sender_ids;
+  if (senders && senders.length > 0 && !senders.includes(senderId)) {
+    return { allowed: false, reason: 'sender' };
+  }
+
+  return { allowed: true };
+}
+
+export function logAccessDenied(params: {
+  adapterKey: string;
+  chatId: string;
+  senderId: string;
+  reason: AccessDenyReason;
+  kind: 'message' | 'action' | 'command' | 'prompt';
+  detail?: string;
+}) {
+  const { adapterKey, chatId, senderId, reason, kind, detail } = params;
+  bridgeLogger.warn(
+    `[Access] denied ${kind} adapter=${adapterKey} chat=${chatId} sender=${senderId || '-'} reason=${reason}${detail ? ` ${detail}` : ''}`,
+  );
+}
+
+/** Records the reply for `key` (`adapterKey:chatId:senderId`) and says whether it is due. */
+export function shouldSendAccessDenied(
+  notices: Map<string, number>,
+  key: string,
+  now = Date.now(),
+): boolean {
+  const last = notices.get(key);
+  if (last !== undefined && now - last < ACCESS_DENIED_NOTICE_WINDOW_MS) return false;
+  notices.set(key, now);
+  if (notices.size > ACCESS_DENIED_NOTICE_MAX) {
+    for (const [k, at] of notices) {
+      if (now - at >= ACCESS_DENIED_NOTICE_WINDOW_MS) notices.delete(k);
+    }
+  }
+  return true;
+}
@@ -0,0 +1,95 @@
+// src/handler/action.flow.ts
+import type { OpencodeClient } from '@opencode-ai/sdk';
+import type { AdapterMux } from './mux';
+import type { BridgeAccessConfig } from '../types';
+import { bridgeLogger } from '../logger';
+import { handlePermissionAction, isPermissionAction } from './permission.flow';
+import type { PermissionFlowDeps } from './permission.flow';
+import { ABORT_ACTION_VALUE, abortChatSession } from './abort.flow';
+import type { AbortFlowDeps } from './abort.flow';
+import {
+  ACCESS_DENIED_MESSAGE,
+  checkAccess,
+  hasRole,
+  logAccessDenied,
+  resolveSenderRole,
+} from './access';
+
+export type ActionFlowDeps = PermissionFlowDeps &
+  AbortFlowDeps & {
+    adapterAccess: Map<string, BridgeAccessConfig>;
+  };
+
+export const createActionHandlerWithDeps = (
+  api: OpencodeClient,
+  mux: AdapterMux,
+  adapterKey: string,
+  deps: ActionFlowDeps,
+) => {
+  return async (
+    chatId: string,
+    value: string,
+    senderId: string,
+    messageId: string,
+  ): Promise<string | null> => {
+    bridgeLogger.info(
+      `[Action] adapter=${adapterKey} chat=${chatId} sender=${senderId} msg=${messageId} value=${value}`,
+    );
+    const accessConfig = deps.adapterAccess.get(adapterKey);
+    const access = checkAccess(accessConfig, chatId, senderId);
+    if (!access.allowed) {
+      logAccessDenied({
+        adapterKey,
+        chatId,
+        senderId,
+        reason: access.reason,
+        kind: 'action',
+        detail: `value=${value}`,
+      });
+      return ACCESS_DENIED_MESSAGE;
+    }
+    // Approving tool permissions or stopping a run both steer the agent.
+    const role = resolveSenderRole(accessConfig, senderId);
+    if (!hasRole(role, 'member')) {
+      logAccessDenied({
+        adapterKey,
+        chatId,
+        senderId,
+        reason: 'role',
+        kind: 'action',
+        detail: `value=${value} role=${role}`,
+      });
+      return '⛔ 权限不足：该操作需要 member 角色。';
+    }
+    try {
+      if (isPermissionAction(value)) {
+        return await handlePermissionAction({
+          api,
+          mux,
+          adapterKey,
+          chatId,
+          senderId,
+          value,
+          deps,
+        });
+      }
+      if (value === ABORT_ACTION_VALUE) {
+        const adapter = mux.get(adapterKey);
+        if (!adapter) return null;
+        const result = await abortChatSession({
+          api,
+          adapter,
+          chatId,
+          cacheKey: `${adapterKey}:${chatId}`,
+          deps,
+        });
+        return result === 'aborted' ? '⏹️ 已中止当前任务。' : '当前没有正在执行的任务。';
+      }
+      bridgeLogger.warn(`[Action] unknown action adapter=${adapterKey} value=${value}`);
+      return null;
+    } catch (err) {
+      bridgeLogger.error(`[Action] adapter=${adapterKey} chat=${chatId} failed`, err);
+      return '❌ 操作失败，请重试。';
+    }
+  };
+};
@@ -0,0 +1,92 @@
+// src/handler/command.registry.ts
+import type { BridgeCommandInfo, BridgeRole } from '../types';
+import type { CommandContext } from './command';
+import { hasRole } from './access';
+
+export type CommandUsage = {
+  args: string;
+  description: string;
+  role?: BridgeRole;
+};
+
+export type CommandDefinition = {
+  /** Display name; lookups are case-insensitive (`/maxFileSize` == `/maxfilesize`). */
+  name: string;
+  aliases?: string[];
+  args?: string;
+  description: string;
+  role: BridgeRole;
+  /** Refines `role` by arguments, e.g. listing sessions is read-only but deleting is not. */
+  roleForArgs?: (args: string) => BridgeRole;
+  /** Extra `/help` lines for argument forms that deserve their own description. */
+  usages?: CommandUsage[];
+  /** TUI-only commands that exist in OpenCode but cannot work from a chat. */
+  unsupported?: boolean;
+  handler?: (ctx: CommandContext) => Promise<void>;
+};
+
+// Anything not registered is forwarded to OpenCode as a custom command.
+export const CUSTOM_COMMAND_ROLE: BridgeRole = 'admin';
+
+export class CommandRegistry {
+  private readonly byName = new Map<string, CommandDefinition>();
+
+  constructor(private readonly definitions: CommandDefinition[]) {
+    for (const def of definitions) {
+      for (const name of [def.name, ...(def.aliases || [])]) {
+        const key = name.toLowerCase();
+        if (this.byName.has(key)) throw new Error(`[Command] duplicate command name: /${name}`);
+        this.byName.set(key, def);
+      }
+    }
+  }
+
+  resolve(command?: string): CommandDefinition | undefined {
+    return command ? this.byName.get(command.toLowerCase()) : undefined;
+  }
+
+  /** Canonical lower-case key for a command or alias; unknown commands pass through. */
+  normalize(command?: string): string | undefined {
+    if (!command) return command;
+    return this.resolve(command)?.name.toLowerCase() || command.toLowerCase();
+  }
+
+  requiredRole(command: string, args: string): BridgeRole {
+    const def = this.resolve(command);
+    if (!def) return CUSTOM_COMMAND_ROLE;
+    return def.roleForArgs ? def.roleForArgs(args.trim()) : def.role;
+  }
+
+  helpLines(role: BridgeRole): string[] {
+    const lines: string[] = [];
+    for (const def of this.supported()) {
+      if (hasRole(role, def.role)) {
+        const aliases = def.aliases?.length ? ` (/${def.aliases.join(', /')})` : '';
+        const args = def.args ? ` ${def.args}` : '';
+        lines.push(`/${def.name}${aliases}${args} - ${def.description}`);
+      }
+      for (const usage of def.usages || []) {
+        if (!hasRole(role, usage.role || def.role)) continue;
+        lines.push(`/${def.name} ${usage.args} - ${usage.description}`);
+      }
+    }
+    return lines;
+  }
+
+  unsupportedNames(): string[] {
+    return this.definitions
+      .filter(def => def.unsupported)
+      .flatMap(def => [def.name, ...(def.aliases || [])]);
+  }
+
+  menu(): BridgeCommandInfo[] {
+    return this.supported().map(def => ({
+      command: def.name.toLowerCase(),
+      description: def.description,
+    }));
+  }
+
+  private supported(): CommandDefinition[] {
+    return this.definitions.filter(def => !def.unsupported);
+  }
+}
@@ -7,6 +7,11 @@ import {
   isBridgeAgentId,
 } from '../utils';
 import { bridgeLogger, getBridgeLogFilePath } from '../logger';
+import type { AbortResult } from './abort.flow';
+import type { PromptQueue } from './prompt.queue';
+import type { BridgeRole } from '../types';
+import { hasRole, logAccessDenied } from './access';
+import { CUSTOM_COMMAND_ROLE, CommandRegistry } from './command.registry';
 
 type SessionListItem = { id: string; title: string };
 type AgentListItem = { id: string; name: string };
@@ -77,6 +82,8 @@ function parseSessionDeleteArgs(rawArgs: string): { deleteAll: boolean; refs: st
   return { deleteAll: false, refs };
 }
 
+const SESSION_DELETE_RE = /^(?:del|delete|rm|remove)\b/i;
+
 function toSessionList(raw: unknown): SessionListItem[] {
   return asNamedRecords(raw)
     .map(s => ({ id: s.id || '', title: s.title || 'Untitled' }))
@@ -102,6 +109,7 @@ export type CommandContext = {
   adapterKey: string;
   chatId: string;
   senderId: string;
+  role: BridgeRole;
   cacheKey: string;
   slash: { command: string; arguments: string };
   normalizedCommand: string;
@@ -123,231 +131,196 @@ export type CommandContext = {
   sendErrorMessage: (content: string) => Promise<void>;
   sendUnsupported: () => Promise<void>;
   isKnownCustomCommand: (name: string) => Promise<boolean | null>;
+  abortSession: () => Promise<AbortResult>;
+  promptQueue: PromptQueue;
 };
 
-export async function handleSlashCommand(ctx: CommandContext): Promise<boolean> {
-  const {
-    api,
-    chatId,
-    cacheKey,
-    slash,
-    normalizedCommand,
-    targetSessionId,
-    targetAgent,
-    shouldCreateNew,
-    sessionCache,
-    sessionToAdapterKey,
-    sessionToCtx,
-    chatAgent,
-    chatModel,
-    chatSessionList,
-    chatAgentList,
-    chatMaxFileSizeMb,
-    chatMaxFileRetry,
-    ensureSession,
-    createNewSession,
-    sendCommandMessage,
-    sendUnsupported,
-    isKnownCustomCommand,
-  } = ctx;
-  bridgeLogger.info(
-    `[Command] adapter=${ctx.adapterKey} chat=${ctx.chatId} cmd=/${slash.command} normalized=${normalizedCommand || '-'} args="${slash.arguments || ''}"`,
-  );
-
-  if (normalizedCommand === 'help') {
-    const res = await api.command.list();
-    const list = asNamedRecords(extractData(res));
-
-    const lines: string[] = [];
-    lines.push('## Command');
-    lines.push('### Help');
-    lines.push('/help - 查看命令与用法');
-    lines.push('/models - 查看可用模型（/models <序号> 切换）');
-    lines.push('/status - 查看桥接运行状态（PID/启动时间）');
-    lines.push('/new - 新建会话并切换');
-    lines.push('/reset (/restart) - 清空桥接运行态并新建会话');
-    lines.push('/sessions - 列出会话（用 /sessions <id> 或 /sessions <序号> 切换）');
-    lines.push('/sessions delete 1,2,3 - 批量删除会话（序号或id）');
-    lines.push('/sessions delete all - 删除全部会话，仅保留当前会话');
-    lines.push('/maxFileSize <xmb> - 设置上传文件大小限制（默认10MB）');
-    lines.push('/maxFileRetry <n> - 设置资源下载重试次数（默认3）');
-    lines.push('/share - 分享当前会话');
-    lines.push('/unshare - 取消分享');
-    lines.push('/compact - 压缩/总结当前会话');
-    lines.push('/init - 初始化项目（生成 AGENTS.md）');
-    lines.push('/agent - 列出 Agents');
-    lines.push('/agent <序号|name> - 切换 Agent（序号或精确名称）');
-
-    if (list.length > 0) {
-      lines.push('### Custom Commands');
-      list.forEach(cmd => {
-        if (!cmd.name) return;
-        const desc = cmd.description ? `- ${cmd.description}` : '';
-        lines.push(`/${cmd.name} ${desc}`);
-      });
-    }
-    await sendCommandMessage(lines.join('\n'));
-    return true;
+async function handleHelp(ctx: CommandContext) {
+  const res = await ctx.api.command.list();
+  const list = asNamedRecords(extractData(res));
+
+  const lines: string[] = [];
+  lines.push('## Command');
+  lines.push('### Help');
+  commandRegistry.helpLines(ctx.role).forEach(line => lines.push(line));
+
+  if (list.length > 0 && hasRole(ctx.role, CUSTOM_COMMAND_ROLE)) {
+    lines.push('### Custom Commands');
+    list.forEach(cmd => {
+      if (!cmd.name) return;
+      const desc = cmd.description ? `- ${cmd.description}` : '';
+      lines.push(`/${cmd.name} ${desc}`);
+    });
   }
 
-  if (normalizedCommand === 'status') {
-    const pid = process.pid;
-    const startedAtMs = Date.now() - Math.floor(process.uptime() * 1000);
-    const startedAt = new Date(startedAtMs).toISOString();
-    const uptimeSec = Math.floor(process.uptime());
-    const uptimeMin = Math.floor(uptimeSec / 60);
-    const uptimeRemainSec = uptimeSec % 60;
-    const currentSession = sessionCache.get(cacheKey) || '-';
-    const currentAgent = chatAgent.get(cacheKey) || '-';
-    const currentModel = chatModel.get(cacheKey);
-    const currentModelText = currentModel
-      ? currentModel.name || `${currentModel.providerID}/${currentModel.modelID}`
-      : '-';
-
-    const lines: string[] = [];
-    lines.push('## Command');
-    lines.push('### Bridge Status');
-    lines.push(`- session: ${currentSession}`);
-    lines.push(`- agent: ${currentAgent}`);
-    lines.push(`- model: ${currentModelText}`);
-    lines.push(`- pid: ${pid}`);
-    lines.push(`- startedAt: ${startedAt}`);
-    lines.push(`- uptime: ${uptimeMin}m ${uptimeRemainSec}s`);
-    lines.push(`- node: ${process.version}`);
-    lines.push(`- platform: ${process.platform}/${process.arch}`);
-    lines.push(`- logFile: ${getBridgeLogFilePath()}`);
-    await sendCommandMessage(lines.join('\n'));
-    return true;
+  const unsupported = commandRegistry.unsupportedNames();
+  if (unsupported.length > 0) {
+    lines.push('### TUI Only');
+    lines.push(unsupported.map(name => `/${name}`).join(' '));
   }
+  await ctx.sendCommandMessage(lines.join('\n'));
+}
 
-  if (normalizedCommand === 'models') {
-    const res = await api.config.providers();
-    const data = res?.data;
-    const providers = data?.providers ?? [];
-    const defaults = data?.default ?? {};
+async function handleStatus(ctx: CommandContext) {
+  const { cacheKey, sessionCache, chatAgent, chatModel, sendCommandMessage } = ctx;
+  const pid = process.pid;
+  const startedAtMs = Date.now() - Math.floor(process.uptime() * 1000);
+  const startedAt = new Date(startedAtMs).toISOString();
+  const uptimeSec = Math.floor(process.uptime());
+  const uptimeMin = Math.floor(uptimeSec / 60);
+  const uptimeRemainSec = uptimeSec % 60;
+  const currentSession = sessionCache.get(cacheKey) || '-';
+  const currentAgent = chatAgent.get(cacheKey) || '-';
+  const currentModel = chatModel.get(cacheKey);
+  const currentModelText = currentModel
+    ? currentModel.name || `${currentModel.providerID}/${currentModel.modelID}`
+    : '-';
+
+  const lines: string[] = [];
+  lines.push('## Command');
+  lines.push('### Bridge Status');
+  lines.push(`- session: ${currentSession}`);
+  lines.push(`- agent: ${currentAgent}`);
+  lines.push(`- model: ${currentModelText}`);
+  lines.push(`- pid: ${pid}`);
+  lines.push(`- startedAt: ${startedAt}`);
+  lines.push(`- uptime: ${uptimeMin}m ${uptimeRemainSec}s`);
+  lines.push(`- node: ${process.version}`);
+  lines.push(`- platform: ${process.platform}/${process.arch}`);
+  lines.push(`- logFile: ${getBridgeLogFilePath()}`);
+  await sendCommandMessage(lines.join('\n'));
+}
 
-    if (!Array.isArray(providers) || providers.length === 0) {
-      await sendCommandMessage('暂无可用模型信息。');
-      return true;
-    }
+async function handleModels(ctx: CommandContext) {
+  const { api, cacheKey, slash, chatModel, ensureSession, sendCommandMessage } = ctx;
+  const res = await api.config.providers();
+  const data = res?.data;
+  const providers = data?.providers ?? [];
+  const defaults = data?.default ?? {};
 
-    if (slash.arguments) {
-      const arg = slash.arguments.trim();
-      const m = arg.match(/^(\d+)\.(\d+)$/);
-      if (!m) {
-        await sendCommandMessage('❌ 无效序号，请使用 /models 1.2');
-        return true;
-      }
-      const pIdx = Number(m[1]) - 1;
-      const mIdx = Number(m[2]) - 1;
-      if (pIdx < 0 || mIdx < 0 || pIdx >= providers.length) {
-        await sendCommandMessage(`❌ 无效序号: ${arg}`);
-        return true;
-      }
-      const p = providers[pIdx];
-      const modelKeys = Object.keys(p?.models || {});
-      if (mIdx >= modelKeys.length) {
-        await sendCommandMessage(`❌ 无效序号: ${arg}`);
-        return true;
-      }
-      const key = modelKeys[mIdx];
-      const model = p.models?.[key];
-      const modelId = model?.id;
-      const providerID = model?.providerID || p?.id;
-      if (!modelId) {
-        await sendCommandMessage(`❌ 模型ID缺失: ${arg}`);
-        return true;
-      }
-      if (!providerID) {
-        await sendCommandMessage(`❌ ProviderID缺失: ${arg}`);
-        return true;
-      }
+  if (!Array.isArray(providers) || providers.length === 0) {
+    await sendCommandMessage('暂无可用模型信息。');
+    return;
+  }
 
-      chatModel.set(cacheKey, {
-        providerID,
-        modelID: modelId,
-        name: model?.name,
-      });
-
-      const sessionId = await ensureSession();
-      await api.session.command({
-        path: { id: sessionId },
-        body: { command: 'model', arguments: modelId },
-      });
-      await sendCommandMessage(`✅ 已切换模型: ${model?.name || modelId} (${providerID})`);
-      return true;
+  if (slash.arguments) {
+    const arg = slash.arguments.trim();
+    const m = arg.match(/^(\d+)\.(\d+)$/);
+    if (!m) {
+      await sendCommandMessage('❌ 无效序号，请使用 /models 1.2');
+      return;
+    }
+    const pIdx = Number(m[1]) - 1;
+    const mIdx = Number(m[2]) - 1;
+    if (pIdx < 0 || mIdx < 0 || pIdx >= providers.length) {
+      await sendCommandMessage(`❌ 无效序号: ${arg}`);
+      return;
+    }
+    const p = providers[pIdx];
+    const modelKeys = Object.keys(p?.models || {});
+    if (mIdx >= modelKeys.length) {
+      await sendCommandMessage(`❌ 无效序号: ${arg}`);
+      return;
+    }
+    const key = modelKeys[mIdx];
+    const model = p.models?.[key];
+    const modelId = model?.id;
+    const providerID = model?.providerID || p?.id;
+    if (!modelId) {
+      await sendCommandMessage(`❌ 模型ID缺失: ${arg}`);
+      return;
+    }
+    if (!providerID) {
+      await sendCommandMessage(`❌ ProviderID缺失: ${arg}`);
+      return;
     }
 
-    const lines: string[] = [];
-    lines.push('## Command');
-    lines.push('### Models');
+    chatModel.set(cacheKey, {
+      providerID,
+      modelID: modelId,
+      name: model?.name,
+    });
 
-    const defaultLines: string[] = [];
-    Object.keys(defaults || {}).forEach(key => {
-      defaultLines.push(`${key} -> ${defaults[key]}`);
+    const sessionId = await ensureSession();
+    await api.session.command({
+      path: { id: sessionId },
+      body: { command: 'model', arguments: modelId },
     });
+    await sendCommandMessage(`✅ 已切换模型: ${model?.name || modelId} (${providerID})`);
+    return;
+  }
 
-    if (defaultLines.length > 0) {
-      lines.push('Default:');
-      defaultLines.forEach(l => lines.push(l));
-    }
+  const lines: string[] = [];
+  lines.push('## Command');
+  lines.push('### Models');
 
-    providers.forEach((p, index) => {
-      Object.keys(p.models).forEach((key, idx) => {
-        lines.push(`${index + 1}.${idx + 1}. ${p.models[key].name} (${p.models[key].id})`);
-      });
-    });
+  const defaultLines: string[] = [];
+  Object.keys(defaults || {}).forEach(key => {
+    defaultLines.push(`${key} -> ${defaults[key]}`);
+  });
 
-    await sendCommandMessage(lines.join('\n'));
-    return true;
+  if (defaultLines.length > 0) {
+    lines.push('Default:');
+    defaultLines.forEach(l => lines.push(l));
   }
 
-  if (normalizedCommand === 'maxfilesize') {
-    const current = chatMaxFileSizeMb.get(chatId) ?? DEFAULT_MAX_FILE_MB;
-    if (!slash.arguments) {
-      await sendCommandMessage(`当前文件大小限制：${current}MB`);
-      return true;
-    }
-    const m = slash.arguments.trim().match(/(\d+(?:\.\d+)?)/);
-    const value = m ? Number(m[1]) : NaN;
-    if (!Number.isFinite(value) || value <= 0) {
-      await sendCommandMessage('❌ 请输入有效数值，例如 /maxFileSize 10');
-      return true;
-    }
-    chatMaxFileSizeMb.set(chatId, value);
-    await sendCommandMessage(`✅ 已设置文件大小限制：${value}MB`);
-    return true;
+  providers.forEach((p, index) => {
+    Object.keys(p.models).forEach((key, idx) => {
+      lines.push(`${index + 1}.${idx + 1}. ${p.models[key].name} (${p.models[key].id})`);
+    });
+  });
+
+  await sendCommandMessage(lines.join('\n'));
+}
+
+async function handleMaxFileSize(ctx: CommandContext) {
+  const { chatId, slash, chatMaxFileSizeMb, sendCommandMessage } = ctx;
+  const current = chatMaxFileSizeMb.get(chatId) ?? DEFAULT_MAX_FILE_MB;
+  if (!slash.arguments) {
+    await sendCommandMessage(`当前文件大小限制：${current}MB`);
+    return;
+  }
+  const m = slash.arguments.trim().match(/(\d+(?:\.\d+)?)/);
+  const value = m ? Number(m[1]) : NaN;
+  if (!Number.isFinite(value) || value <= 0) {
+    await sendCommandMessage('❌ 请输入有效数值，例如 /maxFileSize 10');
+    return;
   }
+  chatMaxFileSizeMb.set(chatId, value);
+  await sendCommandMessage(`✅ 已设置文件大小限制：${value}MB`);
+}
 
-  if (normalizedCommand === 'maxfileretry') {
-    const current = chatMaxFileRetry.get(chatId) ?? DEFAULT_MAX_FILE_RETRY;
-    if (!slash.arguments) {
-      await sendCommandMessage(`当前重试次数：${current}`);
-      return true;
-    }
-    const m = slash.arguments.trim().match(/(\d+)/);
-    const value = m ? Number(m[1]) : NaN;
-    if (!Number.isFinite(value) || value < 0) {
-      await sendCommandMessage('❌ 请输入有效整数，例如 /maxFileRetry 3');
-      return true;
-    }
-    chatMaxFileRetry.set(chatId, value);
-    await sendCommandMessage(`✅ 已设置重试次数：${value}`);
-    return true;
+async function handleMaxFileRetry(ctx: CommandContext) {
+  const { chatId, slash, chatMaxFileRetry, sendCommandMessage } = ctx;
+  const current = chatMaxFileRetry.get(chatId) ?? DEFAULT_MAX_FILE_RETRY;
+  if (!slash.arguments) {
+    await sendCommandMessage(`当前重试次数：${current}`);
+    return;
+  }
+  const m = slash.arguments.trim().match(/(\d+)/);
+  const value = m ? Number(m[1]) : NaN;
+  if (!Number.isFinite(value) || value < 0) {
+    await sendCommandMessage('❌ 请输入有效整数，例如 /maxFileRetry 3');
+    return;
   }
+  chatMaxFileRetry.set(chatId, value);
+  await sendCommandMessage(`✅ 已设置重试次数：${value}`);
+}
 
-  if (normalizedCommand === 'agent' && targetAgent) {
+async function handleAgent(ctx: CommandContext) {
+  const { api, cacheKey, targetAgent, chatAgent, chatAgentList, sendCommandMessage } = ctx;
+  if (targetAgent) {
     if (/^\d+$/.test(targetAgent)) {
       const list = chatAgentList.get(cacheKey) || [];
       const idx = Number(targetAgent) - 1;
       if (idx < 0 || idx >= list.length) {
         await sendCommandMessage(`❌ 无效序号: ${targetAgent}`);
-        return true;
+        return;
       }
       const agent = list[idx];
       chatAgent.set(cacheKey, agent.id);
       await sendCommandMessage(`✅ 已切换 Agent: ${agent.name || agent.id} (${agent.id})`);
-      return true;
+      return;
     }
 
     const res = await api.app.agents();
@@ -355,98 +328,48 @@ export async function handleSlashCommand(ctx: CommandContext): Promise<boolean>
     const exact = list.find(a => a.name === targetAgent || a.id === targetAgent);
     if (!exact) {
       await sendCommandMessage(`❌ 未找到 Agent: ${targetAgent}`);
-      return true;
+      return;
     }
     const pickedId = exact.id;
     chatAgent.set(cacheKey, pickedId);
     await sendCommandMessage(`✅ 已切换 Agent: ${exact.name || pickedId} (${pickedId})`);
-    return true;
+    return;
   }
 
-  if (normalizedCommand === 'agent' && !targetAgent) {
-    const res = await api.app.agents();
-    const list = pickUsableAgents(extractData(res));
-    if (list.length === 0) {
-      await sendCommandMessage('暂无可用 Agent。');
-      return true;
-    }
-    const agents = list.slice(0, 20);
-    chatAgentList.set(cacheKey, agents);
-    const lines = ['## Command', '### Agents', '请输入 /agent <序号> 或 <name> 切换：'];
-    const current = chatAgent.get(cacheKey);
-    if (current) lines.push(`当前: ${current}`);
-    agents.forEach((a, idx) => {
-      lines.push(`${idx + 1}. ${a.name} (${a.id})`);
-    });
-    await sendCommandMessage(lines.join('\n'));
-    return true;
+  const res = await api.app.agents();
+  const list = pickUsableAgents(extractData(res));
+  if (list.length === 0) {
+    await sendCommandMessage('暂无可用 Agent。');
+    return;
   }
+  const agents = list.slice(0, 20);
+  chatAgentList.set(cacheKey, agents);
+  const lines = ['## Command', '### Agents', '请输入 /agent <序号> 或 <name> 切换：'];
+  const current = chatAgent.get(cacheKey);
+  if (current) lines.push(`当前: ${current}`);
+  agents.forEach((a, idx) => {
+    lines.push(`${idx + 1}. ${a.name} (${a.id})`);
+  });
+  await sendCommandMessage(lines.join('\n'));
+}
 
-  if (normalizedCommand === 'sessions' && !targetSessionId) {
-    const args = slash.arguments.trim();
-    const del = parseSessionDeleteArgs(args);
-    if (del.deleteAll || del.refs.length > 0) {
-      const listRes = await api.session.list({});
-      const sessions = toSessionList(extractData(listRes));
-      if (sessions.length === 0) {
-        await sendCommandMessage('暂无会话可删除。');
-        return true;
-      }
-
-      const currentSessionId = sessionCache.get(cacheKey) || (await ensureSession());
-      const targets = del.deleteAll
-        ? sessions.map(s => s.id).filter(id => id !== currentSessionId)
-        : resolveSessionRefs(del.refs, sessions).filter(id => id !== currentSessionId);
-
-      if (targets.length === 0) {
-        await sendCommandMessage('没有可删除的会话（当前会话会被保留）。');
-        return true;
-      }
-
-      const failed: string[] = [];
-      for (const id of targets) {
-        try {
-          await api.session.delete({ path: { id } });
-          sessionToAdapterKey.delete(id);
-          sessionToCtx.delete(id);
-        } catch {
-          failed.push(id);
-        }
-      }
-
-      chatSessionList.set(
-        cacheKey,
-        sessions.filter(s => s.id === currentSessionId || !targets.includes(s.id)),
-      );
-
-      const okCount = targets.length - failed.length;
-      const lines = [`✅ 已删除会话 ${okCount} 个。`];
-      if (failed.length > 0) lines.push(`❌ 删除失败 ${failed.length} 个：${failed.join(', ')}`);
-      if (del.deleteAll) lines.push(`保留当前会话：${currentSessionId}`);
-      await sendCommandMessage(lines.join('\n'));
-      return true;
-    }
-
-    const res = await api.session.list({});
-    const sessions = asNamedRecords(extractData(res));
-    if (sessions.length === 0) {
-      await sendCommandMessage('暂无会话，请使用 /new 创建。');
-      return true;
-    }
-    const list = sessions
-      .slice(0, 20)
-      .map(s => ({ id: s.id, title: s.title || 'Untitled' }))
-      .filter((s): s is { id: string; title: string } => Boolean(s.id));
-    chatSessionList.set(cacheKey, list);
-    const lines = ['## Command', '### Sessions', '请输入 /sessions <序号> 切换：'];
-    list.forEach((s, idx) => {
-      lines.push(`${idx + 1}. ${s.title}`);
-    });
-    await sendCommandMessage(lines.join('\n'));
-    return true;
-  }
+async function handleSessions(ctx: CommandContext) {
+  const {
+    api,
+    cacheKey,
+    slash,
+    targetSessionId,
+    sessionCache,
+    sessionToAdapterKey,
+    sessionToCtx,
+    chatAgent,
+    chatModel,
+    chatSessionList,
+    ensureSession,
+    sendCommandMessage,
+  } = ctx;
 
-  if (normalizedCommand === 'sessions' && targetSessionId) {
+  if (targetSessionId) {
     let targetId = targetSessionId;
     if (/^\d+$/.test(targetSessionId)) {
       const list = chatSessionList.get(cacheKey) || [];
@@ -455,7 +378,7 @@ export async function handleSlashCommand(ctx: CommandContext): Promise<boolean>
         targetId = list[idx].id;
       } else {
         await sendCommandMessage(`❌ 无效序号: ${targetSessionId}`);
-        return true;
+        return;
       }
     }
     sessionCache.set(cacheKey, targetId);
@@ -464,100 +387,360 @@ export async function handleSlashCommand(ctx: CommandContext): Promise<boolean>
     chatAgent.delete(cacheKey);
     chatModel.delete(cacheKey);
     await sendCommandMessage(`✅ 已切换到会话: ${targetId}`);
-    return true;
+    return;
   }
 
-  if (normalizedCommand === 'share') {
-    const sessionId = await ensureSession();
-    const res = await api.session.share({ path: { id: sessionId } });
-    const data = extractData(res);
-    const url =
-      isRecord(data) &&
-      isRecord(data.share) &&
-      typeof data.share.url === 'string'
-        ? data.share.url
-        : undefined;
-    await sendCommandMessage(url ? `✅ 分享链接: ${url}` : '✅ 已分享会话。');
-    return true;
-  }
+  const args = slash.arguments.trim();
+  const del = parseSessionDeleteArgs(args);
+  if (del.deleteAll || del.refs.length > 0) {
+    const listRes = await api.session.list({});
+    const sessions = toSessionList(extractData(listRes));
+    if (sessions.length === 0) {
+      await sendCommandMessage('暂无会话可删除。');
+      return;
+    }
 
-  if (normalizedCommand === 'unshare') {
-    const sessionId = await ensureSession();
-    await api.session.unshare({ path: { id: sessionId } });
-    await sendCommandMessage('✅ 已取消分享。');
-    return true;
+    const currentSessionId = sessionCache.get(cacheKey) || (await ensureSession());
+    const targets = del.deleteAll
+      ? sessions.map(s => s.id).filter(id => id !== currentSessionId)
+      : resolveSessionRefs(del.refs, sessions).filter(id => id !== currentSessionId);
+
+    if (targets.length === 0) {
+      await sendCommandMessage('没有可删除的会话（当前会话会被保留）。');
+      return;
+    }
+
+    const failed: string[] = [];
+    for (const id of targets) {
+      try {
+        await api.session.delete({ path: { id } });
+        sessionToAdapterKey.delete(id);
+        sessionToCtx.delete(id);
+      } catch {
+        failed.push(id);
+      }
+    }
+
+    chatSessionList.set(
+      cacheKey,
+      sessions.filter(s => s.id === currentSessionId || !targets.includes(s.id)),
+    );
+
+    const okCount = targets.length - failed.length;
+    const lines = [`✅ 已删除会话 ${okCount} 个。`];
+    if (failed.length > 0) lines.push(`❌ 删除失败 ${failed.length} 个：${failed.join(', ')}`);
+    if (del.deleteAll) lines.push(`保留当前会话：${currentSessionId}`);
+    await sendCommandMessage(lines.join('\n'));
+    return;
   }
 
-  if (normalizedCommand === 'compact') {
-    const sessionId = await ensureSession();
-    await api.session.summarize({ path: { id: sessionId } });
-    await sendCommandMessage('✅ 已触发会话压缩。');
-    return true;
+  const res = await api.session.list({});
+  const sessions = asNamedRecords(extractData(res));
+  if (sessions.length === 0) {
+    await sendCommandMessage('暂无会话，请使用 /new 创建。');
+    return;
   }
+  const list = sessions
+    .slice(0, 20)
+    .map(s => ({ id: s.id, title: s.title || 'Untitled' }))
+    .filter((s): s is { id: string; title: string } => Boolean(s.id));
+  chatSessionList.set(cacheKey, list);
+  const lines = ['## Command', '### Sessions', '请输入 /sessions <序号> 切换：'];
+  list.forEach((s, idx) => {
+    lines.push(`${idx + 1}. ${s.title}`);
+  });
+  await sendCommandMessage(lines.join('\n'));
+}
 
-  if (normalizedCommand === 'init') {
-    const sessionId = await ensureSession();
-    await api.session.init({ path: { id: sessionId } });
-    await sendCommandMessage('✅ 已触发初始化（AGENTS.md）。');
-    return true;
+async function handleShare(ctx: CommandContext) {
+  const sessionId = await ctx.ensureSession();
+  const res = await ctx.api.session.share({ path: { id: sessionId } });
+  const data = extractData(res);
+  const url =
+    isRecord(data) &&
+    isRecord(data.share) &&
+    typeof data.share.url === 'string'
+      ? data.share.url
+      : undefined;
+  await ctx.sendCommandMessage(url ? `✅ 分享链接: ${url}` : '✅ 已分享会话。');
+}
+
+async function handleUnshare(ctx: CommandContext) {
+  const sessionId = await ctx.ensureSession();
+  await ctx.api.session.unshare({ path: { id: sessionId } });
+  await ctx.sendCommandMessage('✅ 已取消分享。');
+}
+
+async function handleCompact(ctx: CommandContext) {
+  const sessionId = await ctx.ensureSession();
+  await ctx.api.session.summarize({ path: { id: sessionId } });
+  await ctx.sendCommandMessage('✅ 已触发会话压缩。');
+}
+
+async function handleInit(ctx: CommandContext) {
+  const sessionId = await ctx.ensureSession();
+  await ctx.api.session.init({ path: { id: sessionId } });
+  await ctx.sendCommandMessage('✅ 已触发初始化（AGENTS.md）。');
+}
+
+async function handleAbort(ctx: CommandContext) {
+  const result = await ctx.abortSession();
+  if (result === 'no-session') {
+    await ctx.sendCommandMessage('暂无会话，无需中止。');
+  } else if (result === 'aborted') {
+    await ctx.sendCommandMessage('⏹️ 已中止当前任务。');
+  } else {
+    await ctx.sendCommandMessage('当前没有正在执行的任务（已发送中止请求）。');
   }
+}
+
+const QUEUE_DROP_RE = /^(?:drop|del|delete|rm|remove)\b/i;
 
-  if (normalizedCommand === 'new') {
-    const sessionId = await createNewSession();
-    if (sessionId) {
-      await sendCommandMessage(`✅ 已切换到新会话: ${sessionId}`);
-    } else {
-      await sendCommandMessage('❌ 新会话创建失败，请稍后重试。');
+function parseQueueDropArgs(rawArgs: string): number[] | 'all' | null {
+  const args = rawArgs.trim();
+  if (/^clear$/i.test(args)) return 'all';
+  if (!QUEUE_DROP_RE.test(args)) return null;
+  const rest = args.replace(QUEUE_DROP_RE, '').trim();
+  if (/^all$/i.test(rest)) return 'all';
+  const positions = rest
+    .split(/[,\s]+/)
+    .map(s => s.replace(/^#/, ''))
+    .filter(s => /^\d+$/.test(s))
+    .map(Number);
+  return positions.length > 0 ? positions : null;
+}
+
+async function handleQueue(ctx: CommandContext) {
+  const { cacheKey, slash, promptQueue, sendCommandMessage } = ctx;
+  const args = slash.arguments.trim();
+
+  if (args) {
+    const target = parseQueueDropArgs(args);
+    if (!target) {
+      await sendCommandMessage('❌ 用法：/queue drop <序号|all> 或 /queue clear');
+      return;
     }
-    return true;
+    const dropped = promptQueue.drop(cacheKey, target);
+    await Promise.all(dropped.map(item => item.cancel()));
+    bridgeLogger.info(`[Queue] dropped chat=${cacheKey} count=${dropped.length}`);
+    await sendCommandMessage(
+      dropped.length > 0
+        ? `🗑️ 已取消 ${dropped.length} 条排队消息。`
+        : '没有匹配的排队消息（#1 为正在执行的任务，无法取消，请使用 /abort）。',
+    );
+    return;
   }
 
-  if (normalizedCommand === 'restart') {
-    sessionCache.clear();
-    sessionToAdapterKey.clear();
-    sessionToCtx.clear();
-    chatAgent.clear();
-    chatModel.clear();
-    chatSessionList.clear();
-    chatAgentList.clear();
-    chatMaxFileSizeMb.clear();
-    chatMaxFileRetry.clear();
-
-    if (globalState.__bridge_progress_msg_ids) {
-      globalState.__bridge_progress_msg_ids.clear();
-    }
-    if (globalState.__feishu_processed_ids) {
-      globalState.__feishu_processed_ids.clear();
-    }
+  const running = promptQueue.running(cacheKey);
+  const pending = promptQueue.pending(cacheKey);
+  const lines = ['## Command', '### Queue'];
+  if (!running && pending.length === 0) {
+    lines.push('队列为空，当前没有正在执行的任务。');
+  } else {
+    if (running) lines.push(`#1 ▶️ ${running.preview}`);
+    pending.forEach((item, idx) => lines.push(`#${idx + 2} ⏳ ${item.preview}`));
+    if (pending.length > 0) lines.push('发送 /queue drop <序号> 或 /queue clear 取消排队。');
+  }
+  await sendCommandMessage(lines.join('\n'));
+}
 
-    const sessionId = await createNewSession();
-    if (sessionId) {
-      await sendCommandMessage(`✅ 桥接系统已重置（当前会话: ${sessionId}）`);
-    } else {
-      await sendCommandMessage('⚠️ 桥接状态已清空，但新会话创建失败，请重试 /new');
-    }
+async function handleNew(ctx: CommandContext) {
+  const sessionId = await ctx.createNewSession();
+  if (sessionId) {
+    await ctx.sendCommandMessage(`✅ 已切换到新会话: ${sessionId}`);
+  } else {
+    await ctx.sendCommandMessage('❌ 新会话创建失败，请稍后重试。');
+  }
+}
+
+async function handleReset(ctx: CommandContext) {
+  ctx.sessionCache.clear();
+  ctx.sessionToAdapterKey.clear();
+  ctx.sessionToCtx.clear();
+  ctx.chatAgent.clear();
+  ctx.chatModel.clear();
+  ctx.chatSessionList.clear();
+  ctx.chatAgentList.clear();
+  ctx.chatMaxFileSizeMb.clear();
+  ctx.chatMaxFileRetry.clear();
+
+  if (globalState.__bridge_progress_msg_ids) {
+    globalState.__bridge_progress_msg_ids.clear();
+  }
+  if (globalState.__feishu_processed_ids) {
+    globalState.__feishu_processed_ids.clear();
+  }
+
+  const sessionId = await ctx.createNewSession();
+  if (sessionId) {
+    await ctx.sendCommandMessage(`✅ 桥接系统已重置（当前会话: ${sessionId}）`);
+  } else {
+    await ctx.sendCommandMessage('⚠️ 桥接状态已清空，但新会话创建失败，请重试 /new');
+  }
+}
+
+// Listing is read-only; switching or deleting changes the chat state.
+const listOrSwitchRole = (args: string): BridgeRole => (args ? 'member' : 'viewer');
+
+export const commandRegistry = new CommandRegistry([
+  { name: 'help', description: '查看命令与用法', role: 'viewer', handler: handleHelp },
+  {
+    name: 'models',
+    aliases: ['model'],
+    description: '查看可用模型',
+    role: 'viewer',
+    roleForArgs: listOrSwitchRole,
+    usages: [{ args: '<序号>', description: '切换模型（如 /models 1.2）', role: 'member' }],
+    handler: handleModels,
+  },
+  {
+    name: 'status',
+    description: '查看桥接运行状态（PID/启动时间）',
+    role: 'viewer',
+    handler: handleStatus,
+  },
+  {
+    name: 'new',
+    aliases: ['clear'],
+    description: '新建会话并切换',
+    role: 'member',
+    handler: handleNew,
+  },
+  {
+    name: 'abort',
+    aliases: ['stop', 'cancel'],
+    description: '中止当前会话正在执行的任务',
+    role: 'member',
+    handler: handleAbort,
+  },
+  {
+    name: 'queue',
+    description: '查看排队中的消息',
+    role: 'viewer',
+    roleForArgs: listOrSwitchRole,
+    usages: [
+      { args: 'drop <序号|all>', description: '取消排队中的消息（/queue clear 清空）', role: 'member' },
+    ],
+    handler: handleQueue,
+  },
+  {
+    name: 'reset',
+    aliases: ['restart'],
+    description: '清空桥接运行态并新建会话',
+    role: 'admin',
+    handler: handleReset,
+  },
+  {
+    name: 'sessions',
+    aliases: ['resume', 'continue'],
+    description: '列出会话',
+    role: 'viewer',
+    roleForArgs: args => (SESSION_DELETE_RE.test(args) ? 'admin' : listOrSwitchRole(args)),
+    usages: [
+      { args: '<序号|id>', description: '切换到指定会话', role: 'member' },
+      { args: 'delete 1,2,3', description: '批量删除会话（序号或id）', role: 'admin' },
+      { args: 'delete all', description: '删除全部会话，仅保留当前会话', role: 'admin' },
+    ],
+    handler: handleSessions,
+  },
+  {
+    name: 'maxFileSize',
+    args: '<xmb>',
+    description: '设置上传文件大小限制（默认10MB）',
+    role: 'member',
+    handler: handleMaxFileSize,
+  },
+  {
+    name: 'maxFileRetry',
+    args: '<n>',
+    description: '设置资源下载重试次数（默认3）',
+    role: 'member',
+    handler: handleMaxFileRetry,
+  },
+  { name: 'share', description: '分享当前会话', role: 'admin', handler: handleShare },
+  { name: 'unshare', description: '取消分享', role: 'admin', handler: handleUnshare },
+  {
+    name: 'compact',
+    aliases: ['summarize'],
+    description: '压缩/总结当前会话',
+    role: 'member',
+    handler: handleCompact,
+  },
+  {
+    name: 'init',
+    description: '初始化项目（生成 AGENTS.md）',
+    role: 'admin',
+    handler: handleInit,
+  },
+  {
+    name: 'agent',
+    description: '列出 Agents',
+    role: 'viewer',
+    roleForArgs: listOrSwitchRole,
+    usages: [
+      { args: '<序号|name>', description: '切换 Agent（序号或精确名称）', role: 'member' },
+    ],
+    handler: handleAgent,
+  },
+  { name: 'connect', description: '连接 Provider', role: 'viewer', unsupported: true },
+  { name: 'details', description: '切换工具详情显示', role: 'viewer', unsupported: true },
+  { name: 'editor', description: '打开外部编辑器', role: 'viewer', unsupported: true },
+  { name: 'export', description: '导出会话', role: 'viewer', unsupported: true },
+  {
+    name: 'exit',
+    aliases: ['quit', 'q'],
+    description: '退出 TUI',
+    role: 'viewer',
+    unsupported: true,
+  },
+  {
+    name: 'theme',
+    aliases: ['themes'],
+    description: '切换主题',
+    role: 'viewer',
+    unsupported: true,
+  },
+  { name: 'thinking', description: '切换思考过程显示', role: 'viewer', unsupported: true },
+]);
+
+export function normalizeSlashCommand(command?: string): string | undefined {
+  return commandRegistry.normalize(command);
+}
+
+export async function handleSlashCommand(ctx: CommandContext): Promise<boolean> {
+  const { api, chatId, role, slash, normalizedCommand, ensureSession, sendCommandMessage } = ctx;
+  bridgeLogger.info(
+    `[Command] adapter=${ctx.adapterKey} chat=${ctx.chatId} cmd=/${slash.command} normalized=${normalizedCommand || '-'} args="${slash.arguments || ''}"`,
+  );
+
+  const requiredRole = commandRegistry.requiredRole(slash.command, slash.arguments || '');
+  if (!hasRole(role, requiredRole)) {
+    logAccessDenied({
+      adapterKey: ctx.adapterKey,
+      chatId,
+      senderId: ctx.senderId,
+      reason: 'role',
+      kind: 'command',
+      detail: `cmd=/${slash.command} role=${role} required=${requiredRole}`,
+    });
+    await sendCommandMessage(
+      `⛔ 权限不足：/${slash.command} 需要 ${requiredRole} 角色（你当前为 ${role}）。发送 /help 查看可用命令。`,
+    );
     return true;
   }
 
-  const unsupportedCommands = new Set([
-    'connect',
-    'details',
-    'editor',
-    'export',
-    'exit',
-    'quit',
-    'q',
-    'theme',
-    'themes',
-    'thinking',
-  ]);
-  if (unsupportedCommands.has(normalizedCommand || '')) {
-    await sendUnsupported();
+  const def = commandRegistry.resolve(slash.command);
+  if (def?.unsupported) {
+    await ctx.sendUnsupported();
+    return true;
+  }
+  if (def?.handler) {
+    await def.handler(ctx);
     return true;
   }
 
   const sessionId = await ensureSession();
-  const isCustom = await isKnownCustomCommand(slash.command);
+  const isCustom = await ctx.isKnownCustomCommand(slash.command);
   if (isCustom === false) {
     await sendCommandMessage(`❌ 无效指令: /${slash.command}`);
     return true;
@@ -2,9 +2,12 @@ import type {
   EventCommandExecuted,
   EventMessagePartUpdated,
   EventMessageUpdated,
+  EventPermissionReplied,
+  EventPermissionUpdated,
   EventSessionError,
   EventSessionIdle,
   OpencodeClient,
+  UserMessage,
 } from '@opencode-ai/sdk';
 import type { BridgeAdapter } from '../types';
 import type { AdapterMux } from './mux';
@@ -14,10 +17,14 @@ import {
   getOrInitBuffer,
   markStatus,
   applyPartToBuffer,
+  applyToolEndToBuffer,
+  applyToolStartToBuffer,
   shouldFlushNow,
 } from '../bridge/buffer';
 import type { MessageBuffer } from '../bridge/buffer';
+import { displayModelToMarkdown } from '../bridge/display';
 import {
+  deliverPages,
   safeEditWithRetry,
   flushAll as flushAllMessages,
   flushMessage as flushOneMessage,
@@ -31,11 +38,20 @@ import {
   shouldSplitOutFinalAnswer,
   splitFinalAnswerFromExecution,
 } from './execution.flow';
+import { handlePermissionRepliedEvent, handlePermissionUpdatedEvent } from './permission.flow';
+import type { PendingPermission } from './permission.flow';
+import { EVENT_SUBSCRIPTION_RETRY_MS, HOOK_EVENT_GRACE_MS } from '../constants';
 
 type SessionContext = { chatId: string; senderId: string };
 type SelectedModel = { providerID: string; modelID: string; name?: string };
-type ListenerState = { isListenerStarted: boolean; shouldStopListener: boolean };
+type ListenerState = {
+  isListenerStarted: boolean;
+  shouldStopListener: boolean;
+  hookActive: boolean; // the plugin `event` hook delivered an event; no subscription needed
+  queue: Promise<void>; // events and tool hooks, handled one at a time in arrival order
+};
 type EventWithType = { type: string; properties?: unknown };
+export type ToolHookInput = { tool: string; sessionID: string; callID: string };
 type EventMessageBuffer = MessageBuffer & { __executionCarried?: boolean };
 
 export type EventFlowDeps = {
@@ -52,6 +68,7 @@ export type EventFlowDeps = {
   chatAgentList: Map<string, Array<{ id: string; name: string }>>;
   chatMaxFileSizeMb: Map<string, number>;
   chatMaxFileRetry: Map<string, number>;
+  pendingPermissions: Map<string, PendingPermission>;
 };
 
 function isAbortedError(err: unknown): boolean {
@@ -178,6 +195,64 @@ async function handleMessageUpdatedEvent(
   }
 }
 
+/** Sends or edits the platform message of `buffer`, throttled per adapter. */
+async function renderBufferUpdate(
+  adapter: BridgeAdapter,
+  chatId: string,
+  sessionId: string,
+  messageId: string,
+  buffer: EventMessageBuffer,
+  adapterKey?: string,
+) {
+  if (!shouldFlushNow(buffer, adapterKey)) {
+    bridgeLogger.debug(
+      `[BridgeFlowDebug] skip-flush sid=${sessionId} mid=${messageId} reason=throttle`,
+    );
+    return;
+  }
+  const hasAny = buffer.reasoning.length > 0 || buffer.text.length > 0 || buffer.tools.size > 0;
+  if (!hasAny) {
+    bridgeLogger.debug(
+      `[BridgeFlowDebug] skip-flush sid=${sessionId} mid=${messageId} reason=empty`,
+    );
+    return;
+  }
+
+  buffer.lastUpdateTime = Date.now();
+
+  const display = buildPlatformDisplay(buffer);
+  const displayText = displayModelToMarkdown(display);
+  const hash = simpleHash(displayText);
+  if (buffer.platformMsgId && hash === buffer.lastDisplayHash) {
+    bridgeLogger.debug(
+      `[BridgeFlowDebug] skip-flush sid=${sessionId} mid=${messageId} reason=same-hash`,
+    );
+    return;
+  }
+
+  if (!buffer.platformMsgId) {
+    bridgeLogger.info(
+      `${FLOW_LOG_PREFIX} send-new sid=${sessionId} mid=${messageId} tools=${buffer.tools.size}`,
+    );
+    const sent = await deliverPages({ adapter, chatId, buffer, content: display });
+    if (sent) buffer.lastDisplayHash = hash;
+    return;
+  }
+
+  const prevMsgId = buffer.platformMsgId;
+  const ok = await deliverPages({ adapter, chatId, buffer, content: display });
+  if (ok) {
+    bridgeLogger.debug(
+      `[BridgeFlowDebug] edited sid=${sessionId} mid=${messageId} msg=${ok} contentLen=${displayText.length}`,
+    );
+    buffer.lastDisplayHash = hash;
+  } else {
+    bridgeLogger.warn(
+      `[BridgeFlowDebug] edit-failed sid=${sessionId} mid=${messageId} msg=${prevMsgId} contentLen=${displayText.length}`,
+    );
+  }
+}
+
 async function handleMessagePartUpdatedEvent(
   event: EventMessagePartUpdated,
   mux: AdapterMux,
@@ -240,55 +315,7 @@ async function handleMessagePartUpdatedEvent(
     markStatus(deps.msgBuffers, messageId, 'done', part.reason || 'step-finish');
   }
 
-  if (!shouldFlushNow(buffer, adapterKey || undefined)) {
-    bridgeLogger.debug(
-      `[BridgeFlowDebug] skip-flush sid=${sessionId} mid=${messageId} reason=throttle`,
-    );
-    return;
-  }
-  const hasAny = buffer.reasoning.length > 0 || buffer.text.length > 0 || buffer.tools.size > 0;
-  if (!hasAny) {
-    bridgeLogger.debug(
-      `[BridgeFlowDebug] skip-flush sid=${sessionId} mid=${messageId} reason=empty`,
-    );
-    return;
-  }
-
-  buffer.lastUpdateTime = Date.now();
-
-  const display = buildPlatformDisplay(buffer);
-  const hash = simpleHash(display);
-  if (buffer.platformMsgId && hash === buffer.lastDisplayHash) {
-    bridgeLogger.debug(
-      `[BridgeFlowDebug] skip-flush sid=${sessionId} mid=${messageId} reason=same-hash`,
-    );
-    return;
-  }
-
-  if (!buffer.platformMsgId) {
-    bridgeLogger.info(
-      `${FLOW_LOG_PREFIX} send-new sid=${sessionId} mid=${messageId} tools=${buffer.tools.size}`,
-    );
-    const sent = await adapter.sendMessage(ctx.chatId, display);
-    if (sent) {
-      buffer.platformMsgId = sent;
-      buffer.lastDisplayHash = hash;
-    }
-    return;
-  }
-
-  const ok = await safeEditWithRetry(adapter, ctx.chatId, buffer.platformMsgId, display);
-  if (ok) {
-    bridgeLogger.debug(
-      `[BridgeFlowDebug] edited sid=${sessionId} mid=${messageId} msg=${ok} contentLen=${display.length}`,
-    );
-    buffer.platformMsgId = ok;
-    buffer.lastDisplayHash = hash;
-  } else {
-    bridgeLogger.warn(
-      `[BridgeFlowDebug] edit-failed sid=${sessionId} mid=${messageId} msg=${buffer.platformMsgId} contentLen=${display.length}`,
-    );
-  }
+  await renderBufferUpdate(adapter, ctx.chatId, sessionId, messageId, buffer, adapterKey);
 }
 
 async function handleSessionErrorEvent(
@@ -356,77 +383,182 @@ function handleCommandExecutedEvent(event: EventCommandExecuted, deps: EventFlow
   buf.isCommand = true;
 }
 
+/** Routes one OpenCode bus event, whichever way it arrived. */
+async function dispatchBridgeEvent(event: EventWithType, mux: AdapterMux, deps: EventFlowDeps) {
+  if (event.type === 'message.updated') {
+    await handleMessageUpdatedEvent(event as EventMessageUpdated, mux, deps);
+    return;
+  }
+
+  if (event.type === 'message.part.updated') {
+    const pe = event as EventMessagePartUpdated;
+    const p = pe.properties.part;
+    bridgeLogger.debug(
+      `[BridgeFlowDebug] part.updated sid=${p.sessionID} mid=${p.messageID} type=${p.type} deltaLen=${(pe.properties.delta || '').length}`,
+    );
+    await handleMessagePartUpdatedEvent(pe, mux, deps);
+    return;
+  }
+
+  if (event.type === 'session.error') {
+    await handleSessionErrorEvent(event as EventSessionError, mux, deps);
+    return;
+  }
+
+  if (event.type === 'session.idle') {
+    await handleSessionIdleEvent(event as EventSessionIdle, mux, deps);
+    return;
+  }
+
+  if (event.type === 'permission.updated') {
+    await handlePermissionUpdatedEvent(event as EventPermissionUpdated, mux, deps);
+    return;
+  }
+
+  if (event.type === 'permission.replied') {
+    await handlePermissionRepliedEvent(event as EventPermissionReplied, mux, deps);
+    return;
+  }
+
+  if (event.type === 'command.executed') {
+    handleCommandExecutedEvent(event as EventCommandExecuted, deps);
+  }
+}
+
+/** Hook calls may overlap; buffers and platform messages are updated strictly in order. */
+function enqueue(deps: EventFlowDeps, work: () => Promise<void>): Promise<void> {
+  const state = deps.listenerState;
+  state.queue = state.queue
+    .then(work)
+    .catch(err => bridgeLogger.error('[Listener] event handling failed', err));
+  return state.queue;
+}
+
+/** The plugin `event` hook. The first call makes any fallback subscription stand down. */
+export function handleHookEventWithDeps(
+  event: EventWithType,
+  mux: AdapterMux,
+  deps: EventFlowDeps,
+): Promise<void> {
+  const state = deps.listenerState;
+  if (!state.hookActive) {
+    state.hookActive = true;
+    bridgeLogger.info('[Listener] receiving OpenCode events through the plugin hook');
+  }
+  if (!state.isListenerStarted || state.shouldStopListener) return Promise.resolve();
+  return enqueue(deps, () => dispatchBridgeEvent(event, mux, deps));
+}
+
+/** The `chat.message` hook names the user message before its parts stream back as events. */
+export function handleChatMessageHookWithDeps(message: UserMessage, deps: EventFlowDeps) {
+  if (message.id) deps.msgRole.set(message.id, 'user');
+}
+
+/** The `tool.execute.before` hook: shows the tool as running as soon as it starts. */
+export function handleToolExecuteBeforeWithDeps(
+  input: ToolHookInput,
+  args: unknown,
+  mux: AdapterMux,
+  deps: EventFlowDeps,
+): Promise<void> {
+  return enqueue(deps, () =>
+    updateToolFromHook(input, mux, deps, buffer =>
+      applyToolStartToBuffer(buffer, { callID: input.callID, tool: input.tool, args }),
+    ),
+  );
+}
+
+/** The `tool.execute.after` hook: the title and output, before the part event catches up. */
+export function handleToolExecuteAfterWithDeps(
+  input: ToolHookInput,
+  result: { title?: string; output?: string },
+  mux: AdapterMux,
+  deps: EventFlowDeps,
+): Promise<void> {
+  return enqueue(deps, () =>
+    updateToolFromHook(input, mux, deps, buffer =>
+      applyToolEndToBuffer(buffer, {
+        callID: input.callID,
+        tool: input.tool,
+        title: result.title,
+        output: result.output,
+      }),
+    ),
+  );
+}
+
+async function updateToolFromHook(
+  input: ToolHookInput,
+  mux: AdapterMux,
+  deps: EventFlowDeps,
+  apply: (buffer: EventMessageBuffer) => void,
+) {
+  const sessionId = input.sessionID;
+  const messageId = deps.sessionActiveMsg.get(sessionId);
+  const target = resolveSessionTarget(sessionId, mux, deps);
+  if (!messageId || !target) return;
+  const buffer = getOrInitBuffer(deps.msgBuffers, messageId);
+  if (buffer.status !== 'streaming') return;
+  apply(buffer);
+  bridgeLogger.debug(
+    `[BridgeFlowDebug] tool-hook sid=${sessionId} mid=${messageId} tool=${input.tool} call=${input.callID}`,
+  );
+  const { adapter, ctx } = target;
+  const adapterKey = deps.sessionToAdapterKey.get(sessionId);
+  await renderBufferUpdate(adapter, ctx.chatId, sessionId, messageId, buffer, adapterKey);
+}
+
+/** Fallback for hosts that never call the `event` hook; ends as soon as the hook shows up. */
+async function subscribeToEvents(api: OpencodeClient, mux: AdapterMux, deps: EventFlowDeps) {
+  const state = deps.listenerState;
+  try {
+    const events = await api.event.subscribe();
+    bridgeLogger.info('[Listener] connected to OpenCode event stream');
+    for await (const event of events.stream) {
+      if (state.shouldStopListener) break;
+      if (state.hookActive) {
+        bridgeLogger.info('[Listener] plugin hook took over, closing the event stream');
+        break;
+      }
+      await enqueue(deps, () => dispatchBridgeEvent(event as EventWithType, mux, deps));
+    }
+  } catch (e) {
+    if (!state.shouldStopListener) bridgeLogger.error('[Listener] stream disconnected', e);
+  }
+  if (state.shouldStopListener || state.hookActive) return;
+
+  await enqueue(deps, () => flushAll(mux, deps));
+  setTimeout(() => {
+    if (!state.shouldStopListener && !state.hookActive) subscribeToEvents(api, mux, deps);
+  }, EVENT_SUBSCRIPTION_RETRY_MS);
+}
+
 export async function startGlobalEventListenerWithDeps(
   api: OpencodeClient,
   mux: AdapterMux,
   deps: EventFlowDeps,
+  options: { hookGraceMs?: number } = {},
 ) {
-  if (deps.listenerState.isListenerStarted) {
+  const state = deps.listenerState;
+  if (state.isListenerStarted) {
     bridgeLogger.debug('[BridgeFlowDebug] listener already started, skip');
     return;
   }
-  deps.listenerState.isListenerStarted = true;
-  deps.listenerState.shouldStopListener = false;
-
-  bridgeLogger.info('[Listener] starting global event subscription (MUX)');
-
-  let retryCount = 0;
-
-  const connect = async () => {
-    try {
-      const events = await api.event.subscribe();
-      bridgeLogger.info('[Listener] connected to OpenCode event stream');
-      retryCount = 0;
-
-      for await (const event of events.stream) {
-        const e = event as EventWithType;
-        if (deps.listenerState.shouldStopListener) break;
-
-        if (e.type === 'message.updated') {
-          await handleMessageUpdatedEvent(event as EventMessageUpdated, mux, deps);
-          continue;
-        }
-
-        if (e.type === 'message.part.updated') {
-          const pe = event as EventMessagePartUpdated;
-          const p = pe.properties.part;
-          bridgeLogger.debug(
-            `[BridgeFlowDebug] part.updated sid=${p.sessionID} mid=${p.messageID} type=${p.type} deltaLen=${(pe.properties.delta || '').length}`,
-          );
-          await handleMessagePartUpdatedEvent(event as EventMessagePartUpdated, mux, deps);
-          continue;
-        }
-
-        if (e.type === 'session.error') {
-          await handleSessionErrorEvent(event as EventSessionError, mux, deps);
-          continue;
-        }
-
-        if (e.type === 'session.idle') {
-          await handleSessionIdleEvent(event as EventSessionIdle, mux, deps);
-          continue;
-        }
-
-        if (e.type === 'command.executed') {
-          handleCommandExecutedEvent(event as EventCommandExecuted, deps);
-          continue;
-        }
-      }
-
-      await flushAll(mux, deps);
-    } catch (e) {
-      if (deps.listenerState.shouldStopListener) return;
-
-      bridgeLogger.error('[Listener] stream disconnected', e);
-      await flushAll(mux, deps);
+  state.isListenerStarted = true;
+  state.shouldStopListener = false;
 
-      const delay = Math.min(5000 * (retryCount + 1), 60000);
-      retryCount++;
-      setTimeout(connect, delay);
-    }
+  if (state.hookActive) {
+    bridgeLogger.info('[Listener] using the plugin event hook (MUX)');
+    return;
+  }
+  const graceMs = options.hookGraceMs ?? HOOK_EVENT_GRACE_MS;
+  const fallback = () => {
+    if (state.shouldStopListener || state.hookActive) return;
+    bridgeLogger.info('[Listener] no plugin hook events, starting global event subscription (MUX)');
+    subscribeToEvents(api, mux, deps);
   };
-
-  connect();
+  if (graceMs <= 0) fallback();
+  else setTimeout(fallback, graceMs);
 }
 
 export function stopGlobalEventListenerWithDeps(deps: EventFlowDeps) {
@@ -445,4 +577,5 @@ export function stopGlobalEventListenerWithDeps(deps: EventFlowDeps) {
   deps.chatAgentList.clear();
   deps.chatMaxFileSizeMb.clear();
   deps.chatMaxFileRetry.clear();
+  deps.pendingPermissions.clear();
 }
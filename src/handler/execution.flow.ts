@@ -1,5 +1,6 @@
-import { buildDisplayContent } from '../bridge/buffer';
+import { buildDisplayModel } from '../bridge/buffer';
 import type { BufferStatus, MessageBuffer } from '../bridge/buffer';
+import type { DisplayModel } from '../types';
 
 export const FLOW_LOG_PREFIX = '[BridgeFlow]';
 const EXECUTION_TO_ANSWER_SPLIT_MIN_TEXT = 120;
@@ -55,6 +56,8 @@ export function shouldSplitOutFinalAnswer(buffer: ExecutionMessageBuffer): boole
 
 export function splitFinalAnswerFromExecution(buffer: ExecutionMessageBuffer) {
   buffer.platformMsgId = null;
+  buffer.pageMsgIds = [];
+  buffer.pagedTextLength = 0;
   buffer.lastDisplayHash = '';
   buffer.__executionCarried = false;
   // Final answer should be a clean message, not mixed with historical execution context.
@@ -62,17 +65,17 @@ export function splitFinalAnswerFromExecution(buffer: ExecutionMessageBuffer) {
   buffer.reasoning = '';
 }
 
-export function buildFinalizedExecutionContent(buffer: ExecutionMessageBuffer): string {
+export function buildFinalizedExecutionContent(buffer: ExecutionMessageBuffer): DisplayModel {
   const finalExecutionView = {
     ...buffer,
     text: '',
     status: 'done' as BufferStatus,
     statusNote: String(buffer.statusNote || 'tool-calls'),
   };
-  return buildDisplayContent(finalExecutionView);
+  return buildDisplayModel(finalExecutionView);
 }
 
-export function buildPlatformDisplay(buffer: ExecutionMessageBuffer): string {
+export function buildPlatformDisplay(buffer: ExecutionMessageBuffer): DisplayModel {
   // Avoid leaking partial conclusion into execution cards during streaming.
   // Once terminal, always show answer text even if execution context exists.
   if (
@@ -81,7 +84,7 @@ export function buildPlatformDisplay(buffer: ExecutionMessageBuffer): string {
     hasSubstantiveAnswerText(buffer) &&
     !isTerminalStatus(buffer.status)
   ) {
-    return buildDisplayContent({ ...buffer, text: '' });
+    return buildDisplayModel({ ...buffer, text: '' });
   }
-  return buildDisplayContent(buffer);
+  return buildDisplayModel(buffer);
 }
@@ -1,11 +1,29 @@
 import type { FilePartInput, OpencodeClient, TextPartInput } from '@opencode-ai/sdk';
-import type { BridgeAdapter } from '../types';
+import type {
+  BridgeAccessConfig,
+  BridgeAdapter,
+  BridgeQueueMode,
+  BridgeQuotedMessage,
+  BridgeQuoteResolver,
+} from '../types';
 import { LOADING_EMOJI } from '../constants';
 import { drainPendingFileParts, saveFilePartToLocal } from '../bridge/file.store';
-import { ERROR_HEADER, parseSlashCommand, globalState } from '../utils';
+import { parseSlashCommand, globalState } from '../utils';
+import { createTextDisplay } from '../bridge/display';
 import { bridgeLogger } from '../logger';
-import { handleSlashCommand } from './command';
+import { handleSlashCommand, normalizeSlashCommand } from './command';
 import type { AdapterMux } from './mux';
+import { abortChatSession } from './abort.flow';
+import type { AbortFlowDeps } from './abort.flow';
+import type { PromptQueue } from './prompt.queue';
+import {
+  ACCESS_DENIED_MESSAGE,
+  checkAccess,
+  hasRole,
+  logAccessDenied,
+  resolveSenderRole,
+  shouldSendAccessDenied,
+} from './access';
 
 type SessionContext = { chatId: string; senderId: string };
 type SelectedModel = { providerID: string; modelID: string; name?: string };
@@ -37,27 +55,28 @@ function toNamedRecord(item: unknown): NamedRecord | null {
   };
 }
 
-function isFilePartInput(part: TextPartInput | FilePartInput): part is FilePartInput {
-  return part.type === 'file';
+function previewText(text: string, fileCount: number): string {
+  const oneLine = (text || '').replace(/\s+/g, ' ').trim();
+  const clipped = oneLine.length > 40 ? `${oneLine.slice(0, 40)}…` : oneLine;
+  const files = fileCount > 0 ? ` [+${fileCount} file]` : '';
+  return `${clipped || '(files)'}${files}`;
 }
 
-function normalizeSlashCommand(command?: string): string | undefined {
-  if (!command) return command;
-  const aliasMap: Record<string, string> = {
-    resume: 'sessions',
-    continue: 'sessions',
-    summarize: 'compact',
-    model: 'models',
-    restart: 'restart',
-    clear: 'new',
-    new: 'new',
-    reset: 'restart',
-  };
+const QUOTE_TEXT_LIMIT = 4000;
 
-  return aliasMap[command] || command;
+function formatQuotedText(quote: BridgeQuotedMessage): string {
+  const who = quote.fromBot ? 'your earlier answer' : quote.author || 'another message';
+  const text =
+    quote.text.length > QUOTE_TEXT_LIMIT ? `${quote.text.slice(0, QUOTE_TEXT_LIMIT)}…` : quote.text;
+  const body = text ? text.replace(/^/gm, '> ') : '> (attachment)';
+  return `[Replying to ${who}]\n${body}`;
+}
+
+function isFilePartInput(part: TextPartInput | FilePartInput): part is FilePartInput {
+  return part.type === 'file';
 }
 
-export type IncomingFlowDeps = {
+export type IncomingFlowDeps = AbortFlowDeps & {
   sessionCache: Map<string, string>;
   sessionToAdapterKey: Map<string, string>;
   sessionToCtx: Map<string, SessionContext>;
@@ -67,6 +86,11 @@ export type IncomingFlowDeps = {
   chatAgentList: Map<string, Array<{ id: string; name: string }>>;
   chatMaxFileSizeMb: Map<string, number>;
   chatMaxFileRetry: Map<string, number>;
+  adapterAccess: Map<string, BridgeAccessConfig>; // adapterKey -> access control
+  adapterQueueMode: Map<string, BridgeQueueMode>; // adapterKey -> follow-up handling
+  adapterDefaultAgent: Map<string, string>; // adapterKey -> agent of new chats
+  accessDeniedNotices: Map<string, number>; // adapterKey:chatId:senderId -> last ⛔ reply
+  promptQueue: PromptQueue;
   formatUserError: (err: unknown) => string;
 };
 
@@ -85,11 +109,33 @@ export const createIncomingHandlerWithDeps = (
     messageId: string,
     senderId: string,
     parts?: Array<TextPartInput | FilePartInput>,
+    resolveQuote?: BridgeQuoteResolver,
   ) => {
     bridgeLogger.info(
-      `[Incoming] adapter=${adapterKey} chat=${chatId} sender=${senderId} msg=${messageId} textLen=${text?.length || 0} parts=${parts?.length || 0}`,
+      `[Incoming] adapter=${adapterKey} chat=${chatId} sender=${senderId} msg=${messageId} textLen=${text?.length || 0} parts=${parts?.length || 0} quote=${resolveQuote ? 'yes' : 'no'}`,
     );
 
+    const accessConfig = deps.adapterAccess.get(adapterKey);
+    const access = checkAccess(accessConfig, chatId, senderId);
+    if (!access.allowed) {
+      // With `group_policy: all` a denied group would otherwise get a ⛔ for every line of chatter.
+      const notify = shouldSendAccessDenied(
+        deps.accessDeniedNotices,
+        `${adapterKey}:${chatId}:${senderId}`,
+      );
+      logAccessDenied({
+        adapterKey,
+        chatId,
+        senderId,
+        reason: access.reason,
+        kind: 'message',
+        detail: `msg=${messageId} textLen=${text?.length || 0} parts=${parts?.length || 0} notified=${notify ? 'yes' : 'no'}`,
+      });
+      if (notify) await adapter.sendMessage(chatId, ACCESS_DENIED_MESSAGE).catch(() => {});
+      return;
+    }
+
+    const role = resolveSenderRole(accessConfig, senderId);
     const slash = parseSlashCommand(text);
     const cacheKey = `${adapterKey}:${chatId}`;
     const rawCommand = slash?.command?.toLowerCase();
@@ -111,6 +157,20 @@ export const createIncomingHandlerWithDeps = (
     }
 
     let reactionId: string | null = null;
+    // Once a prompt is queued, the queued job owns the loading reaction.
+    let handedOff = false;
+
+    const releaseReaction = async () => {
+      const active = deps.activeReactions.get(cacheKey);
+      if (reactionId && active) {
+        const rest = active.filter(r => r.reactionId !== reactionId);
+        if (rest.length > 0) deps.activeReactions.set(cacheKey, rest);
+        else deps.activeReactions.delete(cacheKey);
+      }
+      if (messageId && reactionId && adapter.removeReaction) {
+        await adapter.removeReaction(messageId, reactionId).catch(() => {});
+      }
+    };
 
     try {
       if (messageId && adapter.addReaction) {
@@ -130,7 +190,10 @@ export const createIncomingHandlerWithDeps = (
           deps.sessionCache.set(cacheKey, sessionId);
           deps.sessionToAdapterKey.set(sessionId, adapterKey);
           deps.sessionToCtx.set(sessionId, { chatId, senderId });
-          deps.chatAgent.set(cacheKey, previousAgent || DEFAULT_AGENT_ID);
+          deps.chatAgent.set(
+            cacheKey,
+            previousAgent || deps.adapterDefaultAgent.get(adapterKey) || DEFAULT_AGENT_ID,
+          );
           if (previousModel) deps.chatModel.set(cacheKey, previousModel);
           else deps.chatModel.delete(cacheKey);
         }
@@ -147,21 +210,24 @@ export const createIncomingHandlerWithDeps = (
       };
 
       const sendCommandMessage = async (content: string) => {
-        await adapter.sendMessage(chatId, `## Command\n${content}`);
+        await adapter.sendMessage(chatId, createTextDisplay('command', content));
       };
 
       const sendErrorMessage = async (content: string) => {
-        await adapter.sendMessage(chatId, `${ERROR_HEADER}\n${content}`);
+        await adapter.sendMessage(chatId, createTextDisplay('error', content));
       };
 
       globalState.__bridge_send_error_message = async (cId: string, content: string) => {
-        await adapter.sendMessage(cId, `${ERROR_HEADER}\n${content}`);
+        await adapter.sendMessage(cId, createTextDisplay('error', content));
       };
 
       const sendUnsupported = async () => {
         await sendCommandMessage(`❌ 命令 /${slash?.command} 暂不支持在聊天中使用。`);
       };
 
+      const abortSession = () =>
+        abortChatSession({ api, adapter, chatId, cacheKey, deps });
+
       const isKnownCustomCommand = async (name: string): Promise<boolean | null> => {
         try {
           const res = await api.command.list();
@@ -178,6 +244,7 @@ export const createIncomingHandlerWithDeps = (
           adapterKey,
           chatId,
           senderId,
+          role,
           cacheKey,
           slash,
           normalizedCommand: normalizedCommand || '',
@@ -199,10 +266,28 @@ export const createIncomingHandlerWithDeps = (
           sendErrorMessage,
           sendUnsupported,
           isKnownCustomCommand,
+          abortSession,
+          promptQueue: deps.promptQueue,
         });
         if (handled) return;
       }
 
+      if (!hasRole(role, 'member')) {
+        logAccessDenied({
+          adapterKey,
+          chatId,
+          senderId,
+          reason: 'role',
+          kind: 'prompt',
+          detail: `msg=${messageId} role=${role}`,
+        });
+        await adapter.sendMessage(
+          chatId,
+          '⛔ 你当前为 viewer 角色，只能使用只读命令，无法向 Agent 发送消息。',
+        );
+        return;
+      }
+
       const fileParts = (parts || []).filter(isFilePartInput);
       const hasText = Boolean(text && text.trim());
 
@@ -241,14 +326,13 @@ export const createIncomingHandlerWithDeps = (
           const lines: string[] = [];
           if (saved.length > 0 && failed === 0 && duplicated.length === 0) {
             lines.push(
-              `## Status\n✅ 图片/文件保存成功：\n${saved
+              `✅ 图片/文件保存成功：\n${saved
                 .map(p => `- ${p}`)
                 .join('\n')}\n⏳ 等候指令。`,
             );
           } else if (saved.length === 0 && duplicated.length === 0) {
-            lines.push('## Status\n❌ 文件上传失败，请重试。');
+            lines.push('❌ 文件上传失败，请重试。');
           } else {
-            lines.push('## Status');
             if (saved.length > 0) {
               lines.push(`✅ 已保存：\n${saved.map(p => `- ${p}`).join('\n')}`);
             }
@@ -258,7 +342,7 @@ export const createIncomingHandlerWithDeps = (
             if (failed > 0) lines.push('❌ 部分文件上传失败，请重试。');
           }
 
-          const content = lines.join('\n');
+          const content = createTextDisplay('status', lines.join('\n'));
           const progressMap: Map<string, string> | undefined =
             globalState.__bridge_progress_msg_ids;
           const progressKey = messageId;
@@ -276,44 +360,98 @@ export const createIncomingHandlerWithDeps = (
         }
       }
 
-      const sessionId = await ensureSession();
-      deps.sessionToAdapterKey.set(sessionId, adapterKey);
-      deps.sessionToCtx.set(sessionId, { chatId, senderId });
+      const runPrompt = async () => {
+        try {
+          const sessionId = await ensureSession();
+          deps.sessionToAdapterKey.set(sessionId, adapterKey);
+          deps.sessionToCtx.set(sessionId, { chatId, senderId });
 
-      const agent = deps.chatAgent.get(cacheKey);
-      const model = deps.chatModel.get(cacheKey);
-      const partList: Array<TextPartInput | FilePartInput> = [];
-      if (text && text.trim()) {
-        partList.push({ type: 'text', text });
+          const agent = deps.chatAgent.get(cacheKey);
+          const model = deps.chatModel.get(cacheKey);
+          const partList: Array<TextPartInput | FilePartInput> = [];
+          // The quoted message goes first so "fix this" has something to point at.
+          const quote = await resolveQuote?.().catch(err => {
+            bridgeLogger.warn(`[Incoming] quote unavailable chat=${chatId} msg=${messageId}`, err);
+            return undefined;
+          });
+          if (quote && (quote.text || quote.files?.length)) {
+            partList.push({ type: 'text', text: formatQuotedText(quote) });
+            partList.push(...(quote.files || []));
+          }
+          if (text && text.trim()) {
+            partList.push({ type: 'text', text });
+          }
+          const pendingFiles = await drainPendingFileParts(cacheKey);
+          if (pendingFiles.length > 0) {
+            bridgeLogger.info(
+              `[Incoming] attach-pending-files adapter=${adapterKey} chat=${chatId} count=${pendingFiles.length}`,
+            );
+            partList.push(...pendingFiles);
+          }
+          if (partList.length === 0) return;
+
+          if (reactionId) {
+            // A merged follow-up joins the running prompt's reactions rather than replacing them.
+            const active = deps.activeReactions.get(cacheKey) || [];
+            deps.activeReactions.set(cacheKey, [...active, { messageId, reactionId }]);
+          }
+          bridgeLogger.info(
+            `[Incoming] prompt adapter=${adapterKey} chat=${chatId} parts=${partList.length} text=${hasText} files=${pendingFiles.length} agent=${agent || '-'} model=${model?.name || model?.modelID || '-'}`,
+          );
+          await api.session.prompt({
+            path: { id: sessionId },
+            body: {
+              parts: partList,
+              ...(agent ? { agent } : {}),
+              ...(model ? { model: { providerID: model.providerID, modelID: model.modelID } } : {}),
+            },
+          });
+          bridgeLogger.info(`[Incoming] prompt-sent adapter=${adapterKey} session=${sessionId}`);
+        } catch (err: unknown) {
+          bridgeLogger.error(`[Incoming] adapter=${adapterKey} chat=${chatId} prompt failed`, err);
+          await adapter
+            .sendMessage(chatId, createTextDisplay('error', deps.formatUserError(err)))
+            .catch(() => {});
+        } finally {
+          await releaseReaction();
+        }
+      };
+
+      if (deps.promptQueue.isBusy(cacheKey) && deps.adapterQueueMode.get(adapterKey) === 'merge') {
+        // OpenCode folds a prompt sent to a busy session into the turn that is running.
+        bridgeLogger.info(`[Queue] merge adapter=${adapterKey} chat=${chatId} msg=${messageId}`);
+        handedOff = true;
+        void runPrompt();
+        await adapter.sendMessage(chatId, createTextDisplay('status', '➕ 已合并到当前任务。'));
+        return;
       }
-      const pendingFiles = await drainPendingFileParts(cacheKey);
-      if (pendingFiles.length > 0) {
+
+      handedOff = true;
+      const position = deps.promptQueue.submit(cacheKey, {
+        messageId,
+        senderId,
+        preview: previewText(text, fileParts.length),
+        enqueuedAt: Date.now(),
+        run: runPrompt,
+        cancel: releaseReaction,
+      });
+      if (position > 1) {
         bridgeLogger.info(
-          `[Incoming] attach-pending-files adapter=${adapterKey} chat=${chatId} count=${pendingFiles.length}`,
+          `[Queue] queued adapter=${adapterKey} chat=${chatId} msg=${messageId} position=${position}`,
+        );
+        await adapter.sendMessage(
+          chatId,
+          createTextDisplay(
+            'status',
+            `⏳ queued (#${position})：当前任务完成后自动发送，/queue 查看或取消。`,
+          ),
         );
-        partList.push(...pendingFiles);
       }
-      if (partList.length === 0) return;
-
-      bridgeLogger.info(
-        `[Incoming] prompt adapter=${adapterKey} chat=${chatId} parts=${partList.length} text=${hasText} files=${pendingFiles.length} agent=${agent || '-'} model=${model?.name || model?.modelID || '-'}`,
-      );
-      await api.session.prompt({
-        path: { id: sessionId },
-        body: {
-          parts: partList,
-          ...(agent ? { agent } : {}),
-          ...(model ? { model: { providerID: model.providerID, modelID: model.modelID } } : {}),
-        },
-      });
-      bridgeLogger.info(`[Incoming] prompt-sent adapter=${adapterKey} session=${sessionId}`);
     } catch (err: unknown) {
       bridgeLogger.error(`[Incoming] adapter=${adapterKey} chat=${chatId} failed`, err);
-      await adapter.sendMessage(chatId, `${ERROR_HEADER}\n${deps.formatUserError(err)}`);
+      await adapter.sendMessage(chatId, createTextDisplay('error', deps.formatUserError(err)));
     } finally {
-      if (messageId && reactionId && adapter.removeReaction) {
-        await adapter.removeReaction(messageId, reactionId).catch(() => {});
-      }
+      if (!handedOff) await releaseReaction();
     }
   };
 };
@@ -1,32 +1,111 @@
 // src/handler/index.ts
-import type { OpencodeClient } from '@opencode-ai/sdk';
+import type { Event, OpencodeClient, UserMessage } from '@opencode-ai/sdk';
 import type { MessageBuffer } from '../bridge/buffer';
+import type {
+  BridgeAccessConfig,
+  BridgeChatState,
+  BridgeQueueMode,
+  BridgeStateStore,
+} from '../types';
 import { AdapterMux } from './mux';
 import { createIncomingHandlerWithDeps } from './incoming.flow';
-import { startGlobalEventListenerWithDeps, stopGlobalEventListenerWithDeps } from './event.flow';
+import { createActionHandlerWithDeps } from './action.flow';
+import { commandRegistry } from './command';
+import type { PendingPermission } from './permission.flow';
+import type { ActiveReaction } from './abort.flow';
+import { PromptQueue } from './prompt.queue';
+import { resolveSenderRole } from './access';
+import {
+  handleChatMessageHookWithDeps,
+  handleHookEventWithDeps,
+  handleToolExecuteAfterWithDeps,
+  handleToolExecuteBeforeWithDeps,
+  startGlobalEventListenerWithDeps,
+  stopGlobalEventListenerWithDeps,
+} from './event.flow';
+import type { EventFlowDeps, ToolHookInput } from './event.flow';
+import { BridgeStateSync, ObservedMap } from '../bridge/state.store';
+import type { PersistedBridgeMaps } from '../bridge/state.store';
 import { globalState } from '../utils';
+import { bridgeLogger } from '../logger';
 
 type SessionContext = { chatId: string; senderId: string };
 type SelectedModel = { providerID: string; modelID: string; name?: string };
 
-const sessionToCtx = new Map<string, SessionContext>(); // sessionId -> chat context
+const sessionToCtx = new ObservedMap<string, SessionContext>(); // sessionId -> chat context
 const sessionActiveMsg = new Map<string, string>(); // sessionId -> active assistant messageID
 const msgRole = new Map<string, string>(); // messageId -> role
 const msgBuffers = new Map<string, MessageBuffer>(); // messageId -> buffer
-const sessionCache = new Map<string, string>(); // adapterKey:chatId -> sessionId
-const sessionToAdapterKey = new Map<string, string>(); // sessionId -> adapterKey
-const chatAgent = new Map<string, string>(); // adapterKey:chatId -> agent
-const chatModel = new Map<string, SelectedModel>(); // adapterKey:chatId -> model
+const sessionCache = new ObservedMap<string, string>(); // adapterKey:chatId -> sessionId
+const sessionToAdapterKey = new ObservedMap<string, string>(); // sessionId -> adapterKey
+const chatAgent = new ObservedMap<string, string>(); // adapterKey:chatId -> agent
+const chatModel = new ObservedMap<string, SelectedModel>(); // adapterKey:chatId -> model
 const chatSessionList = new Map<string, Array<{ id: string; title: string }>>();
 const chatAgentList = new Map<string, Array<{ id: string; name: string }>>();
-const chatMaxFileSizeMb: Map<string, number> =
-  globalState.__bridge_max_file_size || new Map<string, number>();
-const chatMaxFileRetry: Map<string, number> =
-  globalState.__bridge_max_file_retry || new Map<string, number>();
+const pendingPermissions = new Map<string, PendingPermission>(); // action token -> permission
+const activeReactions = new Map<string, ActiveReaction[]>(); // adapterKey:chatId -> loading reactions
+const adapterAccess = new Map<string, BridgeAccessConfig>(); // adapterKey -> access control
+const adapterQueueMode = new Map<string, BridgeQueueMode>(); // adapterKey -> follow-up handling
+const adapterDefaultAgent = new Map<string, string>(); // adapterKey -> agent of new chats
+const accessDeniedNotices = new Map<string, number>(); // adapterKey:chatId:senderId -> last ⛔ reply
+const promptQueue = new PromptQueue(); // adapterKey:chatId -> running + waiting prompts
+const chatMaxFileSizeMb = new ObservedMap<string, number>(globalState.__bridge_max_file_size);
+const chatMaxFileRetry = new ObservedMap<string, number>(globalState.__bridge_max_file_retry);
 globalState.__bridge_max_file_size = chatMaxFileSizeMb;
 globalState.__bridge_max_file_retry = chatMaxFileRetry;
 
-const listenerState = { isListenerStarted: false, shouldStopListener: false };
+// Routing state that survives restarts; everything else above is per-process.
+const persistedMaps: PersistedBridgeMaps = {
+  sessionCache,
+  sessionToAdapterKey,
+  sessionToCtx,
+  chatAgent,
+  chatModel,
+  chatMaxFileSizeMb,
+  chatMaxFileRetry,
+};
+
+const stateSync = new BridgeStateSync(persistedMaps);
+
+export function attachBridgeStateStore(store: BridgeStateStore) {
+  return stateSync.attach(store);
+}
+
+export function setAdapterAccess(adapterKey: string, config: BridgeAccessConfig) {
+  const access: BridgeAccessConfig = {
+    allowed_chat_ids: config.allowed_chat_ids,
+    allowed_sender_ids: config.allowed_sender_ids,
+    admin_sender_ids: config.admin_sender_ids,
+    member_sender_ids: config.member_sender_ids,
+    viewer_sender_ids: config.viewer_sender_ids,
+    default_role: config.default_role,
+  };
+  adapterAccess.set(adapterKey, access);
+  bridgeLogger.info(
+    `[Access] adapter=${adapterKey} chats=${access.allowed_chat_ids?.length || 'any'} senders=${access.allowed_sender_ids?.length || 'any'} admins=${access.admin_sender_ids?.length || 0} defaultRole=${resolveSenderRole(access, '')}`,
+  );
+}
+
+export function setAdapterQueueMode(adapterKey: string, mode: BridgeQueueMode = 'queue') {
+  adapterQueueMode.set(adapterKey, mode);
+  bridgeLogger.info(`[Queue] adapter=${adapterKey} mode=${mode}`);
+}
+
+export function setAdapterDefaultAgent(adapterKey: string, agent?: string) {
+  if (!agent) {
+    adapterDefaultAgent.delete(adapterKey);
+    return;
+  }
+  adapterDefaultAgent.set(adapterKey, agent);
+  bridgeLogger.info(`[Agent] adapter=${adapterKey} default=${agent}`);
+}
+
+const listenerState = {
+  isListenerStarted: false,
+  shouldStopListener: false,
+  hookActive: false,
+  queue: Promise.resolve(),
+};
 
 function formatUserError(err: unknown): string {
   const e = err as { message?: string; data?: { message?: string } };
@@ -37,40 +116,49 @@ function formatUserError(err: unknown): string {
   return msg.split('\n')[0].slice(0, 200);
 }
 
+const eventFlowDeps: EventFlowDeps = {
+  listenerState,
+  sessionToCtx,
+  sessionActiveMsg,
+  msgRole,
+  msgBuffers,
+  sessionCache,
+  sessionToAdapterKey,
+  chatAgent,
+  chatModel,
+  chatSessionList,
+  chatAgentList,
+  chatMaxFileSizeMb,
+  chatMaxFileRetry,
+  pendingPermissions,
+};
+
 export async function startGlobalEventListener(api: OpencodeClient, mux: AdapterMux) {
-  await startGlobalEventListenerWithDeps(api, mux, {
-    listenerState,
-    sessionToCtx,
-    sessionActiveMsg,
-    msgRole,
-    msgBuffers,
-    sessionCache,
-    sessionToAdapterKey,
-    chatAgent,
-    chatModel,
-    chatSessionList,
-    chatAgentList,
-    chatMaxFileSizeMb,
-    chatMaxFileRetry,
-  });
+  await startGlobalEventListenerWithDeps(api, mux, eventFlowDeps);
 }
 
 export function stopGlobalEventListener() {
-  stopGlobalEventListenerWithDeps({
-    listenerState,
-    sessionToCtx,
-    sessionActiveMsg,
-    msgRole,
-    msgBuffers,
-    sessionCache,
-    sessionToAdapterKey,
-    chatAgent,
-    chatModel,
-    chatSessionList,
-    chatAgentList,
-    chatMaxFileSizeMb,
-    chatMaxFileRetry,
-  });
+  stopGlobalEventListenerWithDeps(eventFlowDeps);
+}
+
+export function handleBridgeEvent(mux: AdapterMux, event: Event) {
+  return handleHookEventWithDeps(event, mux, eventFlowDeps);
+}
+
+export function handleBridgeChatMessage(message: UserMessage) {
+  handleChatMessageHookWithDeps(message, eventFlowDeps);
+}
+
+export function handleBridgeToolStart(mux: AdapterMux, input: ToolHookInput, args: unknown) {
+  return handleToolExecuteBeforeWithDeps(input, args, mux, eventFlowDeps);
+}
+
+export function handleBridgeToolEnd(
+  mux: AdapterMux,
+  input: ToolHookInput,
+  result: { title?: string; output?: string },
+) {
+  return handleToolExecuteAfterWithDeps(input, result, mux, eventFlowDeps);
 }
 
 export const createIncomingHandler = (api: OpencodeClient, mux: AdapterMux, adapterKey: string) =>
@@ -84,5 +172,46 @@ export const createIncomingHandler = (api: OpencodeClient, mux: AdapterMux, adap
     chatAgentList,
     chatMaxFileSizeMb,
     chatMaxFileRetry,
+    sessionActiveMsg,
+    msgBuffers,
+    activeReactions,
+    adapterAccess,
+    adapterQueueMode,
+    adapterDefaultAgent,
+    accessDeniedNotices,
+    promptQueue,
     formatUserError,
   });
+
+export const createActionHandler = (api: OpencodeClient, mux: AdapterMux, adapterKey: string) =>
+  createActionHandlerWithDeps(api, mux, adapterKey, {
+    sessionToCtx,
+    sessionToAdapterKey,
+    pendingPermissions,
+    sessionCache,
+    sessionActiveMsg,
+    msgBuffers,
+    activeReactions,
+    adapterAccess,
+  });
+
+export const listBridgeCommands = () => commandRegistry.menu();
+
+/** Chats of one adapter that have a (possibly restored) session binding. */
+export function listBridgeChatIds(adapterKey: string): string[] {
+  const prefix = `${adapterKey}:`;
+  return [...sessionCache.keys()]
+    .filter(key => key.startsWith(prefix))
+    .map(key => key.slice(prefix.length));
+}
+
+export function describeBridgeChat(adapterKey: string, chatId: string): BridgeChatState {
+  const cacheKey = `${adapterKey}:${chatId}`;
+  return {
+    session_id: sessionCache.get(cacheKey) || null,
+    agent: chatAgent.get(cacheKey) || null,
+    model: chatModel.get(cacheKey) || null,
+    busy: promptQueue.isBusy(cacheKey),
+    queued: promptQueue.pending(cacheKey).length,
+  };
+}
@@ -1,6 +1,8 @@
-import type { BridgeAdapter } from '../types';
+import type { BridgeAdapter, BridgeMessageContent, DisplayModel } from '../types';
+import { PAGE_TEXT_LIMIT } from '../constants';
 import { simpleHash } from '../bridge/buffer';
 import type { MessageBuffer } from '../bridge/buffer';
+import { isDisplayModel, toMarkdown } from '../bridge/display';
 import { sleep } from '../utils';
 import { bridgeLogger } from '../logger';
 
@@ -12,24 +14,163 @@ function getEditRetryDelay(adapter: BridgeAdapter): number {
   return 500;
 }
 
+function getPageTextLimit(adapter: BridgeAdapter): number {
+  return adapter.pageTextLimit ?? PAGE_TEXT_LIMIT;
+}
+
+const FENCE_RE = /^\s*```/;
+
+/** The fence line still open at `offset`, if the text is inside a code block there. */
+function openFenceAt(text: string, offset: number): string | null {
+  let open: string | null = null;
+  for (const line of text.slice(0, offset).split('\n')) {
+    if (FENCE_RE.test(line)) open = open ? null : line.trim();
+  }
+  return open;
+}
+
+/**
+ * Break offset for a page starting at `from`: prefer a paragraph end or a closed code block,
+ * then any line end outside code, then a line inside code (the fence is repaired per page).
+ */
+function findPageBreak(text: string, from: number, limit: number): number {
+  const max = from + limit;
+  const min = from + Math.floor(limit / 2);
+  let inFence = openFenceAt(text, from) !== null;
+  let paragraph = -1;
+  let line = -1;
+  let fenceLine = -1;
+
+  for (let i = from; i < max; ) {
+    const nl = text.indexOf('\n', i);
+    if (nl < 0 || nl >= max) break;
+    const current = text.slice(i, nl);
+    const isFence = FENCE_RE.test(current);
+    if (isFence) inFence = !inFence;
+    i = nl + 1;
+    if (inFence) {
+      fenceLine = i;
+      continue;
+    }
+    line = i;
+    if (isFence || !current.trim()) paragraph = i;
+  }
+
+  for (const at of [paragraph, line, fenceLine]) if (at >= min) return at;
+  const best = Math.max(paragraph, line, fenceLine);
+  return best > from ? best : max;
+}
+
+function pageText(text: string, from: number, to: number): string {
+  let body = text.slice(from, to);
+  const opener = openFenceAt(text, from);
+  if (opener) body = `${opener}\n${body}`;
+  if (to < text.length && openFenceAt(text, to)) body = `${body.replace(/\n$/, '')}\n\`\`\``;
+  return body;
+}
+
+type DisplayPage = { model: DisplayModel; end: number };
+
+/**
+ * Splits the answer after the already-frozen prefix into pages. Earlier pages carry only their
+ * slice of the answer; the last page keeps thinking, tools, files and the run status.
+ */
+export function paginateDisplay(
+  model: DisplayModel,
+  pagedTextLength: number,
+  limit: number,
+  firstPage = 1,
+): DisplayPage[] {
+  const text = model.answer;
+  const pages: DisplayPage[] = [];
+  let from = Math.min(pagedTextLength, text.length);
+  while (text.length - from > limit) {
+    const end = findPageBreak(text, from, limit);
+    pages.push({
+      end,
+      model: {
+        kind: model.kind,
+        answer: pageText(text, from, end),
+        reasoning: '',
+        tools: [],
+        files: [],
+        status: model.status ? { state: 'done' } : undefined,
+        page: { number: firstPage + pages.length, last: false },
+      },
+    });
+    from = end;
+  }
+
+  const paged = firstPage + pages.length > 1;
+  pages.push({
+    end: text.length,
+    model: {
+      ...model,
+      answer: pageText(text, from, text.length),
+      ...(paged ? { page: { number: firstPage + pages.length, last: true } } : {}),
+    },
+  });
+  return pages;
+}
+
+/**
+ * Sends or edits the buffer's messages. Pages that overflow are frozen into their own
+ * messages (`pageMsgIds`) and only the last page keeps being edited.
+ */
+export async function deliverPages(params: {
+  adapter: BridgeAdapter;
+  chatId: string;
+  buffer: MessageBuffer;
+  content: BridgeMessageContent;
+}): Promise<string | null> {
+  const { adapter, chatId, buffer, content } = params;
+  let live = content;
+
+  if (isDisplayModel(content)) {
+    const firstPage = buffer.pageMsgIds.length + 1;
+    const limit = getPageTextLimit(adapter);
+    const pages = paginateDisplay(content, buffer.pagedTextLength, limit, firstPage);
+    for (const page of pages.slice(0, -1)) {
+      const frozenId = buffer.platformMsgId
+        ? await safeEditWithRetry(adapter, chatId, buffer.platformMsgId, page.model)
+        : await adapter.sendMessage(chatId, page.model);
+      if (!frozenId) return null;
+      buffer.pageMsgIds.push(frozenId);
+      buffer.pagedTextLength = page.end;
+      buffer.platformMsgId = null;
+      bridgeLogger.info(
+        `[BridgeFlow] page-frozen chat=${chatId} msg=${frozenId} page=${buffer.pageMsgIds.length} textEnd=${page.end}`,
+      );
+    }
+    live = pages[pages.length - 1].model;
+  }
+
+  const msgId = buffer.platformMsgId
+    ? await safeEditWithRetry(adapter, chatId, buffer.platformMsgId, live)
+    : await adapter.sendMessage(chatId, live);
+  if (msgId) buffer.platformMsgId = msgId;
+  return msgId;
+}
+
 export async function safeEditWithRetry(
   adapter: BridgeAdapter,
   chatId: string,
   platformMsgId: string,
-  content: string,
+  content: BridgeMessageContent,
 ): Promise<string | null> {
+  const contentLen = toMarkdown(content).length;
   let ok = false;
   try {
     ok = await adapter.editMessage(chatId, platformMsgId, content);
   } catch (e) {
     bridgeLogger.warn(
-      `[BridgeFlowDebug] edit threw first try chat=${chatId} msg=${platformMsgId} contentLen=${content.length}`,
+      `[BridgeFlowDebug] edit threw first try chat=${chatId} msg=${platformMsgId} contentLen=${contentLen}`,
       e,
     );
   }
   if (ok) return platformMsgId;
   bridgeLogger.warn(
-    `[BridgeFlowDebug] edit failed first try chat=${chatId} msg=${platformMsgId} contentLen=${content.length}`,
+    `[BridgeFlowDebug] edit failed first try chat=${chatId} msg=${platformMsgId} contentLen=${contentLen}`,
   );
   await sleep(getEditRetryDelay(adapter));
   let retryOk = false;
@@ -37,13 +178,13 @@ export async function safeEditWithRetry(
     retryOk = await adapter.editMessage(chatId, platformMsgId, content);
   } catch (e) {
     bridgeLogger.warn(
-      `[BridgeFlowDebug] edit threw retry chat=${chatId} msg=${platformMsgId} contentLen=${content.length}`,
+      `[BridgeFlowDebug] edit threw retry chat=${chatId} msg=${platformMsgId} contentLen=${contentLen}`,
       e,
     );
   }
   if (retryOk) return platformMsgId;
   bridgeLogger.warn(
-    `[BridgeFlowDebug] edit failed retry chat=${chatId} msg=${platformMsgId} fallback=sendMessage contentLen=${content.length}`,
+    `[BridgeFlowDebug] edit failed retry chat=${chatId} msg=${platformMsgId} fallback=sendMessage contentLen=${contentLen}`,
   );
 
   // Fallback for platforms that don't support edit semantics well.
@@ -61,7 +202,7 @@ export async function flushMessage(params: {
   chatId: string;
   messageId: string;
   msgBuffers: Map<string, MessageBuffer>;
-  buildDisplay: (buffer: MessageBuffer) => string;
+  buildDisplay: (buffer: MessageBuffer) => BridgeMessageContent;
   force?: boolean;
 }) {
   const { adapter, chatId, messageId, msgBuffers, buildDisplay, force = false } = params;
@@ -69,18 +210,14 @@ export async function flushMessage(params: {
   if (!buffer?.platformMsgId) return;
 
   const content = buildDisplay(buffer);
-  if (!content.trim()) return;
+  const markdown = toMarkdown(content);
+  if (!markdown.trim()) return;
 
-  const hash = simpleHash(content);
+  const hash = simpleHash(markdown);
   if (!force && hash === buffer.lastDisplayHash) return;
 
-  const msgId = await safeEditWithRetry(adapter, chatId, buffer.platformMsgId, content).catch(
-    () => null,
-  );
-  if (msgId) {
-    buffer.platformMsgId = msgId;
-    buffer.lastDisplayHash = hash;
-  }
+  const msgId = await deliverPages({ adapter, chatId, buffer, content }).catch(() => null);
+  if (msgId) buffer.lastDisplayHash = hash;
 }
 
 export async function flushAll(params: {
@@ -89,7 +226,7 @@ export async function flushAll(params: {
   sessionToCtx: Map<string, SessionContext>;
   sessionToAdapterKey: Map<string, string>;
   msgBuffers: Map<string, MessageBuffer>;
-  buildDisplay: (buffer: MessageBuffer) => string;
+  buildDisplay: (buffer: MessageBuffer) => BridgeMessageContent;
 }) {
   const { mux, sessionActiveMsg, sessionToCtx, sessionToAdapterKey, msgBuffers, buildDisplay } =
     params;
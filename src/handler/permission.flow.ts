@@ -0,0 +1,199 @@
+// src/handler/permission.flow.ts
+import type {
+  EventPermissionReplied,
+  EventPermissionUpdated,
+  OpencodeClient,
+  Permission,
+} from '@opencode-ai/sdk';
+import type { BridgeActionPrompt, BridgeAdapter } from '../types';
+import type { AdapterMux } from './mux';
+import { bridgeLogger } from '../logger';
+import { createTextDisplay } from '../bridge/display';
+
+type SessionContext = { chatId: string; senderId: string };
+export type PermissionResponse = 'once' | 'always' | 'reject';
+
+export type PendingPermission = {
+  sessionId: string;
+  permissionId: string;
+  adapterKey: string;
+  chatId: string;
+  platformMsgId: string | null;
+  prompt: BridgeActionPrompt;
+};
+
+export type PermissionFlowDeps = {
+  sessionToCtx: Map<string, SessionContext>;
+  sessionToAdapterKey: Map<string, string>;
+  pendingPermissions: Map<string, PendingPermission>; // token -> pending request
+};
+
+export const PERMISSION_ACTION_PREFIX = 'perm:';
+const PERMISSION_RESPONSES: PermissionResponse[] = ['once', 'always', 'reject'];
+
+function newPermissionToken(): string {
+  // Telegram caps callback_data at 64 bytes, so buttons carry a short token instead of ids.
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function describePattern(pattern: Permission['pattern']): string {
+  if (!pattern) return '';
+  return Array.isArray(pattern) ? pattern.join('\n') : pattern;
+}
+
+function buildPermissionPrompt(permission: Permission, token: string): BridgeActionPrompt {
+  const lines = [`Agent 请求权限：**${permission.title || permission.type}**`];
+  lines.push(`- type: ${permission.type}`);
+  const pattern = describePattern(permission.pattern);
+  if (pattern) lines.push('```', pattern, '```');
+  return {
+    title: '🔐 Permission Required',
+    body: lines.join('\n'),
+    actions: [
+      { label: 'Allow once', value: `${PERMISSION_ACTION_PREFIX}${token}:once`, style: 'primary' },
+      { label: 'Always', value: `${PERMISSION_ACTION_PREFIX}${token}:always`, style: 'default' },
+      { label: 'Deny', value: `${PERMISSION_ACTION_PREFIX}${token}:reject`, style: 'danger' },
+    ],
+  };
+}
+
+function describeResponse(response: string): string {
+  if (response === 'once') return '✅ 已允许（本次）';
+  if (response === 'always') return '✅ 已始终允许';
+  if (response === 'reject') return '⛔ 已拒绝';
+  return `ℹ️ 已处理：${response}`;
+}
+
+function findTokenByPermissionId(
+  pendingPermissions: Map<string, PendingPermission>,
+  permissionId: string,
+): string | undefined {
+  for (const [token, pending] of pendingPermissions.entries()) {
+    if (pending.permissionId === permissionId) return token;
+  }
+  return undefined;
+}
+
+async function closePermissionPrompt(
+  adapter: BridgeAdapter | undefined,
+  pending: PendingPermission,
+  resultText: string,
+) {
+  if (!adapter || !pending.platformMsgId) return;
+  const prompt: BridgeActionPrompt = {
+    title: pending.prompt.title,
+    body: `${pending.prompt.body}\n\n${resultText}`,
+    actions: [],
+  };
+  if (adapter.editActionPrompt) {
+    await adapter
+      .editActionPrompt(pending.chatId, pending.platformMsgId, prompt)
+      .catch(() => false);
+  }
+}
+
+export async function handlePermissionUpdatedEvent(
+  event: EventPermissionUpdated,
+  mux: AdapterMux,
+  deps: PermissionFlowDeps,
+) {
+  const permission = event.properties;
+  const sessionId = permission.sessionID;
+  if (!sessionId || !permission.id) return;
+  if (findTokenByPermissionId(deps.pendingPermissions, permission.id)) return;
+
+  const ctx = deps.sessionToCtx.get(sessionId);
+  const adapterKey = deps.sessionToAdapterKey.get(sessionId);
+  const adapter = adapterKey ? mux.get(adapterKey) : undefined;
+  if (!ctx || !adapterKey || !adapter) return;
+
+  const token = newPermissionToken();
+  const prompt = buildPermissionPrompt(permission, token);
+  const pending: PendingPermission = {
+    sessionId,
+    permissionId: permission.id,
+    adapterKey,
+    chatId: ctx.chatId,
+    platformMsgId: null,
+    prompt,
+  };
+  deps.pendingPermissions.set(token, pending);
+
+  if (adapter.sendActionPrompt) {
+    pending.platformMsgId = await adapter.sendActionPrompt(ctx.chatId, prompt);
+  } else {
+    pending.platformMsgId = await adapter.sendMessage(
+      ctx.chatId,
+      createTextDisplay(
+        'command',
+        `${prompt.body}\n\n⚠️ 当前平台不支持按钮，请在 OpenCode 中处理该权限请求。`,
+      ),
+    );
+  }
+  bridgeLogger.info(
+    `[Permission] asked adapter=${adapterKey} chat=${ctx.chatId} session=${sessionId} permission=${permission.id} type=${permission.type} token=${token}`,
+  );
+}
+
+export async function handlePermissionRepliedEvent(
+  event: EventPermissionReplied,
+  mux: AdapterMux,
+  deps: PermissionFlowDeps,
+) {
+  const { permissionID, response } = event.properties;
+  const token = findTokenByPermissionId(deps.pendingPermissions, permissionID);
+  if (!token) return;
+  const pending = deps.pendingPermissions.get(token);
+  deps.pendingPermissions.delete(token);
+  if (!pending) return;
+  // Replied elsewhere (e.g. the TUI): retire the buttons so they can't be clicked again.
+  await closePermissionPrompt(mux.get(pending.adapterKey), pending, describeResponse(response));
+  bridgeLogger.info(
+    `[Permission] replied permission=${permissionID} response=${response} token=${token}`,
+  );
+}
+
+export function isPermissionAction(value: string): boolean {
+  return value.startsWith(PERMISSION_ACTION_PREFIX);
+}
+
+export async function handlePermissionAction(params: {
+  api: OpencodeClient;
+  mux: AdapterMux;
+  adapterKey: string;
+  chatId: string;
+  senderId: string;
+  value: string;
+  deps: PermissionFlowDeps;
+}): Promise<string> {
+  const { api, mux, adapterKey, chatId, senderId, value, deps } = params;
+  const [token, responseRaw] = value.slice(PERMISSION_ACTION_PREFIX.length).split(':');
+  const response = PERMISSION_RESPONSES.find(r => r === responseRaw);
+  const pending = token ? deps.pendingPermissions.get(token) : undefined;
+  if (!pending || !response) return '该权限请求已失效。';
+  if (pending.adapterKey !== adapterKey || pending.chatId !== chatId) {
+    return '该权限请求不属于当前聊天。';
+  }
+
+  deps.pendingPermissions.delete(token);
+  try {
+    await api.postSessionIdPermissionsPermissionId({
+      path: { id: pending.sessionId, permissionID: pending.permissionId },
+      body: { response },
+    });
+  } catch (err) {
+    deps.pendingPermissions.set(token, pending);
+    bridgeLogger.error(
+      `[Permission] respond failed permission=${pending.permissionId} response=${response}`,
+      err,
+    );
+    return '❌ 权限响应失败，请重试。';
+  }
+
+  const resultText = describeResponse(response);
+  await closePermissionPrompt(mux.get(adapterKey), pending, resultText);
+  bridgeLogger.info(
+    `[Permission] answered adapter=${adapterKey} chat=${chatId} sender=${senderId} permission=${pending.permissionId} response=${response}`,
+  );
+  return resultText;
+}
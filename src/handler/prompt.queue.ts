@@ -0,0 +1,88 @@
+// src/handler/prompt.queue.ts
+import { bridgeLogger } from '../logger';
+
+export type QueuedPrompt = {
+  messageId: string;
+  senderId: string;
+  preview: string;
+  enqueuedAt: number;
+  run: () => Promise<void>;
+  /** Releases what `run` would have cleaned up (e.g. the loading reaction) when dropped. */
+  cancel: () => Promise<void>;
+};
+
+type ChatQueue = {
+  running: QueuedPrompt | null;
+  pending: QueuedPrompt[];
+  idle: Array<() => void>;
+};
+
+/**
+ * Serializes prompts per chat (`adapterKey:chatId`) so two turns never stream into the same
+ * session at once. Positions are 1-based and count the running prompt as #1.
+ */
+export class PromptQueue {
+  private readonly chats = new Map<string, ChatQueue>();
+
+  isBusy(cacheKey: string): boolean {
+    return !!this.chats.get(cacheKey)?.running;
+  }
+
+  running(cacheKey: string): QueuedPrompt | null {
+    return this.chats.get(cacheKey)?.running || null;
+  }
+
+  pending(cacheKey: string): QueuedPrompt[] {
+    return [...(this.chats.get(cacheKey)?.pending || [])];
+  }
+
+  /** Runs `item` right away when the chat is idle, otherwise appends it; returns its position. */
+  submit(cacheKey: string, item: QueuedPrompt): number {
+    const chat = this.chats.get(cacheKey);
+    if (chat?.running) {
+      chat.pending.push(item);
+      return chat.pending.length + 1;
+    }
+
+    const fresh: ChatQueue = { running: item, pending: [], idle: [] };
+    this.chats.set(cacheKey, fresh);
+    void this.drain(cacheKey, fresh);
+    return 1;
+  }
+
+  /** Removes waiting prompts by position (the running one cannot be dropped). */
+  drop(cacheKey: string, positions: number[] | 'all'): QueuedPrompt[] {
+    const chat = this.chats.get(cacheKey);
+    if (!chat) return [];
+    if (positions === 'all') return chat.pending.splice(0);
+
+    const indexes = new Set(positions.map(p => p - 2));
+    const dropped = chat.pending.filter((_, idx) => indexes.has(idx));
+    chat.pending = chat.pending.filter((_, idx) => !indexes.has(idx));
+    return dropped;
+  }
+
+  whenIdle(cacheKey: string): Promise<void> {
+    const chat = this.chats.get(cacheKey);
+    if (!chat) return Promise.resolve();
+    return new Promise(resolve => chat.idle.push(resolve));
+  }
+
+  private async drain(cacheKey: string, chat: ChatQueue) {
+    while (chat.running) {
+      try {
+        await chat.running.run();
+      } catch (err) {
+        bridgeLogger.error(`[Queue] chat=${cacheKey} prompt failed`, err);
+      }
+      chat.running = chat.pending.shift() || null;
+      if (chat.running) {
+        bridgeLogger.info(
+          `[Queue] next chat=${cacheKey} msg=${chat.running.messageId} pending=${chat.pending.length}`,
+        );
+      }
+    }
+    this.chats.delete(cacheKey);
+    chat.idle.splice(0).forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,126 @@
+// src/http/http.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeChatState,
+  BridgeMessageContent,
+  HttpConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { HttpBridgeServer } from './http.server';
+import type { HttpChatEntry, HttpChatSnapshot } from './http.server';
+import { bridgeLogger } from '../logger';
+import { PAGE_TEXT_LIMIT } from '../constants';
+
+// Only recent entries are kept for `GET` snapshots; live updates go out over SSE regardless.
+const MAX_ENTRIES_PER_CHAT = 50;
+const MAX_CHATS = 500;
+
+/**
+ * Not a chat platform: "messages" are entries kept in memory per chat id and pushed to SSE
+ * subscribers, so edits are always possible and there is nothing to react to.
+ */
+export class HttpAdapter implements BridgeAdapter {
+  provider: 'http' = 'http';
+  readonly pageTextLimit = PAGE_TEXT_LIMIT;
+  private readonly server: HttpBridgeServer;
+  private readonly chats = new Map<string, Map<string, HttpChatEntry>>();
+  private readonly describeChat?: (chatId: string) => BridgeChatState;
+  private seq = 0;
+
+  constructor(config: HttpConfig, describeChat?: (chatId: string) => BridgeChatState) {
+    this.describeChat = describeChat;
+    this.server = new HttpBridgeServer(config, chatId => this.snapshot(chatId));
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.server.start(handler, onAction);
+    bridgeLogger.info('[HTTP] adapter started');
+  }
+
+  async stop() {
+    await this.server.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    const entry: HttpChatEntry = {
+      id: this.newEntryId(),
+      type: 'message',
+      content,
+      updated_at: Date.now(),
+    };
+    this.store(chatId, entry);
+    this.server.publish(chatId, 'message', entry);
+    return entry.id;
+  }
+
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const prev = this.chats.get(chatId)?.get(messageId);
+    if (!prev || prev.type !== 'message') return false;
+    const entry: HttpChatEntry = { ...prev, content, updated_at: Date.now() };
+    this.store(chatId, entry);
+    this.server.publish(chatId, 'update', entry);
+    return true;
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    const entry: HttpChatEntry = {
+      id: this.newEntryId(),
+      type: 'prompt',
+      prompt,
+      updated_at: Date.now(),
+    };
+    this.store(chatId, entry);
+    this.server.publish(chatId, 'message', entry);
+    return entry.id;
+  }
+
+  async editActionPrompt(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    const prev = this.chats.get(chatId)?.get(messageId);
+    if (!prev || prev.type !== 'prompt') return false;
+    const entry: HttpChatEntry = { ...prev, prompt, updated_at: Date.now() };
+    this.store(chatId, entry);
+    this.server.publish(chatId, 'update', entry);
+    return true;
+  }
+
+  private snapshot(chatId: string): HttpChatSnapshot {
+    return {
+      chat_id: chatId,
+      state: this.describeChat?.(chatId) || null,
+      entries: Array.from(this.chats.get(chatId)?.values() || []),
+    };
+  }
+
+  private store(chatId: string, entry: HttpChatEntry) {
+    let entries = this.chats.get(chatId);
+    if (!entries) {
+      entries = new Map<string, HttpChatEntry>();
+      this.chats.set(chatId, entries);
+      if (this.chats.size > MAX_CHATS) {
+        const oldest = this.chats.keys().next().value;
+        if (oldest !== undefined) this.chats.delete(oldest);
+      }
+    }
+    // Edits keep their position; only new entries push old ones out.
+    entries.set(entry.id, entry);
+    if (entries.size > MAX_ENTRIES_PER_CHAT) {
+      const oldest = entries.keys().next().value;
+      if (oldest !== undefined) entries.delete(oldest);
+    }
+  }
+
+  private newEntryId(): string {
+    this.seq += 1;
+    return `http_${Date.now().toString(36)}_${this.seq}`;
+  }
+}
@@ -0,0 +1,337 @@
+// src/http/http.server.ts
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import type {
+  BridgeActionPrompt,
+  BridgeChatState,
+  BridgeMessageContent,
+  HttpConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId } from '../utils';
+
+/** One bot message of a chat as the front-end sees it; prompts carry their buttons. */
+export type HttpChatEntry =
+  | { id: string; type: 'message'; content: BridgeMessageContent; updated_at: number }
+  | { id: string; type: 'prompt'; prompt: BridgeActionPrompt; updated_at: number };
+
+/** Body of `GET <base>/chats/:chatId`. */
+export type HttpChatSnapshot = {
+  chat_id: string;
+  state: BridgeChatState | null;
+  entries: HttpChatEntry[];
+};
+
+/** SSE event names: `message` for a new entry, `update` when an entry is edited. */
+export type HttpStreamEvent = 'message' | 'update';
+
+type IncomingFile = { url?: unknown; mime?: unknown; filename?: unknown };
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const SSE_HEARTBEAT_MS = 15000;
+const SSE_RETRY_MS = 3000;
+const DEFAULT_SENDER_ID = 'http-user';
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * REST + Server-Sent Events front door for custom front-ends. Every route lives under the path
+ * of `listen_url` and needs the bearer token; `EventSource` cannot set headers, so the token is
+ * also accepted as `?access_token=`.
+ */
+export class HttpBridgeServer {
+  private readonly config: HttpConfig;
+  private readonly readChat: (chatId: string) => HttpChatSnapshot;
+  private server: http.Server | null = null;
+  private basePath = '';
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly subscribers = new Map<string, Set<http.ServerResponse>>();
+  private readonly eventSeq = new Map<string, number>();
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: HttpConfig, readChat: (chatId: string) => HttpChatSnapshot) {
+    this.config = config;
+    this.readChat = readChat;
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.server) {
+      bridgeLogger.info('[HTTP] server already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+
+    const listen = new URL(this.config.listen_url);
+    this.basePath = listen.pathname.replace(/\/+$/, '');
+    const port = listen.port ? Number(listen.port) : listen.protocol === 'https:' ? 443 : 80;
+    const host = process.env.HTTP_BRIDGE_LISTEN_HOST?.trim() || listen.hostname;
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(err => {
+        bridgeLogger.warn('[HTTP] request failed', asError(err).message);
+        if (!res.headersSent) this.sendJson(res, 500, { error: 'internal error' });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), SSE_HEARTBEAT_MS);
+    this.heartbeatTimer.unref?.();
+    bridgeLogger.info(
+      `[HTTP] server started host=${host} port=${port} base=${this.basePath || '/'} ${this.instanceTag}`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    for (const set of this.subscribers.values()) {
+      for (const res of set) res.end();
+    }
+    this.subscribers.clear();
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close(err => (err ? reject(err) : resolve()));
+      server.closeAllConnections?.();
+    }).catch(() => {});
+    bridgeLogger.info('[HTTP] server stopped');
+  }
+
+  publish(chatId: string, event: HttpStreamEvent, entry: HttpChatEntry) {
+    const set = this.subscribers.get(chatId);
+    if (!set || set.size === 0) return;
+    const seq = (this.eventSeq.get(chatId) || 0) + 1;
+    this.eventSeq.set(chatId, seq);
+    const frame = `id: ${seq}\nevent: ${event}\ndata: ${JSON.stringify(entry)}\n\n`;
+    for (const res of set) res.write(frame);
+  }
+
+  private heartbeat() {
+    for (const set of this.subscribers.values()) {
+      for (const res of set) res.write(': ping\n\n');
+    }
+  }
+
+  private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+    const header = String(req.headers.authorization || '');
+    const given = header.toLowerCase().startsWith('bearer ')
+      ? header.slice(7).trim()
+      : url.searchParams.get('access_token') || '';
+    const a = Buffer.from(this.config.auth_token);
+    const b = Buffer.from(given);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private applyCors(res: http.ServerResponse) {
+    if (!this.config.cors_origin) return;
+    res.setHeader('access-control-allow-origin', this.config.cors_origin);
+    res.setHeader('access-control-allow-headers', 'authorization, content-type');
+    res.setHeader('access-control-allow-methods', 'GET, POST, OPTIONS');
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    this.applyCors(res);
+    if (req.method === 'OPTIONS' && this.config.cors_origin) {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    const rest = url.pathname.startsWith(`${this.basePath}/`)
+      ? url.pathname.slice(this.basePath.length)
+      : '';
+    const route = /^\/chats\/([^/]+)(?:\/(messages|actions|events))?\/?$/.exec(rest);
+    if (!route) {
+      this.sendJson(res, 404, { error: 'not found' });
+      return;
+    }
+    if (!this.isAuthorized(req, url)) {
+      bridgeLogger.warn(`[HTTP] unauthorized ${req.method} ${url.pathname}`);
+      this.sendJson(res, 401, { error: 'unauthorized' });
+      return;
+    }
+
+    const chatId = decodeURIComponent(route[1]);
+    const action = route[2] || '';
+    if (req.method === 'GET' && action === '') {
+      this.sendJson(res, 200, this.readChat(chatId));
+      return;
+    }
+    if (req.method === 'GET' && action === 'events') {
+      this.subscribe(chatId, req, res);
+      return;
+    }
+    if (req.method === 'POST' && action === 'messages') {
+      await this.handleMessagePost(chatId, req, res);
+      return;
+    }
+    if (req.method === 'POST' && action === 'actions') {
+      await this.handleActionPost(chatId, req, res);
+      return;
+    }
+    this.sendJson(res, 405, { error: 'method not allowed' });
+  }
+
+  private subscribe(chatId: string, req: http.IncomingMessage, res: http.ServerResponse) {
+    res.writeHead(200, {
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+      'x-accel-buffering': 'no',
+    });
+    res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+    const set = this.subscribers.get(chatId) || new Set<http.ServerResponse>();
+    set.add(res);
+    this.subscribers.set(chatId, set);
+    bridgeLogger.info(`[HTTP] sse open chat=${chatId} subscribers=${set.size}`);
+
+    req.on('close', () => {
+      set.delete(res);
+      if (set.size === 0) this.subscribers.delete(chatId);
+      bridgeLogger.info(`[HTTP] sse closed chat=${chatId} subscribers=${set.size}`);
+    });
+  }
+
+  private async handleMessagePost(
+    chatId: string,
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    const body = await this.readJsonBody(req, res);
+    if (!body) return;
+
+    const text = readString(body.text);
+    const senderId = readString(body.sender_id) || DEFAULT_SENDER_ID;
+    const files = this.toFileParts(body.files);
+    if (files === null) {
+      this.sendJson(res, 400, { error: 'files[].url must be a data: or http(s) URL' });
+      return;
+    }
+    if (!text && files.length === 0) {
+      this.sendJson(res, 400, { error: 'text or files is required' });
+      return;
+    }
+
+    const messageId = `http_in_${Date.now().toString(36)}_${crypto.randomUUID().slice(0, 8)}`;
+    bridgeLogger.info(
+      `[HTTP] incoming chat=${chatId} sender=${senderId} msg=${messageId} textLen=${text.length} files=${files.length}`,
+    );
+    // The reply arrives over SSE; the handler runs the whole turn, so it is not awaited here.
+    this.sendJson(res, 202, { message_id: messageId });
+    this.handler?.(chatId, text, messageId, senderId, files).catch(err => {
+      bridgeLogger.error(`[HTTP] handler failed chat=${chatId} msg=${messageId}`, err);
+    });
+  }
+
+  private async handleActionPost(
+    chatId: string,
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    const body = await this.readJsonBody(req, res);
+    if (!body) return;
+
+    const value = readString(body.value);
+    if (!value) {
+      this.sendJson(res, 400, { error: 'value is required' });
+      return;
+    }
+    const senderId = readString(body.sender_id) || DEFAULT_SENDER_ID;
+    const messageId = readString(body.message_id);
+    bridgeLogger.info(`[HTTP] action chat=${chatId} sender=${senderId} value=${value}`);
+
+    const reply = this.actionHandler
+      ? await this.actionHandler(chatId, value, senderId, messageId).catch(err => {
+          bridgeLogger.warn('[HTTP] action handler failed', asError(err).message);
+          return null;
+        })
+      : null;
+    this.sendJson(res, 200, { reply });
+  }
+
+  /** Returns null when any file is unusable so the whole request is rejected. */
+  private toFileParts(value: unknown): FilePartInput[] | null {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) return null;
+    const parts: FilePartInput[] = [];
+    for (const raw of value as IncomingFile[]) {
+      const url = readString(raw?.url);
+      if (!/^(data:|https?:\/\/)/i.test(url)) return null;
+      const dataMime = /^data:([^;,]+)/i.exec(url)?.[1];
+      parts.push({
+        type: 'file',
+        mime: readString(raw.mime) || dataMime || 'application/octet-stream',
+        filename: readString(raw.filename) || undefined,
+        url,
+      });
+    }
+    return parts;
+  }
+
+  private async readJsonBody(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<Record<string, unknown> | null> {
+    let raw: string;
+    try {
+      raw = await this.readRequestBody(req, MAX_BODY_BYTES);
+    } catch {
+      this.sendJson(res, 413, { error: 'request body too large' });
+      return null;
+    }
+    try {
+      const parsed: unknown = JSON.parse(raw || '{}');
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // fall through to 400
+    }
+    this.sendJson(res, 400, { error: 'body must be a JSON object' });
+    return null;
+  }
+
+  private async readRequestBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => {
+        const b = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        size += b.length;
+        if (size > maxBytes) {
+          reject(new Error('request body too large'));
+          req.resume();
+          return;
+        }
+        chunks.push(b);
+      });
+      req.on('error', reject);
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.statusCode = status;
+    res.setHeader('content-type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+  }
+}
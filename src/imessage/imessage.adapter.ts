@@ -1,22 +1,177 @@
 // src/imessage/imessage.adapter.ts
-import type { BridgeAdapter, IncomingMessageHandler } from '../types';
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  DisplayFile,
+  DisplayModel,
+  IMessageConfig,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { IMessageClient } from './imessage.client';
+import { BlueBubblesTransport } from './imessage.bluebubbles';
+import type { IMessageTransport } from './imessage.transport';
+import {
+  markdownToPlainText,
+  renderIMessageActionPrompt,
+  renderIMessageRunTail,
+  renderIMessageText,
+} from './imessage.renderer';
+import { bridgeLogger } from '../logger';
+import { isDisplayModel, isRunDisplay } from '../bridge/display';
+import { simpleHash } from '../bridge/buffer';
+import { PAGE_TEXT_LIMIT } from '../constants';
 
+/** How much of one streamed run message was already sent, in answer characters. */
+type StreamState = { sent: number; queue: Promise<void> };
+
+// A streaming answer goes out in paragraphs of at least this size, not one bubble per line.
+const MIN_STREAM_CHUNK = 280;
+
+/** End of the last finished paragraph after `from` that is not inside a code block. */
+function paragraphBreak(text: string, from: number): number {
+  let inFence = false;
+  let best = from;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const end = offset + line.length + 1;
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    if (!inFence && !line.trim() && end > from && end <= text.length) best = end;
+    offset = end;
+  }
+  return best;
+}
+
+/**
+ * Sent iMessages cannot be edited (without the private API), so a run is not one message that
+ * keeps changing: each run message gets a virtual id, and every update sends only the finished
+ * paragraphs that are new since the last one. The final update sends the rest, the tool steps
+ * and the files.
+ */
 export class IMessageAdapter implements BridgeAdapter {
   provider: 'imessage' = 'imessage';
+  readonly pageTextLimit = PAGE_TEXT_LIMIT;
+  private readonly client: IMessageClient;
+  private readonly streams = new Map<string, StreamState>(); // chat:virtual id -> progress
+  private seq = 0;
+
+  constructor(config: IMessageConfig, transport?: IMessageTransport) {
+    this.client = new IMessageClient(transport || new BlueBubblesTransport(config));
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.client.start(handler, onAction);
+    bridgeLogger.info('[iMessage] adapter started');
+  }
+
+  async stop() {
+    this.streams.clear();
+    await this.client.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    if (!isRunDisplay(content)) {
+      await this.sendFiles(chatId, content);
+      return this.client.sendText(chatId, renderIMessageText(content));
+    }
+    this.seq += 1;
+    const virtualId = `pending:${Date.now().toString(36)}:${this.seq}`;
+    const state: StreamState = { sent: 0, queue: Promise.resolve() };
+    this.streams.set(this.streamKey(chatId, virtualId), state);
+    await this.push(chatId, virtualId, state, content);
+    return virtualId;
+  }
 
-  async start(_handler: IncomingMessageHandler) {
-    throw new Error('IMessageAdapter not implemented');
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const state = this.streams.get(this.streamKey(chatId, messageId));
+    if (!state || !isRunDisplay(content)) {
+      // Already finished; resending would only repeat the reply.
+      bridgeLogger.debug(`[iMessage] edit ignored chat=${chatId} msg=${messageId}`);
+      return true;
+    }
+    await this.push(chatId, messageId, state, content);
+    return true;
   }
-  async stop() {}
 
-  //@ts-ignore
-  // TODO
-  async sendMessage(_chatId: string, _markdown: string) {
-    throw new Error('IMessageAdapter not implemented');
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.sendPrompt(chatId, renderIMessageActionPrompt(prompt), prompt.actions);
   }
-  //@ts-ignore
-  // TODO
-  async editMessage(_chatId: string, _messageId: string, _markdown: string) {
-    throw new Error('IMessageAdapter not implemented');
+
+  /** The outcome was already sent as the action reply; only the choices are closed. */
+  async editActionPrompt(
+    chatId: string,
+    _messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    if (prompt.actions.length === 0) this.client.closePrompt(chatId);
+    return true;
+  }
+
+  /** Updates of one message are sent in order, so two flushes never send the same chunk. */
+  private push(
+    chatId: string,
+    messageId: string,
+    state: StreamState,
+    content: DisplayModel,
+  ): Promise<void> {
+    state.queue = state.queue
+      .then(() => this.sendNewPart(chatId, messageId, state, content))
+      .catch(err => bridgeLogger.error(`[iMessage] send failed chat=${chatId}`, err));
+    return state.queue;
+  }
+
+  private async sendNewPart(
+    chatId: string,
+    messageId: string,
+    state: StreamState,
+    content: DisplayModel,
+  ): Promise<void> {
+    const key = this.streamKey(chatId, messageId);
+    if (!this.streams.has(key)) return;
+    const final = content.status?.state !== 'streaming';
+    const answer = content.answer;
+    const end = final ? answer.length : paragraphBreak(answer, state.sent);
+    const chunk = end > state.sent ? markdownToPlainText(answer.slice(state.sent, end)) : '';
+
+    if (!final) {
+      if (end - state.sent < MIN_STREAM_CHUNK || !chunk) return;
+      await this.client.sendText(chatId, chunk);
+      state.sent = end;
+      return;
+    }
+
+    this.streams.delete(key);
+    state.sent = end;
+    const text = [chunk, renderIMessageRunTail(content)].filter(Boolean).join('\n\n');
+    if (text) await this.client.sendText(chatId, text);
+    await this.sendFiles(chatId, content);
+    bridgeLogger.info(`[iMessage] run message done chat=${chatId} virtualMsg=${messageId}`);
+  }
+
+  private streamKey(chatId: string, messageId: string): string {
+    return `${chatId}:${messageId}`;
+  }
+
+  private async sendFiles(chatId: string, content: BridgeMessageContent): Promise<void> {
+    if (!isDisplayModel(content)) return;
+    const sent = new Set<string>();
+    for (const file of content.files) {
+      const sig = this.fileSignature(file);
+      if (!file.url || sent.has(sig)) continue;
+      const ok = await this.client.sendFile(chatId, file).catch(err => {
+        bridgeLogger.warn(`[iMessage] file send failed chat=${chatId}`, err);
+        return false;
+      });
+      if (ok) sent.add(sig);
+    }
+  }
+
+  private fileSignature(file: DisplayFile): string {
+    return simpleHash(`${file.filename || ''}|${file.mime || ''}|${file.url || ''}`);
   }
 }
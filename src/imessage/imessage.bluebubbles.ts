@@ -0,0 +1,194 @@
+// src/imessage/imessage.bluebubbles.ts
+import type { IMessageConfig } from '../types';
+import { bridgeLogger } from '../logger';
+import { sleep } from '../utils';
+import type {
+  IMessageAttachmentRef,
+  IMessageIncoming,
+  IMessageOutgoingFile,
+  IMessageTransport,
+} from './imessage.transport';
+
+type BlueBubblesMessage = {
+  guid: string;
+  text?: string | null;
+  isFromMe?: boolean;
+  dateCreated?: number;
+  itemType?: number;
+  associatedMessageType?: string | number | null;
+  handle?: { address?: string } | null;
+  chats?: Array<{ guid?: string; style?: number }>;
+  attachments?: Array<{
+    guid?: string;
+    transferName?: string;
+    mimeType?: string | null;
+    totalBytes?: number;
+  }>;
+};
+
+type BlueBubblesResponse<T> = { status?: number; message?: string; data?: T; error?: unknown };
+
+const API = '/api/v1';
+const QUERY_LIMIT = 100;
+const RETRY_MAX_MS = 30000;
+// Chat style 43 is a group chat, 45 a one-to-one chat.
+const GROUP_CHAT_STYLE = 43;
+
+/**
+ * The BlueBubbles server REST API (https://bluebubbles.app): new messages are polled with
+ * `message/query` from a `dateCreated` cursor, so no webhook or public URL is needed.
+ */
+export class BlueBubblesTransport implements IMessageTransport {
+  readonly name = 'bluebubbles';
+  private readonly config: IMessageConfig;
+  private running = false;
+  private cursor = 0;
+  private tempSeq = 0;
+  private pollLoopDone: Promise<void> | null = null;
+  private wakePoll: (() => void) | null = null;
+  private onMessage?: (message: IMessageIncoming) => Promise<void>;
+
+  constructor(config: IMessageConfig) {
+    this.config = config;
+  }
+
+  async start(onMessage: (message: IMessageIncoming) => Promise<void>): Promise<void> {
+    if (this.running) return;
+    this.onMessage = onMessage;
+    await this.apiCall('GET', `${API}/ping`);
+    // Start after the newest message on the Mac, by its clock: history is not replayed.
+    const latest = await this.apiCall<BlueBubblesMessage[]>('POST', `${API}/message/query`, {
+      limit: 1,
+      sort: 'DESC',
+    });
+    this.cursor = latest?.[0]?.dateCreated || Date.now();
+    this.running = true;
+    this.pollLoopDone = this.pollLoop();
+    bridgeLogger.info(`[iMessage] BlueBubbles connected server=${this.config.server_url}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.wakePoll?.();
+    await this.pollLoopDone?.catch(() => {});
+    this.pollLoopDone = null;
+  }
+
+  async sendText(chatId: string, text: string): Promise<string | null> {
+    const sent = await this.apiCall<BlueBubblesMessage>('POST', `${API}/message/text`, {
+      chatGuid: chatId,
+      tempGuid: this.nextTempGuid(),
+      message: text,
+      method: this.config.send_method,
+    });
+    return sent?.guid || null;
+  }
+
+  async sendFile(chatId: string, file: IMessageOutgoingFile): Promise<string | null> {
+    const form = new FormData();
+    form.append('chatGuid', chatId);
+    form.append('tempGuid', this.nextTempGuid());
+    form.append('name', file.filename);
+    form.append('method', this.config.send_method);
+    form.append(
+      'attachment',
+      new Blob([new Uint8Array(file.data)], { type: file.mime }),
+      file.filename,
+    );
+    const sent = await this.apiCall<BlueBubblesMessage>('POST', `${API}/message/attachment`, form);
+    return sent?.guid || null;
+  }
+
+  async download(attachment: IMessageAttachmentRef): Promise<Buffer> {
+    const path = `${API}/attachment/${encodeURIComponent(attachment.id)}/download`;
+    const resp = await fetch(this.url(path));
+    if (!resp.ok) throw new Error(`[iMessage] attachment download failed: ${resp.status}`);
+    return Buffer.from(await resp.arrayBuffer());
+  }
+
+  private async pollLoop(): Promise<void> {
+    let delay = this.config.poll_interval_ms;
+    while (this.running) {
+      try {
+        await this.pollOnce();
+        delay = this.config.poll_interval_ms;
+      } catch (err) {
+        delay = Math.min(delay * 2, RETRY_MAX_MS);
+        bridgeLogger.warn(`[iMessage] poll failed, retry in ${delay}ms`, err);
+      }
+      if (!this.running) return;
+      await Promise.race([sleep(delay), new Promise<void>(resolve => (this.wakePoll = resolve))]);
+      this.wakePoll = null;
+    }
+  }
+
+  private async pollOnce(): Promise<void> {
+    const messages = await this.apiCall<BlueBubblesMessage[]>('POST', `${API}/message/query`, {
+      with: ['chat', 'attachment', 'handle'],
+      after: this.cursor,
+      sort: 'ASC',
+      limit: QUERY_LIMIT,
+    });
+    for (const message of messages || []) {
+      if (!this.running) return;
+      this.cursor = Math.max(this.cursor, message.dateCreated || 0);
+      const incoming = this.toIncoming(message);
+      if (incoming) await this.onMessage?.(incoming);
+    }
+  }
+
+  /** Own messages, tapbacks and group events (renames, members) are not prompts. */
+  private toIncoming(message: BlueBubblesMessage): IMessageIncoming | null {
+    if (message.isFromMe || message.associatedMessageType || (message.itemType ?? 0) !== 0) {
+      return null;
+    }
+    const chat = message.chats?.[0];
+    if (!chat?.guid) return null;
+    return {
+      id: message.guid,
+      chatId: chat.guid,
+      senderId: message.handle?.address || '',
+      // U+FFFC marks where an attachment sits in the text.
+      text: (message.text || '').replace(/\uFFFC/g, '').trim(),
+      isGroup: chat.style === GROUP_CHAT_STYLE || chat.guid.includes(';+;'),
+      attachments: (message.attachments || [])
+        .filter(a => a.guid)
+        .map(a => ({
+          id: a.guid || '',
+          filename: a.transferName || 'attachment',
+          mime: a.mimeType || 'application/octet-stream',
+          size: a.totalBytes || 0,
+        })),
+    };
+  }
+
+  private nextTempGuid(): string {
+    this.tempSeq += 1;
+    return `bridge-${Date.now().toString(36)}-${this.tempSeq}`;
+  }
+
+  private url(path: string): string {
+    const search = new URLSearchParams({ password: this.config.password });
+    return `${this.config.server_url}${path}?${search}`;
+  }
+
+  private async apiCall<T = unknown>(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: Record<string, unknown> | FormData,
+  ): Promise<T | null> {
+    const isForm = body instanceof FormData;
+    const resp = await fetch(this.url(path), {
+      method,
+      headers: body && !isForm ? { 'content-type': 'application/json' } : undefined,
+      body: isForm ? body : body ? JSON.stringify(body) : undefined,
+    });
+    const json = (await resp.json().catch(() => null)) as BlueBubblesResponse<T> | null;
+    if (!resp.ok || (json?.status && json.status >= 400)) {
+      const detail = json?.message || '';
+      throw new Error(`[iMessage] ${method} ${path} failed: ${resp.status} ${detail}`.trim());
+    }
+    return json?.data ?? null;
+  }
+}
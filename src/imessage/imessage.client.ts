@@ -1,4 +1,170 @@
-// src/imessage/imessageClient.ts
+// src/imessage/imessage.client.ts
+import type { FilePartInput } from '@opencode-ai/sdk';
+import type {
+  BridgeAction,
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId } from '../utils';
+import { markdownToPlainText } from './imessage.renderer';
+import type { IMessageIncoming, IMessageTransport } from './imessage.transport';
+
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const STOP_ACTION_VALUE = 'abort';
+const STOP_WORDS = new Set(['stop', 'abort', '停止', '中止']);
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function decodeDataUrl(dataUrl: string): { mime: string; buffer: Buffer } | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mime: match[1], buffer: Buffer.from(match[2], 'base64') };
+}
+
 export class IMessageClient {
-  // TODO: later
+  private readonly transport: IMessageTransport;
+  private running = false;
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private readonly seenMessageIds = new Set<string>();
+  private readonly openPrompts = new Map<string, BridgeAction[]>(); // chat id -> latest choices
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(transport: IMessageTransport) {
+    this.transport = transport;
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.running) {
+      bridgeLogger.info('[iMessage] already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+    await this.transport.start(message => this.receive(message));
+    this.running = true;
+    bridgeLogger.info(`[iMessage] started transport=${this.transport.name} ${this.instanceTag}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    await this.transport.stop();
+    bridgeLogger.info('[iMessage] stopped');
+  }
+
+  async sendText(chatId: string, text: string): Promise<string | null> {
+    if (!text.trim()) return null;
+    const sent = await this.transport.sendText(chatId, text);
+    bridgeLogger.debug(`[iMessage] sent chat=${chatId} msg=${sent || ''} len=${text.length}`);
+    return sent;
+  }
+
+  async sendFile(chatId: string, file: DisplayFile): Promise<boolean> {
+    const decoded = decodeDataUrl(file.url);
+    let mime = file.mime || decoded?.mime || 'application/octet-stream';
+    let data: Buffer;
+    if (decoded) {
+      data = decoded.buffer;
+    } else if (/^https?:\/\//i.test(file.url)) {
+      const resp = await fetch(file.url);
+      if (!resp.ok) throw new Error(`[iMessage] file fetch failed: ${resp.status}`);
+      data = Buffer.from(await resp.arrayBuffer());
+      mime = file.mime || resp.headers.get('content-type')?.split(';')[0] || mime;
+    } else {
+      return false;
+    }
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      bridgeLogger.warn(`[iMessage] file too large chat=${chatId} size=${data.length}`);
+      return false;
+    }
+    const filename = file.filename || `file.${mime.split('/')[1] || 'bin'}`;
+    const sent = await this.transport.sendFile(chatId, { filename, mime, data });
+    bridgeLogger.info(`[iMessage] file sent chat=${chatId} name=${filename} msg=${sent || ''}`);
+    return Boolean(sent);
+  }
+
+  /** Sends a prompt whose numbered choices a reply in the chat can pick. */
+  async sendPrompt(chatId: string, text: string, actions: BridgeAction[]): Promise<string | null> {
+    const sent = await this.sendText(chatId, text);
+    if (sent && actions.length > 0) this.openPrompts.set(chatId, actions);
+    return sent;
+  }
+
+  closePrompt(chatId: string) {
+    this.openPrompts.delete(chatId);
+  }
+
+  private rememberMessageId(messageId: string): boolean {
+    if (this.seenMessageIds.has(messageId)) return false;
+    this.seenMessageIds.add(messageId);
+    if (this.seenMessageIds.size > 2000) {
+      const first = this.seenMessageIds.values().next().value;
+      if (first) this.seenMessageIds.delete(first);
+    }
+    return true;
+  }
+
+  private async receive(message: IMessageIncoming): Promise<void> {
+    if (!this.rememberMessageId(message.id)) return;
+    const { chatId, senderId, text } = message;
+    if (await this.handleChoice(chatId, text, senderId, message.id)) return;
+
+    const fileParts: FilePartInput[] = [];
+    for (const attachment of message.attachments) {
+      if (attachment.size > MAX_ATTACHMENT_BYTES) {
+        bridgeLogger.warn(
+          `[iMessage] attachment too large name=${attachment.filename} size=${attachment.size}`,
+        );
+        continue;
+      }
+      try {
+        const data = await this.transport.download(attachment);
+        fileParts.push({
+          type: 'file',
+          filename: attachment.filename,
+          mime: attachment.mime,
+          url: `data:${attachment.mime};base64,${data.toString('base64')}`,
+        });
+      } catch (err) {
+        bridgeLogger.warn(`[iMessage] attachment skipped chat=${chatId}`, asError(err).message);
+      }
+    }
+    if (!text && fileParts.length === 0) return;
+
+    bridgeLogger.info(
+      `[iMessage] incoming chat=${chatId} sender=${senderId} msg=${message.id} group=${message.isGroup} textLen=${text.length} files=${fileParts.length}`,
+    );
+    await this.handler?.(chatId, text, message.id, senderId, fileParts);
+  }
+
+  /** A message that is just a choice number (or a stop word) answers the chat's open prompt. */
+  private async handleChoice(
+    chatId: string,
+    text: string,
+    senderId: string,
+    messageId: string,
+  ): Promise<boolean> {
+    if (!this.actionHandler) return false;
+    const word = text.trim().toLowerCase();
+    let value = '';
+    if (STOP_WORDS.has(word)) value = STOP_ACTION_VALUE;
+    else if (/^\d+$/.test(word)) {
+      value = this.openPrompts.get(chatId)?.[Number(word) - 1]?.value || '';
+    }
+    if (!value) return false;
+
+    bridgeLogger.info(`[iMessage] action chat=${chatId} sender=${senderId} value=${value}`);
+    const reply = await this.actionHandler(chatId, value, senderId, messageId);
+    if (reply) {
+      await this.sendText(chatId, markdownToPlainText(reply)).catch(err => {
+        bridgeLogger.warn(`[iMessage] action reply failed chat=${chatId}`, err);
+      });
+    }
+    return true;
+  }
 }
@@ -1,4 +1,75 @@
-// src/imessage/imessageClient.ts
-export class IMessageClient {
-  // TODO: later
+// src/imessage/imessage.renderer.ts
+import type { BridgeActionPrompt, BridgeMessageContent, DisplayModel } from '../types';
+import { getStatusWithEmoji, sectionsFromContent, splitStatusPaths } from '../bridge/sections';
+
+function trimSafe(s: string) {
+  return (s || '').trim();
+}
+
+/**
+ * Messages shows text as-is, so markdown is flattened: fences dropped (code kept), emphasis and
+ * inline code unwrapped, links as `text (url)`, bullets as `•`.
+ */
+export function markdownToPlainText(markdown: string): string {
+  const out: string[] = [];
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      out.push(line);
+      continue;
+    }
+    out.push(
+      line
+        .replace(/^#{1,6}\s+/, '')
+        .replace(/^(\s*)[-*]\s+/, '$1• ')
+        .replace(/\*\*([^*]+)\*\*/g, '$1')
+        .replace(/__([^_]+)__/g, '$1')
+        .replace(/`([^`\n]+)`/g, '$1')
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '$1 ($2)'),
+    );
+  }
+  return out
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Plain text of a one-off message: command replies, errors, status notices. */
+export function renderIMessageText(content: BridgeMessageContent): string {
+  const sections = sectionsFromContent(content);
+  const parts = [sections.error, sections.command, sections.answer]
+    .map(trimSafe)
+    .filter(Boolean)
+    .map(markdownToPlainText);
+  const status = trimSafe(sections.status);
+  if (status) {
+    const { status: cleanStatus, paths } = splitStatusPaths(status);
+    parts.push([getStatusWithEmoji(cleanStatus), ...paths].join('\n'));
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * What closes a run after its last answer chunk: one line per tool step and, unless the run just
+ * finished normally, how it ended. Thinking is never sent.
+ */
+export function renderIMessageRunTail(model: DisplayModel): string {
+  const lines = model.tools.map(t => `⚙️ ${t.tool || 'tool'}${t.title ? ` ${t.title}` : ''}`);
+  const { state, note } = model.status || {};
+  if (state === 'error') lines.push(`❌ error${note ? `: ${note}` : ''}`);
+  if (state === 'aborted') lines.push('⏹️ aborted');
+  return lines.join('\n');
+}
+
+/** No buttons in Messages: each choice is answered by replying with its number. */
+export function renderIMessageActionPrompt(prompt: BridgeActionPrompt): string {
+  const choices = prompt.actions.map((action, idx) => `${idx + 1}. ${action.label}`);
+  const hint = choices.length > 0 ? '回复对应数字即可选择：' : '';
+  return [prompt.title, markdownToPlainText(prompt.body), hint, choices.join('\n')]
+    .filter(Boolean)
+    .join('\n\n');
 }
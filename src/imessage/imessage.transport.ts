@@ -0,0 +1,33 @@
+// src/imessage/imessage.transport.ts
+
+/** An attachment of an incoming message; its bytes are fetched through the transport. */
+export type IMessageAttachmentRef = { id: string; filename: string; mime: string; size: number };
+
+/** An incoming message, the same for every transport. */
+export type IMessageIncoming = {
+  id: string;
+  /** Chat guid, e.g. `iMessage;-;+15551234567` or `iMessage;+;chat123456`. */
+  chatId: string;
+  /** Handle of the sender: a phone number or an Apple ID mail address. */
+  senderId: string;
+  text: string;
+  isGroup: boolean;
+  attachments: IMessageAttachmentRef[];
+};
+
+export type IMessageOutgoingFile = { filename: string; mime: string; data: Buffer };
+
+/**
+ * Whatever talks to Messages.app on a Mac: the BlueBubbles server API today, a local
+ * AppleScript / chat.db bridge later. Transports only move messages; filtering, prompts and
+ * rendering stay in the client and adapter. Messages sent by the bot itself are not reported.
+ */
+export interface IMessageTransport {
+  readonly name: string;
+  start(onMessage: (message: IMessageIncoming) => Promise<void>): Promise<void>;
+  stop(): Promise<void>;
+  /** Returns the id of the sent message. */
+  sendText(chatId: string, text: string): Promise<string | null>;
+  sendFile(chatId: string, file: IMessageOutgoingFile): Promise<string | null>;
+  download(attachment: IMessageAttachmentRef): Promise<Buffer>;
+}
@@ -19,12 +19,26 @@ function formatLine(level: BridgeLogLevel, message: string): string {
   let tagEmoji = '🔹';
   if (message.includes('[Incoming]')) tagEmoji = '📥';
   else if (message.includes('[Command]')) tagEmoji = '🧭';
+  else if (message.includes('[Permission]') || message.includes('[Action]')) tagEmoji = '🔐';
+  else if (message.includes('[Access]')) tagEmoji = '🛡️';
+  else if (message.includes('[Abort]')) tagEmoji = '⏹️';
+  else if (message.includes('[Queue]')) tagEmoji = '📬';
   else if (message.includes('[Listener]')) tagEmoji = '🎧';
   else if (message.includes('[Plugin]')) tagEmoji = '🧩';
   else if (message.includes('[BridgeFlow]') || message.includes('[BridgeFlowDebug]')) tagEmoji = '⚙️';
   else if (message.includes('[Feishu]')) tagEmoji = '🪶';
   else if (message.includes('[Telegram]')) tagEmoji = '✈️';
+  else if (message.includes('[Slack]')) tagEmoji = '💬';
+  else if (message.includes('[Discord]')) tagEmoji = '🎮';
+  else if (message.includes('[DingTalk]')) tagEmoji = '🔔';
+  else if (message.includes('[WeCom]')) tagEmoji = '🏢';
+  else if (message.includes('[Matrix]')) tagEmoji = '🟩';
+  else if (message.includes('[Email]')) tagEmoji = '📧';
+  else if (message.includes('[iMessage]')) tagEmoji = '🍏';
+  else if (message.includes('[HTTP]')) tagEmoji = '🌐';
+  else if (message.includes('[Console]')) tagEmoji = '💻';
   else if (message.includes('[FileStore]')) tagEmoji = '📁';
+  else if (message.includes('[StateStore]')) tagEmoji = '💾';
   return `[${new Date().toISOString()}] ${levelEmoji}  ${tagEmoji} [${level}] ${message}`;
 }
 
@@ -0,0 +1,131 @@
+// src/matrix/matrix.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+  MatrixConfig,
+} from '../types';
+import { MatrixClient } from './matrix.client';
+import { renderMatrix, renderMatrixActionPrompt } from './matrix.renderer';
+import { bridgeLogger } from '../logger';
+import { isDisplayModel } from '../bridge/display';
+import { simpleHash } from '../bridge/buffer';
+import { PAGE_TEXT_LIMIT } from '../constants';
+
+export class MatrixAdapter implements BridgeAdapter {
+  provider: 'matrix' = 'matrix';
+  readonly pageTextLimit = PAGE_TEXT_LIMIT;
+  private readonly client: MatrixClient;
+  private readonly sentFilesByMessage = new Map<string, Set<string>>();
+  // Every edit is a room event, so identical re-renders are not sent again.
+  private readonly lastRendered = new Map<string, string>();
+
+  constructor(config: MatrixConfig) {
+    this.client = new MatrixClient(config);
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.client.start(handler, onAction);
+    bridgeLogger.info('[Matrix] adapter started');
+  }
+
+  async stop() {
+    this.sentFilesByMessage.clear();
+    this.lastRendered.clear();
+    await this.client.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    const sentFiles = await this.sendNewFiles(chatId, content);
+    const rendered = renderMatrix(content);
+    const eventId = await this.client.sendMessage(chatId, rendered);
+    if (eventId) {
+      this.remember(eventId, rendered.formatted_body);
+      if (sentFiles.size > 0) this.sentFilesByMessage.set(eventId, sentFiles);
+    }
+    return eventId;
+  }
+
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const sent = this.sentFilesByMessage.get(messageId);
+    const sentNow = await this.sendNewFiles(chatId, content, sent);
+    if (sentNow.size > 0) {
+      this.sentFilesByMessage.set(messageId, new Set([...(sent || []), ...sentNow]));
+    }
+    const rendered = renderMatrix(content);
+    if (this.lastRendered.get(messageId) === rendered.formatted_body) return true;
+    const ok = await this.client.editMessage(chatId, messageId, rendered);
+    if (ok) this.remember(messageId, rendered.formatted_body);
+    return ok;
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.sendPrompt(chatId, renderMatrixActionPrompt(prompt), prompt.actions);
+  }
+
+  async editActionPrompt(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    const rendered = renderMatrixActionPrompt(prompt);
+    return this.client.updatePrompt(chatId, messageId, rendered, prompt.actions);
+  }
+
+  /** The reaction is its own event; its event id is what `removeReaction` redacts. */
+  async addReaction(messageId: string, emojiType: string): Promise<string | null> {
+    const roomId = this.client.getRoomByIncomingEventId(messageId);
+    if (!roomId) return null;
+    const emoji = emojiType === 'Typing' ? '⏳' : emojiType || '⏳';
+    try {
+      return await this.client.sendReaction(roomId, messageId, emoji);
+    } catch (err) {
+      bridgeLogger.warn(`[Matrix] addReaction failed event=${messageId} emoji=${emoji}`, err);
+      return null;
+    }
+  }
+
+  async removeReaction(messageId: string, reactionId: string): Promise<void> {
+    const roomId = this.client.getRoomByIncomingEventId(messageId);
+    if (!roomId) return;
+    await this.client.redact(roomId, reactionId);
+  }
+
+  private remember(eventId: string, formattedBody: string) {
+    this.lastRendered.set(eventId, formattedBody);
+    if (this.lastRendered.size > 500) {
+      const first = this.lastRendered.keys().next().value;
+      if (first) this.lastRendered.delete(first);
+    }
+  }
+
+  private async sendNewFiles(
+    chatId: string,
+    content: BridgeMessageContent,
+    sent?: Set<string>,
+  ): Promise<Set<string>> {
+    const sentNow = new Set<string>();
+    if (!isDisplayModel(content)) return sentNow;
+    for (const file of content.files) {
+      const sig = this.fileSignature(file);
+      if (!file.url || sent?.has(sig)) continue;
+      const ok = await this.client.uploadFile(chatId, file).catch(err => {
+        bridgeLogger.warn(`[Matrix] file upload failed room=${chatId}`, err);
+        return false;
+      });
+      if (ok) sentNow.add(sig);
+    }
+    return sentNow;
+  }
+
+  private fileSignature(file: DisplayFile): string {
+    return simpleHash(`${file.filename || ''}|${file.mime || ''}|${file.url || ''}`);
+  }
+}
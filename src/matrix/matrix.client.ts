@@ -0,0 +1,561 @@
+// src/matrix/matrix.client.ts
+import type { FilePartInput } from '@opencode-ai/sdk';
+import type {
+  BridgeAction,
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+  MatrixConfig,
+} from '../types';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId, sleep } from '../utils';
+import { MATRIX_CHOICE_KEYS } from './matrix.renderer';
+import type { MatrixRendered } from './matrix.renderer';
+
+type MatrixEvent = {
+  type: string;
+  event_id: string;
+  sender: string;
+  content: Record<string, unknown>;
+};
+
+type MatrixRelation = {
+  rel_type?: string;
+  event_id?: string;
+  key?: string;
+  'm.in_reply_to'?: { event_id?: string };
+};
+
+type MatrixMessageContent = {
+  msgtype?: string;
+  body?: string;
+  formatted_body?: string;
+  filename?: string;
+  url?: string;
+  file?: unknown;
+  info?: { mimetype?: string; size?: number };
+  'm.mentions'?: { user_ids?: string[] };
+  'm.relates_to'?: MatrixRelation;
+};
+
+type MatrixJoinedRoom = {
+  summary?: { 'm.joined_member_count'?: number };
+  timeline?: { events?: MatrixEvent[] };
+};
+
+type MatrixSyncResponse = {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, MatrixJoinedRoom>;
+    invite?: Record<string, unknown>;
+  };
+};
+
+type OpenPrompt = { roomId: string; actions: Map<string, string>; seeded: string[] };
+
+const API = '/_matrix/client/v3';
+const SYNC_TIMEOUT_MS = 30000;
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 30000;
+const MATRIX_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+// Reacting with one of these on any bridge reply stops the running prompt.
+const STOP_REACTION_KEYS = new Set(['⏹️', '⏹', '🛑']);
+const STOP_ACTION_VALUE = 'abort';
+// Only what the bridge reads; everything else in /sync is noise for a bot.
+const SYNC_FILTER = JSON.stringify({
+  presence: { types: [] },
+  account_data: { types: [] },
+  room: {
+    state: { lazy_load_members: true, types: [] },
+    ephemeral: { types: [] },
+    account_data: { types: [] },
+    timeline: { types: ['m.room.message', 'm.reaction', 'm.room.encrypted'] },
+  },
+});
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function decodeDataUrl(dataUrl: string): { mime: string; buffer: Buffer } | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mime: match[1], buffer: Buffer.from(match[2], 'base64') };
+}
+
+/** Drops the `> <@user> quoted text` fallback that replies prepend to their body. */
+function stripReplyFallback(body: string): string {
+  const lines = body.split('\n');
+  let idx = 0;
+  while (idx < lines.length && lines[idx].startsWith('>')) idx += 1;
+  return idx > 0 ? lines.slice(idx).join('\n').trim() : body;
+}
+
+function msgtypeForMime(mime: string): string {
+  if (mime.startsWith('image/')) return 'm.image';
+  if (mime.startsWith('video/')) return 'm.video';
+  if (mime.startsWith('audio/')) return 'm.audio';
+  return 'm.file';
+}
+
+export class MatrixClient {
+  private readonly config: MatrixConfig;
+  private running = false;
+  private userId = '';
+  private displayName = '';
+  private since = '';
+  private txnSeq = 0;
+  private syncAbort: AbortController | null = null;
+  private syncLoopDone: Promise<void> | null = null;
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private readonly seenEvents = new Set<string>();
+  private readonly eventRooms = new Map<string, string>(); // incoming event id -> room id
+  private readonly sentEvents = new Set<string>();
+  private readonly memberCounts = new Map<string, number>();
+  private readonly openPrompts = new Map<string, OpenPrompt>(); // prompt event id -> choices
+  private readonly warnedEncryptedRooms = new Set<string>();
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: MatrixConfig) {
+    this.config = config;
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.running) {
+      bridgeLogger.info('[Matrix] sync already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+
+    const whoami = await this.apiCall<{ user_id?: string }>('GET', `${API}/account/whoami`);
+    this.userId = whoami?.user_id || '';
+    if (!this.userId) throw new Error('[Matrix] whoami returned no user_id');
+    const profile = await this.apiCall<{ displayname?: string }>(
+      'GET',
+      `${API}/profile/${encodeURIComponent(this.userId)}/displayname`,
+    ).catch(() => null);
+    this.displayName = profile?.displayname || '';
+
+    // The first sync only fetches a position: history from before the start is not replayed.
+    const initial = await this.sync('', 0, JSON.stringify({ room: { timeline: { limit: 0 } } }));
+    this.since = initial.next_batch;
+    await this.processSync(initial, false);
+
+    this.running = true;
+    this.syncLoopDone = this.syncLoop();
+    bridgeLogger.info(`[Matrix] sync started user=${this.userId} ${this.instanceTag}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.syncAbort?.abort();
+    await this.syncLoopDone?.catch(() => {});
+    this.syncLoopDone = null;
+    bridgeLogger.info('[Matrix] sync stopped');
+  }
+
+  getRoomByIncomingEventId(eventId: string): string | undefined {
+    return this.eventRooms.get(eventId);
+  }
+
+  async sendMessage(roomId: string, rendered: MatrixRendered): Promise<string | null> {
+    return this.sendEvent(roomId, 'm.room.message', {
+      msgtype: 'm.text',
+      body: rendered.body,
+      format: 'org.matrix.custom.html',
+      formatted_body: rendered.formatted_body,
+    });
+  }
+
+  /** `m.replace` edit; the `* ` fallback is what clients without edit support show. */
+  async editMessage(roomId: string, eventId: string, rendered: MatrixRendered): Promise<boolean> {
+    const newContent = {
+      msgtype: 'm.text',
+      body: rendered.body,
+      format: 'org.matrix.custom.html',
+      formatted_body: rendered.formatted_body,
+    };
+    const sent = await this.sendEvent(roomId, 'm.room.message', {
+      msgtype: 'm.text',
+      body: `* ${rendered.body}`,
+      format: 'org.matrix.custom.html',
+      formatted_body: `* ${rendered.formatted_body}`,
+      'm.new_content': newContent,
+      'm.relates_to': { rel_type: 'm.replace', event_id: eventId },
+    });
+    return Boolean(sent);
+  }
+
+  async sendNotice(roomId: string, text: string): Promise<string | null> {
+    return this.sendEvent(roomId, 'm.room.message', { msgtype: 'm.notice', body: text });
+  }
+
+  async sendReaction(roomId: string, eventId: string, key: string): Promise<string | null> {
+    return this.sendEvent(roomId, 'm.reaction', {
+      'm.relates_to': { rel_type: 'm.annotation', event_id: eventId, key },
+    });
+  }
+
+  async redact(roomId: string, eventId: string): Promise<void> {
+    await this.apiCall(
+      'PUT',
+      `${API}/rooms/${encodeURIComponent(roomId)}/redact/${encodeURIComponent(eventId)}/${this.nextTxnId()}`,
+      {},
+    );
+  }
+
+  /** Sends a prompt and seeds one reaction per choice so a click is a single tap. */
+  async sendPrompt(
+    roomId: string,
+    rendered: MatrixRendered,
+    actions: BridgeAction[],
+  ): Promise<string | null> {
+    const eventId = await this.sendMessage(roomId, rendered);
+    if (!eventId || actions.length === 0) return eventId;
+
+    const prompt: OpenPrompt = { roomId, actions: new Map(), seeded: [] };
+    this.openPrompts.set(eventId, prompt);
+    for (const [idx, action] of actions.slice(0, MATRIX_CHOICE_KEYS.length).entries()) {
+      const key = MATRIX_CHOICE_KEYS[idx];
+      prompt.actions.set(key, action.value);
+      const reactionId = await this.sendReaction(roomId, eventId, key).catch(err => {
+        bridgeLogger.warn(`[Matrix] seeding reaction failed key=${key}`, asError(err).message);
+        return null;
+      });
+      if (reactionId) prompt.seeded.push(reactionId);
+    }
+    return eventId;
+  }
+
+  /** Edits a prompt; once it has no actions left its seeded reactions are taken back. */
+  async updatePrompt(
+    roomId: string,
+    eventId: string,
+    rendered: MatrixRendered,
+    actions: BridgeAction[],
+  ): Promise<boolean> {
+    const ok = await this.editMessage(roomId, eventId, rendered);
+    const prompt = this.openPrompts.get(eventId);
+    if (prompt && actions.length === 0) {
+      this.openPrompts.delete(eventId);
+      for (const reactionId of prompt.seeded) {
+        await this.redact(roomId, reactionId).catch(() => {});
+      }
+    }
+    return ok;
+  }
+
+  async uploadFile(roomId: string, file: DisplayFile): Promise<boolean> {
+    let mime = file.mime || 'application/octet-stream';
+    let buffer: Buffer;
+    const decoded = decodeDataUrl(file.url);
+    if (decoded) {
+      mime = file.mime || decoded.mime;
+      buffer = decoded.buffer;
+    } else if (/^https?:\/\//i.test(file.url)) {
+      const resp = await fetch(file.url);
+      if (!resp.ok) throw new Error(`[Matrix] file fetch failed: ${resp.status}`);
+      buffer = Buffer.from(await resp.arrayBuffer());
+    } else {
+      bridgeLogger.warn('[Matrix] skip file: unsupported URL scheme');
+      return false;
+    }
+
+    const filename = file.filename || `file.${mime.split('/')[1] || 'bin'}`;
+    const resp = await fetch(
+      `${this.config.homeserver_url}/_matrix/media/v3/upload?filename=${encodeURIComponent(filename)}`,
+      {
+        method: 'POST',
+        headers: {
+          authorization: `Bearer ${this.config.access_token}`,
+          'content-type': mime,
+        },
+        body: new Uint8Array(buffer),
+      },
+    );
+    const json = (await resp.json().catch(() => null)) as { content_uri?: string } | null;
+    if (!resp.ok || !json?.content_uri) {
+      throw new Error(`[Matrix] media upload failed: ${resp.status}`);
+    }
+    const sent = await this.sendEvent(roomId, 'm.room.message', {
+      msgtype: msgtypeForMime(mime),
+      body: filename,
+      filename,
+      url: json.content_uri,
+      info: { mimetype: mime, size: buffer.length },
+    });
+    return Boolean(sent);
+  }
+
+  private async syncLoop(): Promise<void> {
+    let delay = RETRY_MIN_MS;
+    while (this.running) {
+      try {
+        const res = await this.sync(this.since, SYNC_TIMEOUT_MS, SYNC_FILTER);
+        this.since = res.next_batch;
+        delay = RETRY_MIN_MS;
+        await this.processSync(res, true);
+      } catch (err) {
+        if (!this.running) return;
+        bridgeLogger.warn(`[Matrix] sync failed retryIn=${delay}ms`, asError(err).message);
+        await sleep(delay);
+        delay = Math.min(delay * 2, RETRY_MAX_MS);
+      }
+    }
+  }
+
+  private async sync(since: string, timeoutMs: number, filter: string) {
+    const query = new URLSearchParams({ timeout: String(timeoutMs), filter });
+    if (since) query.set('since', since);
+    this.syncAbort = new AbortController();
+    const res = await this.apiCall<MatrixSyncResponse>('GET', `${API}/sync?${query}`, undefined, {
+      signal: this.syncAbort.signal,
+    });
+    if (!res?.next_batch) throw new Error('[Matrix] sync returned no next_batch');
+    return res;
+  }
+
+  private async processSync(res: MatrixSyncResponse, withTimeline: boolean): Promise<void> {
+    for (const roomId of Object.keys(res.rooms?.invite || {})) {
+      if (!this.config.auto_join) continue;
+      await this.apiCall('POST', `${API}/join/${encodeURIComponent(roomId)}`, {})
+        .then(() => bridgeLogger.info(`[Matrix] joined room=${roomId}`))
+        .catch(err => bridgeLogger.warn(`[Matrix] join failed room=${roomId}`, err));
+    }
+
+    for (const [roomId, room] of Object.entries(res.rooms?.join || {})) {
+      const count = room.summary?.['m.joined_member_count'];
+      if (typeof count === 'number') this.memberCounts.set(roomId, count);
+      if (!withTimeline) continue;
+      for (const event of room.timeline?.events || []) {
+        await this.handleEvent(roomId, event).catch(err => {
+          bridgeLogger.warn(
+            `[Matrix] event handling failed room=${roomId} event=${event.event_id}`,
+            asError(err).message,
+          );
+        });
+      }
+    }
+  }
+
+  private rememberEvent(eventId: string): boolean {
+    if (this.seenEvents.has(eventId)) return false;
+    this.seenEvents.add(eventId);
+    if (this.seenEvents.size > 2000) {
+      const first = this.seenEvents.values().next().value;
+      if (first) this.seenEvents.delete(first);
+    }
+    return true;
+  }
+
+  private async handleEvent(roomId: string, event: MatrixEvent): Promise<void> {
+    if (!event.event_id || event.sender === this.userId) return;
+    if (!this.rememberEvent(event.event_id)) return;
+
+    if (event.type === 'm.room.encrypted') {
+      await this.warnEncryptedRoom(roomId);
+      return;
+    }
+    if (event.type === 'm.reaction') {
+      await this.handleReaction(roomId, event);
+      return;
+    }
+    if (event.type === 'm.room.message') {
+      await this.handleMessage(roomId, event);
+    }
+  }
+
+  private async warnEncryptedRoom(roomId: string): Promise<void> {
+    if (this.warnedEncryptedRooms.has(roomId)) return;
+    this.warnedEncryptedRooms.add(roomId);
+    bridgeLogger.warn(`[Matrix] encrypted event skipped room=${roomId}`);
+    await this.sendNotice(
+      roomId,
+      '⚠️ 此房间已开启端到端加密，桥接无法解密消息。请通过 pantalaimon 连接，或使用未加密的房间。',
+    ).catch(() => {});
+  }
+
+  private isMentioned(content: MatrixMessageContent, body: string): boolean {
+    if (content['m.mentions']?.user_ids?.includes(this.userId)) return true;
+    if (body.includes(this.userId)) return true;
+    if (content.formatted_body?.includes(`matrix.to/#/${this.userId}`)) return true;
+    const name = this.displayName || this.userId.replace(/^@/, '').split(':')[0];
+    return new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(body);
+  }
+
+  /** Removes the bot's id and a leading `Name:` pill fallback from the body. */
+  private stripMention(body: string): string {
+    let text = body.split(this.userId).join(' ');
+    const names = [this.displayName, this.userId.replace(/^@/, '').split(':')[0]].filter(Boolean);
+    for (const name of names) {
+      if (text.toLowerCase().startsWith(name.toLowerCase())) {
+        text = text.slice(name.length).replace(/^[:,\s]+/, '');
+      }
+    }
+    return text.trim();
+  }
+
+  private async handleMessage(roomId: string, event: MatrixEvent): Promise<void> {
+    const content = event.content as MatrixMessageContent;
+    // Edits of earlier messages and other bots' notices are not new prompts.
+    if (content['m.relates_to']?.rel_type === 'm.replace') return;
+    const msgtype = content.msgtype || '';
+    if (msgtype === 'm.notice') return;
+
+    const isMedia = ['m.image', 'm.file', 'm.audio', 'm.video'].includes(msgtype);
+    let body = String(content.body || '');
+    if (content['m.relates_to']?.['m.in_reply_to']) body = stripReplyFallback(body);
+
+    const needsMention = this.config.require_mention && (this.memberCounts.get(roomId) || 0) > 2;
+    if (needsMention && !isMedia && !this.isMentioned(content, body)) {
+      bridgeLogger.debug(`[Matrix] skip room=${roomId} event=${event.event_id} reason=no_mention`);
+      return;
+    }
+
+    const fileParts: FilePartInput[] = [];
+    let text = isMedia ? '' : this.stripMention(body);
+    if (isMedia) {
+      if (content.file) {
+        bridgeLogger.warn(`[Matrix] skip encrypted attachment event=${event.event_id}`);
+      } else if (content.url) {
+        const part = await this.downloadMedia(content).catch(err => {
+          bridgeLogger.warn(`[Matrix] download failed event=${event.event_id}`, err);
+          return null;
+        });
+        if (part) fileParts.push(part);
+      }
+      // The body of a media event is its file name unless a separate caption was given.
+      if (content.filename && body && body !== content.filename) text = this.stripMention(body);
+    }
+    if (!text && fileParts.length === 0) return;
+
+    this.eventRooms.set(event.event_id, roomId);
+    if (this.eventRooms.size > 2000) {
+      const first = this.eventRooms.keys().next().value;
+      if (first) this.eventRooms.delete(first);
+    }
+
+    bridgeLogger.info(
+      `[Matrix] incoming room=${roomId} sender=${event.sender} event=${event.event_id} textLen=${text.length} files=${fileParts.length}`,
+    );
+    await this.handler?.(roomId, text, event.event_id, event.sender, fileParts);
+  }
+
+  private async handleReaction(roomId: string, event: MatrixEvent): Promise<void> {
+    const relation = event.content['m.relates_to'] as MatrixRelation | undefined;
+    if (relation?.rel_type !== 'm.annotation' || !relation.event_id || !relation.key) return;
+    const target = relation.event_id;
+
+    const prompt = this.openPrompts.get(target);
+    let value = prompt?.actions.get(relation.key) || '';
+    if (!value && STOP_REACTION_KEYS.has(relation.key) && this.sentEvents.has(target)) {
+      value = STOP_ACTION_VALUE;
+    }
+    if (!value || !this.actionHandler) return;
+
+    bridgeLogger.info(
+      `[Matrix] reaction action room=${roomId} sender=${event.sender} target=${target} value=${value}`,
+    );
+    const reply = await this.actionHandler(roomId, value, event.sender, target);
+    if (reply) await this.sendNotice(roomId, reply);
+  }
+
+  private async downloadMedia(content: MatrixMessageContent): Promise<FilePartInput> {
+    const match = /^mxc:\/\/([^/]+)\/([^/?#]+)/.exec(content.url || '');
+    if (!match) throw new Error(`[Matrix] not an mxc url: ${content.url}`);
+    const [, server, mediaId] = match;
+    const headers = { authorization: `Bearer ${this.config.access_token}` };
+
+    // Authenticated media (Matrix 1.11) first; older homeservers only have the legacy route.
+    let resp = await fetch(
+      `${this.config.homeserver_url}/_matrix/client/v1/media/download/${server}/${mediaId}`,
+      { headers },
+    );
+    if (resp.status === 404 || resp.status === 400) {
+      resp = await fetch(
+        `${this.config.homeserver_url}/_matrix/media/v3/download/${server}/${mediaId}`,
+        { headers },
+      );
+    }
+    if (!resp.ok) throw new Error(`[Matrix] media download failed: ${resp.status}`);
+    const buffer = Buffer.from(await resp.arrayBuffer());
+    if (buffer.length > MATRIX_MAX_DOWNLOAD_BYTES) {
+      throw new Error(`[Matrix] file too large size=${buffer.length}`);
+    }
+    const mime =
+      content.info?.mimetype ||
+      resp.headers.get('content-type')?.split(';')[0] ||
+      'application/octet-stream';
+    return {
+      type: 'file',
+      filename: content.filename || content.body || `matrix-${mediaId}`,
+      mime,
+      url: `data:${mime};base64,${buffer.toString('base64')}`,
+    };
+  }
+
+  private nextTxnId(): string {
+    this.txnSeq += 1;
+    return `bridge${Date.now().toString(36)}_${this.txnSeq}`;
+  }
+
+  private async sendEvent(
+    roomId: string,
+    type: string,
+    content: Record<string, unknown>,
+  ): Promise<string | null> {
+    const res = await this.apiCall<{ event_id?: string }>(
+      'PUT',
+      `${API}/rooms/${encodeURIComponent(roomId)}/send/${type}/${this.nextTxnId()}`,
+      content,
+    );
+    const eventId = res?.event_id || null;
+    if (eventId) {
+      this.sentEvents.add(eventId);
+      if (this.sentEvents.size > 2000) {
+        const first = this.sentEvents.values().next().value;
+        if (first) this.sentEvents.delete(first);
+      }
+    }
+    return eventId;
+  }
+
+  /** JSON call with the access token; `M_LIMIT_EXCEEDED` is retried after the advised delay. */
+  private async apiCall<T = unknown>(
+    method: 'GET' | 'POST' | 'PUT',
+    path: string,
+    body?: Record<string, unknown>,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<T | null> {
+    for (let attempt = 0; ; attempt++) {
+      const resp = await fetch(`${this.config.homeserver_url}${path}`, {
+        method,
+        headers: {
+          authorization: `Bearer ${this.config.access_token}`,
+          ...(body ? { 'content-type': 'application/json' } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: options.signal,
+      });
+      const json = (await resp.json().catch(() => null)) as
+        | (T & { errcode?: string; error?: string; retry_after_ms?: number })
+        | null;
+      if (resp.status === 429 && attempt < 2) {
+        const wait = Math.min(json?.retry_after_ms || 1000, RETRY_MAX_MS);
+        bridgeLogger.warn(`[Matrix] rate limited ${method} ${path.split('?')[0]} wait=${wait}ms`);
+        await sleep(wait);
+        continue;
+      }
+      if (!resp.ok) {
+        const detail = [json?.errcode, json?.error].filter(Boolean).join(' ');
+        throw new Error(
+          `[Matrix] ${method} ${path.split('?')[0]} failed: ${resp.status} ${detail}`.trim(),
+        );
+      }
+      return json;
+    }
+  }
+}
@@ -0,0 +1,134 @@
+// src/matrix/matrix.renderer.ts
+import type { BridgeActionPrompt, BridgeMessageContent } from '../types';
+import {
+  getStatusWithEmoji,
+  pickCardHeader,
+  sectionsFromContent,
+  splitStatusPaths,
+} from '../bridge/sections';
+import { ellipsize } from '../bridge/buffer';
+
+/** `m.room.message` text content: plain `body` plus the `org.matrix.custom.html` rendering. */
+export type MatrixRendered = { body: string; formatted_body: string };
+
+/** Reaction keys offered on action prompts; the n-th key presses the n-th button. */
+export const MATRIX_CHOICE_KEYS = ['1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣'];
+
+const THINKING_LIMIT = 3000;
+const MAX_TOOL_PANELS = 10;
+
+function trimSafe(s: string) {
+  return (s || '').trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * The markdown the bridge produces (fenced code, inline code, bold, headings, bullets, links)
+ * as the HTML subset Matrix clients render; anything else stays literal text.
+ */
+export function markdownToMatrixHtml(markdown: string): string {
+  const codeBlocks: string[] = [];
+  let text = markdown.replace(
+    /```([a-zA-Z0-9_+-]+)?\n?([\s\S]*?)```/g,
+    (_, lang: string | undefined, code: string) => {
+      const cls = lang ? ` class="language-${lang}"` : '';
+      const body = escapeHtml(code.replace(/\n$/, ''));
+      const id = codeBlocks.push(`<pre><code${cls}>${body}</code></pre>`) - 1;
+      return `@@CODEBLOCK_${id}@@`;
+    },
+  );
+
+  text = escapeHtml(text);
+  text = text.replace(/^#{1,6}\s+(.+)$/gm, '<strong>$1</strong>');
+  text = text.replace(/^\s*[-*]\s+(.+)$/gm, '• $1');
+  text = text.replace(/^&gt;\s?(.*)$/gm, '<blockquote>$1</blockquote>');
+  text = text.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
+  text = text.replace(/`([^`\n]+)`/g, '<code>$1</code>');
+  text = text.replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>');
+  text = text.replace(/\n/g, '<br>');
+  // Line breaks right around a block element would show up as extra blank lines.
+  text = text.replace(/<br>(@@CODEBLOCK_\d+@@)/g, '$1');
+  text = text.replace(/(@@CODEBLOCK_\d+@@)<br>/g, '$1');
+  text = text.replace(/<\/blockquote><br>/g, '</blockquote>');
+
+  return text.replace(/@@CODEBLOCK_(\d+)@@/g, (_, idx: string) => codeBlocks[Number(idx)] || '');
+}
+
+/**
+ * Thinking and each tool step fold into `<details>` blocks (collapsed in Element), followed by
+ * the body and a status line. The plain `body` keeps one line per step for notifications.
+ */
+export function renderMatrix(content: BridgeMessageContent): MatrixRendered {
+  const sections = sectionsFromContent(content);
+  const { command, error, thinking, answer, toolPanels, files, status } = sections;
+  const title = pickCardHeader(sections).title;
+  const html: string[] = [`<p><strong>${escapeHtml(title)}</strong></p>`];
+  const plain: string[] = [title];
+
+  if (trimSafe(thinking)) {
+    const clipped = ellipsize(trimSafe(thinking), THINKING_LIMIT, 'tail');
+    const quoted = escapeHtml(clipped).replace(/\n/g, '<br>');
+    html.push(`<details><summary>💭 Thinking</summary><blockquote>${quoted}</blockquote></details>`);
+  }
+
+  const hidden = toolPanels.length - MAX_TOOL_PANELS;
+  if (hidden > 0) {
+    html.push(`<p>⚙️ … +${hidden} earlier step(s)</p>`);
+    plain.push(`⚙️ … +${hidden} earlier step(s)`);
+  }
+  for (const panel of toolPanels.slice(-MAX_TOOL_PANELS)) {
+    const [first, ...rest] = trimSafe(panel).split('\n');
+    const summary = first.replace(/^-\s*/, '');
+    const detail = trimSafe(rest.join('\n').replace(/^ {2}/gm, ''));
+    const detailHtml = detail ? markdownToMatrixHtml(detail) : '';
+    html.push(`<details><summary>⚙️ ${escapeHtml(summary)}</summary>${detailHtml}</details>`);
+    plain.push(`⚙️ ${summary}`);
+  }
+
+  // Inline data URLs are uploaded as their own events; only the names are listed here.
+  const fileLines = files
+    .split('\n')
+    .filter(line => trimSafe(line) && !/^\s*data:/.test(line))
+    .map(line => `🖼️ ${trimSafe(line).replace(/^-\s*/, '')}`);
+  if (fileLines.length > 0) {
+    html.push(`<p>${fileLines.map(escapeHtml).join('<br>')}</p>`);
+    plain.push(...fileLines);
+  }
+
+  for (const body of [error, command, answer].map(trimSafe).filter(Boolean)) {
+    html.push(`<div>${markdownToMatrixHtml(body)}</div>`);
+    plain.push('', body);
+  }
+
+  if (trimSafe(status)) {
+    const { status: cleanStatus, paths } = splitStatusPaths(trimSafe(status));
+    const lines = paths.length > 0 ? [cleanStatus, ...paths] : [getStatusWithEmoji(cleanStatus)];
+    const statusLine = lines.filter(Boolean).join(' | ');
+    html.push(`<p><em>${escapeHtml(statusLine)}</em></p>`);
+    plain.push('', statusLine);
+  }
+
+  return { body: plain.join('\n').trim(), formatted_body: html.join('') };
+}
+
+/** Buttons become numbered choices; the client seeds the matching reactions to click. */
+export function renderMatrixActionPrompt(prompt: BridgeActionPrompt): MatrixRendered {
+  const choices = prompt.actions
+    .slice(0, MATRIX_CHOICE_KEYS.length)
+    .map((action, idx) => `${MATRIX_CHOICE_KEYS[idx]} ${action.label}`);
+  const body = trimSafe(prompt.body);
+  const html = [`<p><strong>${escapeHtml(prompt.title)}</strong></p>`];
+  if (body) html.push(`<div>${markdownToMatrixHtml(body)}</div>`);
+  if (choices.length > 0) html.push(`<p>${choices.map(escapeHtml).join('<br>')}</p>`);
+  return {
+    body: [prompt.title, body, choices.join('\n')].filter(Boolean).join('\n\n'),
+    formatted_body: html.join(''),
+  };
+}
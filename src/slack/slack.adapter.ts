@@ -0,0 +1,117 @@
+// src/slack/slack.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+  SlackConfig,
+} from '../types';
+import { SlackClient } from './slack.client';
+import { renderSlack, renderSlackActionPrompt } from './slack.renderer';
+import { bridgeLogger } from '../logger';
+import { isDisplayModel } from '../bridge/display';
+import { simpleHash } from '../bridge/buffer';
+import { SLACK_PAGE_TEXT_LIMIT } from '../constants';
+
+export class SlackAdapter implements BridgeAdapter {
+  provider: 'slack' = 'slack';
+  readonly pageTextLimit = SLACK_PAGE_TEXT_LIMIT;
+  private readonly client: SlackClient;
+  private readonly sentFilesByMessage = new Map<string, Set<string>>();
+
+  constructor(config: SlackConfig) {
+    this.client = new SlackClient(config);
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.client.start(handler, onAction);
+    bridgeLogger.info('[Slack] adapter started');
+  }
+
+  async stop() {
+    this.sentFilesByMessage.clear();
+    await this.client.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    const sentFiles = await this.sendNewFiles(chatId, content);
+    const ts = await this.client.postMessage(chatId, renderSlack(content));
+    if (ts && sentFiles.size > 0) this.sentFilesByMessage.set(ts, sentFiles);
+    return ts;
+  }
+
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const sent = this.sentFilesByMessage.get(messageId);
+    const sentNow = await this.sendNewFiles(chatId, content, sent);
+    if (sentNow.size > 0) {
+      this.sentFilesByMessage.set(messageId, new Set([...(sent || []), ...sentNow]));
+    }
+    return this.client.updateMessage(chatId, messageId, renderSlack(content));
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.postMessage(chatId, renderSlackActionPrompt(prompt));
+  }
+
+  async editActionPrompt(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    return this.client.updateMessage(chatId, messageId, renderSlackActionPrompt(prompt));
+  }
+
+  /** Slack reactions are keyed by name, so the emoji name doubles as the reaction id. */
+  async addReaction(messageId: string, emojiType: string): Promise<string | null> {
+    const channel = this.client.getChannelByIncomingMessageId(messageId);
+    if (!channel) return null;
+    const name = this.mapEmoji(emojiType);
+    try {
+      await this.client.addReaction(channel, messageId, name);
+      return name;
+    } catch (err) {
+      bridgeLogger.warn(`[Slack] addReaction failed ts=${messageId} emoji=${name}`, err);
+      return null;
+    }
+  }
+
+  async removeReaction(messageId: string, reactionId: string): Promise<void> {
+    const channel = this.client.getChannelByIncomingMessageId(messageId);
+    if (!channel) return;
+    await this.client.removeReaction(channel, messageId, reactionId);
+  }
+
+  private mapEmoji(emojiType: string): string {
+    if (emojiType === 'Typing') return 'hourglass_flowing_sand';
+    return emojiType.replace(/:/g, '').toLowerCase() || 'hourglass_flowing_sand';
+  }
+
+  private async sendNewFiles(
+    chatId: string,
+    content: BridgeMessageContent,
+    sent?: Set<string>,
+  ): Promise<Set<string>> {
+    const sentNow = new Set<string>();
+    if (!isDisplayModel(content)) return sentNow;
+    for (const file of content.files) {
+      const sig = this.fileSignature(file);
+      if (!file.url || sent?.has(sig)) continue;
+      const ok = await this.client.uploadFile(chatId, file).catch(err => {
+        bridgeLogger.warn(`[Slack] file upload failed channel=${chatId}`, err);
+        return false;
+      });
+      if (ok) sentNow.add(sig);
+    }
+    return sentNow;
+  }
+
+  private fileSignature(file: DisplayFile): string {
+    return simpleHash(`${file.filename || ''}|${file.mime || ''}|${file.url || ''}`);
+  }
+}
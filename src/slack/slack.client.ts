@@ -0,0 +1,661 @@
+// src/slack/slack.client.ts
+import type {
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+  SlackConfig,
+} from '../types';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import * as crypto from 'node:crypto';
+import * as http from 'node:http';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId, sleep } from '../utils';
+import type { SlackRendered } from './slack.renderer';
+
+type SlackFile = {
+  id: string;
+  name?: string;
+  mimetype?: string;
+  size?: number;
+  url_private?: string;
+  url_private_download?: string;
+};
+
+type SlackMessageEvent = {
+  type: string;
+  subtype?: string;
+  channel?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts?: string;
+  files?: SlackFile[];
+};
+
+type SlackEventCallback = {
+  type: 'event_callback' | 'url_verification';
+  challenge?: string;
+  event_id?: string;
+  event?: SlackMessageEvent;
+};
+
+type SlackBlockActionsPayload = {
+  type: string;
+  user?: { id: string };
+  channel?: { id: string };
+  container?: { channel_id?: string; message_ts?: string };
+  message?: { ts?: string };
+  actions?: Array<{ action_id?: string; value?: string }>;
+};
+
+type SlackSlashCommandPayload = {
+  command?: string;
+  text?: string;
+  user_id?: string;
+  channel_id?: string;
+  trigger_id?: string;
+};
+
+type SlackSocketEnvelope = {
+  type: string;
+  envelope_id?: string;
+  reason?: string;
+  payload?: unknown;
+};
+
+type SlackApiResponse = {
+  ok: boolean;
+  error?: string;
+  [key: string]: unknown;
+};
+
+const SLACK_SIGNATURE_MAX_AGE_SEC = 60 * 5;
+const SLACK_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+const SLACK_MAX_UPLOAD_BYTES = 30 * 1024 * 1024;
+const SOCKET_RECONNECT_MIN_MS = 1000;
+const SOCKET_RECONNECT_MAX_MS = 30000;
+// Plain messages and uploads; everything else (joins, edits, bot posts) is not a prompt.
+const HANDLED_SUBTYPES = new Set(['', 'file_share', 'thread_broadcast']);
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function decodeSlackText(text: string): string {
+  return text
+    .replace(/<(https?:\/\/[^|>]+)(?:\|[^>]*)?>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function decodeDataUrl(dataUrl: string): { mime: string; buffer: Buffer } | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mime: match[1], buffer: Buffer.from(match[2], 'base64') };
+}
+
+export class SlackClient {
+  private readonly config: SlackConfig;
+  private running = false;
+  private botUserId = '';
+  private socket: WebSocket | null = null;
+  private reconnectDelay = SOCKET_RECONNECT_MIN_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private webhookServer: http.Server | null = null;
+  private webhookPath = '/slack/events';
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private readonly incomingMessageChannelMap = new Map<string, string>();
+  private readonly seenMessages = new Set<string>();
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: SlackConfig) {
+    this.config = config;
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.running) {
+      bridgeLogger.info('[Slack] client already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+
+    try {
+      const auth = await this.apiCall('auth.test', {});
+      this.botUserId = typeof auth.user_id === 'string' ? auth.user_id : '';
+      bridgeLogger.info(`[Slack] auth ok bot=${this.botUserId} team=${String(auth.team || '')}`);
+    } catch (err) {
+      bridgeLogger.warn(`[Slack] auth.test failed ${this.instanceTag}`, asError(err).message);
+    }
+
+    this.running = true;
+    if (this.config.mode === 'webhook') {
+      await this.startWebhook().catch(err => {
+        this.running = false;
+        throw err;
+      });
+      return;
+    }
+    await this.connectSocket().catch(err => {
+      bridgeLogger.warn(`[Slack] socket connect failed ${this.instanceTag}`, asError(err).message);
+      this.scheduleReconnect();
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+
+    if (this.webhookServer) {
+      await new Promise<void>((resolve, reject) => {
+        this.webhookServer?.close(err => (err ? reject(err) : resolve()));
+      }).catch(() => {});
+      this.webhookServer = null;
+      bridgeLogger.info('[Slack] webhook stopped');
+      return;
+    }
+    bridgeLogger.info('[Slack] socket stopped');
+  }
+
+  async postMessage(channel: string, rendered: SlackRendered): Promise<string | null> {
+    if (!rendered.text.trim() && rendered.blocks.length === 0) return null;
+    const res = await this.apiCall('chat.postMessage', {
+      channel,
+      text: rendered.text,
+      blocks: rendered.blocks,
+      unfurl_links: false,
+      unfurl_media: false,
+    });
+    return typeof res.ts === 'string' ? res.ts : null;
+  }
+
+  async updateMessage(channel: string, ts: string, rendered: SlackRendered): Promise<boolean> {
+    if (!rendered.text.trim() && rendered.blocks.length === 0) return false;
+    await this.apiCall('chat.update', {
+      channel,
+      ts,
+      text: rendered.text,
+      blocks: rendered.blocks,
+    });
+    return true;
+  }
+
+  async postEphemeral(channel: string, user: string, text: string): Promise<void> {
+    await this.apiCall('chat.postEphemeral', { channel, user, text });
+  }
+
+  async addReaction(channel: string, ts: string, name: string): Promise<boolean> {
+    try {
+      await this.apiCall('reactions.add', { channel, timestamp: ts, name });
+    } catch (err) {
+      if (!/already_reacted/.test(asError(err).message)) throw err;
+    }
+    return true;
+  }
+
+  async removeReaction(channel: string, ts: string, name: string): Promise<void> {
+    try {
+      await this.apiCall('reactions.remove', { channel, timestamp: ts, name });
+    } catch (err) {
+      if (!/no_reaction/.test(asError(err).message)) throw err;
+    }
+  }
+
+  getChannelByIncomingMessageId(ts: string): string | null {
+    return this.incomingMessageChannelMap.get(ts) || null;
+  }
+
+  /** Three-step external upload: reserve an upload URL, POST the bytes, share into the channel. */
+  async uploadFile(channel: string, file: DisplayFile): Promise<boolean> {
+    const resolved = await this.resolveFileBytes(file);
+    if (!resolved) return false;
+    const filename = file.filename || `file.${resolved.mime.split('/')[1] || 'bin'}`;
+
+    const reserved = await this.apiCall(
+      'files.getUploadURLExternal',
+      { filename, length: String(resolved.buffer.length) },
+      { form: true },
+    );
+    const uploadUrl = typeof reserved.upload_url === 'string' ? reserved.upload_url : '';
+    const fileId = typeof reserved.file_id === 'string' ? reserved.file_id : '';
+    if (!uploadUrl || !fileId) return false;
+
+    const resp = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: { 'content-type': resolved.mime },
+      body: new Uint8Array(resolved.buffer),
+    });
+    if (!resp.ok) {
+      throw new Error(`[Slack] file upload failed: ${resp.status}`);
+    }
+
+    await this.apiCall('files.completeUploadExternal', {
+      files: [{ id: fileId, title: filename }],
+      channel_id: channel,
+    });
+    bridgeLogger.info(
+      `[Slack] file uploaded channel=${channel} file=${fileId} name=${filename} size=${resolved.buffer.length}`,
+    );
+    return true;
+  }
+
+  private async resolveFileBytes(
+    file: DisplayFile,
+  ): Promise<{ mime: string; buffer: Buffer } | null> {
+    if (file.url.startsWith('data:')) {
+      const decoded = decodeDataUrl(file.url);
+      if (!decoded) {
+        bridgeLogger.warn('[Slack] skip file: invalid data URL');
+        return null;
+      }
+      return { mime: file.mime || decoded.mime, buffer: decoded.buffer };
+    }
+    if (/^https?:\/\//.test(file.url)) {
+      const resp = await fetch(file.url);
+      if (!resp.ok) throw new Error(`[Slack] download failed: ${resp.status}`);
+      const buffer = Buffer.from(await resp.arrayBuffer());
+      if (buffer.length > SLACK_MAX_UPLOAD_BYTES) {
+        bridgeLogger.warn(`[Slack] skip file: too large size=${buffer.length}`);
+        return null;
+      }
+      const mime = file.mime || resp.headers.get('content-type') || 'application/octet-stream';
+      return { mime, buffer };
+    }
+    bridgeLogger.warn('[Slack] skip file: unsupported URL scheme');
+    return null;
+  }
+
+  private async downloadPrivateFile(url: string): Promise<Buffer> {
+    const resp = await fetch(url, {
+      headers: { authorization: `Bearer ${this.config.bot_token}` },
+    });
+    if (!resp.ok) {
+      throw new Error(`[Slack] download failed: ${resp.status}`);
+    }
+    const buf = Buffer.from(await resp.arrayBuffer());
+    if (buf.length > SLACK_MAX_DOWNLOAD_BYTES) {
+      throw new Error(`[Slack] file too large: ${buf.length}`);
+    }
+    return buf;
+  }
+
+  private async buildFileParts(files: SlackFile[]): Promise<FilePartInput[]> {
+    const parts: FilePartInput[] = [];
+    for (const file of files) {
+      const url = file.url_private_download || file.url_private;
+      if (!url) continue;
+      if ((file.size || 0) > SLACK_MAX_DOWNLOAD_BYTES) {
+        bridgeLogger.warn(`[Slack] skip file: too large id=${file.id} size=${file.size}`);
+        continue;
+      }
+      const buffer = await this.downloadPrivateFile(url);
+      const mime = file.mimetype || 'application/octet-stream';
+      parts.push({
+        type: 'file',
+        filename: file.name || `slack-${file.id}`,
+        mime,
+        url: `data:${mime};base64,${buffer.toString('base64')}`,
+      });
+    }
+    return parts;
+  }
+
+  private async connectSocket(): Promise<void> {
+    if (!this.running) return;
+    const res = await this.apiCall('apps.connections.open', {}, { token: this.config.app_token });
+    const url = typeof res.url === 'string' ? res.url : '';
+    if (!url) throw new Error('[Slack] apps.connections.open returned no url');
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    socket.addEventListener('message', event => {
+      this.handleSocketMessage(socket, String(event.data));
+    });
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      bridgeLogger.info(`[Slack] socket closed ${this.instanceTag}`);
+      this.scheduleReconnect();
+    });
+    socket.addEventListener('error', () => {
+      bridgeLogger.warn(`[Slack] socket error ${this.instanceTag}`);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve(), { once: true });
+      socket.addEventListener('error', () => reject(new Error('socket open failed')), {
+        once: true,
+      });
+    });
+    this.reconnectDelay = SOCKET_RECONNECT_MIN_MS;
+    bridgeLogger.info(`[Slack] socket connected ${this.instanceTag}`);
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, SOCKET_RECONNECT_MAX_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectSocket().catch(err => {
+        bridgeLogger.warn(`[Slack] socket reconnect failed delay=${delay}`, asError(err).message);
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+
+  private handleSocketMessage(socket: WebSocket, raw: string): void {
+    let envelope: SlackSocketEnvelope;
+    try {
+      envelope = JSON.parse(raw) as SlackSocketEnvelope;
+    } catch {
+      bridgeLogger.warn('[Slack] socket message is not JSON');
+      return;
+    }
+
+    if (envelope.type === 'hello') {
+      bridgeLogger.debug('[Slack] socket hello');
+      return;
+    }
+    if (envelope.type === 'disconnect') {
+      // Slack rotates connections; closing triggers a fresh apps.connections.open.
+      bridgeLogger.info(`[Slack] socket disconnect requested reason=${envelope.reason || ''}`);
+      socket.close();
+      return;
+    }
+
+    // Slack retries envelopes that are not acknowledged within 3 seconds.
+    if (envelope.envelope_id) socket.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+
+    void this.dispatch(envelope.type, envelope.payload).catch(err => {
+      bridgeLogger.warn(`[Slack] socket ${envelope.type} handling failed`, asError(err).message);
+    });
+  }
+
+  private async dispatch(type: string, payload: unknown): Promise<void> {
+    if (type === 'events_api') {
+      const event = (payload as SlackEventCallback | undefined)?.event;
+      if (event) await this.handleMessageEvent(event);
+      return;
+    }
+    if (type === 'interactive') {
+      await this.handleInteraction(payload as SlackBlockActionsPayload);
+      return;
+    }
+    if (type === 'slash_commands') {
+      await this.handleSlashCommand(payload as SlackSlashCommandPayload);
+    }
+  }
+
+  private async startWebhook(): Promise<void> {
+    if (!this.config.callback_url) {
+      throw new Error('[Slack] callback_url is required in webhook mode');
+    }
+
+    const callback = new URL(this.config.callback_url);
+    this.webhookPath =
+      callback.pathname && callback.pathname !== '/' ? callback.pathname : '/slack/events';
+    const port = callback.port ? Number(callback.port) : callback.protocol === 'https:' ? 443 : 80;
+    const host = this.resolveWebhookHost(callback.hostname);
+
+    this.webhookServer = http.createServer((req, res) => {
+      this.handleWebhookRequest(req, res).catch(err => {
+        bridgeLogger.warn('[Slack] webhook request failed', asError(err).message);
+        if (!res.headersSent) {
+          res.statusCode = 500;
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.webhookServer?.once('error', reject);
+      this.webhookServer?.listen(port, host, () => resolve());
+    });
+    bridgeLogger.info(
+      `[Slack] webhook started host=${host} port=${port} path=${this.webhookPath} ${this.instanceTag}`,
+    );
+  }
+
+  private resolveWebhookHost(configHostname: string): string {
+    const envHost = process.env.SLACK_WEBHOOK_LISTEN_HOST?.trim();
+    if (envHost) return envHost;
+    if (
+      configHostname === '0.0.0.0' ||
+      configHostname === '127.0.0.1' ||
+      configHostname === 'localhost'
+    ) {
+      return configHostname;
+    }
+    return '0.0.0.0';
+  }
+
+  private verifySignature(req: http.IncomingMessage, raw: string): boolean {
+    const secret = this.config.signing_secret;
+    if (!secret) return true;
+    const timestamp = String(req.headers['x-slack-request-timestamp'] || '');
+    const signature = String(req.headers['x-slack-signature'] || '');
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!timestamp || !signature || !(age <= SLACK_SIGNATURE_MAX_AGE_SEC)) return false;
+
+    const expected = `v0=${crypto
+      .createHmac('sha256', secret)
+      .update(`v0:${timestamp}:${raw}`)
+      .digest('hex')}`;
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private async handleWebhookRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'POST' || requestUrl.pathname !== this.webhookPath) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    const raw = await this.readRequestBody(req, 2 * 1024 * 1024);
+    if (!this.verifySignature(req, raw)) {
+      bridgeLogger.warn('[Slack] webhook signature rejected');
+      res.statusCode = 401;
+      res.end();
+      return;
+    }
+
+    const contentType = String(req.headers['content-type'] || '');
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      // Interactivity and slash commands are form posts; events are JSON.
+      const form = new URLSearchParams(raw);
+      const payloadRaw = form.get('payload');
+      res.statusCode = 200;
+      if (payloadRaw) {
+        res.end();
+        await this.handleInteraction(JSON.parse(payloadRaw) as SlackBlockActionsPayload);
+        return;
+      }
+      // `in_channel` with no text keeps the typed command visible to everyone in the channel.
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ response_type: 'in_channel' }));
+      await this.handleSlashCommand(Object.fromEntries(form) as SlackSlashCommandPayload);
+      return;
+    }
+
+    let body: SlackEventCallback;
+    try {
+      body = JSON.parse(raw) as SlackEventCallback;
+    } catch {
+      res.statusCode = 400;
+      res.end();
+      return;
+    }
+
+    if (body.type === 'url_verification') {
+      res.statusCode = 200;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ challenge: body.challenge || '' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end();
+    if (body.type === 'event_callback' && body.event) {
+      await this.handleMessageEvent(body.event);
+    }
+  }
+
+  private async readRequestBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => {
+        const b = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        size += b.length;
+        if (size > maxBytes) {
+          reject(new Error('request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(b);
+      });
+      req.on('error', reject);
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    });
+  }
+
+  /** Marks `channel:ts` as handled; `message` and `app_mention` both fire for a mention. */
+  private markSeen(channel: string, ts: string): boolean {
+    const key = `${channel}:${ts}`;
+    if (this.seenMessages.has(key)) return false;
+    this.seenMessages.add(key);
+    if (this.seenMessages.size > 2000) {
+      const first = this.seenMessages.values().next().value;
+      if (first) this.seenMessages.delete(first);
+    }
+    return true;
+  }
+
+  private async handleMessageEvent(event: SlackMessageEvent): Promise<void> {
+    if (event.type !== 'message' && event.type !== 'app_mention') return;
+    const channel = event.channel || '';
+    const ts = event.ts || '';
+    if (!channel || !ts) return;
+    if (event.bot_id || !event.user || event.user === this.botUserId) {
+      bridgeLogger.debug(`[Slack] skip channel=${channel} ts=${ts} reason=from_bot`);
+      return;
+    }
+    if (!HANDLED_SUBTYPES.has(event.subtype || '')) {
+      bridgeLogger.debug(`[Slack] skip channel=${channel} ts=${ts} subtype=${event.subtype}`);
+      return;
+    }
+    if (!this.markSeen(channel, ts)) return;
+
+    let text = decodeSlackText(event.text || '');
+    if (this.botUserId) text = text.split(`<@${this.botUserId}>`).join(' ');
+    text = text.trim();
+
+    let fileParts: FilePartInput[] = [];
+    try {
+      fileParts = await this.buildFileParts(event.files || []);
+    } catch (err) {
+      bridgeLogger.warn(`[Slack] build file parts failed channel=${channel} ts=${ts}`, err);
+    }
+    if (!text && fileParts.length === 0) {
+      bridgeLogger.debug(`[Slack] skip channel=${channel} ts=${ts} reason=no_text_or_file`);
+      return;
+    }
+
+    this.incomingMessageChannelMap.set(ts, channel);
+    if (this.incomingMessageChannelMap.size > 2000) {
+      const first = this.incomingMessageChannelMap.keys().next().value;
+      if (first) this.incomingMessageChannelMap.delete(first);
+    }
+
+    bridgeLogger.info(
+      `[Slack] incoming channel=${channel} sender=${event.user} ts=${ts} textLen=${text.length} files=${fileParts.length}`,
+    );
+    await this.handler?.(channel, text, ts, event.user, fileParts);
+  }
+
+  private async handleSlashCommand(payload: SlackSlashCommandPayload): Promise<void> {
+    const channel = payload.channel_id || '';
+    const user = payload.user_id || '';
+    if (!channel || !user) return;
+    const args = (payload.text || '').trim();
+    // `/opencode status` -> `/status`; other registered Slack commands pass through verbatim.
+    const text =
+      payload.command === this.config.slash_command
+        ? args.startsWith('/')
+          ? args
+          : `/${args || 'help'}`
+        : `${payload.command || ''} ${args}`.trim();
+    const messageId = `slash:${payload.trigger_id || Date.now().toString(36)}`;
+    bridgeLogger.info(
+      `[Slack] slash_command channel=${channel} sender=${user} command=${payload.command} text=${text}`,
+    );
+    await this.handler?.(channel, text, messageId, user);
+  }
+
+  private async handleInteraction(payload: SlackBlockActionsPayload): Promise<void> {
+    if (payload?.type !== 'block_actions') return;
+    const channel = payload.channel?.id || payload.container?.channel_id || '';
+    const user = payload.user?.id || '';
+    const messageTs = payload.message?.ts || payload.container?.message_ts || '';
+    const value = payload.actions?.[0]?.value || '';
+    bridgeLogger.info(
+      `[Slack] block_actions channel=${channel} sender=${user} ts=${messageTs} value=${value}`,
+    );
+    if (!channel || !value || !this.actionHandler) return;
+
+    const reply = await this.actionHandler(channel, value, user, messageTs).catch(err => {
+      bridgeLogger.warn('[Slack] block_actions handler failed', asError(err).message);
+      return null;
+    });
+    // Buttons have no toast; answer the clicking user privately instead.
+    if (reply && user) await this.postEphemeral(channel, user, reply).catch(() => {});
+  }
+
+  private async apiCall(
+    method: string,
+    payload: Record<string, unknown>,
+    options: { token?: string; form?: boolean } = {},
+  ): Promise<SlackApiResponse> {
+    const url = `${this.config.api_base_url}/${method}`;
+    const token = options.token || this.config.bot_token;
+    const init: RequestInit = {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${token}`,
+        'content-type': options.form
+          ? 'application/x-www-form-urlencoded'
+          : 'application/json; charset=utf-8',
+      },
+      body: options.form
+        ? new URLSearchParams(payload as Record<string, string>).toString()
+        : JSON.stringify(payload),
+    };
+
+    let resp = await fetch(url, init);
+    if (resp.status === 429) {
+      const retryAfter = Number(resp.headers.get('retry-after')) || 1;
+      bridgeLogger.warn(`[Slack] ${method} rate limited retryAfter=${retryAfter}s`);
+      await sleep(retryAfter * 1000);
+      resp = await fetch(url, init);
+    }
+
+    const json = (await resp.json()) as SlackApiResponse;
+    if (!resp.ok || !json.ok) {
+      throw new Error(`[Slack] ${method} failed: ${json.error || resp.statusText}`);
+    }
+    return json;
+  }
+}
@@ -0,0 +1,242 @@
+// src/slack/slack.renderer.ts
+import type {
+  BridgeAction,
+  BridgeActionPrompt,
+  BridgeMessageContent,
+  DisplayModel,
+  DisplayToolView,
+} from '../types';
+import { formatStatusLines, isDisplayModel, isRunDisplay } from '../bridge/display';
+import { ellipsize } from '../bridge/buffer';
+
+export type SlackBlock = Record<string, unknown>;
+
+/** `text` is the notification / accessibility fallback Slack requires next to `blocks`. */
+export type SlackRendered = {
+  text: string;
+  blocks: SlackBlock[];
+};
+
+type SlackSections = {
+  command: string;
+  error: string;
+  thinking: string;
+  answer: string;
+  tools: DisplayToolView[];
+  files: DisplayModel['files'];
+  status: string;
+  plainStatus: boolean;
+  streaming: boolean;
+};
+
+// Block Kit hard limits: 3000 chars per section text, 50 blocks per message.
+const SECTION_TEXT_LIMIT = 3000;
+const CONTEXT_TEXT_LIMIT = 2000;
+const FALLBACK_TEXT_LIMIT = 3000;
+const MAX_TOOL_BLOCKS = 10;
+
+const TOOL_STATUS_EMOJI: Record<DisplayToolView['status'], string> = {
+  pending: '⏳',
+  running: '⚙️',
+  completed: '✅',
+  error: '❌',
+};
+
+function trimSafe(s: string): string {
+  return (s || '').trim();
+}
+
+export function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** CommonMark-ish markdown to Slack `mrkdwn`; code is kept verbatim apart from escaping. */
+export function markdownToMrkdwn(markdown: string): string {
+  const codeBlocks: string[] = [];
+  let text = (markdown || '').replace(/\r\n/g, '\n');
+
+  text = text.replace(/```(?:[a-zA-Z0-9_+-]+)?\n?([\s\S]*?)```/g, (_, code: string) => {
+    const id = codeBlocks.push(`\`\`\`${escapeSlackText(code.replace(/\n$/, ''))}\`\`\``) - 1;
+    return `@@CODEBLOCK_${id}@@`;
+  });
+  text = text.replace(/`([^`\n]+)`/g, (_, code: string) => {
+    const id = codeBlocks.push(`\`${escapeSlackText(code)}\``) - 1;
+    return `@@CODEBLOCK_${id}@@`;
+  });
+
+  text = escapeSlackText(text);
+  text = text.replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<$2|$1>');
+  text = text.replace(/^#{1,6}\s+(.+)$/gm, '*$1*');
+  text = text.replace(/\*\*([^*\n]+)\*\*/g, '*$1*');
+  text = text.replace(/__([^_\n]+)__/g, '*$1*');
+  text = text.replace(/~~([^~\n]+)~~/g, '~$1~');
+  text = text.replace(/^(\s*)[-*]\s+/gm, '$1• ');
+
+  return text.replace(/@@CODEBLOCK_(\d+)@@/g, (_, idx: string) => codeBlocks[Number(idx)] || '');
+}
+
+/** Splits on line ends so no chunk exceeds `limit`; fences are closed and reopened per chunk. */
+export function chunkMrkdwn(text: string, limit = SECTION_TEXT_LIMIT): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let inFence = false;
+
+  const flush = () => {
+    if (!current) return;
+    chunks.push(inFence ? `${current}\n\`\`\`` : current);
+    current = inFence ? '```' : '';
+  };
+
+  for (const rawLine of text.split('\n')) {
+    let line = rawLine;
+    while (line.length > limit - 8) {
+      flush();
+      chunks.push(line.slice(0, limit - 8));
+      line = line.slice(limit - 8);
+    }
+    const next = current ? `${current}\n${line}` : line;
+    if (next.length > limit - 4) flush();
+    current = current ? `${current}\n${line}` : line;
+    if ((line.match(/```/g) || []).length % 2 === 1) inFence = !inFence;
+  }
+  if (current) chunks.push(current);
+  return chunks.filter(c => c.trim());
+}
+
+function sectionsFromDisplayModel(model: DisplayModel): SlackSections {
+  return {
+    command: model.kind === 'command' ? model.answer : '',
+    error: model.kind === 'error' ? model.answer : '',
+    thinking: model.reasoning,
+    answer: model.kind === 'answer' ? model.answer : '',
+    tools: model.tools,
+    files: model.files,
+    status: model.kind === 'status' ? model.answer : formatStatusLines(model).join(' · '),
+    plainStatus: model.kind === 'status',
+    streaming: isRunDisplay(model) && model.status?.state === 'streaming',
+  };
+}
+
+function sectionsFromMarkdown(markdown: string): SlackSections {
+  return {
+    command: '',
+    error: '',
+    thinking: '',
+    answer: markdown,
+    tools: [],
+    files: [],
+    status: '',
+    plainStatus: false,
+    streaming: false,
+  };
+}
+
+function section(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+function context(text: string): SlackBlock {
+  return { type: 'context', elements: [{ type: 'mrkdwn', text }] };
+}
+
+function titledSections(title: string, body: string): SlackBlock[] {
+  const chunks = chunkMrkdwn(markdownToMrkdwn(trimSafe(body)), SECTION_TEXT_LIMIT - title.length);
+  return chunks.map((chunk, idx) => section(idx === 0 ? `${title}\n${chunk}` : chunk));
+}
+
+function formatToolLine(t: DisplayToolView): string {
+  const title = t.title ? ` ${escapeSlackText(ellipsize(t.title, 200))}` : '';
+  const error = t.error ? `\n\`${escapeSlackText(ellipsize(t.error.trim(), 300))}\`` : '';
+  return `${TOOL_STATUS_EMOJI[t.status]} *${escapeSlackText(t.tool || 'tool')}*${title}${error}`;
+}
+
+function buildButtons(actions: BridgeAction[]): SlackBlock {
+  return {
+    type: 'actions',
+    elements: actions.map((a, idx) => ({
+      type: 'button',
+      action_id: `bridge_action_${idx}`,
+      text: { type: 'plain_text', text: a.label, emoji: true },
+      value: a.value,
+      ...(a.style === 'primary' || a.style === 'danger' ? { style: a.style } : {}),
+    })),
+  };
+}
+
+function buildBlocks(sections: SlackSections): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+
+  if (trimSafe(sections.command)) {
+    blocks.push(...titledSections('*🧭 Command*', sections.command));
+  }
+
+  if (trimSafe(sections.thinking)) {
+    const thinking = ellipsize(trimSafe(sections.thinking), CONTEXT_TEXT_LIMIT - 4, 'tail');
+    blocks.push(context(`💭 ${escapeSlackText(thinking)}`));
+  }
+
+  if (sections.tools.length > 0) {
+    const hidden = sections.tools.length - MAX_TOOL_BLOCKS;
+    if (hidden > 0) blocks.push(context(`… ${hidden} earlier step(s)`));
+    for (const tool of sections.tools.slice(-MAX_TOOL_BLOCKS)) {
+      blocks.push(context(ellipsize(formatToolLine(tool), CONTEXT_TEXT_LIMIT)));
+    }
+  }
+
+  if (sections.files.length > 0) {
+    const lines = sections.files.map((f, idx) => {
+      const name = escapeSlackText(f.filename || `file-${idx + 1}`);
+      return /^https?:\/\//.test(f.url) ? `• <${f.url}|${name}>` : `• ${name}`;
+    });
+    blocks.push(section(ellipsize(`*🖼️ Files*\n${lines.join('\n')}`, SECTION_TEXT_LIMIT)));
+  }
+
+  if (trimSafe(sections.error)) blocks.push(...titledSections('*🚨 Error*', sections.error));
+
+  if (trimSafe(sections.answer)) {
+    for (const chunk of chunkMrkdwn(markdownToMrkdwn(trimSafe(sections.answer)))) {
+      blocks.push(section(chunk));
+    }
+  }
+
+  const status = trimSafe(sections.status);
+  if (status) {
+    blocks.push(
+      sections.plainStatus
+        ? section(ellipsize(markdownToMrkdwn(status), SECTION_TEXT_LIMIT))
+        : context(`✅ \`${escapeSlackText(status)}\``),
+    );
+  }
+
+  if (sections.streaming) {
+    blocks.push(buildButtons([{ label: '⏹️ Stop', value: 'abort', style: 'danger' }]));
+  }
+
+  return blocks;
+}
+
+function fallbackText(sections: SlackSections): string {
+  const body =
+    trimSafe(sections.answer) ||
+    trimSafe(sections.error) ||
+    trimSafe(sections.command) ||
+    (sections.plainStatus ? trimSafe(sections.status) : '') ||
+    (sections.tools.length > 0 ? '⚙️ …' : '') ||
+    (trimSafe(sections.thinking) ? '💭 …' : '');
+  return ellipsize(body, FALLBACK_TEXT_LIMIT);
+}
+
+export function renderSlack(content: BridgeMessageContent): SlackRendered {
+  const sections = isDisplayModel(content)
+    ? sectionsFromDisplayModel(content)
+    : sectionsFromMarkdown(content);
+  return { text: fallbackText(sections), blocks: buildBlocks(sections) };
+}
+
+export function renderSlackActionPrompt(prompt: BridgeActionPrompt): SlackRendered {
+  const body = markdownToMrkdwn(trimSafe(prompt.body));
+  const head = `*${escapeSlackText(prompt.title)}*`;
+  const blocks: SlackBlock[] = [section(ellipsize(`${head}\n${body}`, SECTION_TEXT_LIMIT))];
+  if (prompt.actions.length > 0) blocks.push(buildButtons(prompt.actions));
+  return { text: ellipsize(prompt.title, FALLBACK_TEXT_LIMIT), blocks };
+}
@@ -1,12 +1,30 @@
 // src/telegram/telegram.adapter.ts
-import type { BridgeAdapter, IncomingMessageHandler } from '../types';
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeCommandInfo,
+  BridgeMessageContent,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../types';
 import type { TelegramConfig } from '../types';
 import { TelegramClient } from './telegram.client';
-import { renderTelegram } from './telegram.renderer';
+import {
+  buildTelegramInlineKeyboard,
+  renderTelegram,
+  renderTelegramActionPrompt,
+} from './telegram.renderer';
 import { bridgeLogger } from '../logger';
+import { isDisplayModel, isRunDisplay } from '../bridge/display';
+import { TELEGRAM_PAGE_TEXT_LIMIT } from '../constants';
+
+const STOP_KEYBOARD = buildTelegramInlineKeyboard([
+  { label: '⏹️ Stop', value: 'abort', style: 'danger' },
+]);
 
 export class TelegramAdapter implements BridgeAdapter {
   provider: 'telegram' = 'telegram';
+  readonly pageTextLimit = TELEGRAM_PAGE_TEXT_LIMIT;
   private static readonly TELEGRAM_TEXT_LIMIT = 3900;
   private readonly client: TelegramClient;
   private readonly pendingTyping = new Map<string, ReturnType<typeof setInterval>>();
@@ -19,8 +37,12 @@ export class TelegramAdapter implements BridgeAdapter {
     this.client = new TelegramClient(config);
   }
 
-  async start(handler: IncomingMessageHandler) {
-    await this.client.start(handler);
+  async start(
+    handler: IncomingMessageHandler,
+    onAction?: IncomingActionHandler,
+    commands?: BridgeCommandInfo[],
+  ) {
+    await this.client.start(handler, onAction, commands);
     bridgeLogger.info('[Telegram] adapter started');
   }
 
@@ -34,9 +56,9 @@ export class TelegramAdapter implements BridgeAdapter {
     await this.client.stop();
   }
 
-  async sendMessage(chatId: string, markdown: string) {
-    if (!this.isStreamingFlowDisplay(markdown)) {
-      const rendered = this.normalizeForTelegram(renderTelegram(markdown));
+  async sendMessage(chatId: string, content: BridgeMessageContent) {
+    if (!this.isStreamingFlowDisplay(content)) {
+      const rendered = this.normalizeForTelegram(renderTelegram(content));
       const sent = await this.client.sendMessage(chatId, rendered);
       if (sent) {
         this.lastRenderedByMsg.set(this.flowMessageKey(chatId, sent), rendered);
@@ -52,25 +74,28 @@ export class TelegramAdapter implements BridgeAdapter {
     return virtualId;
   }
 
-  async editMessage(chatId: string, messageId: string, markdown: string) {
+  async editMessage(chatId: string, messageId: string, content: BridgeMessageContent) {
     const key = this.flowMessageKey(chatId, messageId);
     const resolvedMessageId = this.resolveMessageId(chatId, messageId);
     const targetMessageId = resolvedMessageId || messageId;
     const targetKey = this.flowMessageKey(chatId, targetMessageId);
-    const rendered = this.normalizeForTelegram(renderTelegram(markdown));
-    const isStreaming = this.isStreamingFlowDisplay(markdown);
-    const isFinal = this.isFinalFlowDisplay(markdown);
+    const rendered = this.normalizeForTelegram(renderTelegram(content));
+    const isStreaming = this.isStreamingFlowDisplay(content);
+    const isFinal = this.isFinalFlowDisplay(content);
+    const markup = isStreaming ? STOP_KEYBOARD : undefined;
+    // Keep the Stop button in the dedupe key so the final edit always strips it.
+    const renderedKey = isStreaming ? `${rendered}\u0000stop` : rendered;
     if (messageId.startsWith('typing:') && !this.pendingTyping.has(key)) {
       if (!resolvedMessageId) return false;
       if (this.freezeStreamingEdits.has(key) && isStreaming) return true;
       if (isFinal) this.freezeStreamingEdits.delete(key);
-      if (this.lastRenderedByMsg.get(targetKey) === rendered) {
+      if (this.lastRenderedByMsg.get(targetKey) === renderedKey) {
         if (!isStreaming) await this.clearPendingReactions(chatId);
         return true;
       }
-      const ok = await this.client.editMessage(chatId, resolvedMessageId, rendered);
+      const ok = await this.client.editMessage(chatId, resolvedMessageId, rendered, markup);
       if (ok) {
-        this.lastRenderedByMsg.set(targetKey, rendered);
+        this.lastRenderedByMsg.set(targetKey, renderedKey);
         if (!isStreaming) await this.clearPendingReactions(chatId);
       }
       return ok;
@@ -78,13 +103,13 @@ export class TelegramAdapter implements BridgeAdapter {
     if (!this.pendingTyping.has(key)) {
       if (this.freezeStreamingEdits.has(key) && isStreaming) return true;
       if (isFinal) this.freezeStreamingEdits.delete(key);
-      if (this.lastRenderedByMsg.get(targetKey) === rendered) {
+      if (this.lastRenderedByMsg.get(targetKey) === renderedKey) {
         if (!isStreaming) await this.clearPendingReactions(chatId);
         return true;
       }
-      const ok = await this.client.editMessage(chatId, targetMessageId, rendered);
+      const ok = await this.client.editMessage(chatId, targetMessageId, rendered, markup);
       if (ok) {
-        this.lastRenderedByMsg.set(targetKey, rendered);
+        this.lastRenderedByMsg.set(targetKey, renderedKey);
         if (!isStreaming) await this.clearPendingReactions(chatId);
       }
       return ok;
@@ -92,13 +117,13 @@ export class TelegramAdapter implements BridgeAdapter {
 
     if (isStreaming) {
       // Send one early preview message to reduce wait time, then freeze further streaming edits.
-      if (this.hasAnswerContent(markdown)) {
-        if (this.lastRenderedByMsg.get(targetKey) === rendered) return true;
-        const sent = await this.client.sendMessage(chatId, rendered);
+      if (this.hasAnswerContent(content)) {
+        if (this.lastRenderedByMsg.get(targetKey) === renderedKey) return true;
+        const sent = await this.client.sendMessage(chatId, rendered, STOP_KEYBOARD);
         if (sent) {
           this.virtualToRealMessage.set(key, sent);
           this.freezeStreamingEdits.add(key);
-          this.lastRenderedByMsg.set(this.flowMessageKey(chatId, sent), rendered);
+          this.lastRenderedByMsg.set(this.flowMessageKey(chatId, sent), renderedKey);
           this.stopTyping(key);
           bridgeLogger.info(
             `[Telegram] preview-send chat=${chatId} virtualMsg=${messageId} realMsg=${sent}`,
@@ -115,23 +140,44 @@ export class TelegramAdapter implements BridgeAdapter {
     this.freezeStreamingEdits.delete(key);
     bridgeLogger.info(`[Telegram] typing-stop chat=${chatId} virtualMsg=${messageId}`);
     if (resolvedMessageId) {
-      if (this.lastRenderedByMsg.get(targetKey) === rendered) {
+      if (this.lastRenderedByMsg.get(targetKey) === renderedKey) {
         await this.clearPendingReactions(chatId);
         return true;
       }
-      const ok = await this.client.editMessage(chatId, resolvedMessageId, rendered);
+      const ok = await this.client.editMessage(chatId, resolvedMessageId, rendered, markup);
       if (!ok) return false;
-      this.lastRenderedByMsg.set(targetKey, rendered);
+      this.lastRenderedByMsg.set(targetKey, renderedKey);
     } else {
       const sent = await this.client.sendMessage(chatId, rendered);
       if (!sent) return false;
       this.virtualToRealMessage.set(key, sent);
-      this.lastRenderedByMsg.set(this.flowMessageKey(chatId, sent), rendered);
+      this.lastRenderedByMsg.set(this.flowMessageKey(chatId, sent), renderedKey);
     }
     await this.clearPendingReactions(chatId);
     return true;
   }
 
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    return this.client.sendMessage(
+      chatId,
+      renderTelegramActionPrompt(prompt),
+      buildTelegramInlineKeyboard(prompt.actions),
+    );
+  }
+
+  async editActionPrompt(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    return this.client.editMessage(
+      chatId,
+      messageId,
+      renderTelegramActionPrompt(prompt),
+      buildTelegramInlineKeyboard(prompt.actions),
+    );
+  }
+
   async addReaction(messageRef: string, emojiType: string): Promise<string | null> {
     const emoji = this.mapEmoji(emojiType);
     const tryEmojis = emoji === '👍' ? ['👍'] : [emoji, '👍'];
@@ -185,31 +231,12 @@ export class TelegramAdapter implements BridgeAdapter {
     this.pendingTyping.delete(key);
   }
 
-  private statusLine(markdown: string): string {
-    const text = (markdown || '').trim();
-    const m = text.match(/##\s*Status\s*\n([^\n]+)/i);
-    return (m?.[1] || '').toLowerCase();
-  }
-
-  private isFlowDisplay(markdown: string): boolean {
-    return /##\s*Status/i.test((markdown || '').trim());
+  private isStreamingFlowDisplay(content: BridgeMessageContent): boolean {
+    return isRunDisplay(content) && content.status?.state === 'streaming';
   }
 
-  private isStreamingFlowDisplay(markdown: string): boolean {
-    if (!this.isFlowDisplay(markdown)) return false;
-    return this.statusLine(markdown).includes('streaming');
-  }
-
-  private isFinalFlowDisplay(markdown: string): boolean {
-    if (!this.isFlowDisplay(markdown)) return false;
-    const statusLine = this.statusLine(markdown);
-    if (statusLine.includes('streaming')) return false;
-    return (
-      statusLine.includes('done') ||
-      statusLine.includes('completed') ||
-      statusLine.includes('aborted') ||
-      statusLine.includes('error')
-    );
+  private isFinalFlowDisplay(content: BridgeMessageContent): boolean {
+    return isRunDisplay(content) && content.status?.state !== 'streaming';
   }
 
   private mapEmoji(emojiType: string): string {
@@ -222,11 +249,8 @@ export class TelegramAdapter implements BridgeAdapter {
     return this.virtualToRealMessage.get(this.flowMessageKey(chatId, messageId)) || null;
   }
 
-  private hasAnswerContent(markdown: string): boolean {
-    const text = (markdown || '').trim();
-    const m = text.match(/##\s*Answer\s*\n([\s\S]*?)(?:\n##\s+\S+|$)/i);
-    if (!m?.[1]) return false;
-    return m[1].trim().length > 0;
+  private hasAnswerContent(content: BridgeMessageContent): boolean {
+    return isDisplayModel(content) && content.kind === 'answer' && content.answer.trim().length > 0;
   }
 
   private normalizeForTelegram(text: string): string {
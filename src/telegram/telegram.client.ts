@@ -1,24 +1,40 @@
-import type { IncomingMessageHandler, TelegramConfig } from '../types';
+import type {
+  BridgeCommandInfo,
+  BridgeQuotedMessage,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+  TelegramConfig,
+} from '../types';
 import type { FilePartInput } from '@opencode-ai/sdk';
 import * as http from 'node:http';
 import { bridgeLogger } from '../logger';
 import { runtimeInstanceId, sleep } from '../utils';
+import { parseTelegramChatId, routeTelegramMessage, telegramTopicChatId } from './telegram.group';
 
 type TelegramUser = {
   id: number;
   is_bot?: boolean;
+  first_name?: string;
+  username?: string;
 };
 
 type TelegramChat = {
   id: number;
+  type?: string;
 };
 
 type TelegramMessage = {
   message_id: number;
+  /** Set on messages in a forum topic (`is_topic_message`) and on reply threads. */
+  message_thread_id?: number;
+  is_topic_message?: boolean;
   text?: string;
   caption?: string;
   from?: TelegramUser;
   chat: TelegramChat;
+  reply_to_message?: TelegramMessage;
+  /** The part of `reply_to_message` the user selected when quoting. */
+  quote?: { text: string };
   photo?: TelegramPhotoSize[];
   document?: TelegramDocument;
   video?: TelegramVideo;
@@ -29,11 +45,28 @@ type TelegramMessage = {
   sticker?: TelegramSticker;
 };
 
+type TelegramCallbackQuery = {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+};
+
 type TelegramUpdate = {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
 };
 
+export type TelegramInlineKeyboard = {
+  inline_keyboard: Array<Array<{ text: string; callback_data: string }>>;
+};
+
+const TELEGRAM_ALLOWED_UPDATES = ['message', 'callback_query'];
+const TELEGRAM_COMMAND_RE = /^[a-z0-9_]{1,32}$/;
+const TELEGRAM_COMMAND_DESC_LIMIT = 256;
+const TELEGRAM_COMMAND_LIMIT = 100;
+
 type TelegramPhotoSize = {
   file_id: string;
   file_unique_id?: string;
@@ -138,6 +171,23 @@ function isMessageNotModifiedError(err: unknown): boolean {
   return /message is not modified/i.test(msg);
 }
 
+// Forum topics get their own bridge chat; the General topic and reply threads stay in the group.
+function chatIdOfMessage(message: TelegramMessage): string {
+  const chatId = String(message.chat.id);
+  return message.is_topic_message && message.message_thread_id
+    ? telegramTopicChatId(chatId, message.message_thread_id)
+    : chatId;
+}
+
+// Inside a forum topic every message "replies" to the topic's service message; that is no quote.
+function repliedMessageOf(message: TelegramMessage): TelegramMessage | undefined {
+  const replied = message.reply_to_message;
+  if (!replied) return undefined;
+  const isTopicRoot =
+    message.is_topic_message && replied.message_id === message.message_thread_id;
+  return isTopicRoot ? undefined : replied;
+}
+
 function inferMimeFromFilename(filename?: string): string {
   const name = (filename || '').toLowerCase();
   if (name.endsWith('.png')) return 'image/png';
@@ -165,13 +215,27 @@ export class TelegramClient {
   private webhookPath = '/telegram/webhook';
   private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
   private readonly incomingMessageChatMap = new Map<string, string>();
+  private actionHandler?: IncomingActionHandler;
+  private bot?: TelegramUser;
 
   constructor(config: TelegramConfig) {
     this.config = config;
     this.baseUrl = `https://api.telegram.org/bot${config.bot_token}`;
   }
 
-  async start(handler: IncomingMessageHandler): Promise<void> {
+  async start(
+    handler: IncomingMessageHandler,
+    actionHandler?: IncomingActionHandler,
+    commands?: BridgeCommandInfo[],
+  ): Promise<void> {
+    this.actionHandler = actionHandler;
+    await this.loadBotIdentity();
+    if (commands && commands.length > 0) {
+      // The bot menu is cosmetic; never block or fail startup on it.
+      void this.syncCommandMenu(commands).catch(err => {
+        bridgeLogger.warn(`[Telegram] setMyCommands failed ${this.instanceTag}`, err);
+      });
+    }
     if (this.config.mode === 'webhook') {
       await this.startWebhook(handler);
       return;
@@ -179,6 +243,17 @@ export class TelegramClient {
     await this.startPolling(handler);
   }
 
+  /** Group routing needs the bot's username; without it any mention counts as ours. */
+  private async loadBotIdentity(): Promise<void> {
+    if (this.bot) return;
+    try {
+      this.bot = (await this.apiCall<TelegramUser>('getMe', {})) || undefined;
+      bridgeLogger.info(`[Telegram] bot=@${this.bot?.username || '?'} ${this.instanceTag}`);
+    } catch (err) {
+      bridgeLogger.warn(`[Telegram] getMe failed ${this.instanceTag}`, asError(err).message);
+    }
+  }
+
   async startPolling(handler: IncomingMessageHandler): Promise<void> {
     if (this.running) {
       bridgeLogger.info('[Telegram] polling already started');
@@ -215,40 +290,54 @@ export class TelegramClient {
     bridgeLogger.info('[Telegram] polling stopped');
   }
 
-  async sendMessage(chatId: string, text: string): Promise<string | null> {
+  async sendMessage(
+    chatId: string,
+    text: string,
+    replyMarkup?: TelegramInlineKeyboard,
+  ): Promise<string | null> {
     const content = clipTelegramText(text);
     if (!content.trim()) return null;
+    const markup = replyMarkup ? { reply_markup: replyMarkup } : {};
     let res: TelegramMessage | null = null;
     try {
       res = await this.apiCall<TelegramMessage>('sendMessage', {
-        chat_id: chatId,
+        ...parseTelegramChatId(chatId),
         text: content,
         parse_mode: 'HTML',
         disable_web_page_preview: true,
+        ...markup,
       });
     } catch (err) {
       if (!isParseEntityError(err)) throw err;
       bridgeLogger.warn('[Telegram] sendMessage parse_mode fallback to plain text');
       res = await this.apiCall<TelegramMessage>('sendMessage', {
-        chat_id: chatId,
+        ...parseTelegramChatId(chatId),
         text: clipTelegramText(stripTelegramHtml(content)),
         disable_web_page_preview: true,
+        ...markup,
       });
     }
     return res ? String(res.message_id) : null;
   }
 
-  async editMessage(chatId: string, messageId: string, text: string): Promise<boolean> {
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    text: string,
+    replyMarkup?: TelegramInlineKeyboard,
+  ): Promise<boolean> {
     const content = clipTelegramText(text);
     if (!content.trim()) return false;
+    const markup = replyMarkup ? { reply_markup: replyMarkup } : {};
     let res: TelegramMessage | null = null;
     try {
       res = await this.apiCall<TelegramMessage>('editMessageText', {
-        chat_id: chatId,
+        chat_id: parseTelegramChatId(chatId).chat_id,
         message_id: Number(messageId),
         text: content,
         parse_mode: 'HTML',
         disable_web_page_preview: true,
+        ...markup,
       });
     } catch (err) {
       if (isMessageNotModifiedError(err)) {
@@ -258,10 +347,11 @@ export class TelegramClient {
       bridgeLogger.warn('[Telegram] editMessage parse_mode fallback to plain text');
       try {
         res = await this.apiCall<TelegramMessage>('editMessageText', {
-          chat_id: chatId,
+          chat_id: parseTelegramChatId(chatId).chat_id,
           message_id: Number(messageId),
           text: clipTelegramText(stripTelegramHtml(content)),
           disable_web_page_preview: true,
+          ...markup,
         });
       } catch (plainErr) {
         if (isMessageNotModifiedError(plainErr)) {
@@ -273,9 +363,17 @@ export class TelegramClient {
     return Boolean(res);
   }
 
+  async answerCallbackQuery(callbackQueryId: string, text?: string): Promise<boolean> {
+    const res = await this.apiCall<boolean>('answerCallbackQuery', {
+      callback_query_id: callbackQueryId,
+      ...(text ? { text: text.slice(0, 200) } : {}),
+    });
+    return Boolean(res);
+  }
+
   async sendTyping(chatId: string): Promise<boolean> {
     const res = await this.apiCall<boolean>('sendChatAction', {
-      chat_id: chatId,
+      ...parseTelegramChatId(chatId),
       action: 'typing',
     });
     return Boolean(res);
@@ -283,7 +381,7 @@ export class TelegramClient {
 
   async setReaction(chatId: string, messageId: string, emoji: string): Promise<boolean> {
     const res = await this.apiCall<boolean>('setMessageReaction', {
-      chat_id: chatId,
+      chat_id: parseTelegramChatId(chatId).chat_id,
       message_id: Number(messageId),
       reaction: [{ type: 'emoji', emoji }],
       is_big: false,
@@ -293,7 +391,7 @@ export class TelegramClient {
 
   async clearReaction(chatId: string, messageId: string): Promise<boolean> {
     const res = await this.apiCall<boolean>('setMessageReaction', {
-      chat_id: chatId,
+      chat_id: parseTelegramChatId(chatId).chat_id,
       message_id: Number(messageId),
       reaction: [],
       is_big: false,
@@ -438,6 +536,13 @@ export class TelegramClient {
         }
         for (const update of updates) {
           this.updateOffset = update.update_id + 1;
+          // Button presses and slash commands (e.g. /abort) must not wait behind a running prompt.
+          if (update.callback_query || update.message?.text?.trim().startsWith('/')) {
+            void this.handleUpdate(update, handler).catch(err => {
+              bridgeLogger.warn(`[Telegram] update handling failed ${this.instanceTag}`, err);
+            });
+            continue;
+          }
           await this.handleUpdate(update, handler);
         }
       } catch (err) {
@@ -456,7 +561,7 @@ export class TelegramClient {
     const res = await this.apiCall<TelegramUpdate[]>('getUpdates', {
       offset: this.updateOffset,
       timeout: this.config.polling_timeout_sec,
-      allowed_updates: ['message'],
+      allowed_updates: TELEGRAM_ALLOWED_UPDATES,
     }, this.pollingAbortController?.signal);
     return Array.isArray(res) ? res : [];
   }
@@ -583,7 +688,7 @@ export class TelegramClient {
     if (!this.config.callback_url) return;
     const payload: Record<string, unknown> = {
       url: this.config.callback_url,
-      allowed_updates: ['message'],
+      allowed_updates: TELEGRAM_ALLOWED_UPDATES,
     };
     if (this.config.webhook_secret_token) {
       payload.secret_token = this.config.webhook_secret_token;
@@ -592,6 +697,18 @@ export class TelegramClient {
     bridgeLogger.info('[Telegram] setWebhook success');
   }
 
+  private async syncCommandMenu(commands: BridgeCommandInfo[]): Promise<void> {
+    const menu = commands
+      .map(c => ({
+        command: c.command.toLowerCase(),
+        description: c.description.trim().slice(0, TELEGRAM_COMMAND_DESC_LIMIT),
+      }))
+      .filter(c => TELEGRAM_COMMAND_RE.test(c.command) && c.description)
+      .slice(0, TELEGRAM_COMMAND_LIMIT);
+    await this.apiCall<boolean>('setMyCommands', { commands: menu });
+    bridgeLogger.info(`[Telegram] setMyCommands success count=${menu.length}`);
+  }
+
   private async deleteWebhook(dropPendingUpdates: boolean): Promise<void> {
     await this.apiCall<boolean>('deleteWebhook', {
       drop_pending_updates: dropPendingUpdates,
@@ -603,6 +720,11 @@ export class TelegramClient {
     update: TelegramUpdate,
     handler: IncomingMessageHandler,
   ): Promise<void> {
+    if (update.callback_query) {
+      await this.handleCallbackQuery(update.callback_query);
+      return;
+    }
+
     const message = update.message;
     if (!message) {
       bridgeLogger.debug(`[Telegram] skip update_id=${update.update_id} reason=no_message`);
@@ -615,7 +737,28 @@ export class TelegramClient {
       return;
     }
 
-    const text = (message.text || message.caption || '').trim();
+    const chatId = chatIdOfMessage(message);
+    const replied = repliedMessageOf(message);
+    const replyTo = replied?.from;
+    const route = routeTelegramMessage(
+      {
+        chatType: message.chat.type,
+        text: (message.text || message.caption || '').trim(),
+        replyToBot: Boolean(replyTo && (this.bot ? replyTo.id === this.bot.id : replyTo.is_bot)),
+      },
+      {
+        policy: this.config.group_policies[String(message.chat.id)] || this.config.group_policy,
+        botUsername: this.bot?.username,
+      },
+    );
+    if ('skip' in route) {
+      bridgeLogger.debug(
+        `[Telegram] skip update_id=${update.update_id} msg=${message.message_id} reason=${route.skip}`,
+      );
+      return;
+    }
+
+    const text = route.text;
     let fileParts: FilePartInput[] = [];
     try {
       fileParts = await this.buildFileParts(message);
@@ -631,14 +774,13 @@ export class TelegramClient {
       );
       return;
     }
-    if (/^\/start(?:@[A-Za-z0-9_]+)?(?:\s|$)/i.test(text)) {
+    if (/^\/start(?:\s|$)/i.test(text)) {
       bridgeLogger.info(
         `[Telegram] skip update_id=${update.update_id} msg=${message.message_id} reason=tg_start`,
       );
       return;
     }
 
-    const chatId = String(message.chat.id);
     const messageId = String(message.message_id);
     const senderId = String(message.from?.id ?? message.chat.id);
     this.incomingMessageChatMap.set(messageId, chatId);
@@ -647,10 +789,55 @@ export class TelegramClient {
       if (first) this.incomingMessageChatMap.delete(first);
     }
 
+    const resolveQuote = replied
+      ? () => this.buildQuote(replied, message.quote?.text)
+      : undefined;
+
+    bridgeLogger.info(
+      `[Telegram] incoming update_id=${update.update_id} chat=${chatId} sender=${senderId} msg=${messageId} textLen=${text.length} files=${fileParts.length} quote=${replied ? replied.message_id : '-'}`,
+    );
+    await handler(chatId, text, messageId, senderId, fileParts, resolveQuote);
+  }
+
+  private async buildQuote(
+    replied: TelegramMessage,
+    selectedText?: string,
+  ): Promise<BridgeQuotedMessage | undefined> {
+    let files: FilePartInput[] = [];
+    try {
+      files = await this.buildFileParts(replied);
+    } catch (err) {
+      bridgeLogger.warn(`[Telegram] build quoted file parts failed msg=${replied.message_id}`, err);
+    }
+    const text = (selectedText || replied.text || replied.caption || '').trim();
+    if (!text && files.length === 0) return undefined;
+    const from = replied.from;
+    return {
+      text,
+      author: from?.username ? `@${from.username}` : from?.first_name,
+      fromBot: Boolean(from && this.bot && from.id === this.bot.id),
+      files,
+    };
+  }
+
+  private async handleCallbackQuery(query: TelegramCallbackQuery): Promise<void> {
+    const chatId = query.message ? chatIdOfMessage(query.message) : '';
+    const messageId = query.message ? String(query.message.message_id) : '';
+    const senderId = String(query.from?.id ?? '');
+    const data = query.data || '';
     bridgeLogger.info(
-      `[Telegram] incoming update_id=${update.update_id} chat=${chatId} sender=${senderId} msg=${messageId} textLen=${text.length} files=${fileParts.length}`,
+      `[Telegram] callback_query chat=${chatId} sender=${senderId} msg=${messageId} data=${data}`,
     );
-    await handler(chatId, text, messageId, senderId, fileParts);
+
+    let reply: string | null = null;
+    if (chatId && data && this.actionHandler) {
+      reply = await this.actionHandler(chatId, data, senderId, messageId).catch(err => {
+        bridgeLogger.warn('[Telegram] callback_query handler failed', asError(err).message);
+        return null;
+      });
+    }
+    // Always answer, otherwise the client keeps the button spinner running.
+    await this.answerCallbackQuery(query.id, reply || undefined).catch(() => {});
   }
 
   private async apiCall<T>(
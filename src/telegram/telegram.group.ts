@@ -0,0 +1,79 @@
+// src/telegram/telegram.group.ts
+import type { BridgeGroupPolicy } from '../types';
+import { THREAD_CHAT_SEPARATOR, threadParentChatId } from '../utils';
+
+export type TelegramRouteInput = {
+  chatType?: string; // `private` | `group` | `supergroup` | `channel`
+  text: string;
+  /** The message replies to one the bot sent. */
+  replyToBot: boolean;
+};
+
+export type TelegramRouteOptions = {
+  policy: BridgeGroupPolicy;
+  /** From `getMe`; unknown means any @mention or `/cmd@bot` counts as ours. */
+  botUsername?: string;
+};
+
+export type TelegramRoute =
+  | { text: string }
+  | { skip: 'other_bot' | 'no_mention' | 'not_command' };
+
+const COMMAND_RE = /^\/([A-Za-z0-9_]+)(?:@([A-Za-z0-9_]+))?(?=\s|$)/;
+const MENTION_RE = /(^|\s)@([A-Za-z0-9_]{5,32})\b/g;
+
+/** `-100123` + topic `42` -> `-100123#42`: every forum topic is its own chat and session. */
+export function telegramTopicChatId(chatId: string, threadId: number): string {
+  return `${chatId}${THREAD_CHAT_SEPARATOR}${threadId}`;
+}
+
+/** Bot API target of a bridge chat id; topic chats carry their `message_thread_id`. */
+export function parseTelegramChatId(chatId: string): {
+  chat_id: string;
+  message_thread_id?: number;
+} {
+  const parent = threadParentChatId(chatId);
+  const threadId = parent ? Number(chatId.slice(parent.length + 1)) : NaN;
+  if (!parent || !Number.isInteger(threadId)) return { chat_id: chatId };
+  return { chat_id: parent, message_thread_id: threadId };
+}
+
+export function isTelegramGroup(chatType?: string): boolean {
+  return chatType === 'group' || chatType === 'supergroup';
+}
+
+/**
+ * `/cmd@otherbot` is never ours. `/cmd@ourbot` loses its suffix so the command registry
+ * sees `/cmd`. In groups the policy decides what else gets through: `mention` wants an
+ * @mention, a reply to the bot or an addressed command; `commands` any command; `all` anything.
+ */
+export function routeTelegramMessage(
+  input: TelegramRouteInput,
+  options: TelegramRouteOptions,
+): TelegramRoute {
+  const bot = options.botUsername?.toLowerCase();
+  let text = input.text;
+  let addressed = false;
+
+  const command = text.match(COMMAND_RE);
+  if (command?.[2]) {
+    if (bot && command[2].toLowerCase() !== bot) return { skip: 'other_bot' };
+    text = `/${command[1]}${text.slice(command[0].length)}`;
+    addressed = true;
+  }
+
+  let mentioned = false;
+  text = text.replace(MENTION_RE, (match, lead: string, name: string) => {
+    if (bot && name.toLowerCase() !== bot) return match;
+    mentioned = true;
+    return bot ? lead : match;
+  });
+  text = text.trim();
+
+  if (!isTelegramGroup(input.chatType)) return { text };
+  if (options.policy === 'commands' && !command) return { skip: 'not_command' };
+  if (options.policy === 'mention' && !addressed && !mentioned && !input.replyToBot) {
+    return { skip: 'no_mention' };
+  }
+  return { text };
+}
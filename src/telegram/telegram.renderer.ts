@@ -1,4 +1,23 @@
 // src/telegram/telegram.renderer.ts
+import type {
+  BridgeAction,
+  BridgeActionPrompt,
+  BridgeMessageContent,
+  DisplayModel,
+} from '../types';
+import type { TelegramInlineKeyboard } from './telegram.client';
+import { formatFilesMarkdown, formatStatusLines, isDisplayModel } from '../bridge/display';
+
+type TelegramSections = {
+  command: string;
+  error: string;
+  thinking: string;
+  answer: string;
+  toolPanelCount: number;
+  files: string;
+  status: string;
+};
+
 function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
@@ -128,8 +147,27 @@ function splitToolsIntoExecutionPanels(rawTools: string): string[] {
   return panels;
 }
 
-function buildTelegramMarkdown(markdown: string): string {
-  const sections = parseSections(markdown);
+function sectionsFromMarkdown(markdown: string): TelegramSections {
+  const { command, error, thinking, answer, tools, files, status } = parseSections(markdown);
+  const toolPanelCount = trimSafe(tools)
+    ? Math.max(1, splitToolsIntoExecutionPanels(tools).length)
+    : 0;
+  return { command, error, thinking, answer, toolPanelCount, files, status };
+}
+
+function sectionsFromDisplayModel(model: DisplayModel): TelegramSections {
+  return {
+    command: model.kind === 'command' ? model.answer : '',
+    error: model.kind === 'error' ? model.answer : '',
+    thinking: model.reasoning,
+    answer: model.kind === 'answer' ? model.answer : '',
+    toolPanelCount: model.tools.length,
+    files: formatFilesMarkdown(model.files),
+    status: model.kind === 'status' ? model.answer : formatStatusLines(model).join('\n'),
+  };
+}
+
+function buildTelegramMarkdown(sections: TelegramSections): string {
   const out: string[] = [];
 
   const pushSection = (title: string, content: string) => {
@@ -147,12 +185,11 @@ function buildTelegramMarkdown(markdown: string): string {
     out.push('');
   }
 
-  const tools = trimSafe(sections.tools);
-  if (tools) {
+  if (sections.toolPanelCount > 0) {
     out.push('## Tools / Steps');
-    const panels = splitToolsIntoExecutionPanels(tools);
-    if (panels.length === 0) out.push('⚙️ Execution #1');
-    else panels.forEach((_, idx) => out.push(`⚙️ Execution #${idx + 1}`));
+    for (let idx = 0; idx < sections.toolPanelCount; idx++) {
+      out.push(`⚙️ Execution #${idx + 1}`);
+    }
     out.push('');
   }
 
@@ -174,10 +211,8 @@ function buildTelegramMarkdown(markdown: string): string {
   return out.join('\n').trim();
 }
 
-export function renderTelegram(markdown: string): string {
-  let text = buildTelegramMarkdown(markdown).trim();
-  if (!text) return '';
-
+function renderTelegramHtml(markdown: string): string {
+  let text = markdown;
   const codeBlocks: string[] = [];
   text = text.replace(/```(?:[a-zA-Z0-9_-]+)?\n?([\s\S]*?)```/g, (_, code: string) => {
     const html = `<pre><code>${escapeHtml((code || '').trim())}</code></pre>`;
@@ -205,3 +240,21 @@ export function renderTelegram(markdown: string): string {
   text = restoreCodeBlocks(text, codeBlocks);
   return text;
 }
+
+export function renderTelegram(content: BridgeMessageContent): string {
+  const sections = isDisplayModel(content)
+    ? sectionsFromDisplayModel(content)
+    : sectionsFromMarkdown(content);
+  const text = buildTelegramMarkdown(sections).trim();
+  if (!text) return '';
+  return renderTelegramHtml(text);
+}
+
+export function renderTelegramActionPrompt(prompt: BridgeActionPrompt): string {
+  return `<b>${escapeHtml(prompt.title)}</b>\n${renderTelegramHtml(trimSafe(prompt.body))}`;
+}
+
+export function buildTelegramInlineKeyboard(actions: BridgeAction[]): TelegramInlineKeyboard {
+  const row = actions.map(a => ({ text: a.label, callback_data: a.value }));
+  return { inline_keyboard: row.length > 0 ? [row] : [] };
+}
@@ -1,41 +1,312 @@
 // src/types.ts
 import type { FilePartInput, TextPartInput } from '@opencode-ai/sdk';
 
+/** The message a user replied to or quoted; the incoming flow puts it in front of the prompt. */
+export type BridgeQuotedMessage = {
+  text: string;
+  /** Display name or platform id of the quoted author. */
+  author?: string;
+  /** The quoted message is one of the bot's own answers. */
+  fromBot?: boolean;
+  files?: FilePartInput[];
+};
+
+/**
+ * Loads the quoted message on demand. The incoming flow only calls it once access and command
+ * handling let the message through as a prompt, so denied senders and `/cmd` replies cost no
+ * API calls or downloads.
+ */
+export type BridgeQuoteResolver = () => Promise<BridgeQuotedMessage | undefined>;
+
 export type IncomingMessageHandler = (
   chatId: string,
   text: string,
   messageId: string,
   senderId: string,
   parts?: Array<TextPartInput | FilePartInput>,
+  resolveQuote?: BridgeQuoteResolver,
 ) => Promise<void>;
 
+/** Returns a short acknowledgement shown to the clicking user (toast / callback answer). */
+export type IncomingActionHandler = (
+  chatId: string,
+  value: string,
+  senderId: string,
+  messageId: string,
+) => Promise<string | null>;
+
+export type BridgeAction = {
+  label: string;
+  value: string;
+  style?: 'primary' | 'danger' | 'default';
+};
+
+export type BridgeActionPrompt = {
+  title: string;
+  body: string;
+  actions: BridgeAction[];
+};
+
+export type DisplayKind = 'answer' | 'command' | 'error' | 'status';
+
+export type DisplayToolView = {
+  callID: string;
+  tool: string;
+  status: 'pending' | 'running' | 'completed' | 'error';
+  title?: string;
+  input?: string; // already serialized and clipped
+  output?: string;
+  error?: string;
+  start?: number;
+  end?: number;
+};
+
+export type DisplayFile = { filename?: string; mime: string; url: string };
+
+export type DisplayRunStatus = {
+  state: 'streaming' | 'done' | 'aborted' | 'error';
+  note?: string;
+};
+
+/**
+ * What a chat message should show, independent of any platform markup.
+ * `answer` carries the body for every kind; `status` is only set for agent runs.
+ */
+export type DisplayModel = {
+  kind: DisplayKind;
+  answer: string;
+  reasoning: string;
+  tools: DisplayToolView[];
+  files: DisplayFile[];
+  status?: DisplayRunStatus;
+  agent?: string;
+  model?: string;
+  /** Set when a long answer is split across messages; only the last page is still live. */
+  page?: { number: number; last: boolean };
+};
+
+/** Markdown strings are still accepted as a fallback for simple replies. */
+export type BridgeMessageContent = string | DisplayModel;
+
+/** Platform command menu entry (e.g. Telegram `setMyCommands`). */
+export type BridgeCommandInfo = {
+  command: string;
+  description: string;
+};
+
 export interface BridgeAdapter {
-  start(onMessage: IncomingMessageHandler): Promise<void>;
+  /** Answer characters per message before paging; `PAGE_TEXT_LIMIT` when unset. */
+  pageTextLimit?: number;
+
+  start(
+    onMessage: IncomingMessageHandler,
+    onAction?: IncomingActionHandler,
+    commands?: BridgeCommandInfo[],
+  ): Promise<void>;
 
   stop?(): Promise<void>;
 
-  sendMessage(chatId: string, text: string): Promise<string | null>;
+  sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null>;
 
-  editMessage(chatId: string, messageId: string, text: string): Promise<boolean>;
+  editMessage(chatId: string, messageId: string, content: BridgeMessageContent): Promise<boolean>;
 
   addReaction?(messageId: string, emojiType: string): Promise<string | null>;
 
   removeReaction?(messageId: string, reactionId: string): Promise<void>;
+
+  sendActionPrompt?(chatId: string, prompt: BridgeActionPrompt): Promise<string | null>;
+
+  editActionPrompt?(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean>;
 }
 
-export interface FeishuConfig {
+export type BridgeRole = 'viewer' | 'member' | 'admin';
+
+/** Empty or missing lists mean "no restriction"; admins bypass both allowlists. */
+export interface BridgeAccessConfig {
+  allowed_chat_ids?: string[];
+  allowed_sender_ids?: string[];
+  admin_sender_ids?: string[];
+  member_sender_ids?: string[];
+  viewer_sender_ids?: string[];
+  default_role?: BridgeRole;
+}
+
+/** Which group messages reach OpenCode: @mentions of the bot, everything, or slash commands. */
+export type BridgeGroupPolicy = 'mention' | 'all' | 'commands';
+
+/** `queue` runs follow-ups as separate turns; `merge` sends them into the running turn. */
+export type BridgeQueueMode = 'queue' | 'merge';
+
+export interface BridgeQueueConfig {
+  queue_mode?: BridgeQueueMode;
+}
+
+export interface FeishuConfig extends BridgeAccessConfig, BridgeQueueConfig {
   app_id: string;
   app_secret: string;
   mode: 'ws' | 'webhook';
   callback_url?: string;
   encrypt_key?: string;
+  state_file?: string;
+  group_policy: BridgeGroupPolicy;
+  /** Per-chat overrides of `group_policy`, keyed by `chat_id`. */
+  group_policies: Record<string, BridgeGroupPolicy>;
+  /** Give every group thread its own session and answer inside the thread. */
+  thread_sessions: boolean;
 }
 
-export interface TelegramConfig {
+export interface TelegramConfig extends BridgeAccessConfig, BridgeQueueConfig {
   mode: 'polling' | 'webhook';
   bot_token: string;
   polling_timeout_sec: number;
   polling_interval_ms: number;
   callback_url?: string;
   webhook_secret_token?: string;
+  state_file?: string;
+  group_policy: BridgeGroupPolicy;
+  /** Per-group overrides of `group_policy`, keyed by `chat.id`. */
+  group_policies: Record<string, BridgeGroupPolicy>;
+}
+
+export interface SlackConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  /** `socket` = Socket Mode (no public URL needed); `webhook` = HTTP Events API. */
+  mode: 'socket' | 'webhook';
+  bot_token: string;
+  app_token?: string;
+  signing_secret?: string;
+  callback_url?: string;
+  /** Slack slash command that forwards its text as a bridge command, e.g. `/opencode status`. */
+  slash_command: string;
+  /** Web API base; only overridden to point at a mock server. */
+  api_base_url: string;
+  state_file?: string;
+}
+
+export interface DiscordConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  bot_token: string;
+  /** Start a thread per conversation in guild channels; each thread is its own session. */
+  use_threads: boolean;
+  /** In guild channels only answer mentions; threads the bot started never need one. */
+  require_mention: boolean;
+  /** REST base; only overridden to point at a mock server. */
+  api_base_url: string;
+  state_file?: string;
+}
+
+export interface DingTalkConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  /** AppKey / AppSecret of the DingTalk app; messages arrive over Stream Mode. */
+  client_id: string;
+  client_secret: string;
+  /** Robot code used to send as the bot; defaults to `client_id`. */
+  robot_code: string;
+  /** OpenAPI base; only overridden to point at a mock server. */
+  api_base_url: string;
+  state_file?: string;
+}
+
+export interface WeComConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  corp_id: string;
+  agent_id: string;
+  /** Secret of the self-built app (`corpsecret`). */
+  secret: string;
+  /** Token and EncodingAESKey of the app's "receive messages" callback. */
+  token: string;
+  encoding_aes_key: string;
+  callback_url: string;
+  /** API base; only overridden to point at a mock server. */
+  api_base_url: string;
+  state_file?: string;
+}
+
+export interface MatrixConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  /** Client-server API base, e.g. `https://matrix.example.org` or a pantalaimon proxy. */
+  homeserver_url: string;
+  access_token: string;
+  /** Join rooms the bot is invited to. */
+  auto_join: boolean;
+  /** In rooms with more than two members only answer messages that mention the bot. */
+  require_mention: boolean;
+  state_file?: string;
+}
+
+export interface EmailConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  /** `imap` polls a mailbox; `handoff` receives mail from a local MTA over SMTP. */
+  mode: 'imap' | 'handoff';
+  /** The bridge's own address: the From of every reply. */
+  address: string;
+  username: string;
+  password: string;
+  /** Outgoing server: `smtps://host:465`, or `smtp://host:587` with STARTTLS when offered. */
+  smtp_url: string;
+  /** `imaps://host:993` (or plain `imap://` for a local server); required in imap mode. */
+  imap_url?: string;
+  mailbox: string;
+  poll_interval_ms: number;
+  /** Where the hand-off SMTP server listens, e.g. `smtp://127.0.0.1:2525`. */
+  handoff_listen_url?: string;
+  state_file?: string;
+}
+
+export interface IMessageConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  /** How the bridge reaches Messages.app; only the BlueBubbles server API for now. */
+  transport: 'bluebubbles';
+  /** BlueBubbles server base URL, e.g. `http://192.168.1.20:1234`. */
+  server_url: string;
+  /** BlueBubbles server password, sent as the `password` query parameter. */
+  password: string;
+  /** `private-api` needs the BlueBubbles helper bundle; `apple-script` works everywhere. */
+  send_method: 'apple-script' | 'private-api';
+  poll_interval_ms: number;
+  state_file?: string;
+}
+
+export interface HttpConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  /** Where the REST/SSE server listens; its path is the prefix of every route. */
+  listen_url: string;
+  /** Bearer token every request must present. */
+  auth_token: string;
+  /** `Access-Control-Allow-Origin` for browser front-ends; unset disables CORS. */
+  cors_origin?: string;
+  state_file?: string;
+}
+
+export interface ConsoleConfig extends BridgeAccessConfig, BridgeQueueConfig {
+  /** The single chat the terminal speaks for, and who it speaks as. */
+  chat_id: string;
+  sender_id: string;
+  /** Named pipe / file to read lines from instead of stdin; reopened after each writer. */
+  input_path?: string;
+  /** File or tty device (e.g. another terminal's `/dev/pts/N`) to print to instead of stdout. */
+  output_path?: string;
+  state_file?: string;
+}
+
+/** Routing state of one chat as seen by the bridge, for adapters that expose it. */
+export type BridgeChatState = {
+  session_id: string | null;
+  agent: string | null;
+  model: { providerID: string; modelID: string; name?: string } | null;
+  busy: boolean;
+  queued: number;
+};
+
+export type BridgeStateSnapshot = {
+  version: 1;
+  sessionCache: Record<string, string>;
+  sessionToAdapterKey: Record<string, string>;
+  sessionToCtx: Record<string, { chatId: string; senderId: string }>;
+  chatAgent: Record<string, string>;
+  chatModel: Record<string, { providerID: string; modelID: string; name?: string }>;
+  chatMaxFileSizeMb: Record<string, number>;
+  chatMaxFileRetry: Record<string, number>;
+};
+
+export interface BridgeStateStore {
+  load(): Promise<BridgeStateSnapshot | null>;
+
+  save(snapshot: BridgeStateSnapshot): Promise<void>;
 }
@@ -1,9 +1,26 @@
 // src/utils.ts
 import { Config } from '@opencode-ai/sdk';
 import type { BridgeGlobalState } from './global.state';
+import { bridgeLogger } from './logger';
+import type {
+  BridgeAccessConfig,
+  BridgeGroupPolicy,
+  BridgeQueueMode,
+  BridgeRole,
+} from './types';
 import {
+  AGENT_DINGTALK,
+  AGENT_DISCORD,
+  AGENT_HTTP,
+  AGENT_MATRIX,
+  AGENT_SLACK,
   AGENT_TELEGRAM,
   BRIDGE_AGENT_IDS,
+  DINGTALK_UPDATE_INTERVAL,
+  DISCORD_UPDATE_INTERVAL,
+  HTTP_UPDATE_INTERVAL,
+  MATRIX_UPDATE_INTERVAL,
+  SLACK_UPDATE_INTERVAL,
   TELEGRAM_UPDATE_INTERVAL,
   UPDATE_INTERVAL,
 } from './constants';
@@ -19,6 +36,15 @@ export const DEFAULT_MAX_FILE_MB = 10;
 export const DEFAULT_MAX_FILE_RETRY = 3;
 export const ERROR_HEADER = '## Error';
 
+/** Separates a chat id from a thread inside it (`oc_x#om_root`); such a thread is its own chat. */
+export const THREAD_CHAT_SEPARATOR = '#';
+
+/** The chat a thread chat lives in, or undefined for plain chat ids. */
+export function threadParentChatId(chatId: string): string | undefined {
+  const at = chatId.indexOf(THREAD_CHAT_SEPARATOR);
+  return at > 0 ? chatId.slice(0, at) : undefined;
+}
+
 export function parseSlashCommand(text: string): { command: string; arguments: string } | null {
   const trimmed = text.trim();
   if (!trimmed.startsWith('/')) return null;
@@ -41,14 +67,182 @@ export function isEnabled(cfg: Config | undefined, key: string): boolean {
   return true;
 }
 
+/** One configured bot of a platform; `key` names it in `AdapterMux` and in persisted routing. */
+export type BridgeInstance = {
+  key: string;
+  name?: string;
+  options: Record<string, unknown>;
+  defaultAgent?: string;
+};
+
+const INSTANCE_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+const LISTENER_OPTIONS = ['callback_url', 'listen_url', 'handoff_listen_url'];
+
+function listenerPort(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  try {
+    const url = new URL(value.startsWith('http') ? value : `http://${value}`);
+    return url.port || (url.protocol === 'https:' ? '443' : '80');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Expands `agent[agentId].options` into the bots to start. Without `instances` this is the single
+ * bot keyed by the bare agent id, as before. With `instances`, every entry is one bot keyed
+ * `${agentId}/${name}`: its options are the shared options overridden by the entry, so common
+ * settings (access lists, queue mode) are written once.
+ */
+export function listBridgeInstances(cfg: Config | undefined, agentId: string): BridgeInstance[] {
+  if (!isEnabled(cfg, agentId)) return [];
+  const { instances, ...shared } = asRecord(cfg?.agent?.[agentId]?.options);
+  const defaultAgentOf = (options: Record<string, unknown>) =>
+    typeof options.default_agent === 'string' && options.default_agent.trim()
+      ? options.default_agent.trim()
+      : undefined;
+  if (instances === undefined) {
+    return [{ key: agentId, options: shared, defaultAgent: defaultAgentOf(shared) }];
+  }
+  if (!Array.isArray(instances) || instances.length === 0) {
+    throw new Error(`[Plugin] options.instances of ${agentId} must be a non-empty list`);
+  }
+
+  const result: BridgeInstance[] = [];
+  const ports = new Map<string, string>(); // port -> `instance key (option)` listening on it
+  for (const entry of instances) {
+    const own = asRecord(entry);
+    const name = typeof own.name === 'string' ? own.name.trim() : '';
+    if (name && !INSTANCE_NAME_RE.test(name)) {
+      throw new Error(`[Plugin] Invalid instance name for ${agentId}: ${name}`);
+    }
+    const key = name ? `${agentId}/${name}` : agentId;
+    if (result.some(instance => instance.key === key)) {
+      throw new Error(`[Plugin] Duplicate instance of ${agentId}: ${name || '(unnamed)'}`);
+    }
+    if (parseBoolean(own.disable, false)) continue;
+
+    const options = { ...shared, ...own };
+    delete options.name;
+    delete options.disable;
+    for (const option of LISTENER_OPTIONS) {
+      const port = listenerPort(options[option]);
+      if (!port) continue;
+      const owner = ports.get(port);
+      if (owner) {
+        throw new Error(`[Plugin] ${owner} and ${key} (${option}) both listen on port ${port}`);
+      }
+      ports.set(port, `${key} (${option})`);
+    }
+    result.push({ key, name: name || undefined, options, defaultAgent: defaultAgentOf(options) });
+  }
+  return result;
+}
+
+/** `feishu-bridge/sales` -> `feishu-bridge`; a bare agent id is returned as is. */
+export function agentIdOfAdapterKey(adapterKey: string): string {
+  const slash = adapterKey.indexOf('/');
+  return slash < 0 ? adapterKey : adapterKey.slice(0, slash);
+}
+
 export function asRecord(value: unknown): Record<string, unknown> {
   return value && typeof value === 'object' && !Array.isArray(value)
     ? (value as Record<string, unknown>)
     : {};
 }
 
+export function parseStateFile(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Accepts `["a", "b"]`, `[123]` or `"a, b"`; returns undefined when nothing usable is given.
+export function parseIdList(value: unknown): string[] | undefined {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : typeof value === 'number'
+        ? [value]
+        : [];
+  const ids = raw
+    .filter(v => typeof v === 'string' || typeof v === 'number')
+    .map(v => String(v).trim())
+    .filter(Boolean);
+  return ids.length > 0 ? Array.from(new Set(ids)) : undefined;
+}
+
+export function parseBridgeRole(value: unknown): BridgeRole | undefined {
+  const role = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return role === 'viewer' || role === 'member' || role === 'admin' ? role : undefined;
+}
+
+export function parseAccessConfig(options: Record<string, unknown>): BridgeAccessConfig {
+  return {
+    allowed_chat_ids: parseIdList(options.allowed_chat_ids),
+    allowed_sender_ids: parseIdList(options.allowed_sender_ids),
+    admin_sender_ids: parseIdList(options.admin_sender_ids),
+    member_sender_ids: parseIdList(options.member_sender_ids),
+    viewer_sender_ids: parseIdList(options.viewer_sender_ids),
+    default_role: parseBridgeRole(options.default_role),
+  };
+}
+
+// Accepts booleans and the usual string spellings (`"true"`, `"off"`, ...); anything else -> fallback.
+export function parseBoolean(value: unknown, fallback: boolean): boolean {
+  if (typeof value === 'boolean') return value;
+  const raw = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (['1', 'true', 'yes', 'on'].includes(raw)) return true;
+  if (['0', 'false', 'no', 'off'].includes(raw)) return false;
+  return fallback;
+}
+
+export function parseQueueMode(value: unknown): BridgeQueueMode | undefined {
+  const mode = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return mode === 'queue' || mode === 'merge' ? mode : undefined;
+}
+
+export function parseGroupPolicy(value: unknown): BridgeGroupPolicy | undefined {
+  const policy = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return policy === 'mention' || policy === 'all' || policy === 'commands' ? policy : undefined;
+}
+
+/** The adapter-wide `group_policy`: `mention` when unset, and when invalid after a warning. */
+export function parseDefaultGroupPolicy(value: unknown, agentId: string): BridgeGroupPolicy {
+  const policy = parseGroupPolicy(value);
+  if (policy) return policy;
+  if (value !== undefined && value !== null && value !== '') {
+    bridgeLogger.warn(
+      `[Plugin] Invalid group_policy for ${agentId}: ${JSON.stringify(value)}, using "mention"`,
+    );
+  }
+  return 'mention';
+}
+
+/** `{ "<chat id>": "all" }` overrides; invalid entries are logged and dropped. */
+export function parseGroupPolicies(
+  value: unknown,
+  agentId: string,
+): Record<string, BridgeGroupPolicy> {
+  const policies: Record<string, BridgeGroupPolicy> = {};
+  for (const [chatId, raw] of Object.entries(asRecord(value))) {
+    const policy = parseGroupPolicy(raw);
+    if (policy) {
+      policies[chatId] = policy;
+    } else {
+      bridgeLogger.warn(`[Plugin] Ignoring invalid group policy for ${agentId} chat=${chatId}`);
+    }
+  }
+  return policies;
+}
+
 export function getUpdateIntervalByAdapter(adapterKey?: string): number {
-  if (adapterKey === AGENT_TELEGRAM) return TELEGRAM_UPDATE_INTERVAL;
+  const agentId = adapterKey && agentIdOfAdapterKey(adapterKey);
+  if (agentId === AGENT_TELEGRAM) return TELEGRAM_UPDATE_INTERVAL;
+  if (agentId === AGENT_SLACK) return SLACK_UPDATE_INTERVAL;
+  if (agentId === AGENT_DISCORD) return DISCORD_UPDATE_INTERVAL;
+  if (agentId === AGENT_DINGTALK) return DINGTALK_UPDATE_INTERVAL;
+  if (agentId === AGENT_MATRIX) return MATRIX_UPDATE_INTERVAL;
+  if (agentId === AGENT_HTTP) return HTTP_UPDATE_INTERVAL;
   return UPDATE_INTERVAL;
 }
 
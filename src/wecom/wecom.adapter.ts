@@ -0,0 +1,132 @@
+// src/wecom/wecom.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeMessageContent,
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+  WeComConfig,
+} from '../types';
+import { WeComClient } from './wecom.client';
+import {
+  renderWeComActionPromptCard,
+  renderWeComMarkdown,
+  renderWeComPromptMarkdown,
+} from './wecom.renderer';
+import { bridgeLogger } from '../logger';
+import { isDisplayModel, isRunDisplay } from '../bridge/display';
+import { simpleHash } from '../bridge/buffer';
+import { WECOM_PAGE_TEXT_LIMIT } from '../constants';
+
+/**
+ * WeCom application messages cannot be edited, so a streaming run gets a virtual message id
+ * and nothing is sent until the run (or a frozen page) is final, which is sent exactly once.
+ */
+export class WeComAdapter implements BridgeAdapter {
+  provider: 'wecom' = 'wecom';
+  readonly pageTextLimit = WECOM_PAGE_TEXT_LIMIT;
+  private readonly client: WeComClient;
+  private readonly pendingRuns = new Set<string>();
+
+  constructor(config: WeComConfig) {
+    this.client = new WeComClient(config);
+  }
+
+  async start(handler: IncomingMessageHandler, onAction?: IncomingActionHandler) {
+    await this.client.start(handler, onAction);
+    bridgeLogger.info('[WeCom] adapter started');
+  }
+
+  async stop() {
+    this.pendingRuns.clear();
+    await this.client.stop();
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent): Promise<string | null> {
+    if (this.isStreaming(content)) {
+      const virtualId = this.newVirtualMessageId();
+      this.pendingRuns.add(this.flowMessageKey(chatId, virtualId));
+      return virtualId;
+    }
+    await this.sendFiles(chatId, content);
+    return this.client.sendMarkdown(chatId, renderWeComMarkdown(content));
+  }
+
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: BridgeMessageContent,
+  ): Promise<boolean> {
+    const key = this.flowMessageKey(chatId, messageId);
+    if (!this.pendingRuns.has(key)) {
+      // Already delivered; WeCom has no edit, and resending would duplicate the reply.
+      bridgeLogger.debug(`[WeCom] edit ignored chat=${chatId} msg=${messageId}`);
+      return true;
+    }
+    if (this.isStreaming(content)) return true;
+
+    this.pendingRuns.delete(key);
+    await this.sendFiles(chatId, content);
+    const sent = await this.client.sendMarkdown(chatId, renderWeComMarkdown(content));
+    bridgeLogger.info(
+      `[WeCom] final-send chat=${chatId} virtualMsg=${messageId} realMsg=${sent || ''}`,
+    );
+    return Boolean(sent);
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt): Promise<string | null> {
+    if (prompt.actions.length === 0) {
+      return this.client.sendMarkdown(chatId, renderWeComPromptMarkdown(prompt));
+    }
+    return this.client.sendTemplateCard(
+      chatId,
+      renderWeComActionPromptCard(prompt, this.newTaskId()),
+    );
+  }
+
+  /** Only the clicked card can be updated: its buttons collapse into the outcome line. */
+  async editActionPrompt(
+    chatId: string,
+    messageId: string,
+    prompt: BridgeActionPrompt,
+  ): Promise<boolean> {
+    const outcome = prompt.body.trim().split('\n').pop() || prompt.title;
+    return this.client.updateTemplateCard(chatId, messageId, outcome.slice(0, 20));
+  }
+
+  private isStreaming(content: BridgeMessageContent): boolean {
+    return isRunDisplay(content) && content.status?.state === 'streaming';
+  }
+
+  private flowMessageKey(chatId: string, messageId: string): string {
+    return `${chatId}:${messageId}`;
+  }
+
+  private newVirtualMessageId(): string {
+    return `pending:${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private newTaskId(): string {
+    return `bridge_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /** Files go out as their own messages right before the reply that lists them. */
+  private async sendFiles(chatId: string, content: BridgeMessageContent): Promise<void> {
+    if (!isDisplayModel(content)) return;
+    const sent = new Set<string>();
+    for (const file of content.files) {
+      const sig = this.fileSignature(file);
+      if (!file.url || sent.has(sig)) continue;
+      const ok = await this.client.sendFile(chatId, file).catch(err => {
+        bridgeLogger.warn(`[WeCom] file send failed chat=${chatId}`, err);
+        return false;
+      });
+      if (ok) sent.add(sig);
+    }
+  }
+
+  private fileSignature(file: DisplayFile): string {
+    return simpleHash(`${file.filename || ''}|${file.mime || ''}|${file.url || ''}`);
+  }
+}
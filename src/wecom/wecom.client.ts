@@ -0,0 +1,406 @@
+// src/wecom/wecom.client.ts
+import * as http from 'node:http';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import type {
+  DisplayFile,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+  WeComConfig,
+} from '../types';
+import { bridgeLogger } from '../logger';
+import { runtimeInstanceId } from '../utils';
+import { WeComCrypto, parseWeComXml } from './wecom.crypto';
+import type { WeComTemplateCard } from './wecom.renderer';
+
+type WeComApiResult = { errcode?: number; errmsg?: string };
+
+// 40001 / 40014 invalid, 42001 expired access_token: fetch a new token and retry once.
+const TOKEN_ERROR_CODES = new Set([40001, 40014, 42001]);
+const MEDIA_MSG_TYPES = new Set(['image', 'voice', 'video', 'file']);
+const WECOM_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+const WECOM_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+function asError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function decodeDataUrl(dataUrl: string): { mime: string; buffer: Buffer } | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mime: match[1], buffer: Buffer.from(match[2], 'base64') };
+}
+
+export class WeComClient {
+  private readonly config: WeComConfig;
+  private readonly crypto: WeComCrypto;
+  private webhookServer: http.Server | null = null;
+  private webhookPath = '/wecom/callback';
+  private accessToken = '';
+  private accessTokenExpiresAt = 0;
+  private refreshAccessTokenPromise?: Promise<string>;
+  private readonly instanceTag = `pid=${process.pid} instance=${runtimeInstanceId}`;
+  private readonly seenMessageIds = new Set<string>();
+  private readonly responseCodes = new Map<string, string>();
+  private handler?: IncomingMessageHandler;
+  private actionHandler?: IncomingActionHandler;
+
+  constructor(config: WeComConfig) {
+    this.config = config;
+    this.crypto = new WeComCrypto(config.token, config.encoding_aes_key, config.corp_id);
+  }
+
+  async start(handler: IncomingMessageHandler, actionHandler?: IncomingActionHandler) {
+    if (this.webhookServer) {
+      bridgeLogger.info('[WeCom] callback server already started');
+      return;
+    }
+    this.handler = handler;
+    this.actionHandler = actionHandler;
+    await this.getAccessToken();
+    bridgeLogger.info(`[WeCom] auth ok corp=${this.config.corp_id} agent=${this.config.agent_id}`);
+    await this.startWebhook();
+  }
+
+  async stop(): Promise<void> {
+    const server = this.webhookServer;
+    this.webhookServer = null;
+    if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+    bridgeLogger.info('[WeCom] callback server stopped');
+  }
+
+  async sendMarkdown(userId: string, content: string): Promise<string | null> {
+    const res = await this.apiCall<{ msgid?: string }>('POST', '/cgi-bin/message/send', {
+      touser: userId,
+      msgtype: 'markdown',
+      agentid: Number(this.config.agent_id),
+      markdown: { content },
+    });
+    return res?.msgid || null;
+  }
+
+  /** Sends a button card; the card's `task_id` doubles as its message id. */
+  async sendTemplateCard(userId: string, card: WeComTemplateCard): Promise<string | null> {
+    await this.apiCall('POST', '/cgi-bin/message/send', {
+      touser: userId,
+      msgtype: 'template_card',
+      agentid: Number(this.config.agent_id),
+      template_card: card,
+    });
+    return card.task_id;
+  }
+
+  /**
+   * Template cards can only be updated after a click, with the `ResponseCode` of that click
+   * event; the buttons are replaced by a single disabled label.
+   */
+  async updateTemplateCard(userId: string, taskId: string, label: string): Promise<boolean> {
+    const responseCode = this.responseCodes.get(taskId);
+    if (!responseCode) return false;
+    await this.apiCall('POST', '/cgi-bin/message/update_template_card', {
+      userids: [userId],
+      agentid: Number(this.config.agent_id),
+      response_code: responseCode,
+      button: { replace_name: label },
+    });
+    this.responseCodes.delete(taskId);
+    return true;
+  }
+
+  async sendFile(userId: string, file: DisplayFile): Promise<boolean> {
+    const resolved = await this.resolveFileBytes(file);
+    if (!resolved) return false;
+    const type = resolved.mime.startsWith('image/') ? 'image' : 'file';
+    const filename = file.filename || `file.${resolved.mime.split('/')[1] || 'bin'}`;
+
+    const form = new FormData();
+    const blob = new Blob([new Uint8Array(resolved.buffer)], { type: resolved.mime });
+    form.append('media', blob, filename);
+    const uploaded = await this.apiCall<{ media_id?: string }>(
+      'POST',
+      '/cgi-bin/media/upload',
+      form,
+      { type },
+    );
+    if (!uploaded?.media_id) return false;
+    await this.apiCall('POST', '/cgi-bin/message/send', {
+      touser: userId,
+      msgtype: type,
+      agentid: Number(this.config.agent_id),
+      [type]: { media_id: uploaded.media_id },
+    });
+    bridgeLogger.info(
+      `[WeCom] file sent user=${userId} name=${filename} size=${resolved.buffer.length}`,
+    );
+    return true;
+  }
+
+  private async startWebhook(): Promise<void> {
+    const callback = new URL(this.config.callback_url);
+    this.webhookPath =
+      callback.pathname && callback.pathname !== '/' ? callback.pathname : '/wecom/callback';
+    const port = callback.port ? Number(callback.port) : callback.protocol === 'https:' ? 443 : 80;
+    const host = this.resolveWebhookHost(callback.hostname);
+
+    this.webhookServer = http.createServer((req, res) => {
+      this.handleWebhookRequest(req, res).catch(err => {
+        bridgeLogger.warn('[WeCom] callback request failed', asError(err).message);
+        if (!res.headersSent) {
+          res.statusCode = 500;
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.webhookServer?.once('error', reject);
+      this.webhookServer?.listen(port, host, () => resolve());
+    });
+    bridgeLogger.info(
+      `[WeCom] callback server started host=${host} port=${port} path=${this.webhookPath} ${this.instanceTag}`,
+    );
+  }
+
+  private resolveWebhookHost(configHostname: string): string {
+    const envHost = process.env.WECOM_WEBHOOK_LISTEN_HOST?.trim();
+    if (envHost) return envHost;
+    if (
+      configHostname === '0.0.0.0' ||
+      configHostname === '127.0.0.1' ||
+      configHostname === 'localhost'
+    ) {
+      return configHostname;
+    }
+    return '0.0.0.0';
+  }
+
+  private async handleWebhookRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+    if (requestUrl.pathname !== this.webhookPath) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    const signature = requestUrl.searchParams.get('msg_signature') || '';
+    const timestamp = requestUrl.searchParams.get('timestamp') || '';
+    const nonce = requestUrl.searchParams.get('nonce') || '';
+
+    // URL verification when the callback is saved in the admin console.
+    if (req.method === 'GET') {
+      const echostr = requestUrl.searchParams.get('echostr') || '';
+      if (!this.crypto.verify(signature, timestamp, nonce, echostr)) {
+        bridgeLogger.warn('[WeCom] callback signature rejected (verify)');
+        res.statusCode = 401;
+        res.end();
+        return;
+      }
+      res.statusCode = 200;
+      res.end(this.crypto.decrypt(echostr));
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.statusCode = 405;
+      res.end();
+      return;
+    }
+
+    const raw = await this.readRequestBody(req, 1024 * 1024);
+    const encrypted = parseWeComXml(raw).Encrypt || '';
+    if (!encrypted || !this.crypto.verify(signature, timestamp, nonce, encrypted)) {
+      bridgeLogger.warn('[WeCom] callback signature rejected');
+      res.statusCode = 401;
+      res.end();
+      return;
+    }
+
+    // Answer at once: WeCom retries callbacks that take longer than five seconds.
+    res.statusCode = 200;
+    res.end('success');
+    const message = parseWeComXml(this.crypto.decrypt(encrypted));
+    if (message.MsgType === 'event') {
+      await this.handleEvent(message);
+      return;
+    }
+    await this.handleMessage(message);
+  }
+
+  private rememberMessage(msgId: string): boolean {
+    if (this.seenMessageIds.has(msgId)) return false;
+    this.seenMessageIds.add(msgId);
+    if (this.seenMessageIds.size > 2000) {
+      const first = this.seenMessageIds.values().next().value;
+      if (first) this.seenMessageIds.delete(first);
+    }
+    return true;
+  }
+
+  private async handleMessage(message: Record<string, string>): Promise<void> {
+    const msgId = message.MsgId || '';
+    const userId = message.FromUserName || '';
+    if (!msgId || !userId || !this.rememberMessage(msgId)) return;
+
+    const type = message.MsgType;
+    const text = (type === 'text' ? message.Content || '' : message.Recognition || '').trim();
+    const fileParts: FilePartInput[] = [];
+    if (MEDIA_MSG_TYPES.has(type) && message.MediaId) {
+      const part = await this.downloadMedia(message.MediaId, type).catch(err => {
+        bridgeLogger.warn(`[WeCom] media download failed msg=${msgId}`, asError(err).message);
+        return null;
+      });
+      if (part) fileParts.push(part);
+    }
+    if (!text && fileParts.length === 0) {
+      bridgeLogger.debug(`[WeCom] skip msg=${msgId} type=${type} reason=no_text_or_file`);
+      return;
+    }
+
+    bridgeLogger.info(
+      `[WeCom] incoming user=${userId} msg=${msgId} type=${type} textLen=${text.length} files=${fileParts.length}`,
+    );
+    await this.handler?.(userId, text, msgId, userId, fileParts);
+  }
+
+  private async handleEvent(event: Record<string, string>): Promise<void> {
+    if (event.Event !== 'template_card_event') return;
+    const userId = event.FromUserName || '';
+    const taskId = event.TaskId || '';
+    const value = event.EventKey || '';
+    if (taskId && event.ResponseCode) this.responseCodes.set(taskId, event.ResponseCode);
+    bridgeLogger.info(`[WeCom] card action user=${userId} task=${taskId} value=${value}`);
+    if (!userId || !value || !this.actionHandler) return;
+
+    const reply = await this.actionHandler(userId, value, userId, taskId);
+    if (reply) await this.sendMarkdown(userId, reply);
+  }
+
+  private async downloadMedia(mediaId: string, type: string): Promise<FilePartInput> {
+    const token = await this.getAccessToken();
+    const query = new URLSearchParams({ access_token: token, media_id: mediaId });
+    const resp = await fetch(`${this.config.api_base_url}/cgi-bin/media/get?${query}`);
+    const mime = resp.headers.get('content-type')?.split(';')[0] || 'application/octet-stream';
+    // Errors come back as JSON with a 200 status.
+    if (!resp.ok || mime === 'application/json' || mime === 'text/plain') {
+      const body = (await resp.json().catch(() => ({}))) as WeComApiResult;
+      throw new Error(`[WeCom] media/get failed: ${resp.status} ${body.errcode ?? ''}`);
+    }
+    const buffer = Buffer.from(await resp.arrayBuffer());
+    if (buffer.length > WECOM_MAX_DOWNLOAD_BYTES) {
+      throw new Error(`[WeCom] media too large size=${buffer.length}`);
+    }
+    const disposition = resp.headers.get('content-disposition') || '';
+    const named = disposition.match(/filename="?([^";]+)"?/)?.[1];
+    return {
+      type: 'file',
+      filename: named || `${type}-${mediaId.slice(0, 8)}.${mime.split('/')[1] || 'bin'}`,
+      mime,
+      url: `data:${mime};base64,${buffer.toString('base64')}`,
+    };
+  }
+
+  private async resolveFileBytes(
+    file: DisplayFile,
+  ): Promise<{ mime: string; buffer: Buffer } | null> {
+    let resolved: { mime: string; buffer: Buffer } | null = null;
+    if (file.url.startsWith('data:')) {
+      resolved = decodeDataUrl(file.url);
+      if (!resolved) bridgeLogger.warn('[WeCom] skip file: invalid data URL');
+    } else if (/^https?:\/\//.test(file.url)) {
+      const resp = await fetch(file.url);
+      if (!resp.ok) throw new Error(`[WeCom] download failed: ${resp.status}`);
+      resolved = {
+        mime: resp.headers.get('content-type') || 'application/octet-stream',
+        buffer: Buffer.from(await resp.arrayBuffer()),
+      };
+    } else {
+      bridgeLogger.warn('[WeCom] skip file: unsupported URL scheme');
+    }
+    if (!resolved) return null;
+    if (resolved.buffer.length > WECOM_MAX_UPLOAD_BYTES) {
+      bridgeLogger.warn(`[WeCom] skip file: too large size=${resolved.buffer.length}`);
+      return null;
+    }
+    return { mime: file.mime || resolved.mime, buffer: resolved.buffer };
+  }
+
+  private async readRequestBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          reject(new Error('[WeCom] callback body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(Buffer.from(chunk));
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private async getAccessToken(forceRefresh = false): Promise<string> {
+    if (!forceRefresh && this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+    // A forced refresh joins one already in flight: that token is just as fresh.
+    if (!this.refreshAccessTokenPromise) {
+      this.refreshAccessTokenPromise = this.refreshAccessToken().finally(() => {
+        this.refreshAccessTokenPromise = undefined;
+      });
+    }
+    return this.refreshAccessTokenPromise;
+  }
+
+  private async refreshAccessToken(): Promise<string> {
+    const query = new URLSearchParams({
+      corpid: this.config.corp_id,
+      corpsecret: this.config.secret,
+    });
+    const resp = await fetch(`${this.config.api_base_url}/cgi-bin/gettoken?${query}`);
+    const json = (await resp.json().catch(() => ({}))) as WeComApiResult & {
+      access_token?: string;
+      expires_in?: number;
+    };
+    if (!resp.ok || json.errcode || !json.access_token) {
+      const code = json.errcode ?? resp.status;
+      throw new Error(`[WeCom] gettoken failed: ${code} ${json.errmsg || ''}`.trim());
+    }
+    this.accessToken = json.access_token;
+    // A minute of slack; a token that still goes stale is retried once in apiCall.
+    this.accessTokenExpiresAt = Date.now() + ((json.expires_in || 7200) - 60) * 1000;
+    return this.accessToken;
+  }
+
+  private async apiCall<T = unknown>(
+    method: 'POST',
+    path: string,
+    body: Record<string, unknown> | FormData,
+    query: Record<string, string> = {},
+  ): Promise<T | null> {
+    const isForm = body instanceof FormData;
+    const request = async (token: string) => {
+      const search = new URLSearchParams({ access_token: token, ...query });
+      const resp = await fetch(`${this.config.api_base_url}${path}?${search}`, {
+        method,
+        headers: isForm ? undefined : { 'content-type': 'application/json' },
+        body: isForm ? body : JSON.stringify(body),
+      });
+      if (!resp.ok) throw new Error(`[WeCom] ${path} failed: ${resp.status}`);
+      return (await resp.json()) as T & WeComApiResult;
+    };
+
+    let json = await request(await this.getAccessToken());
+    if (json.errcode && TOKEN_ERROR_CODES.has(json.errcode)) {
+      json = await request(await this.getAccessToken(true));
+    }
+    if (json.errcode) {
+      throw new Error(`[WeCom] ${path} failed: ${json.errcode} ${json.errmsg || ''}`.trim());
+    }
+    return json;
+  }
+}
@@ -0,0 +1,78 @@
+// src/wecom/wecom.crypto.ts
+import * as crypto from 'node:crypto';
+
+// WeCom pads with PKCS#7 to a 32-byte block, not AES's 16, so padding is done by hand.
+const PAD_BLOCK = 32;
+
+/**
+ * The "receive messages" callback envelope: `msg_signature` is sha1 over the sorted token,
+ * timestamp, nonce and ciphertext; the payload is AES-256-CBC with the key's first 16 bytes as
+ * IV, laid out as 16 random bytes, a 4-byte length, the message and the receiver (corp) id.
+ */
+export class WeComCrypto {
+  private readonly key: Buffer;
+  private readonly iv: Buffer;
+
+  constructor(
+    private readonly token: string,
+    encodingAesKey: string,
+    private readonly receiveId: string,
+  ) {
+    this.key = Buffer.from(`${encodingAesKey}=`, 'base64');
+    this.iv = this.key.subarray(0, 16);
+  }
+
+  signature(timestamp: string, nonce: string, encrypted: string): string {
+    const joined = [this.token, timestamp, nonce, encrypted].sort().join('');
+    return crypto.createHash('sha1').update(joined).digest('hex');
+  }
+
+  verify(signature: string, timestamp: string, nonce: string, encrypted: string): boolean {
+    const expected = Buffer.from(this.signature(timestamp, nonce, encrypted));
+    const given = Buffer.from(signature || '');
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  decrypt(encrypted: string): string {
+    const decipher = crypto.createDecipheriv('aes-256-cbc', this.key, this.iv);
+    decipher.setAutoPadding(false);
+    const padded = Buffer.concat([decipher.update(encrypted, 'base64'), decipher.final()]);
+    const pad = padded[padded.length - 1];
+    const plain = padded.subarray(0, padded.length - (pad >= 1 && pad <= PAD_BLOCK ? pad : 0));
+    const length = plain.readUInt32BE(16);
+    const message = plain.subarray(20, 20 + length).toString('utf8');
+    const receiveId = plain.subarray(20 + length).toString('utf8');
+    if (receiveId !== this.receiveId) {
+      throw new Error(`[WeCom] callback receive id mismatch: ${receiveId}`);
+    }
+    return message;
+  }
+
+  encrypt(message: string): string {
+    const body = Buffer.from(message, 'utf8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length, 0);
+    const plain = Buffer.concat([
+      crypto.randomBytes(16),
+      length,
+      body,
+      Buffer.from(this.receiveId, 'utf8'),
+    ]);
+    const pad = PAD_BLOCK - (plain.length % PAD_BLOCK);
+    const cipher = crypto.createCipheriv('aes-256-cbc', this.key, this.iv);
+    cipher.setAutoPadding(false);
+    const padded = Buffer.concat([plain, Buffer.alloc(pad, pad)]);
+    return Buffer.concat([cipher.update(padded), cipher.final()]).toString('base64');
+  }
+}
+
+/** Reads the top-level `<Tag>value</Tag>` / CDATA fields of a flat WeCom XML payload. */
+export function parseWeComXml(xml: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  const fieldRe = /<(\w+)>(?:<!\[CDATA\[([\s\S]*?)\]\]>|([^<]*))<\/\1>/g;
+  let match: RegExpExecArray | null;
+  while ((match = fieldRe.exec(xml)) !== null) {
+    if (!(match[1] in out)) out[match[1]] = match[2] ?? match[3] ?? '';
+  }
+  return out;
+}
@@ -0,0 +1,102 @@
+// src/wecom/wecom.renderer.ts
+import type { BridgeActionPrompt, BridgeMessageContent } from '../types';
+import {
+  getStatusWithEmoji,
+  pickCardHeader,
+  sectionsFromContent,
+  splitStatusPaths,
+} from '../bridge/sections';
+
+/** Template card (`button_interaction`) body of a `message/send` request. */
+export type WeComTemplateCard = {
+  card_type: 'button_interaction';
+  main_title: { title: string };
+  sub_title_text: string;
+  task_id: string;
+  button_list: Array<{ text: string; style: number; key: string }>;
+};
+
+// Application markdown messages are capped at 2048 bytes (UTF-8).
+const MARKDOWN_BYTE_LIMIT = 2048;
+const MAX_TOOL_LINES = 5;
+
+const BUTTON_STYLE = { primary: 1, default: 2, danger: 3 } as const;
+
+function trimSafe(s: string) {
+  return (s || '').trim();
+}
+
+function byteLength(s: string): number {
+  return Buffer.byteLength(s, 'utf8');
+}
+
+/** Cuts `s` so it fits in `maxBytes`, never splitting a character. */
+function clipBytes(s: string, maxBytes: number): string {
+  if (byteLength(s) <= maxBytes) return s;
+  let out = '';
+  let used = 0;
+  for (const ch of s) {
+    const size = byteLength(ch);
+    if (used + size > maxBytes - 3) break;
+    out += ch;
+    used += size;
+  }
+  return `${out}…`;
+}
+
+function clipChars(s: string, max: number): string {
+  return s.length <= max ? s : `${s.slice(0, max - 1)}…`;
+}
+
+/**
+ * WeCom markdown has no code blocks or collapsible panels, so the card sections collapse into
+ * a header, one quoted line per tool step, the body and a grey status line.
+ */
+export function renderWeComMarkdown(content: BridgeMessageContent): string {
+  const sections = sectionsFromContent(content);
+  const { command, error, answer, toolPanels, status } = sections;
+
+  const head: string[] = [`**${pickCardHeader(sections).title}**`];
+  const hidden = toolPanels.length - MAX_TOOL_LINES;
+  if (hidden > 0) head.push(`> … +${hidden} earlier step(s)`);
+  for (const panel of toolPanels.slice(-MAX_TOOL_LINES)) {
+    const firstLine = trimSafe(panel).split('\n')[0].replace(/^-\s*/, '');
+    head.push(`> ⚙️ ${clipChars(firstLine, 80)}`);
+  }
+
+  const tail: string[] = [];
+  if (trimSafe(status)) {
+    const { status: cleanStatus, paths } = splitStatusPaths(trimSafe(status));
+    const lines = paths.length > 0 ? [cleanStatus, ...paths] : [getStatusWithEmoji(cleanStatus)];
+    tail.push(`<font color="comment">${lines.filter(Boolean).join(' | ')}</font>`);
+  }
+
+  const headText = head.join('\n');
+  const tailText = tail.join('\n');
+  const body = [error, command, answer].map(trimSafe).filter(Boolean).join('\n\n');
+  const budget = MARKDOWN_BYTE_LIMIT - byteLength(headText) - byteLength(tailText) - 8;
+  const parts = [headText, body ? clipBytes(body, Math.max(budget, 0)) : '', tailText];
+  return clipBytes(parts.filter(Boolean).join('\n\n'), MARKDOWN_BYTE_LIMIT);
+}
+
+/** Action prompts without buttons are plain markdown messages. */
+export function renderWeComPromptMarkdown(prompt: BridgeActionPrompt): string {
+  return clipBytes(`**${prompt.title}**\n\n${trimSafe(prompt.body)}`, MARKDOWN_BYTE_LIMIT);
+}
+
+export function renderWeComActionPromptCard(
+  prompt: BridgeActionPrompt,
+  taskId: string,
+): WeComTemplateCard {
+  return {
+    card_type: 'button_interaction',
+    main_title: { title: clipChars(prompt.title, 26) },
+    sub_title_text: clipChars(trimSafe(prompt.body), 500),
+    task_id: taskId,
+    button_list: prompt.actions.slice(0, 6).map(a => ({
+      text: clipChars(a.label, 10),
+      style: BUTTON_STYLE[a.style || 'default'],
+      key: a.value,
+    })),
+  };
+}
@@ -0,0 +1,167 @@
+// test/bridge.instances.test.ts
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Config } from '@opencode-ai/sdk';
+import {
+  agentIdOfAdapterKey,
+  getUpdateIntervalByAdapter,
+  listBridgeInstances,
+} from '../src/utils';
+import { AGENT_TELEGRAM, TELEGRAM_UPDATE_INTERVAL } from '../src/constants';
+import { AdapterMux } from '../src/handler/mux';
+import { createIncomingHandlerWithDeps } from '../src/handler/incoming.flow';
+import {
+  startGlobalEventListenerWithDeps,
+  stopGlobalEventListenerWithDeps,
+} from '../src/handler/event.flow';
+import { createBridgeDeps, CHAT_ID, SENDER_ID } from './harness/bridge';
+import { MemoryAdapter } from './harness/memory.adapter';
+import { createFakeOpencode } from './harness/fake.opencode';
+import { useFakeClock } from './harness/clock';
+import { assistantMessage, textDelta } from './harness/events';
+
+function config(options: Record<string, unknown>, disable = false): Config {
+  return { agent: { [AGENT_TELEGRAM]: { disable, options } } } as Config;
+}
+
+describe('listBridgeInstances', () => {
+  it('keeps a single bot under the bare agent id', () => {
+    const instances = listBridgeInstances(
+      config({ bot_token: 't', default_agent: 'build' }),
+      AGENT_TELEGRAM,
+    );
+    assert.deepEqual(instances, [
+      {
+        key: AGENT_TELEGRAM,
+        options: { bot_token: 't', default_agent: 'build' },
+        defaultAgent: 'build',
+      },
+    ]);
+    assert.deepEqual(listBridgeInstances(config({ bot_token: 't' }, true), AGENT_TELEGRAM), []);
+    assert.deepEqual(listBridgeInstances(undefined, AGENT_TELEGRAM), []);
+  });
+
+  it('expands named instances over the shared options', () => {
+    const instances = listBridgeInstances(
+      config({
+        allowed_sender_ids: ['42'],
+        queue_mode: 'merge',
+        instances: [
+          { name: 'sales', bot_token: 'sales-token' },
+          { name: 'ops', bot_token: 'ops-token', queue_mode: 'queue', default_agent: 'build' },
+          { name: 'legacy', bot_token: 'old', disable: 'true' },
+        ],
+      }),
+      AGENT_TELEGRAM,
+    );
+    assert.deepEqual(
+      instances.map(i => [i.key, i.name, i.defaultAgent]),
+      [
+        [`${AGENT_TELEGRAM}/sales`, 'sales', undefined],
+        [`${AGENT_TELEGRAM}/ops`, 'ops', 'build'],
+      ],
+    );
+    assert.deepEqual(instances[0].options, {
+      allowed_sender_ids: ['42'],
+      queue_mode: 'merge',
+      bot_token: 'sales-token',
+    });
+    assert.equal(instances[1].options.queue_mode, 'queue');
+  });
+
+  it('rejects unusable instance lists', () => {
+    const list = (instances: unknown) =>
+      listBridgeInstances(config({ bot_token: 't', instances }), AGENT_TELEGRAM);
+    assert.throws(() => list([]), /must be a non-empty list/);
+    assert.throws(() => list([{ name: 'a b' }]), /Invalid instance name/);
+    assert.throws(() => list([{ name: 'a' }, { name: 'a' }]), /Duplicate instance/);
+    assert.throws(
+      () =>
+        list([
+          { name: 'a', callback_url: 'https://a.example.com:8443/tg' },
+          { name: 'b', callback_url: 'https://b.example.com:8443/tg' },
+        ]),
+      /a \(callback_url\) and telegram-bridge\/b \(callback_url\) both listen on port 8443/,
+    );
+    assert.throws(
+      () =>
+        list([
+          { name: 'a', callback_url: 'https://a.example.com:8443/tg' },
+          { name: 'b', listen_url: '0.0.0.0:8443' },
+        ]),
+      /telegram-bridge\/a \(callback_url\) and telegram-bridge\/b \(listen_url\) both listen/,
+    );
+    assert.equal(
+      list([
+        { name: 'a', callback_url: 'https://a.example.com:8443/tg' },
+        { name: 'b', callback_url: 'https://b.example.com:8444/tg' },
+      ]).length,
+      2,
+    );
+  });
+
+  it('maps instance keys back to their platform', () => {
+    assert.equal(agentIdOfAdapterKey(`${AGENT_TELEGRAM}/ops`), AGENT_TELEGRAM);
+    assert.equal(agentIdOfAdapterKey(AGENT_TELEGRAM), AGENT_TELEGRAM);
+    assert.equal(getUpdateIntervalByAdapter(`${AGENT_TELEGRAM}/ops`), TELEGRAM_UPDATE_INTERVAL);
+  });
+});
+
+describe('two instances of one platform', () => {
+  const SALES = 'memory-bridge/sales';
+  const OPS = 'memory-bridge/ops';
+  let teardown: (() => void) | undefined;
+
+  afterEach(() => teardown?.());
+
+  it('keeps sessions, default agents and replies apart per instance', async () => {
+    const clock = useFakeClock();
+    const mux = new AdapterMux();
+    const sales = new MemoryAdapter();
+    const ops = new MemoryAdapter();
+    mux.register(SALES, sales);
+    mux.register(OPS, ops);
+    const opencode = createFakeOpencode();
+    const deps = createBridgeDeps();
+    deps.adapterDefaultAgent.set(OPS, 'build');
+    teardown = () => {
+      stopGlobalEventListenerWithDeps(deps);
+      opencode.events.close();
+      clock.restore();
+    };
+    await startGlobalEventListenerWithDeps(opencode.client, mux, deps, { hookGraceMs: 0 });
+
+    // The same chat id on both bots is two conversations.
+    await createIncomingHandlerWithDeps(opencode.client, mux, SALES, deps)(
+      CHAT_ID,
+      'hi sales',
+      'in_1',
+      SENDER_ID,
+    );
+    await createIncomingHandlerWithDeps(opencode.client, mux, OPS, deps)(
+      CHAT_ID,
+      'hi ops',
+      'in_2',
+      SENDER_ID,
+    );
+    await deps.promptQueue.whenIdle(`${SALES}:${CHAT_ID}`);
+    await deps.promptQueue.whenIdle(`${OPS}:${CHAT_ID}`);
+
+    const salesSession = deps.sessionCache.get(`${SALES}:${CHAT_ID}`);
+    const opsSession = deps.sessionCache.get(`${OPS}:${CHAT_ID}`);
+    assert.ok(salesSession && opsSession && salesSession !== opsSession);
+    assert.equal(deps.sessionToAdapterKey.get(opsSession), OPS);
+    const agents = opencode
+      .callsTo('session.prompt')
+      .map(c => (c.args as { body: { agent?: string } }).body.agent);
+    assert.deepEqual(agents, ['plan', 'build']);
+
+    await opencode.events.play([
+      assistantMessage(opsSession, 'msg_a1'),
+      textDelta(opsSession, 'msg_a1', 'Deployed.'),
+    ]);
+    assert.equal(sales.messages.length, 0);
+    assert.equal(ops.messages.length, 1);
+    assert.equal(ops.model(ops.last().id).answer, 'Deployed.');
+  });
+});
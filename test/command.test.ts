@@ -0,0 +1,196 @@
+// test/command.test.ts
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBridgeHarness, ADAPTER_KEY, CHAT_ID } from './harness/bridge';
+import type { BridgeHarness } from './harness/bridge';
+import { assistantMessage, textDelta } from './harness/events';
+
+const CACHE_KEY = `${ADAPTER_KEY}:${CHAT_ID}`;
+
+describe('slash commands', () => {
+  let bridge: BridgeHarness;
+
+  function setup(options: Parameters<typeof createBridgeHarness>[0] = {}) {
+    bridge = createBridgeHarness(options);
+    return bridge;
+  }
+
+  afterEach(() => bridge?.stop());
+
+  /** Body of the last reply, which commands send as a `command` display. */
+  function lastReply(): string {
+    const model = bridge.adapter.model(bridge.adapter.last().id);
+    assert.equal(model.kind, 'command');
+    return model.answer;
+  }
+
+  it('/help lists only the commands the sender may run', async () => {
+    setup({
+      access: { admin_sender_ids: ['boss'], viewer_sender_ids: ['guest'] },
+      opencode: { commands: [{ name: 'review', description: 'Review the diff' }] },
+    });
+
+    await bridge.send('/help', { senderId: 'boss' });
+    const adminHelp = lastReply();
+    assert.match(adminHelp, /\/reset/);
+    assert.match(adminHelp, /### Custom Commands\n\/review - Review the diff/);
+    assert.match(adminHelp, /### TUI Only/);
+
+    await bridge.send('/help', { senderId: 'guest' });
+    const viewerHelp = lastReply();
+    assert.match(viewerHelp, /\/status/);
+    assert.doesNotMatch(viewerHelp, /\/reset|\/new|Custom Commands/);
+  });
+
+  it('/new creates a session and binds it to the chat', async () => {
+    setup();
+    await bridge.send('/new');
+
+    assert.equal(bridge.opencode.callsTo('session.create').length, 1);
+    assert.equal(bridge.deps.sessionCache.get(CACHE_KEY), 'ses_1');
+    assert.equal(bridge.deps.sessionToAdapterKey.get('ses_1'), ADAPTER_KEY);
+    assert.match(lastReply(), /已切换到新会话: ses_1/);
+  });
+
+  it('/status reports the current session', async () => {
+    setup();
+    bridge.bindSession('ses_42');
+    await bridge.send('/status');
+    assert.match(lastReply(), /- session: ses_42/);
+  });
+
+  it('/sessions lists sessions and switches by index', async () => {
+    setup({
+      opencode: {
+        sessions: [
+          { id: 'ses_a', title: 'First' },
+          { id: 'ses_b', title: 'Second' },
+        ],
+      },
+    });
+
+    await bridge.send('/sessions');
+    assert.match(lastReply(), /First/);
+    assert.match(lastReply(), /Second/);
+
+    await bridge.send('/sessions 2');
+    assert.equal(bridge.deps.sessionCache.get(CACHE_KEY), 'ses_b');
+  });
+
+  it('rejects commands above the sender role', async () => {
+    setup({ access: { default_role: 'viewer' } });
+    await bridge.send('/reset');
+
+    assert.match(lastReply(), /权限不足：\/reset 需要 admin 角色/);
+    assert.equal(bridge.opencode.callsTo('session.create').length, 0);
+  });
+
+  it('replies to TUI-only commands instead of forwarding them', async () => {
+    setup();
+    await bridge.send('/theme');
+    assert.match(lastReply(), /暂不支持/);
+    assert.equal(bridge.opencode.callsTo('session.command').length, 0);
+  });
+
+  it('forwards known custom commands and rejects unknown ones', async () => {
+    setup({ opencode: { commands: [{ name: 'review' }] } });
+
+    await bridge.send('/review src/handler');
+    const [call] = bridge.opencode.callsTo('session.command');
+    assert.deepEqual((call.args as { body: unknown }).body, {
+      command: 'review',
+      arguments: 'src/handler',
+    });
+
+    await bridge.send('/nope');
+    assert.match(lastReply(), /无效指令: \/nope/);
+  });
+
+  it('/abort stops the running turn and finalizes its message', async () => {
+    setup();
+    bridge.bindSession('ses_1');
+    await bridge.startListener();
+    await bridge.events.play([
+      assistantMessage('ses_1', 'msg_a1'),
+      textDelta('ses_1', 'msg_a1', 'Working'),
+    ]);
+    const runId = bridge.adapter.last().id;
+
+    await bridge.send('/abort');
+
+    assert.deepEqual(bridge.opencode.callsTo('session.abort')[0].args, {
+      path: { id: 'ses_1' },
+    });
+    assert.deepEqual(bridge.adapter.model(runId).status, {
+      state: 'aborted',
+      note: 'aborted by user',
+    });
+    assert.match(lastReply(), /已中止当前任务/);
+  });
+
+  it('/abort without a session says there is nothing to stop', async () => {
+    setup();
+    await bridge.send('/stop');
+    assert.match(lastReply(), /暂无会话/);
+    assert.equal(bridge.opencode.callsTo('session.abort').length, 0);
+  });
+});
+
+describe('prompts', () => {
+  let bridge: BridgeHarness;
+  afterEach(() => bridge?.stop());
+
+  it('sends plain text as a prompt with the chat agent', async () => {
+    bridge = createBridgeHarness();
+    await bridge.send('explain the repo');
+    await bridge.idle();
+
+    const [prompt] = bridge.opencode.callsTo('session.prompt');
+    const args = prompt.args as {
+      path: { id: string };
+      body: { parts: unknown[]; agent?: string };
+    };
+    assert.equal(args.path.id, 'ses_1');
+    assert.deepEqual(args.body.parts, [{ type: 'text', text: 'explain the repo' }]);
+    assert.equal(args.body.agent, 'plan');
+  });
+
+  it('reports prompt failures as an error message', async () => {
+    bridge = createBridgeHarness({
+      opencode: { failures: { 'session.prompt': new Error('provider unavailable') } },
+    });
+    await bridge.send('hello');
+    await bridge.idle();
+
+    const model = bridge.adapter.model(bridge.adapter.last().id);
+    assert.equal(model.kind, 'error');
+    assert.equal(model.answer, 'provider unavailable');
+  });
+
+  it('keeps viewers from prompting the agent', async () => {
+    bridge = createBridgeHarness({ access: { default_role: 'viewer' } });
+    await bridge.send('do something');
+
+    assert.equal(bridge.opencode.callsTo('session.prompt').length, 0);
+    assert.match(bridge.adapter.text(bridge.adapter.last().id), /viewer/);
+  });
+
+  it('denies chats outside the allowlist', async () => {
+    bridge = createBridgeHarness({ access: { allowed_chat_ids: ['chat_other'] } });
+    await bridge.send('/status');
+
+    assert.equal(bridge.opencode.calls.length, 0);
+    assert.equal(bridge.adapter.messages.length, 1);
+  });
+
+  it('tells each denied sender once instead of answering every message', async () => {
+    bridge = createBridgeHarness({ access: { allowed_chat_ids: ['chat_other'] } });
+    await bridge.send('hello');
+    await bridge.send('anyone?');
+    assert.equal(bridge.adapter.messages.length, 1);
+
+    await bridge.send('me too', { senderId: 'ou_other' });
+    assert.equal(bridge.adapter.messages.length, 2);
+    assert.equal(bridge.opencode.calls.length, 0);
+  });
+});
@@ -0,0 +1,140 @@
+// test/console.adapter.test.ts
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+import { ConsoleAdapter } from '../src/console/console.adapter';
+import { renderConsole } from '../src/console/console.renderer';
+import { AdapterMux } from '../src/handler/mux';
+import { createIncomingHandlerWithDeps } from '../src/handler/incoming.flow';
+import type { ConsoleConfig } from '../src/types';
+import { runDisplay, waitFor } from './harness/adapter';
+import { createBridgeDeps } from './harness/bridge';
+import { createFakeOpencode } from './harness/fake.opencode';
+
+const CONFIG: ConsoleConfig = { chat_id: 'console', sender_id: 'dev' };
+
+function createConsole(isTTY: boolean, columns = 80) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let written = '';
+  output.on('data', chunk => (written += chunk.toString()));
+  const adapter = new ConsoleAdapter(CONFIG, { input, output, isTTY, columns: () => columns });
+  return { adapter, input, output: () => written };
+}
+
+describe('renderConsole', () => {
+  it('keeps the thinking tail, one line per tool and file names without data URLs', () => {
+    const display = runDisplay({
+      answer: 'partial',
+      reasoning: 'one\ntwo\nthree\nfour\nfive',
+      tools: [{ callID: 'c1', tool: 'bash', status: 'running', title: 'ls' }],
+      files: [{ filename: 'shot.png', mime: 'image/png', url: 'data:image/png;base64,AAAA' }],
+    });
+    const text = renderConsole(display, { ansi: false });
+    const lines = text.split('\n');
+
+    assert.equal(lines[0], '📝 Answer');
+    assert.deepEqual(lines.slice(1, 6), ['💭 …', '💭 two', '💭 three', '💭 four', '💭 five']);
+    assert.equal(lines[6], '⚙️ bash(running) ls');
+    assert.equal(lines[7], '🖼️ shot.png (image/png)');
+    assert.equal(lines[8], 'partial');
+    assert.match(lines[9], /build.*\(!stop to abort\)$/);
+    assert.doesNotMatch(text, /data:|\x1b\[/);
+  });
+});
+
+describe('ConsoleAdapter', () => {
+  let stop: (() => Promise<void>) | null = null;
+
+  afterEach(async () => {
+    await stop?.();
+    stop = null;
+  });
+
+  it('turns input lines into messages and !<n> into the latest prompt choice', async () => {
+    const { adapter, input, output } = createConsole(false);
+    stop = () => adapter.stop();
+    const messages: string[] = [];
+    const actions: string[] = [];
+    await adapter.start(
+      async (chatId, text, _messageId, senderId) => {
+        messages.push(`${chatId}|${senderId}|${text}`);
+      },
+      async (_chatId, value) => {
+        actions.push(value);
+        return '✅ done';
+      },
+    );
+
+    await adapter.sendActionPrompt('console', {
+      title: '权限请求',
+      body: 'bash: rm -rf build',
+      actions: [
+        { label: '允许', value: 'perm:1:once', style: 'primary' },
+        { label: '拒绝', value: 'perm:1:reject', style: 'danger' },
+      ],
+    });
+    input.write('  /status  \n\n!2\n!stop\n!9\n');
+
+    await waitFor(() => (actions.length === 2 ? true : undefined));
+    assert.deepEqual(messages, ['console|dev|/status']);
+    assert.deepEqual(actions, ['perm:1:reject', 'abort']);
+    await waitFor(() => (output().includes('no such choice') ? true : undefined));
+    assert.match(output(), /!1 {2}允许\n {2}!2 {2}拒绝/);
+    assert.match(output(), /✅ done/);
+  });
+
+  it('prints a streaming reply once it is final when the output is not a terminal', async () => {
+    const { adapter, output } = createConsole(false);
+
+    const id = await adapter.sendMessage('console', runDisplay());
+    assert.ok(id);
+    assert.equal(await adapter.editMessage('console', id, runDisplay({ answer: 'more' })), true);
+    assert.equal(output(), '');
+
+    const final = runDisplay({ answer: 'final answer', status: { state: 'done' } });
+    assert.equal(await adapter.editMessage('console', id, final), true);
+    assert.equal(output().match(/📝 Answer/g)?.length, 1);
+    assert.match(output(), /final answer/);
+    assert.equal(await adapter.editMessage('console', 'unknown', final), false);
+  });
+
+  it('redraws the last block in place on a terminal', async () => {
+    const { adapter, output } = createConsole(true, 20);
+
+    const id = await adapter.sendMessage('console', 'short answer');
+    assert.ok(id);
+    const before = output().length;
+    await adapter.editMessage('console', id, 'x'.repeat(30));
+
+    // Header + one line: two rows to move up; the 30-char line then wraps to two rows.
+    const redraw = output().slice(before);
+    assert.ok(redraw.startsWith('\x1b[2A\r\x1b[0J'));
+    await adapter.editMessage('console', id, 'again');
+    assert.ok(output().slice(before + redraw.length).startsWith('\x1b[3A\r\x1b[0J'));
+
+    // Once something else was printed, the edit goes out as a new block instead.
+    await adapter.sendMessage('console', 'another');
+    const mark = output().length;
+    await adapter.editMessage('console', id, 'late edit');
+    assert.doesNotMatch(output().slice(mark), /\x1b\[\d+A/);
+    assert.match(output().slice(mark), /late edit/);
+  });
+
+  it('runs slash commands through the real incoming flow offline', async () => {
+    const { adapter, input, output } = createConsole(false);
+    stop = () => adapter.stop();
+    const mux = new AdapterMux();
+    mux.register('console-bridge', adapter);
+    const opencode = createFakeOpencode();
+    const deps = createBridgeDeps();
+    const incoming = createIncomingHandlerWithDeps(opencode.client, mux, 'console-bridge', deps);
+    await adapter.start(incoming);
+
+    input.write('/new\n');
+    await waitFor(() => (output().includes('ses_1') ? true : undefined));
+    assert.match(output(), /🧭 Command[\s\S]*已切换到新会话: ses_1/);
+    assert.equal(deps.sessionCache.get('console-bridge:console'), 'ses_1');
+    opencode.events.close();
+  });
+});
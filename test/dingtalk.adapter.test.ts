@@ -0,0 +1,167 @@
+// test/dingtalk.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import { DingTalkAdapter } from '../src/dingtalk/dingtalk.adapter';
+import { renderDingTalkCard } from '../src/dingtalk/dingtalk.renderer';
+import type { DingTalkConfig } from '../src/types';
+import { type Incoming, runDisplay, waitFor } from './harness/adapter';
+import {
+  DINGTALK_ACCESS_TOKEN,
+  DINGTALK_CLIENT_ID,
+  DINGTALK_FILE_BYTES,
+  startMockDingTalkApi,
+} from './harness/dingtalk.api';
+
+const BOT_TOPIC = '/v1.0/im/bot/messages/get';
+const CARD_TOPIC = '/v1.0/card/instances/callback';
+
+describe('renderDingTalkCard', () => {
+  it('lays out thinking, tool steps, answer and status with a Stop button while streaming', () => {
+    const card = renderDingTalkCard(runDisplay());
+
+    assert.equal(card.header.title.text, '📝 Answer');
+    assert.deepEqual(
+      card.contents.map(c => c.type),
+      ['markdown', 'markdown', 'divider', 'markdown', 'divider', 'markdown', 'action'],
+    );
+    assert.match(String(card.contents[0].text), /^> 💭 pondering/);
+    assert.match(String(card.contents[1].text), /^\*\*⚙️ Execution #1\*\*/);
+    const stop = (card.contents[6].actions as Array<{ id: string }>)[0];
+    assert.equal(stop.id, 'abort');
+  });
+
+  it('drops the Stop button once done and hides inline data URLs of files', () => {
+    const file = { filename: 'out.png', mime: 'image/png', url: 'data:image/png;base64,AAEC' };
+    const card = renderDingTalkCard(runDisplay({ files: [file], status: { state: 'done' } }));
+
+    assert.ok(!card.contents.some(c => c.type === 'action'));
+    const files = card.contents.find(c => String(c.text).startsWith('**🖼️ Files**'));
+    assert.ok(files);
+    assert.ok(!String(files.text).includes('data:'));
+  });
+});
+
+describe('DingTalkAdapter (Stream Mode against a mock OpenAPI)', () => {
+  let api: Awaited<ReturnType<typeof startMockDingTalkApi>>;
+  let adapter: DingTalkAdapter;
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string; messageId: string }> = [];
+
+  before(async () => {
+    api = await startMockDingTalkApi();
+    const config: DingTalkConfig = {
+      client_id: DINGTALK_CLIENT_ID,
+      client_secret: 'ding-secret',
+      robot_code: DINGTALK_CLIENT_ID,
+      api_base_url: api.apiBaseUrl,
+    };
+    adapter = new DingTalkAdapter(config);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId, messageId) => {
+        actions.push({ chatId, value, senderId, messageId });
+        return '已中止';
+      },
+    );
+    await api.ready;
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await api.close();
+  });
+
+  it('acks bot messages, forwards them once and answers pings', async () => {
+    const message = {
+      conversationId: 'cid-group',
+      conversationType: '2',
+      msgId: 'm1',
+      msgtype: 'text',
+      senderStaffId: 'staff-1',
+      text: { content: ' 帮我看看日志 ' },
+    };
+    const frameId = api.push(BOT_TOPIC, message);
+    api.push(BOT_TOPIC, message);
+    api.push('ping', { opaque: 'p1' }, 'SYSTEM');
+
+    const msg = await waitFor(() => incoming[0]);
+    assert.deepEqual(
+      { chatId: msg.chatId, text: msg.text, messageId: msg.messageId, senderId: msg.senderId },
+      { chatId: 'cid-group', text: '帮我看看日志', messageId: 'm1', senderId: 'staff-1' },
+    );
+    const ack = await waitFor(() =>
+      api.acks.find(a => (a.headers as { messageId?: string }).messageId === frameId),
+    );
+    assert.equal(ack.code, 200);
+    await waitFor(() => api.acks.find(a => a.data === JSON.stringify({ opaque: 'p1' })));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(incoming.length, 1);
+  });
+
+  it('downloads pictures through messageFiles/download into data URLs', async () => {
+    api.push(BOT_TOPIC, {
+      conversationId: 'cid-single',
+      conversationType: '1',
+      msgId: 'm2',
+      msgtype: 'picture',
+      senderStaffId: 'staff-2',
+      content: { downloadCode: 'code-1' },
+    });
+
+    const msg = await waitFor(() => incoming.find(m => m.messageId === 'm2'));
+    const file = msg.parts?.[0] as FilePartInput;
+    assert.equal(file.url, `data:image/png;base64,${DINGTALK_FILE_BYTES.toString('base64')}`);
+    assert.deepEqual(api.callsTo('POST', '/v1.0/robot/messageFiles/download')[0].body, {
+      downloadCode: 'code-1',
+      robotCode: DINGTALK_CLIENT_ID,
+    });
+  });
+
+  it('sends cards to groups and single chats and updates them in place', async () => {
+    const groupCard = await adapter.sendMessage('cid-group', runDisplay());
+    assert.ok(groupCard);
+    const done = runDisplay({ status: { state: 'done' } });
+    assert.equal(await adapter.editMessage('cid-group', groupCard, done), true);
+    await adapter.sendMessage('cid-single', 'pong');
+
+    const [group, single] = api.callsTo('POST', '/v1.0/im/interactiveCards/send');
+    assert.equal(group.body.openConversationId, 'cid-group');
+    assert.equal(group.body.conversationType, 1);
+    assert.equal(single.body.singleChatReceiver, JSON.stringify({ userId: 'staff-2' }));
+    assert.equal(single.body.conversationType, 0);
+
+    const [update] = api.callsTo('PUT', '/v1.0/im/interactiveCards');
+    assert.equal(update.body.outTrackId, groupCard);
+    const card = JSON.parse(String(update.body.cardData)) as { contents: Array<{ type: string }> };
+    assert.ok(!card.contents.some(c => c.type === 'action'));
+    assert.ok(
+      api.calls
+        .filter(c => !c.path.startsWith('/v1.0/oauth2') && !c.path.startsWith('/v1.0/gateway'))
+        .every(c => c.accessToken === DINGTALK_ACCESS_TOKEN),
+    );
+    assert.equal(await adapter.sendMessage('cid-unknown', 'x'), null);
+  });
+
+  it('routes card button clicks to the action handler and replies in the chat', async () => {
+    const outTrackId = await adapter.sendMessage('cid-group', runDisplay());
+    api.push(CARD_TOPIC, {
+      outTrackId,
+      userId: 'staff-1',
+      content: JSON.stringify({ cardPrivateData: { actionIds: ['abort'], params: {} } }),
+    });
+
+    await waitFor(() => actions[0]);
+    assert.deepEqual(actions, [
+      { chatId: 'cid-group', value: 'abort', senderId: 'staff-1', messageId: outTrackId },
+    ]);
+    const reply = await waitFor(() => {
+      const sends = api.callsTo('POST', '/v1.0/im/interactiveCards/send');
+      const last = sends[sends.length - 1];
+      return String(last.body.cardData).includes('已中止') ? last : undefined;
+    });
+    assert.equal(reply.body.openConversationId, 'cid-group');
+  });
+});
@@ -0,0 +1,178 @@
+// test/discord.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import { DiscordAdapter } from '../src/discord/discord.adapter';
+import { renderDiscord } from '../src/discord/discord.renderer';
+import type { DiscordConfig } from '../src/types';
+import { type Incoming, runDisplay, waitFor } from './harness/adapter';
+import {
+  DISCORD_APP_ID,
+  DISCORD_BOT_TOKEN,
+  DISCORD_BOT_USER,
+  DISCORD_FILE_BYTES,
+  startMockDiscordApi,
+} from './harness/discord.api';
+
+describe('renderDiscord', () => {
+  it('renders thinking and tools as embeds with a Stop button while streaming', () => {
+    const { content, embeds, components } = renderDiscord(runDisplay());
+
+    assert.equal(content, 'Here is the answer');
+    assert.deepEqual(embeds.map(e => e.title), ['💭 Thinking', '⚙️ bash · running']);
+    assert.equal(embeds[1].description, 'ls -la');
+    assert.ok(embeds[1].footer?.text);
+    assert.equal(components[0].components[0].custom_id, 'abort');
+  });
+
+  it('drops the Stop button once the run is done and keeps content within 2000 chars', () => {
+    const answer = 'x'.repeat(5000);
+    const done = runDisplay({ answer, status: { state: 'done' } });
+    const { content, components } = renderDiscord(done);
+
+    assert.equal(content.length, 2000);
+    assert.deepEqual(components, []);
+  });
+});
+
+describe('DiscordAdapter (against a mock Discord REST API and gateway)', () => {
+  let api: Awaited<ReturnType<typeof startMockDiscordApi>>;
+  let adapter: DiscordAdapter;
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string; messageId: string }> = [];
+
+  const guildMessage = (overrides: Record<string, unknown>) => ({
+    type: 0,
+    guild_id: 'G1',
+    channel_id: 'C1',
+    author: { id: 'U1' },
+    mentions: [],
+    attachments: [],
+    ...overrides,
+  });
+
+  before(async () => {
+    api = await startMockDiscordApi();
+    const config: DiscordConfig = {
+      bot_token: DISCORD_BOT_TOKEN,
+      use_threads: true,
+      require_mention: true,
+      api_base_url: api.apiBaseUrl,
+    };
+    adapter = new DiscordAdapter(config);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId, messageId) => {
+        actions.push({ chatId, value, senderId, messageId });
+        return '已中止';
+      },
+    );
+    await api.ready;
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await api.close();
+  });
+
+  it('opens a thread for a mention and uses the thread id as the chat id', async () => {
+    api.dispatch(
+      'MESSAGE_CREATE',
+      guildMessage({
+        id: '11',
+        content: `<@${DISCORD_BOT_USER}> what is in this file?`,
+        mentions: [{ id: DISCORD_BOT_USER }],
+        attachments: [
+          { id: 'a1', filename: 'a.txt', content_type: 'text/plain', url: api.attachmentUrl('a') },
+        ],
+      }),
+    );
+
+    const msg = await waitFor(() => incoming[0]);
+    assert.equal(msg.chatId, 'thread-11');
+    assert.equal(msg.messageId, '11');
+    assert.equal(msg.senderId, 'U1');
+    assert.equal(msg.text, 'what is in this file?');
+    const file = msg.parts?.[0] as FilePartInput;
+    assert.equal(file.url, `data:text/plain;base64,${DISCORD_FILE_BYTES.toString('base64')}`);
+
+    const [thread] = api.callsTo('POST', /^\/channels\/C1\/messages\/11\/threads$/);
+    assert.deepEqual(thread.body, { name: 'what is in this file?', auto_archive_duration: 1440 });
+
+    // The ⏳ reaction lands on the user's message in the parent channel.
+    const reaction = await adapter.addReaction('11', 'Typing');
+    assert.equal(reaction, '⏳');
+    await adapter.removeReaction('11', reaction);
+    const reactionPath = /^\/channels\/C1\/messages\/11\/reactions\/⏳\/@me$/;
+    assert.equal(api.callsTo('PUT', reactionPath).length, 1);
+    assert.equal(api.callsTo('DELETE', reactionPath).length, 1);
+  });
+
+  it('follows up in its own thread without a mention and ignores other chatter', async () => {
+    api.addChannel({ id: 'T9', type: 11, owner_id: 'U2' });
+    api.dispatch('MESSAGE_CREATE', guildMessage({ id: '12', content: 'chatter' }));
+    api.dispatch('MESSAGE_CREATE', guildMessage({ id: '13', channel_id: 'T9', content: 'hi' }));
+    api.dispatch(
+      'MESSAGE_CREATE',
+      guildMessage({ id: '14', channel_id: 'thread-11', author: { id: 'B1', bot: true } }),
+    );
+    api.dispatch(
+      'MESSAGE_CREATE',
+      guildMessage({ id: '15', channel_id: 'thread-11', content: 'and now?' }),
+    );
+
+    const msg = await waitFor(() => incoming.find(m => m.messageId === '15'));
+    assert.equal(msg.chatId, 'thread-11');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.deepEqual(incoming.map(m => m.messageId), ['11', '15']);
+  });
+
+  it('streams with message edits and uploads new files once', async () => {
+    const file = { filename: 'out.png', mime: 'image/png', url: 'data:image/png;base64,AAEC' };
+    const id = await adapter.sendMessage('thread-11', runDisplay());
+    assert.ok(id);
+    const withFile = runDisplay({ files: [file] });
+    assert.equal(await adapter.editMessage('thread-11', id, withFile), true);
+    const final = runDisplay({ files: [file], status: { state: 'done' } });
+    assert.equal(await adapter.editMessage('thread-11', id, final), true);
+
+    const edits = api.callsTo('PATCH', new RegExp(`^/channels/thread-11/messages/${id}$`));
+    assert.equal(edits.length, 2);
+    const last = edits[1].body as { components: unknown[]; allowed_mentions: unknown };
+    assert.deepEqual(last.components, []);
+    assert.deepEqual(last.allowed_mentions, { parse: [] });
+
+    const uploads = api
+      .callsTo('POST', /^\/channels\/thread-11\/messages$/)
+      .filter(c => typeof c.body === 'string');
+    assert.equal(uploads.length, 1);
+    assert.match(uploads[0].body as string, /name="files\[0\]"; filename="out.png"/);
+    assert.ok(api.calls.every(c => c.authorization === `Bot ${DISCORD_BOT_TOKEN}`));
+  });
+
+  it('acks button clicks and answers with an ephemeral follow-up', async () => {
+    api.dispatch('INTERACTION_CREATE', {
+      id: 'i1',
+      token: 'tok',
+      type: 3,
+      application_id: DISCORD_APP_ID,
+      channel_id: 'thread-11',
+      member: { user: { id: 'U1' } },
+      message: { id: '5000' },
+      data: { custom_id: 'abort' },
+    });
+
+    const followup = await waitFor(
+      () => api.callsTo('POST', new RegExp(`^/webhooks/${DISCORD_APP_ID}/tok$`))[0],
+    );
+    assert.deepEqual(api.callsTo('POST', /^\/interactions\/i1\/tok\/callback$/)[0].body, {
+      type: 6,
+    });
+    assert.deepEqual(actions, [
+      { chatId: 'thread-11', value: 'abort', senderId: 'U1', messageId: '5000' },
+    ]);
+    assert.deepEqual(followup.body, { content: '已中止', flags: 64 });
+  });
+});
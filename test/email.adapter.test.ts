@@ -0,0 +1,329 @@
+// test/email.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import { EmailAdapter } from '../src/email/email.adapter';
+import { buildMail, parseMail, stripQuotedReply } from '../src/email/email.mime';
+import { sendMail } from '../src/email/email.smtp';
+import type { EmailConfig } from '../src/types';
+import { type Incoming, freePort, runDisplay, waitFor } from './harness/adapter';
+import {
+  MAIL_PASSWORD,
+  MAIL_USER,
+  startMockImapServer,
+  startMockSmtpSink,
+} from './harness/mail.server';
+
+function rawMail(headers: Record<string, string>, body: string): string {
+  const lines = Object.entries(headers).map(([name, value]) => `${name}: ${value}`);
+  return `${lines.join('\r\n')}\r\n\r\n${body.replace(/\n/g, '\r\n')}\r\n`;
+}
+
+describe('email MIME', () => {
+  it('reads quoted-printable text, encoded subjects and base64 attachments', () => {
+    const raw = rawMail(
+      {
+        From: '"Alice" <Alice@Example.test>',
+        To: MAIL_USER,
+        Subject: '=?UTF-8?B?5aSc6Ze0?= refactor',
+        'Message-ID': '<m1@example.test>',
+        'Content-Type': 'multipart/mixed; boundary="b1"',
+      },
+      [
+        '--b1',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Please =E9=87=8D=E6=9E=84 the parser, a long line that is soft-=',
+        'wrapped.',
+        '--b1',
+        'Content-Type: application/pdf; name="spec.pdf"',
+        'Content-Disposition: attachment; filename="spec.pdf"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('%PDF-1.4').toString('base64'),
+        '--b1--',
+      ].join('\n'),
+    );
+
+    const mail = parseMail(Buffer.from(raw));
+    assert.equal(mail.from, 'alice@example.test');
+    assert.equal(mail.subject, '夜间 refactor');
+    assert.equal(mail.messageId, '<m1@example.test>');
+    assert.equal(mail.text, 'Please 重构 the parser, a long line that is soft-wrapped.');
+    assert.deepEqual(
+      mail.attachments.map(a => [a.filename, a.mime, a.data.toString()]),
+      [['spec.pdf', 'application/pdf', '%PDF-1.4']],
+    );
+    assert.equal(mail.automated, false);
+  });
+
+  it('keeps only the new text of a reply', () => {
+    const text = 'Yes, go ahead.\n\nOn Mon, 1 Jan 2026 Bot <bot@x> wrote:\n> earlier answer\n';
+    assert.equal(stripQuotedReply(text), 'Yes, go ahead.');
+    assert.equal(stripQuotedReply('> quoted\nnew line'), 'new line');
+  });
+
+  it('builds threaded replies that parse back', () => {
+    const raw = buildMail({
+      from: MAIL_USER,
+      to: 'alice@example.test',
+      subject: 'Re: 夜间重构任务',
+      messageId: '<r1@example.test>',
+      inReplyTo: '<m2@example.test>',
+      references: ['<m1@example.test>', '<m2@example.test>'],
+      text: 'plain',
+      html: '<p>html</p>',
+      attachments: [{ filename: '报告.txt', mime: 'text/plain', data: Buffer.from('report') }],
+    });
+
+    const mail = parseMail(Buffer.from(raw));
+    assert.equal(mail.subject, 'Re: 夜间重构任务');
+    assert.equal(mail.inReplyTo, '<m2@example.test>');
+    assert.deepEqual(mail.references, ['<m1@example.test>', '<m2@example.test>']);
+    assert.equal(mail.text, 'plain');
+    assert.equal(mail.attachments[0].filename, '报告.txt');
+    assert.equal(mail.attachments[0].data.toString(), 'report');
+    // Our own replies are marked, so another bridge does not answer them.
+    assert.equal(mail.automated, true);
+  });
+});
+
+describe('EmailAdapter (IMAP polling against a mock mailbox)', () => {
+  let imap: Awaited<ReturnType<typeof startMockImapServer>>;
+  let smtp: Awaited<ReturnType<typeof startMockSmtpSink>>;
+  let adapter: EmailAdapter;
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string }> = [];
+
+  before(async () => {
+    imap = await startMockImapServer();
+    smtp = await startMockSmtpSink();
+    const config: EmailConfig = {
+      mode: 'imap',
+      address: MAIL_USER,
+      username: MAIL_USER,
+      password: MAIL_PASSWORD,
+      smtp_url: smtp.url,
+      imap_url: imap.url,
+      mailbox: 'INBOX',
+      poll_interval_ms: 20,
+    };
+    adapter = new EmailAdapter(config);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId) => {
+        actions.push({ chatId, value, senderId });
+        return value === 'abort' ? '已中止' : '已拒绝';
+      },
+    );
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await imap.close();
+    await smtp.close();
+  });
+
+  it('turns unseen mail into a prompt keyed by its Message-ID and marks it seen', async () => {
+    imap.deliver(
+      rawMail(
+        {
+          From: 'Alice <alice@example.test>',
+          To: MAIL_USER,
+          Subject: 'Nightly refactor',
+          'Message-ID': '<t1@example.test>',
+          'Content-Type': 'text/plain; charset=utf-8',
+        },
+        'Split src/parser.ts into modules.',
+      ),
+    );
+
+    const msg = await waitFor(() => incoming[0]);
+    assert.deepEqual(
+      { chatId: msg.chatId, text: msg.text, messageId: msg.messageId, senderId: msg.senderId },
+      {
+        chatId: '<t1@example.test>',
+        text: 'Split src/parser.ts into modules.',
+        messageId: '<t1@example.test>',
+        senderId: 'alice@example.test',
+      },
+    );
+    await waitFor(() => (imap.messages[0].seen ? true : undefined));
+    assert.ok(imap.commands.includes(`LOGIN "${MAIL_USER}" "${MAIL_PASSWORD}"`));
+    assert.ok(imap.commands.includes('UID FETCH 1 (BODY.PEEK[])'));
+  });
+
+  it('mails a whole run once, as one threaded reply, after the session went idle', async () => {
+    const chatId = '<t1@example.test>';
+    const first = await adapter.sendMessage(chatId, runDisplay({ answer: 'Step one' }));
+    assert.ok(first);
+    const done = runDisplay({ answer: 'Step one', status: { state: 'done' } });
+    await adapter.editMessage(chatId, first, done);
+    const files = [
+      { filename: 'diff.patch', mime: 'text/x-diff', url: 'data:text/x-diff;base64,KysrIGE=' },
+    ];
+    const answer = 'Refactor **done**';
+    const second = await adapter.sendMessage(chatId, runDisplay({ answer, files }));
+    assert.ok(second);
+    assert.equal(smtp.deliveries.length, 0);
+
+    const idle = runDisplay({ answer, files, status: { state: 'done', note: 'idle' } });
+    assert.equal(await adapter.editMessage(chatId, second, idle), true);
+    assert.equal(smtp.deliveries.length, 1);
+    // A late flush of an already mailed run does not send again.
+    assert.equal(await adapter.editMessage(chatId, second, idle), true);
+    assert.equal(smtp.deliveries.length, 1);
+
+    const delivery = smtp.deliveries[0];
+    assert.equal(delivery.from, MAIL_USER);
+    assert.deepEqual(delivery.to, ['alice@example.test']);
+    assert.equal(delivery.auth, `\0${MAIL_USER}\0${MAIL_PASSWORD}`);
+    const reply = parseMail(Buffer.from(delivery.data, 'latin1'));
+    assert.equal(reply.subject, 'Re: Nightly refactor');
+    assert.equal(reply.inReplyTo, chatId);
+    assert.deepEqual(reply.references, [chatId]);
+    assert.match(reply.text, /Step one[\s\S]*Refactor \*\*done\*\*[\s\S]*⚙️ Steps\n- bash/);
+    assert.deepEqual(
+      reply.attachments.map(a => [a.filename, a.data.toString()]),
+      [['diff.patch', '+++ a']],
+    );
+
+    // Replying to the bot's mail continues the same thread (and session).
+    imap.deliver(
+      rawMail(
+        {
+          From: 'alice@example.test',
+          Subject: 'Re: Nightly refactor',
+          'Message-ID': '<t2@example.test>',
+          'In-Reply-To': reply.messageId,
+          References: `${chatId} ${reply.messageId}`,
+        },
+        'Now add tests.\n\nOn Tue, bot wrote:\n> Step one',
+      ),
+    );
+    const followUp = await waitFor(() => incoming.find(m => m.messageId === '<t2@example.test>'));
+    assert.equal(followUp.chatId, chatId);
+    assert.equal(followUp.text, 'Now add tests.');
+  });
+
+  it('answers prompts by number and stops runs with a stop reply', async () => {
+    const chatId = '<t1@example.test>';
+    const before = smtp.deliveries.length;
+    const promptId = await adapter.sendActionPrompt(chatId, {
+      title: '权限请求',
+      body: 'bash: rm -rf build',
+      actions: [
+        { label: '允许', value: 'perm:1:once', style: 'primary' },
+        { label: '拒绝', value: 'perm:1:reject', style: 'danger' },
+      ],
+    });
+    assert.ok(promptId);
+    const prompt = parseMail(Buffer.from(smtp.deliveries[before].data, 'latin1'));
+    assert.match(prompt.text, /1 — 允许\n2 — 拒绝/);
+
+    const answer = (id: string, body: string) =>
+      imap.deliver(
+        rawMail(
+          {
+            From: 'alice@example.test',
+            'Message-ID': id,
+            'In-Reply-To': promptId,
+            References: `${chatId} ${promptId}`,
+          },
+          body,
+        ),
+      );
+    answer('<t3@example.test>', '2');
+    await waitFor(() => (actions.length === 1 ? true : undefined));
+    const closed = { title: '权限请求', body: '', actions: [] };
+    await adapter.editActionPrompt(chatId, promptId, closed);
+    answer('<t4@example.test>', '2');
+    answer('<t5@example.test>', 'STOP');
+
+    await waitFor(() => (actions.length === 2 ? true : undefined));
+    assert.deepEqual(
+      actions.map(a => [a.chatId, a.value, a.senderId]),
+      [
+        [chatId, 'perm:1:reject', 'alice@example.test'],
+        [chatId, 'abort', 'alice@example.test'],
+      ],
+    );
+    // With the prompt closed, a bare number is an ordinary message again.
+    const plain = await waitFor(() => incoming.find(m => m.messageId === '<t4@example.test>'));
+    assert.equal(plain.text, '2');
+    await waitFor(() => (smtp.deliveries.length === before + 3 ? true : undefined));
+    const outcome = parseMail(Buffer.from(smtp.deliveries[before + 1].data, 'latin1'));
+    assert.match(outcome.text, /已拒绝/);
+  });
+});
+
+describe('EmailAdapter (local SMTP hand-off)', () => {
+  let smtp: Awaited<ReturnType<typeof startMockSmtpSink>>;
+  let adapter: EmailAdapter;
+  let handoffUrl = '';
+  const incoming: Incoming[] = [];
+
+  before(async () => {
+    smtp = await startMockSmtpSink();
+    handoffUrl = `smtp://127.0.0.1:${await freePort()}`;
+    adapter = new EmailAdapter({
+      mode: 'handoff',
+      address: MAIL_USER,
+      username: MAIL_USER,
+      password: '',
+      smtp_url: smtp.url,
+      mailbox: 'INBOX',
+      poll_interval_ms: 60000,
+      handoff_listen_url: handoffUrl,
+    });
+    await adapter.start(async (chatId, text, messageId, senderId, parts) => {
+      incoming.push({ chatId, text, messageId, senderId, parts });
+    });
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await smtp.close();
+  });
+
+  it('accepts mail from the local MTA, passes attachments on and skips auto-replies', async () => {
+    const target = { url: handoffUrl, username: '', password: '' };
+    const autoReply = rawMail(
+      {
+        From: 'alice@example.test',
+        'Message-ID': '<auto@example.test>',
+        'Auto-Submitted': 'auto-replied',
+        Subject: 'Out of office',
+      },
+      'I am away.',
+    );
+    await sendMail(target, 'alice@example.test', [MAIL_USER], autoReply);
+    const withFile = buildMail({
+      from: 'alice@example.test',
+      to: MAIL_USER,
+      subject: 'Report',
+      messageId: '<h1@example.test>',
+      text: '.hidden files too\nplease',
+      html: '<p>ignored</p>',
+      attachments: [{ filename: 'data.csv', mime: 'text/csv', data: Buffer.from('a,b\n1,2') }],
+    }).replace('Auto-Submitted: auto-replied\r\n', '');
+    await sendMail(target, 'alice@example.test', [MAIL_USER], withFile);
+
+    const msg = await waitFor(() => incoming[0]);
+    assert.equal(incoming.length, 1);
+    assert.equal(msg.chatId, '<h1@example.test>');
+    assert.equal(msg.text, '.hidden files too\nplease');
+    const file = msg.parts?.[0] as FilePartInput;
+    assert.equal(file.filename, 'data.csv');
+    assert.equal(file.url, `data:text/csv;base64,${Buffer.from('a,b\n1,2').toString('base64')}`);
+
+    // Plain bridge replies (commands) go out right away, without SMTP auth when no password is set.
+    assert.ok(await adapter.sendMessage(msg.chatId, '✅ 已切换到新会话'));
+    const delivery = await waitFor(() => smtp.deliveries[0]);
+    assert.equal(delivery.auth, '');
+    assert.match(parseMail(Buffer.from(delivery.data, 'latin1')).text, /已切换到新会话/);
+  });
+});
@@ -0,0 +1,269 @@
+// test/event.flow.test.ts
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBridgeHarness, CHAT_ID } from './harness/bridge';
+import type { BridgeHarness } from './harness/bridge';
+import { useFakeClock } from './harness/clock';
+import {
+  assistantMessage,
+  reasoningDelta,
+  sessionError,
+  sessionIdle,
+  stepFinish,
+  textDelta,
+  toolCompleted,
+  toolPart,
+  toolRunning,
+  userMessage,
+} from './harness/events';
+
+const SID = 'ses_1';
+const LONG_ANSWER = 'Here is what I found after running the tools. '.repeat(4);
+
+describe('event flow', () => {
+  let bridge: BridgeHarness;
+  let clock: ReturnType<typeof useFakeClock>;
+
+  beforeEach(async () => {
+    clock = useFakeClock();
+    bridge = createBridgeHarness();
+    bridge.bindSession(SID);
+    await bridge.startListener();
+  });
+
+  afterEach(() => {
+    bridge.stop();
+    clock.restore();
+  });
+
+  it('streams an answer into one message and finalizes it on idle', async () => {
+    const { adapter, events } = bridge;
+    await events.play([
+      userMessage(SID, 'msg_user'),
+      textDelta(SID, 'msg_user', 'echo of the prompt'),
+      assistantMessage(SID, 'msg_a1'),
+      textDelta(SID, 'msg_a1', 'Hello'),
+    ]);
+
+    assert.equal(adapter.messages.length, 1);
+    const id = adapter.last().id;
+    assert.equal(adapter.last().chatId, CHAT_ID);
+    assert.equal(adapter.model(id).answer, 'Hello');
+    assert.deepEqual(adapter.model(id).status, { state: 'streaming', note: undefined });
+
+    await events.emit(sessionIdle(SID));
+
+    assert.equal(adapter.messages.length, 1);
+    assert.equal(adapter.model(id).answer, 'Hello');
+    assert.equal(adapter.model(id).status?.state, 'done');
+  });
+
+  it('throttles edits until the update interval has passed', async () => {
+    const { adapter, events } = bridge;
+    await events.play([assistantMessage(SID, 'msg_a1'), textDelta(SID, 'msg_a1', 'one')]);
+    await events.play([textDelta(SID, 'msg_a1', ' two'), textDelta(SID, 'msg_a1', ' three')]);
+
+    assert.equal(adapter.count('edit'), 0);
+    assert.equal(adapter.model(adapter.last().id).answer, 'one');
+
+    clock.advance(1000);
+    await events.emit(textDelta(SID, 'msg_a1', ' four'));
+
+    assert.equal(adapter.count('edit'), 1);
+    assert.equal(adapter.model(adapter.last().id).answer, 'one two three four');
+  });
+
+  it('shows reasoning and tools on the streaming message', async () => {
+    const { adapter, events } = bridge;
+    await events.play([
+      assistantMessage(SID, 'msg_a1'),
+      reasoningDelta(SID, 'msg_a1', 'Let me check the repo.'),
+    ]);
+    clock.advance(1000);
+    await events.emit(toolPart(SID, 'msg_a1', 'call_1', 'bash', toolRunning({ command: 'ls' })));
+
+    const model = adapter.model(adapter.last().id);
+    assert.equal(model.reasoning, 'Let me check the repo.');
+    assert.deepEqual(model.tools.map(t => [t.tool, t.status]), [['bash', 'running']]);
+  });
+
+  it('carries the execution card across tool calls and splits out the final answer', async () => {
+    const { adapter, events } = bridge;
+    await events.play([
+      assistantMessage(SID, 'msg_a1'),
+      toolPart(SID, 'msg_a1', 'call_1', 'bash', toolRunning({ command: 'ls' })),
+      toolPart(SID, 'msg_a1', 'call_1', 'bash', toolCompleted({ command: 'ls' }, 'src\ntest')),
+      stepFinish(SID, 'msg_a1', 'tool-calls'),
+      assistantMessage(SID, 'msg_a2'),
+      textDelta(SID, 'msg_a2', 'Short'),
+    ]);
+
+    // The second assistant message reuses the execution card and hides its partial answer.
+    assert.equal(adapter.messages.length, 1);
+    const executionId = adapter.last().id;
+    assert.equal(bridge.buffer('msg_a2').platformMsgId, executionId);
+
+    clock.advance(1000);
+    await events.emit(textDelta(SID, 'msg_a2', ` ${LONG_ANSWER}`));
+
+    assert.equal(adapter.messages.length, 2);
+    const execution = adapter.model(executionId);
+    assert.equal(execution.answer, '');
+    assert.equal(execution.status?.state, 'done');
+    assert.deepEqual(execution.tools.map(t => [t.tool, t.status]), [['bash', 'completed']]);
+
+    const answerId = adapter.last().id;
+    assert.notEqual(answerId, executionId);
+    assert.equal(adapter.model(answerId).tools.length, 0);
+    assert.equal(adapter.model(answerId).answer, `Short ${LONG_ANSWER}`);
+
+    await events.emit(sessionIdle(SID));
+    assert.equal(adapter.messages.length, 2);
+    assert.equal(adapter.model(answerId).status?.state, 'done');
+  });
+
+  it('does not carry a message that already holds an answer', async () => {
+    const { adapter, events } = bridge;
+    await events.play([
+      assistantMessage(SID, 'msg_a1'),
+      textDelta(SID, 'msg_a1', LONG_ANSWER),
+      assistantMessage(SID, 'msg_a2'),
+      textDelta(SID, 'msg_a2', 'A follow-up message.'),
+    ]);
+
+    assert.equal(adapter.messages.length, 2);
+    const [first, second] = adapter.messages;
+    assert.equal(adapter.model(first.id).status?.state, 'done');
+    assert.equal(adapter.model(second.id).answer, 'A follow-up message.');
+  });
+
+  it('marks the message failed when the assistant message reports an API error', async () => {
+    const { adapter, events } = bridge;
+    await events.play([assistantMessage(SID, 'msg_a1'), textDelta(SID, 'msg_a1', 'Partial')]);
+    const error = { name: 'APIError', data: { message: 'rate limited', isRetryable: true } };
+    await events.emit(
+      assistantMessage(SID, 'msg_a1', { error } as Parameters<typeof assistantMessage>[2]),
+    );
+
+    assert.deepEqual(adapter.model(adapter.last().id).status, {
+      state: 'error',
+      note: 'rate limited',
+    });
+
+    // A later idle must not overwrite the error with "done".
+    await events.emit(sessionIdle(SID));
+    assert.equal(adapter.model(adapter.last().id).status?.state, 'error');
+  });
+
+  it('marks the message aborted on session.error with MessageAbortedError', async () => {
+    const { adapter, events } = bridge;
+    await events.play([
+      assistantMessage(SID, 'msg_a1'),
+      textDelta(SID, 'msg_a1', 'Working on it'),
+      sessionError(SID, 'MessageAbortedError', 'aborted by user'),
+    ]);
+
+    assert.deepEqual(adapter.model(adapter.last().id).status, {
+      state: 'aborted',
+      note: 'aborted by user',
+    });
+  });
+
+  it('falls back to a new message when edits keep failing', async () => {
+    const { adapter, events } = bridge;
+    await events.play([assistantMessage(SID, 'msg_a1'), textDelta(SID, 'msg_a1', 'Hello')]);
+    adapter.failEdits = 2;
+    await events.emit(sessionIdle(SID));
+
+    assert.equal(adapter.messages.length, 2);
+    assert.equal(bridge.buffer('msg_a1').platformMsgId, adapter.last().id);
+    assert.equal(adapter.model(adapter.last().id).status?.state, 'done');
+  });
+
+  it('ignores events for sessions that no chat is bound to', async () => {
+    const { adapter, events } = bridge;
+    await events.play([
+      assistantMessage('ses_other', 'msg_x'),
+      textDelta('ses_other', 'msg_x', 'Nobody listens'),
+      sessionIdle('ses_other'),
+    ]);
+    assert.equal(adapter.messages.length, 0);
+  });
+});
+
+describe('plugin hooks', () => {
+  let bridge: BridgeHarness;
+  let clock: ReturnType<typeof useFakeClock>;
+
+  beforeEach(() => {
+    clock = useFakeClock();
+    bridge = createBridgeHarness();
+    bridge.bindSession(SID);
+  });
+
+  afterEach(() => {
+    bridge.stop();
+    clock.restore();
+  });
+
+  it('takes events from the event hook without opening a subscription', async () => {
+    const { adapter, hooks, opencode } = bridge;
+    // OpenCode calls the hook while the bridge is still starting.
+    await hooks.event(sessionIdle('ses_other'));
+    await bridge.startListener();
+    hooks.chatMessage('msg_user');
+    await hooks.event(
+      textDelta(SID, 'msg_user', 'echo of the prompt'),
+      assistantMessage(SID, 'msg_a1'),
+      textDelta(SID, 'msg_a1', 'Hello'),
+      sessionIdle(SID),
+    );
+
+    assert.equal(opencode.callsTo('event.subscribe').length, 0);
+    assert.equal(adapter.messages.length, 1);
+    assert.equal(adapter.model(adapter.last().id).answer, 'Hello');
+    assert.equal(adapter.model(adapter.last().id).status?.state, 'done');
+  });
+
+  it('closes the fallback subscription once the hook delivers events', async () => {
+    const { adapter, events, hooks } = bridge;
+    await bridge.startListener();
+    await events.play([assistantMessage(SID, 'msg_a1'), textDelta(SID, 'msg_a1', 'Hello')]);
+    await hooks.event(textDelta(SID, 'msg_a1', ' world'));
+    // The same bus event also reaches the stream; it must not be applied twice.
+    await events.emit(textDelta(SID, 'msg_a1', ' world'));
+    await hooks.event(sessionIdle(SID));
+
+    assert.equal(adapter.model(adapter.last().id).answer, 'Hello world');
+  });
+
+  it('shows tool progress from the tool hooks ahead of the part events', async () => {
+    const { adapter, hooks } = bridge;
+    await hooks.event(assistantMessage(SID, 'msg_a1'));
+    await bridge.startListener();
+    await hooks.event(textDelta(SID, 'msg_a1', 'Let me check.'));
+
+    clock.advance(1000);
+    await hooks.toolStart(SID, 'call_1', 'bash', { command: 'npm test' });
+    const id = adapter.last().id;
+    assert.deepEqual(
+      adapter.model(id).tools.map(t => [t.tool, t.status, t.input]),
+      [['bash', 'running', '{\n  "command": "npm test"\n}']],
+    );
+
+    clock.advance(1000);
+    await hooks.toolEnd(SID, 'call_1', 'bash', 'npm test', '42 passing');
+    assert.deepEqual(
+      adapter.model(id).tools.map(t => [t.status, t.title, t.output]),
+      [['completed', 'npm test', '42 passing']],
+    );
+
+    // A late part event for the running tool does not undo the result.
+    clock.advance(1000);
+    await hooks.event(
+      toolPart(SID, 'msg_a1', 'call_1', 'bash', toolRunning({ command: 'npm test' })),
+    );
+    assert.equal(adapter.model(id).tools[0].status, 'completed');
+    assert.equal(adapter.messages.length, 1);
+  });
+});
@@ -0,0 +1,130 @@
+// test/execution.flow.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getOrInitBuffer } from '../src/bridge/buffer';
+import type { MessageBuffer, ToolView } from '../src/bridge/buffer';
+import {
+  buildPlatformDisplay,
+  carryPlatformMessage,
+  shouldCarryPlatformMessageAcrossAssistantMessages,
+  shouldSplitOutFinalAnswer,
+  splitFinalAnswerFromExecution,
+} from '../src/handler/execution.flow';
+
+const LONG_ANSWER = 'The answer. '.repeat(12);
+
+function buffer(patch: Partial<MessageBuffer> = {}): MessageBuffer {
+  const buf = getOrInitBuffer(new Map(), 'msg');
+  return Object.assign(buf, patch);
+}
+
+function withTool(buf: MessageBuffer): MessageBuffer {
+  const tool: ToolView = { callID: 'call_1', tool: 'bash', status: 'completed', output: 'ok' };
+  buf.tools.set(tool.callID, tool);
+  return buf;
+}
+
+describe('shouldCarryPlatformMessageAcrossAssistantMessages', () => {
+  it('does not carry without a platform message', () => {
+    assert.equal(shouldCarryPlatformMessageAcrossAssistantMessages(withTool(buffer())), false);
+    assert.equal(shouldCarryPlatformMessageAcrossAssistantMessages(undefined), false);
+  });
+
+  it('carries while the previous message stopped for tool calls', () => {
+    const prev = buffer({ platformMsgId: 'om_1', status: 'done', statusNote: 'tool-calls' });
+    prev.text = LONG_ANSWER;
+    assert.equal(shouldCarryPlatformMessageAcrossAssistantMessages(prev), true);
+  });
+
+  it('carries execution-only messages but not ones with an answer', () => {
+    const execution = withTool(buffer({ platformMsgId: 'om_1', status: 'done' }));
+    assert.equal(shouldCarryPlatformMessageAcrossAssistantMessages(execution), true);
+
+    execution.text = LONG_ANSWER;
+    assert.equal(shouldCarryPlatformMessageAcrossAssistantMessages(execution), false);
+  });
+
+  it('never carries failed or aborted messages', () => {
+    for (const status of ['error', 'aborted'] as const) {
+      const prev = withTool(buffer({ platformMsgId: 'om_1', status, statusNote: 'tool-calls' }));
+      assert.equal(shouldCarryPlatformMessageAcrossAssistantMessages(prev), false);
+    }
+  });
+});
+
+describe('carryPlatformMessage', () => {
+  it('moves the platform message and execution context to the next buffer', () => {
+    const prev = withTool(buffer({ platformMsgId: 'om_1', lastDisplayHash: 'h' }));
+    prev.files.push({ filename: 'a.png', mime: 'image/png', url: 'file:///a.png' });
+    const next = buffer();
+
+    carryPlatformMessage(prev, next);
+
+    assert.equal(prev.platformMsgId, null);
+    assert.equal(next.platformMsgId, 'om_1');
+    assert.equal(next.lastDisplayHash, '');
+    assert.deepEqual([...next.tools.keys()], ['call_1']);
+    assert.equal(next.files.length, 1);
+  });
+});
+
+describe('shouldSplitOutFinalAnswer', () => {
+  function carried(text: string) {
+    const prev = withTool(buffer({ platformMsgId: 'om_1', statusNote: 'tool-calls' }));
+    const next = buffer();
+    carryPlatformMessage(prev, next);
+    next.text = text;
+    return next;
+  }
+
+  it('splits once a carried message has a substantive answer', () => {
+    assert.equal(shouldSplitOutFinalAnswer(carried('short')), false);
+    assert.equal(shouldSplitOutFinalAnswer(carried(LONG_ANSWER)), true);
+  });
+
+  it('does not split messages that were not carried or are still calling tools', () => {
+    const fresh = buffer({ platformMsgId: 'om_1', text: LONG_ANSWER });
+    assert.equal(shouldSplitOutFinalAnswer(fresh), false);
+    const toolCalls = carried(LONG_ANSWER);
+    toolCalls.statusNote = 'tool-calls';
+    assert.equal(shouldSplitOutFinalAnswer(toolCalls), false);
+  });
+
+  it('starts the answer as a clean message', () => {
+    const next = carried(LONG_ANSWER);
+    next.reasoning = 'thinking';
+    splitFinalAnswerFromExecution(next);
+
+    assert.equal(next.platformMsgId, null);
+    assert.equal(next.tools.size, 0);
+    assert.equal(next.reasoning, '');
+    assert.equal(shouldSplitOutFinalAnswer(next), false);
+  });
+});
+
+describe('buildPlatformDisplay', () => {
+  it('hides a partial answer on a carried execution card while streaming', () => {
+    const prev = withTool(buffer({ platformMsgId: 'om_1', statusNote: 'tool-calls' }));
+    const next = buffer();
+    carryPlatformMessage(prev, next);
+    next.text = 'partial';
+
+    assert.equal(buildPlatformDisplay(next).answer, '');
+    next.status = 'done';
+    assert.equal(buildPlatformDisplay(next).answer, 'partial');
+  });
+
+  it('keeps the run status, agent and model label', () => {
+    const buf = buffer({
+      text: 'hi',
+      status: 'done',
+      statusNote: 'stop',
+      selectedAgent: 'build',
+      selectedModel: { providerID: 'p', modelID: 'vendor/model-x' },
+    });
+    const display = buildPlatformDisplay(buf);
+    assert.deepEqual(display.status, { state: 'done', note: 'stop' });
+    assert.equal(display.agent, 'build');
+    assert.equal(display.model, 'model-x');
+  });
+});
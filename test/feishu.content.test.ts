@@ -0,0 +1,84 @@
+// test/feishu.content.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseFeishuPost,
+  renderFeishuTranscript,
+  summarizeFeishuMessage,
+} from '../src/feishu/feishu.content';
+
+describe('parseFeishuPost', () => {
+  it('flattens paragraphs into markdown and collects inline images', () => {
+    const post = {
+      title: 'Build broken',
+      content: [
+        [
+          { tag: 'at', user_id: '@_user_1', user_name: 'OpenCode' },
+          { tag: 'text', text: ' see ' },
+          { tag: 'a', href: 'https://ci.example.com/1', text: 'the CI run' },
+          { tag: 'text', text: ' and ' },
+          { tag: 'text', text: 'fix it', style: ['bold'] },
+        ],
+        [{ tag: 'code_block', language: 'TypeScript', text: 'const a: number = "1";\n' }],
+        [{ tag: 'img', image_key: 'img_1' }, { tag: 'img', image_key: 'img_2' }],
+        [{ tag: 'media', file_key: 'file_v', image_key: 'img_cover' }],
+      ],
+    };
+    const parsed = parseFeishuPost(JSON.stringify(post));
+    assert.equal(
+      parsed.text,
+      [
+        '**Build broken**',
+        '',
+        'see [the CI run](https://ci.example.com/1) and **fix it**',
+        '```typescript',
+        'const a: number = "1";',
+        '```',
+        '[image 1][image 2]',
+        '[video]',
+      ].join('\n'),
+    );
+    assert.deepEqual(parsed.resources, [
+      { kind: 'image', key: 'img_1' },
+      { kind: 'image', key: 'img_2' },
+      { kind: 'file', key: 'file_v', name: undefined },
+    ]);
+  });
+
+  it('unwraps locale-keyed posts and tolerates garbage', () => {
+    const localized = { zh_cn: { title: '', content: [[{ tag: 'text', text: '你好' }]] } };
+    assert.equal(parseFeishuPost(JSON.stringify(localized)).text, '你好');
+    assert.deepEqual(parseFeishuPost('not json'), { text: '', resources: [] });
+  });
+});
+
+describe('merge_forward transcripts', () => {
+  it('summarizes each forwarded message with names for mentions', () => {
+    assert.deepEqual(
+      summarizeFeishuMessage({
+        msgType: 'text',
+        content: JSON.stringify({ text: '@_user_1 can you look?' }),
+        mentions: [{ key: '@_user_1', name: 'Bob' }],
+      }),
+      { text: '@Bob can you look?', resources: [] },
+    );
+    assert.deepEqual(
+      summarizeFeishuMessage({
+        msgType: 'file',
+        content: JSON.stringify({ file_key: 'file_1', file_name: 'crash.log' }),
+      }),
+      { text: '[file crash.log]', resources: [{ kind: 'file', key: 'file_1', name: 'crash.log' }] },
+    );
+    assert.equal(summarizeFeishuMessage({ msgType: 'sticker', content: '{}' }).text, '[sticker]');
+  });
+
+  it('renders one line per sender', () => {
+    assert.equal(
+      renderFeishuTranscript([
+        { sender: 'Alice', text: 'deploy failed\nsee below' },
+        { sender: 'Bob', text: '[image]' },
+      ]),
+      '[Forwarded messages]\nAlice: deploy failed\n  see below\nBob: [image]',
+    );
+  });
+});
@@ -0,0 +1,174 @@
+// test/feishu.group.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  feishuCardActionChatId,
+  feishuThreadChatId,
+  parseFeishuChatId,
+  routeFeishuMessage,
+  tagFeishuCardThread,
+  type FeishuRouteInput,
+  type FeishuRouteOptions,
+} from '../src/feishu/feishu.group';
+import { checkAccess } from '../src/handler/access';
+import { parseFeishuConfig } from '../index.feishu';
+
+const BOT = 'ou_bot';
+const GROUP = 'oc_group';
+
+function message(overrides: Partial<FeishuRouteInput> = {}): FeishuRouteInput {
+  return {
+    messageId: 'om_1',
+    chatId: GROUP,
+    chatType: 'group',
+    mentionedOpenIds: [],
+    text: 'hello',
+    ...overrides,
+  };
+}
+
+function options(overrides: Partial<FeishuRouteOptions> = {}): FeishuRouteOptions {
+  return {
+    policy: 'mention',
+    threadSessions: false,
+    botOpenId: BOT,
+    activeThreads: new Set(),
+    ...overrides,
+  };
+}
+
+describe('routeFeishuMessage', () => {
+  it('always answers direct chats', () => {
+    assert.deepEqual(routeFeishuMessage(message({ chatId: 'oc_dm', chatType: 'p2p' }), options()), {
+      chatId: 'oc_dm',
+      mentioned: false,
+    });
+  });
+
+  it('answers group messages only when the bot itself is mentioned', () => {
+    assert.deepEqual(routeFeishuMessage(message(), options()), { skip: 'no_mention' });
+    assert.deepEqual(
+      routeFeishuMessage(message({ mentionedOpenIds: ['ou_someone'] }), options()),
+      { skip: 'no_mention' },
+    );
+    assert.deepEqual(routeFeishuMessage(message({ mentionedOpenIds: [BOT] }), options()), {
+      chatId: GROUP,
+      mentioned: true,
+    });
+    // Bot identity unknown: any mention counts.
+    assert.equal(
+      'chatId' in
+        routeFeishuMessage(
+          message({ mentionedOpenIds: ['ou_someone'] }),
+          options({ botOpenId: undefined }),
+        ),
+      true,
+    );
+  });
+
+  it('applies the all and commands policies', () => {
+    assert.deepEqual(routeFeishuMessage(message(), options({ policy: 'all' })), {
+      chatId: GROUP,
+      mentioned: false,
+    });
+    assert.deepEqual(routeFeishuMessage(message(), options({ policy: 'commands' })), {
+      skip: 'not_command',
+    });
+    assert.deepEqual(
+      routeFeishuMessage(message({ text: ' /status' }), options({ policy: 'commands' })),
+      { chatId: GROUP, mentioned: false },
+    );
+  });
+
+  it('gives every thread its own chat and lets follow-ups skip the mention', () => {
+    const threads = new Set<string>();
+    const first = routeFeishuMessage(
+      message({ mentionedOpenIds: [BOT] }),
+      options({ threadSessions: true, activeThreads: threads }),
+    );
+    assert.deepEqual(first, { chatId: `${GROUP}#om_1`, mentioned: true });
+    threads.add(`${GROUP}#om_1`);
+
+    const followUp = message({ messageId: 'om_2', rootId: 'om_1' });
+    assert.deepEqual(
+      routeFeishuMessage(followUp, options({ threadSessions: true, activeThreads: threads })),
+      { chatId: `${GROUP}#om_1`, mentioned: false },
+    );
+    assert.deepEqual(
+      routeFeishuMessage(
+        message({ messageId: 'om_9', rootId: 'om_8' }),
+        options({ threadSessions: true, activeThreads: threads }),
+      ),
+      { skip: 'no_mention' },
+    );
+  });
+
+  it('round-trips thread chat ids', () => {
+    const threadChatId = feishuThreadChatId(GROUP, 'om_root');
+    assert.deepEqual(parseFeishuChatId(threadChatId), { chatId: GROUP, rootId: 'om_root' });
+    assert.deepEqual(parseFeishuChatId(GROUP), { chatId: GROUP });
+  });
+});
+
+describe('Feishu thread cards', () => {
+  const card = JSON.stringify({
+    header: { title: { tag: 'plain_text', content: 'Approve?' } },
+    elements: [
+      { tag: 'input', name: 'note', value: 'draft' },
+      { tag: 'action', actions: [{ tag: 'button', value: { action: 'perm:1:once' } }] },
+    ],
+  });
+
+  it('stamps the thread root into button values and maps clicks back to the thread', () => {
+    const thread = feishuThreadChatId(GROUP, 'om_root');
+    const tagged = JSON.parse(tagFeishuCardThread(card, thread));
+    const value = tagged.elements[1].actions[0].value;
+    assert.deepEqual(value, { action: 'perm:1:once', thread_root: 'om_root' });
+    assert.equal(tagged.elements[0].value, 'draft');
+    assert.equal(feishuCardActionChatId(GROUP, value), thread);
+  });
+
+  it('leaves group cards and untagged clicks on the group chat', () => {
+    assert.equal(tagFeishuCardThread(card, GROUP), card);
+    assert.equal(tagFeishuCardThread('not json', feishuThreadChatId(GROUP, 'om_root')), 'not json');
+    assert.equal(feishuCardActionChatId(GROUP, { action: 'abort' }), GROUP);
+  });
+});
+
+describe('Feishu group configuration', () => {
+  it('defaults to mention-only without thread sessions', () => {
+    const cfg = parseFeishuConfig({ app_id: 'cli', app_secret: 's' });
+    assert.equal(cfg.group_policy, 'mention');
+    assert.deepEqual(cfg.group_policies, {});
+    assert.equal(cfg.thread_sessions, false);
+  });
+
+  it('parses per-chat policies and drops invalid ones', () => {
+    const cfg = parseFeishuConfig({
+      app_id: 'cli',
+      app_secret: 's',
+      group_policy: 'commands',
+      group_policies: { oc_a: 'all', oc_b: 'loud' },
+      thread_sessions: 'true',
+    });
+    assert.equal(cfg.group_policy, 'commands');
+    assert.deepEqual(cfg.group_policies, { oc_a: 'all' });
+    assert.equal(cfg.thread_sessions, true);
+  });
+
+  it('falls back to mention-only for an invalid default policy', () => {
+    const cfg = parseFeishuConfig({ app_id: 'cli', app_secret: 's', group_policy: 'everyone' });
+    assert.equal(cfg.group_policy, 'mention');
+  });
+
+  it('lets thread chats inherit the access of their group', () => {
+    const access = { allowed_chat_ids: [GROUP] };
+    assert.deepEqual(checkAccess(access, feishuThreadChatId(GROUP, 'om_1'), 'ou_a'), {
+      allowed: true,
+    });
+    assert.deepEqual(checkAccess(access, feishuThreadChatId('oc_other', 'om_1'), 'ou_a'), {
+      allowed: false,
+      reason: 'chat',
+    });
+  });
+});
@@ -0,0 +1,47 @@
+// test/harness/adapter.ts
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { FilePartInput, TextPartInput } from '@opencode-ai/sdk';
+import type { DisplayModel } from '../../src/types';
+
+/** One `onMessage` call as an adapter under test delivered it. */
+export type Incoming = {
+  chatId: string;
+  text: string;
+  messageId: string;
+  senderId: string;
+  parts?: Array<TextPartInput | FilePartInput>;
+};
+
+/** A streaming answer with reasoning and one running tool; tests override what they check. */
+export function runDisplay(overrides: Partial<DisplayModel> = {}): DisplayModel {
+  return {
+    kind: 'answer',
+    answer: 'Here is the answer',
+    reasoning: 'pondering',
+    tools: [{ callID: 'c1', tool: 'bash', status: 'running', title: 'ls -la' }],
+    files: [],
+    status: { state: 'streaming' },
+    agent: 'build',
+    ...overrides,
+  };
+}
+
+/** Polls `read` until it returns a value; adapters deliver asynchronously. */
+export async function waitFor<T>(read: () => T | undefined, timeoutMs = 2000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = read();
+    if (value !== undefined) return value;
+    if (Date.now() > deadline) throw new Error('waitFor timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+export async function freePort(): Promise<number> {
+  const server = http.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  return port;
+}
@@ -0,0 +1,159 @@
+// test/harness/bluebubbles.api.ts
+import * as http from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+
+export const BLUEBUBBLES_PASSWORD = 'bluebubbles-test-password';
+export const BLUEBUBBLES_ATTACHMENT_BYTES = Buffer.from('bluebubbles-attachment-bytes');
+
+export type BlueBubblesCall = {
+  method: string;
+  path: string;
+  password: string;
+  body: Record<string, unknown>;
+  file?: { name: string; type: string; bytes: Buffer };
+};
+
+type IncomingOptions = {
+  chatGuid: string;
+  sender: string;
+  text?: string;
+  group?: boolean;
+  attachments?: Array<{ guid: string; transferName: string; mimeType: string }>;
+  isFromMe?: boolean;
+  associatedMessageType?: string;
+};
+
+/**
+ * A local stand-in for the BlueBubbles server REST API: ping, message/query over a message log
+ * fed by `receive`, message/text, message/attachment and attachment download. Every call is
+ * recorded; sent messages land in the same log as `isFromMe`, the way Messages.app stores them.
+ */
+export async function startMockBlueBubblesApi() {
+  const calls: BlueBubblesCall[] = [];
+  const sockets = new Set<Socket>();
+  const log: Array<Record<string, unknown>> = [];
+  let clock = 1_700_000_000_000;
+  let nextGuid = 1;
+  // The newest message on the Mac before the bridge started; it must not be replayed.
+  const seed = {
+    guid: 'seed',
+    text: 'old message',
+    isFromMe: false,
+    dateCreated: clock,
+    itemType: 0,
+    handle: { address: '+15550000000' },
+    chats: [{ guid: 'iMessage;-;+15550000000', style: 45 }],
+    attachments: [],
+  };
+  log.push(seed);
+
+  const append = (message: Record<string, unknown>) => {
+    clock += 1000;
+    const entry = { guid: `msg-${nextGuid++}`, dateCreated: clock, itemType: 0, ...message };
+    log.push(entry);
+    return entry;
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks);
+    const call: BlueBubblesCall = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      password: url.searchParams.get('password') || '',
+      body: {},
+    };
+    const type = String(req.headers['content-type'] || '');
+    if (type.startsWith('multipart/form-data')) {
+      const form = await new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'content-type': type },
+        body: raw,
+      }).formData();
+      for (const [key, value] of form.entries()) {
+        if (typeof value === 'string') call.body[key] = value;
+        else {
+          const bytes = Buffer.from(await value.arrayBuffer());
+          call.file = { name: value.name, type: value.type, bytes };
+        }
+      }
+    } else if (raw.length > 0) {
+      call.body = JSON.parse(raw.toString('utf8'));
+    }
+    calls.push(call);
+
+    const reply = (status: number, data: unknown, message = 'Success') => {
+      res.statusCode = status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ status, message, data }));
+    };
+    if (call.password !== BLUEBUBBLES_PASSWORD) return reply(401, null, 'Unauthorized');
+
+    if (call.path === '/api/v1/ping') return reply(200, 'pong', 'Ping received!');
+    if (call.path === '/api/v1/message/query') {
+      const { after, sort, limit } = call.body as {
+        after?: number;
+        sort?: string;
+        limit?: number;
+      };
+      const matching = log.filter(m => after === undefined || Number(m.dateCreated) > after);
+      const ordered = sort === 'DESC' ? [...matching].reverse() : matching;
+      return reply(200, ordered.slice(0, limit || 100));
+    }
+    if (call.path === '/api/v1/message/text') {
+      const chatGuid = String(call.body.chatGuid);
+      const text = call.body.message;
+      return reply(200, append({ text, isFromMe: true, chats: [{ guid: chatGuid }] }));
+    }
+    if (call.path === '/api/v1/message/attachment') {
+      const chatGuid = String(call.body.chatGuid);
+      const sent = append({ text: '\uFFFC', isFromMe: true, chats: [{ guid: chatGuid }] });
+      return reply(200, sent);
+    }
+    const download = call.path.match(/^\/api\/v1\/attachment\/([^/]+)\/download$/);
+    if (download) {
+      res.setHeader('content-type', 'application/octet-stream');
+      res.end(BLUEBUBBLES_ATTACHMENT_BYTES);
+      return;
+    }
+    reply(404, null, 'Not found');
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(err => {
+      res.statusCode = 500;
+      res.end(String(err));
+    });
+  });
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    callsTo: (path: string) => calls.filter(c => c.path === path),
+    /** A message from someone else arrives in Messages.app. */
+    receive: (options: IncomingOptions) =>
+      append({
+        text: options.text ?? '',
+        isFromMe: options.isFromMe ?? false,
+        associatedMessageType: options.associatedMessageType ?? null,
+        handle: { address: options.sender },
+        chats: [{ guid: options.chatGuid, style: options.group ? 43 : 45 }],
+        attachments: (options.attachments || []).map(a => ({
+          ...a,
+          totalBytes: BLUEBUBBLES_ATTACHMENT_BYTES.length,
+        })),
+      }).guid as string,
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,170 @@
+// test/harness/bridge.ts
+import type { UserMessage } from '@opencode-ai/sdk';
+import type {
+  BridgeAccessConfig,
+  BridgeQueueMode,
+  BridgeQuotedMessage,
+} from '../../src/types';
+import type { MessageBuffer } from '../../src/bridge/buffer';
+import { ObservedMap } from '../../src/bridge/state.store';
+import type { PersistedBridgeMaps } from '../../src/bridge/state.store';
+import { AdapterMux } from '../../src/handler/mux';
+import { createActionHandlerWithDeps } from '../../src/handler/action.flow';
+import { createIncomingHandlerWithDeps } from '../../src/handler/incoming.flow';
+import type { IncomingFlowDeps } from '../../src/handler/incoming.flow';
+import {
+  handleChatMessageHookWithDeps,
+  handleHookEventWithDeps,
+  handleToolExecuteAfterWithDeps,
+  handleToolExecuteBeforeWithDeps,
+  startGlobalEventListenerWithDeps,
+  stopGlobalEventListenerWithDeps,
+} from '../../src/handler/event.flow';
+import type { EventFlowDeps } from '../../src/handler/event.flow';
+import { PromptQueue } from '../../src/handler/prompt.queue';
+import { MemoryAdapter } from './memory.adapter';
+import { createFakeOpencode } from './fake.opencode';
+import type { FakeOpencodeOptions } from './fake.opencode';
+
+export const ADAPTER_KEY = 'memory-bridge';
+export const CHAT_ID = 'chat_1';
+export const SENDER_ID = 'user_1';
+
+export type BridgeDeps = EventFlowDeps & IncomingFlowDeps & PersistedBridgeMaps;
+
+/** Fresh copies of the maps `src/handler/index.ts` keeps at module level. */
+export function createBridgeDeps(): BridgeDeps {
+  return {
+    listenerState: {
+      isListenerStarted: false,
+      shouldStopListener: false,
+      hookActive: false,
+      queue: Promise.resolve(),
+    },
+    sessionToCtx: new ObservedMap(),
+    sessionActiveMsg: new Map(),
+    msgRole: new Map(),
+    msgBuffers: new Map<string, MessageBuffer>(),
+    sessionCache: new ObservedMap(),
+    sessionToAdapterKey: new ObservedMap(),
+    chatAgent: new ObservedMap(),
+    chatModel: new ObservedMap(),
+    chatSessionList: new Map(),
+    chatAgentList: new Map(),
+    chatMaxFileSizeMb: new ObservedMap(),
+    chatMaxFileRetry: new ObservedMap(),
+    pendingPermissions: new Map(),
+    activeReactions: new Map(),
+    adapterAccess: new Map(),
+    adapterQueueMode: new Map(),
+    adapterDefaultAgent: new Map(),
+    accessDeniedNotices: new Map(),
+    promptQueue: new PromptQueue(),
+    formatUserError: err => String((err as Error)?.message || err),
+  };
+}
+
+export function createBridgeHarness(
+  options: {
+    access?: BridgeAccessConfig;
+    queueMode?: BridgeQueueMode;
+    opencode?: FakeOpencodeOptions;
+  } = {},
+) {
+  const adapter = new MemoryAdapter();
+  const mux = new AdapterMux();
+  mux.register(ADAPTER_KEY, adapter);
+  const opencode = createFakeOpencode(options.opencode);
+  const deps = createBridgeDeps();
+  if (options.access) deps.adapterAccess.set(ADAPTER_KEY, options.access);
+  if (options.queueMode) deps.adapterQueueMode.set(ADAPTER_KEY, options.queueMode);
+  const incoming = createIncomingHandlerWithDeps(opencode.client, mux, ADAPTER_KEY, deps);
+  const action = createActionHandlerWithDeps(opencode.client, mux, ADAPTER_KEY, deps);
+  let incomingSeq = 0;
+  let quoteLoads = 0;
+
+  return {
+    adapter,
+    opencode,
+    events: opencode.events,
+    deps,
+
+    async startListener() {
+      await startGlobalEventListenerWithDeps(opencode.client, mux, deps, { hookGraceMs: 0 });
+    },
+
+    /** The plugin hooks, called the way OpenCode calls them. */
+    hooks: {
+      async event(...events: Array<{ type: string; properties?: unknown }>) {
+        for (const event of events) await handleHookEventWithDeps(event, mux, deps);
+      },
+      chatMessage(messageId: string) {
+        handleChatMessageHookWithDeps({ id: messageId } as UserMessage, deps);
+      },
+      toolStart(sessionID: string, callID: string, tool: string, args: unknown) {
+        return handleToolExecuteBeforeWithDeps({ sessionID, callID, tool }, args, mux, deps);
+      },
+      toolEnd(sessionID: string, callID: string, tool: string, title: string, output: string) {
+        const input = { sessionID, callID, tool };
+        return handleToolExecuteAfterWithDeps(input, { title, output }, mux, deps);
+      },
+    },
+
+    /** Routes `sessionId` to a chat, as a previous prompt from that chat would have. */
+    bindSession(sessionId: string, chatId = CHAT_ID, senderId = SENDER_ID) {
+      deps.sessionCache.set(`${ADAPTER_KEY}:${chatId}`, sessionId);
+      deps.sessionToAdapterKey.set(sessionId, ADAPTER_KEY);
+      deps.sessionToCtx.set(sessionId, { chatId, senderId });
+    },
+
+    async send(
+      text: string,
+      from: { chatId?: string; senderId?: string; quote?: BridgeQuotedMessage } = {},
+    ) {
+      const messageId = `in_${++incomingSeq}`;
+      const chatId = from.chatId || CHAT_ID;
+      const { quote } = from;
+      const resolveQuote = quote
+        ? async () => {
+            quoteLoads++;
+            return quote;
+          }
+        : undefined;
+      await incoming(chatId, text, messageId, from.senderId || SENDER_ID, undefined, resolveQuote);
+      return messageId;
+    },
+
+    /** A button click on a prompt the adapter sent; resolves to the reply shown to the sender. */
+    click(value: string, from: { chatId?: string; senderId?: string } = {}) {
+      return action(from.chatId || CHAT_ID, value, from.senderId || SENDER_ID, 'om_click');
+    },
+
+    /** How often the flow asked for a quoted message; adapters fetch it only then. */
+    get quoteLoads() {
+      return quoteLoads;
+    },
+
+    /** Lets pending async steps (session creation, queue hand-off) run. */
+    tick() {
+      return new Promise(resolve => setTimeout(resolve, 0));
+    },
+
+    /** Waits until every queued prompt of the chat has been sent and has finished. */
+    idle(chatId = CHAT_ID) {
+      return deps.promptQueue.whenIdle(`${ADAPTER_KEY}:${chatId}`);
+    },
+
+    buffer(messageId: string): MessageBuffer {
+      const buf = deps.msgBuffers.get(messageId);
+      if (!buf) throw new Error(`no buffer for ${messageId}`);
+      return buf;
+    },
+
+    stop() {
+      stopGlobalEventListenerWithDeps(deps);
+      opencode.events.close();
+    },
+  };
+}
+
+export type BridgeHarness = ReturnType<typeof createBridgeHarness>;
@@ -0,0 +1,16 @@
+// test/harness/clock.ts
+
+/** Replaces `Date.now` so flush throttling can be stepped explicitly. */
+export function useFakeClock(start = 1_700_000_000_000) {
+  const realNow = Date.now;
+  let now = start;
+  Date.now = () => now;
+  return {
+    advance(ms: number) {
+      now += ms;
+    },
+    restore() {
+      Date.now = realNow;
+    },
+  };
+}
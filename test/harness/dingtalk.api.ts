@@ -0,0 +1,108 @@
+// test/harness/dingtalk.api.ts
+import * as http from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+import { acceptWebSocket } from './ws.server';
+import type { WsPeer } from './ws.server';
+
+export type DingTalkApiCall = {
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+  accessToken: string;
+};
+
+export const DINGTALK_CLIENT_ID = 'ding-app';
+export const DINGTALK_ACCESS_TOKEN = 'ding-access-token';
+export const DINGTALK_FILE_BYTES = Buffer.from('dingtalk-file-bytes');
+
+/**
+ * A local stand-in for `https://api.dingtalk.com`: records OpenAPI calls, serves downloads and
+ * runs the Stream Mode socket. `push` sends a CALLBACK frame; the client's acks are collected.
+ */
+export async function startMockDingTalkApi() {
+  const calls: DingTalkApiCall[] = [];
+  const acks: Array<Record<string, unknown>> = [];
+  const sockets = new Set<Socket>();
+  let stream: WsPeer | null = null;
+  let connected: (() => void) | null = null;
+  const ready = new Promise<void>(resolve => (connected = resolve));
+  let nextFrame = 1;
+  let baseUrl = '';
+
+  const respond = (path: string): Record<string, unknown> => {
+    if (path === '/v1.0/oauth2/accessToken') {
+      return { accessToken: DINGTALK_ACCESS_TOKEN, expireIn: 7200 };
+    }
+    if (path === '/v1.0/gateway/connections/open') {
+      return { endpoint: `${baseUrl.replace('http', 'ws')}/stream`, ticket: 'ticket-1' };
+    }
+    if (path === '/v1.0/robot/messageFiles/download') {
+      return { downloadUrl: `${baseUrl}/files/download` };
+    }
+    return { success: true, result: {} };
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => {
+      const path = req.url || '/';
+      if (path.startsWith('/files/')) {
+        res.setHeader('content-type', 'image/png');
+        res.end(DINGTALK_FILE_BYTES);
+        return;
+      }
+      const raw = Buffer.concat(chunks).toString('utf8');
+      calls.push({
+        method: req.method || 'GET',
+        path,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {},
+        accessToken: String(req.headers['x-acs-dingtalk-access-token'] || ''),
+      });
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(respond(path)));
+    });
+  });
+
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  server.on('upgrade', (req, socket: Socket) => {
+    stream = acceptWebSocket(req, socket, text => {
+      acks.push(JSON.parse(text) as Record<string, unknown>);
+    });
+    connected?.();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    apiBaseUrl: baseUrl,
+    calls,
+    acks,
+    callsTo: (method: string, path: string) =>
+      calls.filter(c => c.method === method && c.path === path),
+    ready,
+    /** Pushes one frame over the stream and returns its message id. */
+    push: (topic: string, data: unknown, type = 'CALLBACK') => {
+      const messageId = `frame-${nextFrame++}`;
+      stream?.send(
+        JSON.stringify({
+          specVersion: '1.0',
+          type,
+          headers: { topic, messageId, contentType: 'application/json' },
+          data: JSON.stringify(data),
+        }),
+      );
+      return messageId;
+    },
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      stream?.destroy();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,139 @@
+// test/harness/discord.api.ts
+import * as http from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+import { acceptWebSocket } from './ws.server';
+import type { WsPeer } from './ws.server';
+
+export type DiscordApiCall = {
+  method: string;
+  path: string;
+  body: unknown;
+  authorization: string;
+};
+
+export const DISCORD_BOT_USER = '900';
+export const DISCORD_APP_ID = '901';
+export const DISCORD_BOT_TOKEN = 'discord-test-token';
+export const DISCORD_FILE_BYTES = Buffer.from('discord-file-bytes');
+
+type Channel = { id: string; type: number; owner_id?: string };
+
+/**
+ * A local stand-in for the Discord REST API and gateway. REST calls are recorded and answered
+ * with the fields the client reads; the gateway is a bare WebSocket that says HELLO, answers
+ * IDENTIFY with READY and lets tests push dispatch events.
+ */
+export async function startMockDiscordApi() {
+  const calls: DiscordApiCall[] = [];
+  const channels = new Map<string, Channel>();
+  const sockets = new Set<Socket>();
+  let gateway: WsPeer | null = null;
+  let identified: (() => void) | null = null;
+  const ready = new Promise<void>(resolve => (identified = resolve));
+  let seq = 0;
+  let nextMessage = 5000;
+  let baseUrl = '';
+
+  const sendGateway = (payload: Record<string, unknown>) => {
+    gateway?.send(JSON.stringify(payload));
+  };
+
+  const respond = (method: string, path: string): { status: number; body?: unknown } => {
+    if (path === '/users/@me') return { status: 200, body: { id: DISCORD_BOT_USER, bot: true } };
+    if (path === '/gateway/bot') {
+      return { status: 200, body: { url: `${baseUrl.replace('http', 'ws')}/gateway` } };
+    }
+    const thread = path.match(/^\/channels\/([^/]+)\/messages\/([^/]+)\/threads$/);
+    if (thread) {
+      const channel = { id: `thread-${thread[2]}`, type: 11, owner_id: DISCORD_BOT_USER };
+      channels.set(channel.id, channel);
+      return { status: 201, body: channel };
+    }
+    const channel = path.match(/^\/channels\/([^/]+)$/);
+    if (channel && method === 'GET') {
+      return { status: 200, body: channels.get(channel[1]) || { id: channel[1], type: 0 } };
+    }
+    if (/\/messages(\/[^/]+)?$/.test(path) && (method === 'POST' || method === 'PATCH')) {
+      const id = path.match(/\/messages\/([^/]+)$/)?.[1] || String(nextMessage++);
+      return { status: 200, body: { id } };
+    }
+    if (path.startsWith('/webhooks/')) return { status: 200, body: { id: String(nextMessage++) } };
+    return { status: 204 };
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => {
+      const url = req.url || '/';
+      if (url.startsWith('/attachments/')) {
+        res.end(DISCORD_FILE_BYTES);
+        return;
+      }
+      const method = req.method || 'GET';
+      const path = decodeURIComponent(url.replace(/^\/api/, ''));
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const isJson = String(req.headers['content-type'] || '').includes('application/json');
+      calls.push({
+        method,
+        path,
+        body: isJson && raw ? JSON.parse(raw) : raw,
+        authorization: String(req.headers.authorization || ''),
+      });
+      const { status, body } = respond(method, path);
+      res.statusCode = status;
+      if (body === undefined) {
+        res.end();
+        return;
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  server.on('upgrade', (req, socket: Socket) => {
+    gateway = acceptWebSocket(req, socket, text => {
+      const msg = JSON.parse(text) as { op: number };
+      if (msg.op === 1) sendGateway({ op: 11 });
+      if (msg.op === 2) {
+        sendGateway({
+          op: 0,
+          t: 'READY',
+          s: ++seq,
+          d: {
+            session_id: 'session-1',
+            resume_gateway_url: `${baseUrl.replace('http', 'ws')}/gateway`,
+            user: { id: DISCORD_BOT_USER, bot: true },
+            application: { id: DISCORD_APP_ID },
+          },
+        });
+        identified?.();
+      }
+    });
+    sendGateway({ op: 10, d: { heartbeat_interval: 45000 } });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    apiBaseUrl: `${baseUrl}/api`,
+    attachmentUrl: (name: string) => `${baseUrl}/attachments/${name}`,
+    calls,
+    callsTo: (method: string, pattern: RegExp) =>
+      calls.filter(c => c.method === method && pattern.test(c.path)),
+    addChannel: (channel: Channel) => channels.set(channel.id, channel),
+    ready,
+    dispatch: (event: string, data: unknown) => sendGateway({ op: 0, t: event, s: ++seq, d: data }),
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      gateway?.destroy();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
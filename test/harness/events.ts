@@ -0,0 +1,156 @@
+// test/harness/events.ts
+import type {
+  AssistantMessage,
+  EventCommandExecuted,
+  EventMessagePartUpdated,
+  EventMessageUpdated,
+  EventPermissionReplied,
+  EventPermissionUpdated,
+  EventSessionError,
+  EventSessionIdle,
+  Part,
+  ToolState,
+} from '@opencode-ai/sdk';
+
+// Builders for the OpenCode events the bridge listens to; only fields the bridge reads are real.
+
+let partSeq = 0;
+
+function partEvent(part: Part, delta?: string): EventMessagePartUpdated {
+  return {
+    type: 'message.part.updated',
+    properties: delta === undefined ? { part } : { part, delta },
+  };
+}
+
+export function assistantMessage(
+  sessionID: string,
+  messageID: string,
+  extra: Partial<Pick<AssistantMessage, 'error' | 'finish' | 'time'>> = {},
+): EventMessageUpdated {
+  const info = {
+    id: messageID,
+    sessionID,
+    role: 'assistant',
+    time: { created: 0 },
+    ...extra,
+  } as AssistantMessage;
+  return { type: 'message.updated', properties: { info } };
+}
+
+export function userMessage(sessionID: string, messageID: string): EventMessageUpdated {
+  const info = { id: messageID, sessionID, role: 'user', time: { created: 0 } };
+  return { type: 'message.updated', properties: { info } } as EventMessageUpdated;
+}
+
+/** Streams `delta`; the part snapshot is left empty as OpenCode does while streaming. */
+export function textDelta(sessionID: string, messageID: string, delta: string) {
+  return partEvent(
+    { id: `prt_${++partSeq}`, sessionID, messageID, type: 'text', text: '' },
+    delta,
+  );
+}
+
+export function reasoningDelta(sessionID: string, messageID: string, delta: string) {
+  return partEvent(
+    {
+      id: `prt_${++partSeq}`,
+      sessionID,
+      messageID,
+      type: 'reasoning',
+      text: '',
+      time: { start: 0 },
+    },
+    delta,
+  );
+}
+
+export function toolPart(
+  sessionID: string,
+  messageID: string,
+  callID: string,
+  tool: string,
+  state: ToolState,
+) {
+  return partEvent({
+    id: `prt_${callID}`,
+    sessionID,
+    messageID,
+    type: 'tool',
+    callID,
+    tool,
+    state,
+  });
+}
+
+export function toolRunning(input: Record<string, unknown>, title?: string): ToolState {
+  return { status: 'running', input, title, time: { start: 1 } };
+}
+
+export function toolCompleted(
+  input: Record<string, unknown>,
+  output: string,
+  title = '',
+): ToolState {
+  return { status: 'completed', input, output, title, metadata: {}, time: { start: 1, end: 2 } };
+}
+
+export function stepFinish(sessionID: string, messageID: string, reason: string) {
+  return partEvent({
+    id: `prt_${++partSeq}`,
+    sessionID,
+    messageID,
+    type: 'step-finish',
+    reason,
+    cost: 0,
+    tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+  });
+}
+
+export function sessionIdle(sessionID: string): EventSessionIdle {
+  return { type: 'session.idle', properties: { sessionID } };
+}
+
+export function sessionError(
+  sessionID: string,
+  name: string,
+  message: string,
+): EventSessionError {
+  const error = { name, data: { message } } as EventSessionError['properties']['error'];
+  return { type: 'session.error', properties: { sessionID, error } };
+}
+
+export function commandExecuted(sessionID: string, messageID: string): EventCommandExecuted {
+  return {
+    type: 'command.executed',
+    properties: { name: 'init', sessionID, arguments: '', messageID },
+  };
+}
+
+export function permissionUpdated(
+  sessionID: string,
+  permissionID: string,
+  pattern = 'rm -rf dist',
+): EventPermissionUpdated {
+  return {
+    type: 'permission.updated',
+    properties: {
+      id: permissionID,
+      type: 'bash',
+      pattern,
+      sessionID,
+      messageID: 'msg_a1',
+      title: 'Run command',
+      metadata: {},
+      time: { created: 0 },
+    },
+  };
+}
+
+export function permissionReplied(
+  sessionID: string,
+  permissionID: string,
+  response: string,
+): EventPermissionReplied {
+  return { type: 'permission.replied', properties: { sessionID, permissionID, response } };
+}
@@ -0,0 +1,126 @@
+// test/harness/fake.opencode.ts
+import type { OpencodeClient } from '@opencode-ai/sdk';
+
+export type FakeCall = { method: string; args: unknown };
+
+export type FakeOpencodeOptions = {
+  sessions?: Array<{ id: string; title: string }>;
+  commands?: Array<{ name: string; description?: string }>;
+  agents?: Array<{ id?: string; name: string; mode?: string }>;
+  providers?: unknown[];
+  /** Methods (e.g. `session.prompt`) that reject with the given error. */
+  failures?: Record<string, Error>;
+  /** Keep `session.prompt` pending (a running turn) until `finishPrompt()` is called. */
+  holdPrompts?: boolean;
+};
+
+/**
+ * Event source for `event.subscribe()`. `emit` resolves only after the listener has handled
+ * the event and pulled the next one, so tests observe adapter state deterministically.
+ */
+export class ScriptedEventStream {
+  private pending: Array<{ event: unknown; handled: () => void }> = [];
+  private wake: (() => void) | null = null;
+  private closed = false;
+
+  emit(event: unknown): Promise<void> {
+    return new Promise(resolve => {
+      this.pending.push({ event, handled: resolve });
+      this.wake?.();
+    });
+  }
+
+  async play(events: unknown[]) {
+    for (const event of events) await this.emit(event);
+  }
+
+  close() {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  async *iterate(): AsyncGenerator<unknown> {
+    while (true) {
+      while (this.pending.length === 0 && !this.closed) {
+        await new Promise<void>(resolve => (this.wake = resolve));
+        this.wake = null;
+      }
+      const next = this.pending.shift();
+      if (!next) return;
+      try {
+        yield next.event;
+      } finally {
+        next.handled();
+      }
+    }
+  }
+}
+
+export function createFakeOpencode(options: FakeOpencodeOptions = {}) {
+  const calls: FakeCall[] = [];
+  const events = new ScriptedEventStream();
+  const heldPrompts: Array<() => void> = [];
+  let sessionSeq = 0;
+
+  const method =
+    (name: string, result: (args: unknown) => unknown = () => ({})) =>
+    async (args?: unknown) => {
+      calls.push({ method: name, args });
+      const failure = options.failures?.[name];
+      if (failure) throw failure;
+      return { data: result(args) };
+    };
+
+  const client = {
+    session: {
+      create: method('session.create', () => ({ id: `ses_${++sessionSeq}` })),
+      prompt: async (args?: unknown) => {
+        const result = await method('session.prompt')(args);
+        if (options.holdPrompts) await new Promise<void>(resolve => heldPrompts.push(resolve));
+        return result;
+      },
+      abort: method('session.abort', () => true),
+      command: method('session.command'),
+      list: method('session.list', () => options.sessions || []),
+      delete: method('session.delete', () => true),
+      share: method('session.share', () => ({ share: { url: 'https://opencode.ai/s/fake' } })),
+      unshare: method('session.unshare'),
+      summarize: method('session.summarize', () => true),
+      init: method('session.init', () => true),
+    },
+    command: { list: method('command.list', () => options.commands || []) },
+    config: {
+      providers: method('config.providers', () => ({
+        providers: options.providers || [],
+        default: {},
+      })),
+    },
+    app: { agents: method('app.agents', () => options.agents || []) },
+    event: {
+      subscribe: async () => {
+        calls.push({ method: 'event.subscribe', args: undefined });
+        return { stream: events.iterate() };
+      },
+    },
+    postSessionIdPermissionsPermissionId: method(
+      'postSessionIdPermissionsPermissionId',
+      () => true,
+    ),
+  };
+
+  return {
+    client: client as unknown as OpencodeClient,
+    calls,
+    events,
+    callsTo(name: string): FakeCall[] {
+      return calls.filter(c => c.method === name);
+    },
+    /** Completes the oldest held prompt, as OpenCode does when a turn ends. */
+    async finishPrompt() {
+      heldPrompts.shift()?.();
+      await new Promise(resolve => setTimeout(resolve, 0));
+    },
+  };
+}
+
+export type FakeOpencode = ReturnType<typeof createFakeOpencode>;
@@ -0,0 +1,155 @@
+// test/harness/mail.server.ts
+import * as net from 'node:net';
+import type { AddressInfo } from 'node:net';
+
+export const MAIL_USER = 'bot@example.test';
+export const MAIL_PASSWORD = 'mail-test-password';
+
+export type SmtpDelivery = { from: string; to: string[]; data: string; auth: string };
+
+type Conversation = (line: string, reply: (text: string) => void, end: () => void) => void;
+
+async function listen(onConnect: (socket: net.Socket) => Conversation) {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => {});
+    const onLine = onConnect(socket);
+    let pending = '';
+    socket.on('data', chunk => {
+      pending += chunk.toString('latin1');
+      for (let idx = pending.indexOf('\r\n'); idx >= 0; idx = pending.indexOf('\r\n')) {
+        const line = pending.slice(0, idx);
+        pending = pending.slice(idx + 2);
+        onLine(
+          line,
+          text => socket.write(Buffer.from(`${text}\r\n`, 'latin1')),
+          () => socket.end(),
+        );
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * An SMTP server that accepts everything (AUTH PLAIN / LOGIN included) and keeps each delivered
+ * message; stands in for the outgoing relay.
+ */
+export async function startMockSmtpSink() {
+  const deliveries: SmtpDelivery[] = [];
+  const server = await listen(socket => {
+    socket.write('220 mock-smtp ESMTP\r\n');
+    let current: SmtpDelivery = { from: '', to: [], data: '', auth: '' };
+    let inData = false;
+    let data: string[] = [];
+    return (line, reply, end) => {
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          deliveries.push({ ...current, data: data.join('\r\n') });
+          current = { from: '', to: [], data: '', auth: current.auth };
+          reply('250 OK');
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        return;
+      }
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO') {
+        reply('250-mock-smtp\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME');
+      } else if (verb === 'AUTH') {
+        current.auth = Buffer.from(line.split(' ')[2] || '', 'base64').toString('utf8');
+        reply('235 Authenticated');
+      } else if (verb === 'MAIL') {
+        current.from = line.match(/<([^>]*)>/)?.[1] || '';
+        reply('250 OK');
+      } else if (verb === 'RCPT') {
+        current.to.push(line.match(/<([^>]*)>/)?.[1] || '');
+        reply('250 OK');
+      } else if (verb === 'DATA') {
+        inData = true;
+        data = [];
+        reply('354 Go ahead');
+      } else if (verb === 'QUIT') {
+        reply('221 Bye');
+        end();
+      } else {
+        reply('250 OK');
+      }
+    };
+  });
+  return {
+    url: `smtp://127.0.0.1:${server.port}`,
+    deliveries,
+    close: server.close,
+  };
+}
+
+type StoredMessage = { uid: number; raw: string; seen: boolean };
+
+/**
+ * IMAP4rev1 subset the bridge polls with: LOGIN, SELECT, UID SEARCH UNSEEN, UID FETCH BODY.PEEK[]
+ * and UID STORE +FLAGS.SILENT (\Seen). `deliver` drops a message into the mailbox.
+ */
+export async function startMockImapServer() {
+  const messages: StoredMessage[] = [];
+  const commands: string[] = [];
+  let nextUid = 1;
+  const server = await listen(socket => {
+    socket.write('* OK mock IMAP ready\r\n');
+    return (line, reply, end) => {
+      const [tag, ...rest] = line.split(' ');
+      const cmd = rest.join(' ');
+      commands.push(cmd);
+      const upper = cmd.toUpperCase();
+      if (upper.startsWith('LOGIN')) {
+        const ok = cmd === `LOGIN "${MAIL_USER}" "${MAIL_PASSWORD}"`;
+        reply(ok ? `${tag} OK LOGIN completed` : `${tag} NO [AUTHENTICATIONFAILED] Invalid`);
+      } else if (upper.startsWith('SELECT')) {
+        reply(`* ${messages.length} EXISTS`);
+        reply(`${tag} OK [READ-WRITE] SELECT completed`);
+      } else if (upper === 'UID SEARCH UNSEEN') {
+        const uids = messages.filter(m => !m.seen).map(m => m.uid);
+        reply(`* SEARCH${uids.map(uid => ` ${uid}`).join('')}`);
+        reply(`${tag} OK SEARCH completed`);
+      } else if (upper.startsWith('UID FETCH')) {
+        const uid = Number(cmd.split(' ')[2]);
+        const msg = messages.find(m => m.uid === uid);
+        if (msg) {
+          const bytes = Buffer.byteLength(msg.raw, 'latin1');
+          reply(`* ${uid} FETCH (UID ${uid} BODY[] {${bytes}}\r\n${msg.raw})`);
+        }
+        reply(`${tag} OK FETCH completed`);
+      } else if (upper.startsWith('UID STORE')) {
+        const msg = messages.find(m => m.uid === Number(cmd.split(' ')[2]));
+        if (msg && /\\Seen/i.test(cmd)) msg.seen = true;
+        reply(`${tag} OK STORE completed`);
+      } else if (upper === 'LOGOUT') {
+        reply('* BYE logging out');
+        reply(`${tag} OK LOGOUT completed`);
+        end();
+      } else {
+        reply(`${tag} BAD unknown command`);
+      }
+    };
+  });
+  return {
+    url: `imap://127.0.0.1:${server.port}`,
+    commands,
+    messages,
+    /** Stores the message as its UTF-8 bytes, the way a server would. */
+    deliver: (raw: string) => {
+      messages.push({ uid: nextUid++, raw: Buffer.from(raw).toString('latin1'), seen: false });
+    },
+    close: server.close,
+  };
+}
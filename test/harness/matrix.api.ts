@@ -0,0 +1,165 @@
+// test/harness/matrix.api.ts
+import * as http from 'node:http';
+import type { AddressInfo, Socket } from 'node:net';
+
+export type MatrixApiCall = {
+  method: string;
+  path: string;
+  body: unknown;
+  authorization: string;
+};
+
+export const MATRIX_BOT_USER = '@opencode:localhost';
+export const MATRIX_BOT_NAME = 'OpenCode';
+export const MATRIX_ACCESS_TOKEN = 'matrix-test-token';
+export const MATRIX_MEDIA_BYTES = Buffer.from('matrix-media-bytes');
+
+type RoomEvent = { roomId: string; event: Record<string, unknown> };
+
+/**
+ * A local stand-in for a Matrix homeserver's client-server API: whoami, a long-polling /sync fed
+ * by `push`, send / redact / join and the media repository. Calls are recorded with the fields
+ * the client sends so tests can check them the way they would against Synapse or Conduit.
+ */
+export async function startMockMatrixApi() {
+  const calls: MatrixApiCall[] = [];
+  const sockets = new Set<Socket>();
+  const queue: RoomEvent[] = [];
+  const invites = new Set<string>();
+  const memberCounts = new Map<string, number>();
+  let wake: (() => void) | null = null;
+  let batch = 0;
+  let nextEvent = 1;
+  let nextMedia = 1;
+  let rateLimitSends = 0;
+
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  const syncBody = (initial: boolean) => {
+    const join: Record<string, unknown> = {};
+    for (const [roomId, count] of memberCounts) {
+      join[roomId] = { summary: { 'm.joined_member_count': count }, timeline: { events: [] } };
+    }
+    if (!initial) {
+      for (const { roomId, event } of queue.splice(0)) {
+        const room = (join[roomId] || { timeline: { events: [] } }) as {
+          timeline: { events: unknown[] };
+        };
+        room.timeline.events.push(event);
+        join[roomId] = room;
+      }
+    }
+    const invite = Object.fromEntries([...invites].map(roomId => [roomId, {}]));
+    invites.clear();
+    batch += 1;
+    return { next_batch: `s${batch}`, rooms: { join, invite } };
+  };
+
+  const handleSync = async (url: URL, res: http.ServerResponse) => {
+    const initial = !url.searchParams.get('since');
+    if (!initial && queue.length === 0 && invites.size === 0) {
+      const timeout = Math.min(Number(url.searchParams.get('timeout') || 0), 30000);
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, timeout);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+    if (res.destroyed) return;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(syncBody(initial)));
+  };
+
+  const respond = (method: string, path: string): { status: number; body?: unknown } => {
+    if (path === '/_matrix/client/v3/account/whoami') {
+      return { status: 200, body: { user_id: MATRIX_BOT_USER } };
+    }
+    if (path.endsWith('/displayname')) {
+      return { status: 200, body: { displayname: MATRIX_BOT_NAME } };
+    }
+    const join = path.match(/^\/_matrix\/client\/v3\/join\/(.+)$/);
+    if (join && method === 'POST') {
+      memberCounts.set(join[1], memberCounts.get(join[1]) || 2);
+      return { status: 200, body: { room_id: join[1] } };
+    }
+    if (/\/(send|redact)\//.test(path) && method === 'PUT') {
+      if (rateLimitSends > 0) {
+        rateLimitSends -= 1;
+        return { status: 429, body: { errcode: 'M_LIMIT_EXCEEDED', retry_after_ms: 10 } };
+      }
+      return { status: 200, body: { event_id: `$bot${nextEvent++}` } };
+    }
+    if (path.startsWith('/_matrix/media/v3/upload') && method === 'POST') {
+      return { status: 200, body: { content_uri: `mxc://localhost/up${nextMedia++}` } };
+    }
+    return { status: 404, body: { errcode: 'M_UNRECOGNIZED', error: 'Unrecognized request' } };
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const method = req.method || 'GET';
+      const path = decodeURIComponent(url.pathname);
+      if (path === '/_matrix/client/v3/sync') {
+        void handleSync(url, res);
+        return;
+      }
+      if (path.startsWith('/_matrix/client/v1/media/download/localhost/')) {
+        res.setHeader('content-type', 'image/png');
+        res.end(MATRIX_MEDIA_BYTES);
+        return;
+      }
+      const raw = Buffer.concat(chunks);
+      const isJson = String(req.headers['content-type'] || '').includes('application/json');
+      calls.push({
+        method,
+        path: path + (url.search ? decodeURIComponent(url.search) : ''),
+        body: isJson && raw.length > 0 ? JSON.parse(raw.toString('utf8')) : raw,
+        authorization: String(req.headers.authorization || ''),
+      });
+      const { status, body } = respond(method, path);
+      res.statusCode = status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body ?? {}));
+    });
+  });
+
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    homeserverUrl: baseUrl,
+    calls,
+    callsTo: (method: string, pattern: RegExp) =>
+      calls.filter(c => c.method === method && pattern.test(c.path)),
+    setMemberCount: (roomId: string, count: number) => memberCounts.set(roomId, count),
+    invite: (roomId: string) => {
+      invites.add(roomId);
+      notify();
+    },
+    push: (roomId: string, event: Record<string, unknown>) => {
+      queue.push({ roomId, event });
+      notify();
+    },
+    /** The next `count` send / redact calls are answered with `M_LIMIT_EXCEEDED`. */
+    rateLimitNextSends: (count: number) => (rateLimitSends = count),
+    close: () => {
+      notify();
+      for (const socket of sockets) socket.destroy();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
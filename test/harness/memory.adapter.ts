@@ -0,0 +1,116 @@
+// test/harness/memory.adapter.ts
+import type {
+  BridgeActionPrompt,
+  BridgeAdapter,
+  BridgeCommandInfo,
+  BridgeMessageContent,
+  DisplayModel,
+  IncomingActionHandler,
+  IncomingMessageHandler,
+} from '../../src/types';
+import { isDisplayModel, toMarkdown } from '../../src/bridge/display';
+
+export type RecordedMessage = {
+  id: string;
+  chatId: string;
+  content: BridgeMessageContent;
+  history: BridgeMessageContent[]; // every version, first send included
+};
+
+export type AdapterOp =
+  | { op: 'send'; chatId: string; messageId: string }
+  | { op: 'edit'; chatId: string; messageId: string; ok: boolean }
+  | { op: 'react'; messageId: string; emoji: string }
+  | { op: 'unreact'; messageId: string; reactionId: string };
+
+/** In-memory `BridgeAdapter` that records every send/edit instead of talking to a platform. */
+export class MemoryAdapter implements BridgeAdapter {
+  provider: 'memory' = 'memory';
+  pageTextLimit?: number;
+  readonly messages: RecordedMessage[] = [];
+  readonly ops: AdapterOp[] = [];
+  readonly prompts: Array<{ id: string; chatId: string; prompt: BridgeActionPrompt }> = [];
+  onMessage?: IncomingMessageHandler;
+  onAction?: IncomingActionHandler;
+  commands: BridgeCommandInfo[] = [];
+  /** Number of upcoming edits that report failure (exercises the retry/fallback path). */
+  failEdits = 0;
+  private seq = 0;
+
+  async start(
+    onMessage: IncomingMessageHandler,
+    onAction?: IncomingActionHandler,
+    commands?: BridgeCommandInfo[],
+  ) {
+    this.onMessage = onMessage;
+    this.onAction = onAction;
+    this.commands = commands || [];
+  }
+
+  async sendMessage(chatId: string, content: BridgeMessageContent) {
+    const id = `om_${++this.seq}`;
+    this.messages.push({ id, chatId, content, history: [content] });
+    this.ops.push({ op: 'send', chatId, messageId: id });
+    return id;
+  }
+
+  async editMessage(chatId: string, messageId: string, content: BridgeMessageContent) {
+    const msg = this.messages.find(m => m.id === messageId && m.chatId === chatId);
+    const ok = !!msg && this.failEdits <= 0;
+    if (this.failEdits > 0) this.failEdits--;
+    this.ops.push({ op: 'edit', chatId, messageId, ok });
+    if (!ok || !msg) return false;
+    msg.content = content;
+    msg.history.push(content);
+    return true;
+  }
+
+  async addReaction(messageId: string, emojiType: string) {
+    this.ops.push({ op: 'react', messageId, emoji: emojiType });
+    return `reaction_${messageId}`;
+  }
+
+  async removeReaction(messageId: string, reactionId: string) {
+    this.ops.push({ op: 'unreact', messageId, reactionId });
+  }
+
+  async sendActionPrompt(chatId: string, prompt: BridgeActionPrompt) {
+    const id = `om_${++this.seq}`;
+    this.prompts.push({ id, chatId, prompt });
+    return id;
+  }
+
+  async editActionPrompt(chatId: string, messageId: string, prompt: BridgeActionPrompt) {
+    const entry = this.prompts.find(p => p.id === messageId && p.chatId === chatId);
+    if (!entry) return false;
+    entry.prompt = prompt;
+    return true;
+  }
+
+  message(id: string): RecordedMessage {
+    const msg = this.messages.find(m => m.id === id);
+    if (!msg) throw new Error(`no message ${id}`);
+    return msg;
+  }
+
+  last(): RecordedMessage {
+    const msg = this.messages[this.messages.length - 1];
+    if (!msg) throw new Error('no messages sent');
+    return msg;
+  }
+
+  /** Latest content of a message as a `DisplayModel`; fails for plain markdown replies. */
+  model(id: string): DisplayModel {
+    const content = this.message(id).content;
+    if (!isDisplayModel(content)) throw new Error(`message ${id} is not a DisplayModel`);
+    return content;
+  }
+
+  text(id: string): string {
+    return toMarkdown(this.message(id).content);
+  }
+
+  count(op: AdapterOp['op']): number {
+    return this.ops.filter(o => o.op === op).length;
+  }
+}
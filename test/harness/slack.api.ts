@@ -0,0 +1,86 @@
+// test/harness/slack.api.ts
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export type SlackApiCall = {
+  method: string;
+  body: Record<string, unknown>;
+  authorization: string;
+};
+
+export const SLACK_BOT_USER = 'UBOT';
+export const SLACK_BOT_TOKEN = 'xoxb-test';
+export const SLACK_FILE_BYTES = Buffer.from('slack-file-bytes');
+
+function parseBody(raw: string, contentType: string): Record<string, unknown> {
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  return raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+}
+
+/**
+ * A local stand-in for `https://slack.com/api`: records every Web API call and answers with
+ * the minimal fields the client reads. Private file downloads and upload URLs live here too.
+ */
+export async function startMockSlackApi() {
+  const calls: SlackApiCall[] = [];
+  const uploads: Buffer[] = [];
+  let nextTs = 1000;
+  let baseUrl = '';
+
+  const respond = (method: string): Record<string, unknown> => {
+    switch (method) {
+      case 'auth.test':
+        return { ok: true, user_id: SLACK_BOT_USER, team: 'T1' };
+      case 'chat.postMessage':
+        return { ok: true, ts: `${nextTs++}.000100` };
+      case 'files.getUploadURLExternal': {
+        const id = `F${calls.length}`;
+        return { ok: true, upload_url: `${baseUrl}/upload/${id}`, file_id: id };
+      }
+      default:
+        return { ok: true };
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => {
+      const url = req.url || '/';
+      const raw = Buffer.concat(chunks);
+      if (url.startsWith('/files/')) {
+        const authorized = req.headers.authorization === `Bearer ${SLACK_BOT_TOKEN}`;
+        res.statusCode = authorized ? 200 : 403;
+        res.end(authorized ? SLACK_FILE_BYTES : undefined);
+        return;
+      }
+      if (url.startsWith('/upload/')) {
+        uploads.push(raw);
+        res.end('OK');
+        return;
+      }
+      const method = url.replace(/^\/api\//, '');
+      calls.push({
+        method,
+        body: parseBody(raw.toString('utf8'), String(req.headers['content-type'] || '')),
+        authorization: String(req.headers.authorization || ''),
+      });
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(respond(method)));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    apiBaseUrl: `${baseUrl}/api`,
+    fileUrl: (name: string) => `${baseUrl}/files/${name}`,
+    calls,
+    uploads,
+    callsTo: (method: string) => calls.filter(c => c.method === method),
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
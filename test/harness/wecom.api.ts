@@ -0,0 +1,72 @@
+// test/harness/wecom.api.ts
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export type WeComApiCall = {
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+};
+
+export const WECOM_CORP_ID = 'ww-test-corp';
+export const WECOM_SECRET = 'wecom-secret';
+export const WECOM_MEDIA_BYTES = Buffer.from('wecom-media-bytes');
+
+/**
+ * A local stand-in for `https://qyapi.weixin.qq.com`: hands out access tokens, records API
+ * calls and serves `media/get`. `expireTokenOnce` makes the next call fail with 42001.
+ */
+export async function startMockWeComApi() {
+  const calls: WeComApiCall[] = [];
+  let tokenVersion = 1;
+  let expireNext = false;
+  let nextMsg = 1;
+
+  const respond = (path: string, query: Record<string, string>): Record<string, unknown> => {
+    if (path === '/cgi-bin/gettoken') {
+      if (query.corpsecret !== WECOM_SECRET) return { errcode: 40001, errmsg: 'invalid secret' };
+      return { errcode: 0, access_token: `token-${tokenVersion}`, expires_in: 7200 };
+    }
+    if (expireNext || query.access_token !== `token-${tokenVersion}`) {
+      expireNext = false;
+      tokenVersion += 1;
+      return { errcode: 42001, errmsg: 'access_token expired' };
+    }
+    if (path === '/cgi-bin/message/send') return { errcode: 0, msgid: `msg-${nextMsg++}` };
+    if (path === '/cgi-bin/media/upload') return { errcode: 0, media_id: `media-${nextMsg++}` };
+    return { errcode: 0, errmsg: 'ok' };
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const query = Object.fromEntries(url.searchParams);
+      if (url.pathname === '/cgi-bin/media/get') {
+        res.setHeader('content-type', 'image/jpeg');
+        res.setHeader('content-disposition', 'attachment; filename="photo.jpg"');
+        res.end(WECOM_MEDIA_BYTES);
+        return;
+      }
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const isJson = String(req.headers['content-type'] || '').includes('application/json');
+      calls.push({ path: url.pathname, query, body: isJson && raw ? JSON.parse(raw) : raw });
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(respond(url.pathname, query)));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    apiBaseUrl: baseUrl,
+    calls,
+    callsTo: (path: string) => calls.filter(c => c.path === path),
+    expireTokenOnce: () => {
+      expireNext = true;
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,101 @@
+// test/harness/ws.server.ts
+import * as crypto from 'node:crypto';
+import type * as http from 'node:http';
+import type { Socket } from 'node:net';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+type Frame = { opcode: number; payload: Buffer };
+
+export type WsPeer = {
+  send(text: string): void;
+  destroy(): void;
+};
+
+/** Encodes one unmasked server → client frame. */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const len = payload.length;
+  let header: Buffer;
+  if (len < 126) {
+    header = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** Pops complete (masked) client frames off `buf`; returns the frames and the remainder. */
+function decodeFrames(buf: Buffer): { frames: Frame[]; rest: Buffer } {
+  const frames: Frame[] = [];
+  let offset = 0;
+  while (buf.length - offset >= 2) {
+    const opcode = buf[offset] & 0x0f;
+    const masked = (buf[offset + 1] & 0x80) !== 0;
+    let len = buf[offset + 1] & 0x7f;
+    let pos = offset + 2;
+    if (len === 126) {
+      if (buf.length < pos + 2) break;
+      len = buf.readUInt16BE(pos);
+      pos += 2;
+    } else if (len === 127) {
+      if (buf.length < pos + 8) break;
+      len = Number(buf.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    const maskLen = masked ? 4 : 0;
+    if (buf.length < pos + maskLen + len) break;
+    const mask = buf.subarray(pos, pos + maskLen);
+    const payload = Buffer.from(buf.subarray(pos + maskLen, pos + maskLen + len));
+    if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = pos + maskLen + len;
+  }
+  return { frames, rest: buf.subarray(offset) };
+}
+
+/**
+ * Completes the WebSocket handshake of an HTTP `upgrade` request and speaks just enough of
+ * RFC 6455 for the mock servers: text frames in and out, and an echoed close.
+ */
+export function acceptWebSocket(
+  req: http.IncomingMessage,
+  socket: Socket,
+  onText: (text: string) => void,
+): WsPeer {
+  const accept = crypto
+    .createHash('sha1')
+    .update(`${req.headers['sec-websocket-key']}${WS_GUID}`)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+
+  let pending: Buffer = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const frame of frames) {
+      if (frame.opcode === 8) {
+        socket.end(encodeFrame(8, frame.payload.subarray(0, 2)));
+        return;
+      }
+      if (frame.opcode === 1) onText(frame.payload.toString('utf8'));
+    }
+  });
+
+  return {
+    send: text => {
+      if (!socket.destroyed) socket.write(encodeFrame(1, Buffer.from(text)));
+    },
+    destroy: () => socket.destroy(),
+  };
+}
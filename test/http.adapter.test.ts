@@ -0,0 +1,201 @@
+// test/http.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpAdapter } from '../src/http/http.adapter';
+import type { HttpChatEntry, HttpChatSnapshot } from '../src/http/http.server';
+import type { BridgeChatState, DisplayModel, HttpConfig } from '../src/types';
+import { type Incoming, freePort, runDisplay, waitFor } from './harness/adapter';
+
+const AUTH_TOKEN = 'portal-secret';
+
+type SseEvent = { id: string; event: string; data: HttpChatEntry };
+
+/** Reads SSE frames from a fetch body into `events` until aborted. */
+function collectSse(body: ReadableStream<Uint8Array>, events: SseEvent[]) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  const pump = async () => {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffered += decoder.decode(value, { stream: true });
+      let cut = buffered.indexOf('\n\n');
+      while (cut >= 0) {
+        const frame = buffered.slice(0, cut);
+        buffered = buffered.slice(cut + 2);
+        const fields = Object.fromEntries(
+          frame
+            .split('\n')
+            .filter(line => line && !line.startsWith(':'))
+            .map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]),
+        );
+        if (fields.data) {
+          events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+        }
+        cut = buffered.indexOf('\n\n');
+      }
+    }
+  };
+  return pump().catch(() => {});
+}
+
+describe('HttpAdapter (REST + SSE)', () => {
+  let adapter: HttpAdapter;
+  let baseUrl: string;
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string }> = [];
+  const state: BridgeChatState = {
+    session_id: 'ses_1',
+    agent: 'build',
+    model: null,
+    busy: true,
+    queued: 1,
+  };
+
+  const authed = (init: RequestInit = {}): RequestInit => ({
+    ...init,
+    headers: {
+      authorization: `Bearer ${AUTH_TOKEN}`,
+      'content-type': 'application/json',
+      ...(init.headers as Record<string, string>),
+    },
+  });
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}/bridge`;
+    const config: HttpConfig = { listen_url: baseUrl, auth_token: AUTH_TOKEN };
+    adapter = new HttpAdapter(config, () => state);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId) => {
+        actions.push({ chatId, value, senderId });
+        return '已中断';
+      },
+    );
+  });
+
+  after(async () => {
+    await adapter.stop();
+  });
+
+  it('rejects requests without the bearer token and unknown routes', async () => {
+    const noAuth = await fetch(`${baseUrl}/chats/portal-1`);
+    assert.equal(noAuth.status, 401);
+    const wrong = await fetch(`${baseUrl}/chats/portal-1`, {
+      headers: { authorization: 'Bearer nope' },
+    });
+    assert.equal(wrong.status, 401);
+    const unknown = await fetch(`${baseUrl}/other`, authed());
+    assert.equal(unknown.status, 404);
+  });
+
+  it('accepts a message with files and hands it to the bridge', async () => {
+    const res = await fetch(
+      `${baseUrl}/chats/portal-1/messages`,
+      authed({
+        method: 'POST',
+        body: JSON.stringify({
+          text: ' /status ',
+          sender_id: 'alice',
+          files: [{ filename: 'a.txt', url: 'data:text/plain;base64,aGk=' }],
+        }),
+      }),
+    );
+    assert.equal(res.status, 202);
+    const { message_id } = (await res.json()) as { message_id: string };
+
+    const msg = await waitFor(() => incoming.find(m => m.messageId === message_id));
+    assert.equal(msg.chatId, 'portal-1');
+    assert.equal(msg.text, '/status');
+    assert.equal(msg.senderId, 'alice');
+    assert.deepEqual(msg.parts, [
+      { type: 'file', mime: 'text/plain', filename: 'a.txt', url: 'data:text/plain;base64,aGk=' },
+    ]);
+
+    const bad = await fetch(
+      `${baseUrl}/chats/portal-1/messages`,
+      authed({ method: 'POST', body: JSON.stringify({ files: [{ url: 'file:///etc/passwd' }] }) }),
+    );
+    assert.equal(bad.status, 400);
+    const empty = await fetch(
+      `${baseUrl}/chats/portal-1/messages`,
+      authed({ method: 'POST', body: JSON.stringify({ text: '  ' }) }),
+    );
+    assert.equal(empty.status, 400);
+  });
+
+  it('streams sends and edits to SSE subscribers of that chat only', async () => {
+    const controller = new AbortController();
+    const events: SseEvent[] = [];
+    const other: SseEvent[] = [];
+    const res = await fetch(`${baseUrl}/chats/portal-2/events?access_token=${AUTH_TOKEN}`, {
+      signal: controller.signal,
+    });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') || '', /text\/event-stream/);
+    const otherRes = await fetch(
+      `${baseUrl}/chats/portal-3/events`,
+      authed({ signal: controller.signal }),
+    );
+    const done = Promise.all([
+      collectSse(res.body as ReadableStream<Uint8Array>, events),
+      collectSse(otherRes.body as ReadableStream<Uint8Array>, other),
+    ]);
+
+    const id = await adapter.sendMessage('portal-2', runDisplay());
+    assert.ok(id);
+    const final = runDisplay({ answer: 'final answer', status: { state: 'done' } });
+    assert.equal(await adapter.editMessage('portal-2', id, final), true);
+    assert.equal(await adapter.editMessage('portal-2', 'missing', final), false);
+
+    await waitFor(() => (events.length >= 2 ? true : undefined));
+    assert.deepEqual(
+      events.map(e => [e.id, e.event, e.data.id]),
+      [
+        ['1', 'message', id],
+        ['2', 'update', id],
+      ],
+    );
+    const last = events[1].data;
+    assert.equal(last.type, 'message');
+    assert.equal(last.type === 'message' && (last.content as DisplayModel).answer, 'final answer');
+    assert.equal(other.length, 0);
+
+    controller.abort();
+    await done;
+  });
+
+  it('returns the chat snapshot with bridge state, and answers button actions', async () => {
+    const promptId = await adapter.sendActionPrompt('portal-4', {
+      title: '权限请求',
+      body: 'bash: rm -rf build',
+      actions: [{ label: '允许', value: 'perm:1:once', style: 'primary' }],
+    });
+    assert.ok(promptId);
+    await adapter.editActionPrompt('portal-4', promptId, {
+      title: '权限请求',
+      body: 'bash: rm -rf build\n✅ 已允许（本次）',
+      actions: [],
+    });
+
+    const res = await fetch(`${baseUrl}/chats/portal-4`, authed());
+    const snapshot = (await res.json()) as HttpChatSnapshot;
+    assert.equal(snapshot.chat_id, 'portal-4');
+    assert.deepEqual(snapshot.state, state);
+    assert.equal(snapshot.entries.length, 1);
+    const entry = snapshot.entries[0];
+    assert.equal(entry.type, 'prompt');
+    assert.equal(entry.type === 'prompt' ? entry.prompt.actions.length : -1, 0);
+
+    const action = await fetch(
+      `${baseUrl}/chats/portal-4/actions`,
+      authed({ method: 'POST', body: JSON.stringify({ value: 'abort', sender_id: 'bob' }) }),
+    );
+    assert.deepEqual(await action.json(), { reply: '已中断' });
+    assert.deepEqual(actions.at(-1), { chatId: 'portal-4', value: 'abort', senderId: 'bob' });
+  });
+});
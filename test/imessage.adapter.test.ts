@@ -0,0 +1,203 @@
+// test/imessage.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IMessageAdapter } from '../src/imessage/imessage.adapter';
+import {
+  markdownToPlainText,
+  renderIMessageActionPrompt,
+  renderIMessageText,
+} from '../src/imessage/imessage.renderer';
+import type { IMessageConfig } from '../src/types';
+import { type Incoming, runDisplay, waitFor } from './harness/adapter';
+import {
+  BLUEBUBBLES_ATTACHMENT_BYTES,
+  BLUEBUBBLES_PASSWORD,
+  startMockBlueBubblesApi,
+} from './harness/bluebubbles.api';
+
+const DM_CHAT = 'iMessage;-;+15551234567';
+const GROUP_CHAT = 'iMessage;+;chat424242';
+const SENDER = '+15551234567';
+
+describe('iMessage renderer', () => {
+  it('flattens markdown to plain text and keeps code', () => {
+    const text = markdownToPlainText(
+      '## Result\n\nRun **npm test** or `bun test`, see [docs](https://x.test/d).\n\n' +
+        '- first\n- second\n\n```ts\nconst a = 1;\n```',
+    );
+    assert.equal(
+      text,
+      'Result\n\nRun npm test or bun test, see docs (https://x.test/d).\n\n' +
+        '• first\n• second\n\nconst a = 1;',
+    );
+  });
+
+  it('renders one-off replies and numbered prompts', () => {
+    assert.equal(renderIMessageText('✅ **已切换**到新会话'), '✅ 已切换到新会话');
+    const prompt = renderIMessageActionPrompt({
+      title: '权限请求',
+      body: 'bash: `rm -rf build`',
+      actions: [
+        { label: '允许', value: 'perm:1:once' },
+        { label: '拒绝', value: 'perm:1:reject' },
+      ],
+    });
+    assert.equal(
+      prompt,
+      '权限请求\n\nbash: rm -rf build\n\n回复对应数字即可选择：\n\n1. 允许\n2. 拒绝',
+    );
+  });
+});
+
+describe('IMessageAdapter (BlueBubbles transport against a mock server)', () => {
+  let api: Awaited<ReturnType<typeof startMockBlueBubblesApi>>;
+  let adapter: IMessageAdapter;
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string }> = [];
+
+  const sentTexts = (chatGuid: string) =>
+    api
+      .callsTo('/api/v1/message/text')
+      .filter(c => c.body.chatGuid === chatGuid)
+      .map(c => String(c.body.message));
+
+  before(async () => {
+    api = await startMockBlueBubblesApi();
+    const config: IMessageConfig = {
+      transport: 'bluebubbles',
+      server_url: api.url,
+      password: BLUEBUBBLES_PASSWORD,
+      send_method: 'apple-script',
+      poll_interval_ms: 20,
+    };
+    adapter = new IMessageAdapter(config);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId) => {
+        actions.push({ chatId, value, senderId });
+        return value === 'abort' ? '⏹️ 已中止' : '**已拒绝**';
+      },
+    );
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await api.close();
+  });
+
+  it('polls new messages with attachments, skipping history, own sends and tapbacks', async () => {
+    api.receive({ chatGuid: DM_CHAT, sender: SENDER, text: 'hi', associatedMessageType: 'love' });
+    api.receive({ chatGuid: DM_CHAT, sender: SENDER, text: 'from me', isFromMe: true });
+    const id = api.receive({
+      chatGuid: GROUP_CHAT,
+      sender: SENDER,
+      text: '\uFFFCPlease review this',
+      group: true,
+      attachments: [{ guid: 'att-1', transferName: 'shot.png', mimeType: 'image/png' }],
+    });
+
+    const msg = await waitFor(() => incoming[0]);
+    assert.deepEqual(
+      { chatId: msg.chatId, text: msg.text, messageId: msg.messageId, senderId: msg.senderId },
+      { chatId: GROUP_CHAT, text: 'Please review this', messageId: id, senderId: SENDER },
+    );
+    assert.deepEqual(msg.parts, [
+      {
+        type: 'file',
+        filename: 'shot.png',
+        mime: 'image/png',
+        url: `data:image/png;base64,${BLUEBUBBLES_ATTACHMENT_BYTES.toString('base64')}`,
+      },
+    ]);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    assert.equal(incoming.length, 1);
+    assert.ok(api.callsTo('/api/v1/attachment/att-1/download').length === 1);
+    assert.ok(api.calls.every(c => c.password === BLUEBUBBLES_PASSWORD));
+  });
+
+  it('streams a run as new messages, one per finished paragraph block, never edits', async () => {
+    const para1 = `First paragraph ${'a'.repeat(300)}.`;
+    const para2 = 'Second **paragraph**.';
+    const id = await adapter.sendMessage(DM_CHAT, runDisplay({ answer: 'First' }));
+    assert.ok(id);
+    assert.deepEqual(sentTexts(DM_CHAT), []);
+
+    // An unfinished paragraph is held back.
+    await adapter.editMessage(DM_CHAT, id, runDisplay({ answer: para1 }));
+    assert.deepEqual(sentTexts(DM_CHAT), []);
+    await adapter.editMessage(DM_CHAT, id, runDisplay({ answer: `${para1}\n\n${para2}` }));
+    assert.deepEqual(sentTexts(DM_CHAT), [para1]);
+
+    const files = [{ filename: 'chart.png', mime: 'image/png', url: 'data:image/png;base64,b2s=' }];
+    const final = runDisplay({
+      answer: `${para1}\n\n${para2}`,
+      tools: [{ callID: 'c1', tool: 'bash', status: 'completed', title: 'npm test' }],
+      files,
+      status: { state: 'done', note: 'idle' },
+    });
+    assert.equal(await adapter.editMessage(DM_CHAT, id, final), true);
+    assert.deepEqual(sentTexts(DM_CHAT), [para1, 'Second paragraph.\n\n⚙️ bash npm test']);
+    const [upload] = api.callsTo('/api/v1/message/attachment');
+    assert.equal(upload.body.chatGuid, DM_CHAT);
+    assert.equal(upload.body.method, 'apple-script');
+    assert.deepEqual(
+      [upload.file?.name, upload.file?.type, upload.file?.bytes.toString()],
+      ['chart.png', 'image/png', 'ok'],
+    );
+
+    // A late flush of a finished message sends nothing.
+    assert.equal(await adapter.editMessage(DM_CHAT, id, final), true);
+    assert.equal(sentTexts(DM_CHAT).length, 2);
+    assert.equal(api.callsTo('/api/v1/message/attachment').length, 1);
+  });
+
+  it('reports how an aborted run ended and sends one-off replies right away', async () => {
+    const id = await adapter.sendMessage(GROUP_CHAT, runDisplay({ tools: [] }));
+    assert.ok(id);
+    await adapter.editMessage(
+      GROUP_CHAT,
+      id,
+      runDisplay({ answer: 'Partial', tools: [], status: { state: 'aborted' } }),
+    );
+    assert.ok(await adapter.sendMessage(GROUP_CHAT, '🆕 **已创建新会话**'));
+    assert.deepEqual(sentTexts(GROUP_CHAT), ['Partial\n\n⏹️ aborted', '🆕 已创建新会话']);
+  });
+
+  it('answers prompts by number and aborts runs with a stop word', async () => {
+    const promptId = await adapter.sendActionPrompt(DM_CHAT, {
+      title: '权限请求',
+      body: 'bash: rm -rf build',
+      actions: [
+        { label: '允许', value: 'perm:1:once', style: 'primary' },
+        { label: '拒绝', value: 'perm:1:reject', style: 'danger' },
+      ],
+    });
+    assert.ok(promptId);
+
+    api.receive({ chatGuid: DM_CHAT, sender: SENDER, text: '2' });
+    await waitFor(() => (actions.length === 1 ? true : undefined));
+    const closed = { title: '权限请求', body: '', actions: [] };
+    await adapter.editActionPrompt(DM_CHAT, promptId, closed);
+    api.receive({ chatGuid: DM_CHAT, sender: SENDER, text: '2' });
+    api.receive({ chatGuid: DM_CHAT, sender: SENDER, text: '停止' });
+
+    await waitFor(() => (actions.length === 2 ? true : undefined));
+    assert.deepEqual(
+      actions.map(a => [a.chatId, a.value, a.senderId]),
+      [
+        [DM_CHAT, 'perm:1:reject', SENDER],
+        [DM_CHAT, 'abort', SENDER],
+      ],
+    );
+    // With the prompt closed, a bare number is an ordinary message again.
+    const plain = await waitFor(() => incoming.find(m => m.chatId === DM_CHAT));
+    assert.equal(plain.text, '2');
+    const replies = await waitFor(() => {
+      const texts = sentTexts(DM_CHAT).slice(-2);
+      return texts.includes('⏹️ 已中止') ? texts : undefined;
+    });
+    assert.deepEqual(replies, ['已拒绝', '⏹️ 已中止']);
+  });
+});
@@ -0,0 +1,228 @@
+// test/matrix.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import { MatrixAdapter } from '../src/matrix/matrix.adapter';
+import { markdownToMatrixHtml, renderMatrix } from '../src/matrix/matrix.renderer';
+import type { MatrixConfig } from '../src/types';
+import { type Incoming, runDisplay, waitFor } from './harness/adapter';
+import {
+  MATRIX_ACCESS_TOKEN,
+  MATRIX_BOT_NAME,
+  MATRIX_BOT_USER,
+  MATRIX_MEDIA_BYTES,
+  startMockMatrixApi,
+} from './harness/matrix.api';
+
+const DM_ROOM = '!dm:localhost';
+const GROUP_ROOM = '!group:localhost';
+
+describe('renderMatrix', () => {
+  it('folds thinking and tools into details blocks and keeps one plain line per step', () => {
+    const files = [{ filename: 'shot.png', mime: 'image/png', url: 'data:image/png;base64,AAAA' }];
+    const display = runDisplay({ answer: 'Here is the **answer**', files });
+    const { body, formatted_body } = renderMatrix(display);
+
+    assert.match(formatted_body, /<details><summary>💭 Thinking<\/summary><blockquote>pondering/);
+    assert.match(formatted_body, /<details><summary>⚙️ bash/);
+    assert.match(formatted_body, /<div>Here is the <strong>answer<\/strong><\/div>/);
+    assert.match(body, /\n⚙️ bash.*\n/);
+    assert.match(body, /Here is the \*\*answer\*\*/);
+    assert.doesNotMatch(body + formatted_body, /data:/);
+  });
+
+  it('renders fenced code as pre/code and escapes the rest', () => {
+    const html = markdownToMatrixHtml('run <this>:\n```ts\nconst a = 1 < 2;\n```\ndone');
+
+    assert.equal(
+      html,
+      'run &lt;this&gt;:<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>done',
+    );
+  });
+});
+
+describe('MatrixAdapter (against a mock homeserver)', () => {
+  let api: Awaited<ReturnType<typeof startMockMatrixApi>>;
+  let adapter: MatrixAdapter;
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string; messageId: string }> = [];
+
+  const textEvent = (eventId: string, body: string, extra: Record<string, unknown> = {}) => ({
+    type: 'm.room.message',
+    event_id: eventId,
+    sender: '@alice:localhost',
+    content: { msgtype: 'm.text', body, ...extra },
+  });
+
+  const reactionEvent = (eventId: string, target: string, key: string) => ({
+    type: 'm.reaction',
+    event_id: eventId,
+    sender: '@alice:localhost',
+    content: { 'm.relates_to': { rel_type: 'm.annotation', event_id: target, key } },
+  });
+
+  const sentBodies = (roomId: string) =>
+    api
+      .callsTo('PUT', new RegExp(`^/_matrix/client/v3/rooms/${roomId}/send/m.room.message/`))
+      .map(c => c.body as Record<string, unknown>);
+
+  before(async () => {
+    api = await startMockMatrixApi();
+    api.setMemberCount(GROUP_ROOM, 5);
+    api.invite(DM_ROOM);
+    const config: MatrixConfig = {
+      homeserver_url: api.homeserverUrl,
+      access_token: MATRIX_ACCESS_TOKEN,
+      auto_join: true,
+      require_mention: true,
+    };
+    adapter = new MatrixAdapter(config);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId, messageId) => {
+        actions.push({ chatId, value, senderId, messageId });
+        return '已中止';
+      },
+    );
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await api.close();
+  });
+
+  it('joins invited rooms and passes direct messages through with a ⏳ reaction', async () => {
+    const [join] = api.callsTo('POST', /^\/_matrix\/client\/v3\/join\//);
+    assert.equal(join.path, `/_matrix/client/v3/join/${DM_ROOM}`);
+    assert.equal(join.authorization, `Bearer ${MATRIX_ACCESS_TOKEN}`);
+
+    api.push(DM_ROOM, textEvent('$in1', 'hello there'));
+    const msg = await waitFor(() => incoming[0]);
+    assert.deepEqual(
+      { chatId: msg.chatId, text: msg.text, messageId: msg.messageId, senderId: msg.senderId },
+      { chatId: DM_ROOM, text: 'hello there', messageId: '$in1', senderId: '@alice:localhost' },
+    );
+
+    const reactionId = await adapter.addReaction('$in1', 'Typing');
+    assert.ok(reactionId);
+    const [reaction] = api.callsTo('PUT', /\/send\/m\.reaction\//);
+    assert.deepEqual(reaction.body, {
+      'm.relates_to': { rel_type: 'm.annotation', event_id: '$in1', key: '⏳' },
+    });
+    await adapter.removeReaction('$in1', reactionId);
+    const [redact] = api.callsTo('PUT', /\/redact\//);
+    assert.ok(redact.path.startsWith(`/_matrix/client/v3/rooms/${DM_ROOM}/redact/${reactionId}/`));
+  });
+
+  it('needs a mention in group rooms and downloads media from the content repository', async () => {
+    api.push(GROUP_ROOM, textEvent('$in2', 'chatter'));
+    api.push(
+      GROUP_ROOM,
+      textEvent('$in3', `${MATRIX_BOT_NAME}: summarize this`, {
+        'm.mentions': { user_ids: [MATRIX_BOT_USER] },
+      }),
+    );
+    api.push(DM_ROOM, {
+      type: 'm.room.message',
+      event_id: '$in4',
+      sender: '@alice:localhost',
+      content: { msgtype: 'm.image', body: 'cat.png', url: 'mxc://localhost/m1' },
+    });
+
+    const image = await waitFor(() => incoming.find(m => m.messageId === '$in4'));
+    const mention = incoming.find(m => m.messageId === '$in3');
+    assert.equal(mention?.text, 'summarize this');
+    assert.equal(incoming.some(m => m.messageId === '$in2'), false);
+    const file = image.parts?.[0] as FilePartInput;
+    assert.equal(file.filename, 'cat.png');
+    assert.equal(file.url, `data:image/png;base64,${MATRIX_MEDIA_BYTES.toString('base64')}`);
+  });
+
+  it('streams with m.replace edits, skips identical edits and uploads files once', async () => {
+    const eventId = await adapter.sendMessage(DM_ROOM, runDisplay());
+    assert.ok(eventId);
+    const before = sentBodies(DM_ROOM).length;
+
+    const files = [{ filename: 'out.txt', mime: 'text/plain', url: 'data:text/plain;base64,aGk=' }];
+    const done = runDisplay({ answer: 'final', files, status: { state: 'done' } });
+    assert.equal(await adapter.editMessage(DM_ROOM, eventId, done), true);
+    assert.equal(await adapter.editMessage(DM_ROOM, eventId, done), true);
+
+    const sent = sentBodies(DM_ROOM).slice(before);
+    assert.equal(sent.length, 2);
+    assert.deepEqual(sent[0], {
+      msgtype: 'm.file',
+      body: 'out.txt',
+      filename: 'out.txt',
+      url: 'mxc://localhost/up1',
+      info: { mimetype: 'text/plain', size: 2 },
+    });
+    const edit = sent[1];
+    assert.deepEqual(edit['m.relates_to'], { rel_type: 'm.replace', event_id: eventId });
+    assert.match(String(edit.body), /^\* /);
+    const newContent = edit['m.new_content'] as Record<string, string>;
+    assert.equal(newContent.format, 'org.matrix.custom.html');
+    assert.match(newContent.formatted_body, /<div>final<\/div>/);
+    const uploads = api.callsTo('POST', /^\/_matrix\/media\/v3\/upload\?filename=out\.txt$/);
+    assert.equal(uploads.length, 1);
+  });
+
+  it('maps reactions on a prompt to its actions and ⏹️ on a reply to abort', async () => {
+    const promptId = await adapter.sendActionPrompt(DM_ROOM, {
+      title: '权限请求',
+      body: 'bash: rm -rf build',
+      actions: [
+        { label: '允许', value: 'perm:1:once', style: 'primary' },
+        { label: '拒绝', value: 'perm:1:reject', style: 'danger' },
+      ],
+    });
+    assert.ok(promptId);
+    const seeds = api
+      .callsTo('PUT', /\/send\/m\.reaction\//)
+      .map(c => (c.body as { 'm.relates_to': { event_id: string; key: string } })['m.relates_to'])
+      .filter(rel => rel.event_id === promptId);
+    assert.deepEqual(seeds.map(rel => rel.key), ['1️⃣', '2️⃣']);
+
+    api.push(DM_ROOM, reactionEvent('$r1', promptId, '2️⃣'));
+    api.push(DM_ROOM, reactionEvent('$r2', '$unknown', '⏹️'));
+    const replyId = await adapter.sendMessage(DM_ROOM, runDisplay());
+    assert.ok(replyId);
+    api.push(DM_ROOM, reactionEvent('$r3', replyId, '⏹️'));
+
+    await waitFor(() => (actions.length === 2 ? true : undefined));
+    assert.deepEqual(
+      actions.map(a => [a.value, a.messageId]),
+      [
+        ['perm:1:reject', promptId],
+        ['abort', replyId],
+      ],
+    );
+    const notice = await waitFor(() => sentBodies(DM_ROOM).find(b => b.msgtype === 'm.notice'));
+    assert.equal(notice.body, '已中止');
+
+    const redactsBefore = api.callsTo('PUT', /\/redact\//).length;
+    const resolved = { title: '权限请求', body: '已拒绝', actions: [] };
+    assert.equal(await adapter.editActionPrompt(DM_ROOM, promptId, resolved), true);
+    assert.equal(api.callsTo('PUT', /\/redact\//).length - redactsBefore, 2);
+  });
+
+  it('warns once about encrypted rooms and retries rate-limited sends', async () => {
+    const encrypted = (eventId: string) => ({
+      type: 'm.room.encrypted',
+      event_id: eventId,
+      sender: '@alice:localhost',
+      content: { algorithm: 'm.megolm.v1.aes-sha2', ciphertext: 'xx' },
+    });
+    api.push(GROUP_ROOM, encrypted('$e1'));
+    api.push(GROUP_ROOM, encrypted('$e2'));
+    const notice = await waitFor(() => sentBodies(GROUP_ROOM).find(b => b.msgtype === 'm.notice'));
+    assert.match(String(notice.body), /pantalaimon/);
+
+    api.rateLimitNextSends(1);
+    assert.ok(await adapter.sendMessage(GROUP_ROOM, 'plain text'));
+    const notices = sentBodies(GROUP_ROOM).filter(b => b.msgtype === 'm.notice');
+    assert.equal(notices.length, 1);
+  });
+});
@@ -0,0 +1,121 @@
+// test/message.delivery.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getOrInitBuffer } from '../src/bridge/buffer';
+import { deliverPages, paginateDisplay } from '../src/handler/message.delivery';
+import { PAGE_TEXT_LIMIT } from '../src/constants';
+import type { DisplayModel } from '../src/types';
+import { MemoryAdapter } from './harness/memory.adapter';
+
+function runDisplay(answer: string, state: 'streaming' | 'done' = 'streaming'): DisplayModel {
+  return {
+    kind: 'answer',
+    answer,
+    reasoning: 'thinking',
+    tools: [],
+    files: [],
+    status: { state },
+    agent: 'plan',
+  };
+}
+
+function paragraphs(count: number, size: number): string {
+  return Array.from({ length: count }, (_, i) => `P${i} ${'x'.repeat(size)}`).join('\n\n');
+}
+
+describe('paginateDisplay', () => {
+  it('keeps short answers on one unlabeled page', () => {
+    const [page] = paginateDisplay(runDisplay('hello'), 0, 100);
+    assert.equal(page.model.answer, 'hello');
+    assert.equal(page.model.page, undefined);
+  });
+
+  it('splits on paragraph boundaries and keeps run details on the last page', () => {
+    const text = paragraphs(6, 40);
+    const pages = paginateDisplay(runDisplay(text), 0, 100);
+
+    assert.ok(pages.length > 1);
+    assert.equal(pages.map(p => p.model.answer).join(''), text);
+    for (const page of pages.slice(0, -1)) {
+      assert.match(page.model.answer, /\n\n$/);
+      assert.equal(page.model.reasoning, '');
+      assert.equal(page.model.status?.state, 'done');
+      assert.equal(page.model.page?.last, false);
+    }
+    const last = pages[pages.length - 1].model;
+    assert.equal(last.reasoning, 'thinking');
+    assert.equal(last.status?.state, 'streaming');
+    assert.deepEqual(last.page, { number: pages.length, last: true });
+  });
+
+  it('closes and reopens a code fence split across pages', () => {
+    const code = Array.from({ length: 30 }, (_, i) => `line ${i}`).join('\n');
+    const pages = paginateDisplay(runDisplay(`\`\`\`ts\n${code}\n\`\`\``), 0, 100);
+
+    assert.ok(pages.length > 1);
+    assert.match(pages[0].model.answer, /\n```$/);
+    assert.match(pages[1].model.answer, /^```ts\n/);
+  });
+
+  it('only paginates text after the frozen prefix', () => {
+    const text = paragraphs(6, 40);
+    const first = paginateDisplay(runDisplay(text), 0, 100);
+    const rest = paginateDisplay(runDisplay(text), first[0].end, 100, 2);
+
+    assert.equal(rest.length, first.length - 1);
+    assert.equal(rest[0].model.answer, first[1].model.answer);
+    assert.equal(rest[0].model.page?.number, 2);
+  });
+});
+
+describe('deliverPages', () => {
+  it('freezes full pages and keeps editing only the last one', async () => {
+    const adapter = new MemoryAdapter();
+    const buffer = getOrInitBuffer(new Map(), 'msg');
+    const chunk = paragraphs(1, PAGE_TEXT_LIMIT * 0.75);
+
+    buffer.platformMsgId = await deliverPages({
+      adapter,
+      chatId: 'c',
+      buffer,
+      content: runDisplay('start'),
+    });
+    const firstId = buffer.platformMsgId;
+
+    await deliverPages({
+      adapter,
+      chatId: 'c',
+      buffer,
+      content: runDisplay(`${chunk}\n\n${chunk}\n\n${chunk}\n\ntail`),
+    });
+
+    assert.equal(adapter.messages.length, 3);
+    assert.deepEqual(buffer.pageMsgIds, [firstId, adapter.messages[1].id]);
+    assert.equal(buffer.platformMsgId, adapter.messages[2].id);
+    assert.equal(adapter.model(buffer.platformMsgId!).answer, `${chunk}\n\ntail`);
+
+    const editsBefore = adapter.count('edit');
+    await deliverPages({
+      adapter,
+      chatId: 'c',
+      buffer,
+      content: runDisplay(`${chunk}\n\n${chunk}\n\n${chunk}\n\ntail end`, 'done'),
+    });
+    assert.equal(adapter.count('edit'), editsBefore + 1);
+    assert.equal(adapter.model(buffer.platformMsgId!).answer, `${chunk}\n\ntail end`);
+    assert.deepEqual(adapter.model(buffer.platformMsgId!).page, { number: 3, last: true });
+  });
+
+  it("pages at the adapter's own limit", async () => {
+    const adapter = new MemoryAdapter();
+    adapter.pageTextLimit = 100;
+    const buffer = getOrInitBuffer(new Map(), 'msg');
+
+    await deliverPages({ adapter, chatId: 'c', buffer, content: runDisplay(paragraphs(6, 40)) });
+
+    assert.ok(adapter.messages.length > 1);
+    for (const message of adapter.messages) {
+      assert.ok(adapter.model(message.id).answer.length <= 100);
+    }
+  });
+});
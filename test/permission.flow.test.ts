@@ -0,0 +1,122 @@
+// test/permission.flow.test.ts
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBridgeHarness, ADAPTER_KEY, CHAT_ID } from './harness/bridge';
+import type { BridgeHarness } from './harness/bridge';
+import type { FakeOpencodeOptions } from './harness/fake.opencode';
+import { permissionReplied, permissionUpdated } from './harness/events';
+
+const SID = 'ses_1';
+const PERM_ID = 'per_1';
+
+describe('permission relay', () => {
+  let bridge: BridgeHarness;
+
+  async function setup(opencode: FakeOpencodeOptions = {}) {
+    bridge = createBridgeHarness({ opencode });
+    bridge.bindSession(SID);
+    await bridge.startListener();
+    await bridge.events.emit(permissionUpdated(SID, PERM_ID));
+    return bridge;
+  }
+
+  afterEach(() => bridge?.stop());
+
+  /** Button value of the only prompt sent so far, e.g. `perm:<token>:once`. */
+  function buttonValue(label: string): string {
+    const [entry] = bridge.adapter.prompts;
+    const action = entry?.prompt.actions.find(a => a.label === label);
+    if (!action) throw new Error(`no ${label} button`);
+    return action.value;
+  }
+
+  it('asks the chat with Allow once / Always / Deny buttons', async () => {
+    const { adapter, deps } = await setup();
+
+    assert.equal(adapter.prompts.length, 1);
+    const { chatId, prompt } = adapter.prompts[0];
+    assert.equal(chatId, CHAT_ID);
+    assert.match(prompt.body, /Run command/);
+    assert.match(prompt.body, /rm -rf dist/);
+    assert.deepEqual(prompt.actions.map(a => a.label), ['Allow once', 'Always', 'Deny']);
+    const [token] = [...deps.pendingPermissions.keys()];
+    assert.deepEqual(
+      prompt.actions.map(a => a.value),
+      [`perm:${token}:once`, `perm:${token}:always`, `perm:${token}:reject`],
+    );
+
+    // OpenCode may repeat the event; the chat is asked only once.
+    await bridge.events.emit(permissionUpdated(SID, PERM_ID));
+    assert.equal(adapter.prompts.length, 1);
+  });
+
+  for (const [label, response] of [
+    ['Allow once', 'once'],
+    ['Always', 'always'],
+    ['Deny', 'reject'],
+  ] as const) {
+    it(`answers OpenCode with "${response}" when ${label} is clicked`, async () => {
+      const { adapter, opencode, deps } = await setup();
+
+      const reply = await bridge.click(buttonValue(label));
+
+      assert.deepEqual(
+        opencode.callsTo('postSessionIdPermissionsPermissionId').map(c => c.args),
+        [{ path: { id: SID, permissionID: PERM_ID }, body: { response } }],
+      );
+      assert.equal(deps.pendingPermissions.size, 0);
+      assert.ok(reply);
+      const { prompt } = adapter.prompts[0];
+      assert.deepEqual(prompt.actions, []);
+      assert.ok(prompt.body.endsWith(reply), 'the prompt shows the outcome');
+    });
+  }
+
+  it('rejects a click from another chat and keeps the request open', async () => {
+    const { adapter, opencode, deps } = await setup();
+
+    const reply = await bridge.click(buttonValue('Allow once'), { chatId: 'chat_2' });
+
+    assert.equal(reply, '该权限请求不属于当前聊天。');
+    assert.equal(opencode.callsTo('postSessionIdPermissionsPermissionId').length, 0);
+    assert.equal(deps.pendingPermissions.size, 1);
+    assert.equal(adapter.prompts[0].prompt.actions.length, 3);
+  });
+
+  it('reports a stale button once the request is gone', async () => {
+    await setup();
+    const value = buttonValue('Deny');
+    await bridge.click(value);
+
+    assert.equal(await bridge.click(value), '该权限请求已失效。');
+    assert.equal(bridge.opencode.callsTo('postSessionIdPermissionsPermissionId').length, 1);
+  });
+
+  it('keeps the request open when OpenCode rejects the answer, so a retry works', async () => {
+    const opencode: FakeOpencodeOptions = {
+      failures: { postSessionIdPermissionsPermissionId: new Error('boom') },
+    };
+    const { adapter, deps } = await setup(opencode);
+    const value = buttonValue('Allow once');
+
+    assert.equal(await bridge.click(value), '❌ 权限响应失败，请重试。');
+    assert.equal(deps.pendingPermissions.size, 1);
+    assert.equal(deps.pendingPermissions.values().next().value?.adapterKey, ADAPTER_KEY);
+    assert.equal(adapter.prompts[0].prompt.actions.length, 3);
+
+    delete opencode.failures?.postSessionIdPermissionsPermissionId;
+    assert.equal(await bridge.click(value), '✅ 已允许（本次）');
+    assert.equal(deps.pendingPermissions.size, 0);
+  });
+
+  it('closes the prompt when the request is answered elsewhere', async () => {
+    const { adapter, deps } = await setup();
+
+    await bridge.events.emit(permissionReplied(SID, PERM_ID, 'always'));
+
+    assert.equal(deps.pendingPermissions.size, 0);
+    const { prompt } = adapter.prompts[0];
+    assert.deepEqual(prompt.actions, []);
+    assert.match(prompt.body, /✅ 已始终允许$/);
+  });
+});
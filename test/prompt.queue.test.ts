@@ -0,0 +1,132 @@
+// test/prompt.queue.test.ts
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBridgeHarness } from './harness/bridge';
+import type { BridgeHarness } from './harness/bridge';
+import { PromptQueue } from '../src/handler/prompt.queue';
+import type { QueuedPrompt } from '../src/handler/prompt.queue';
+
+function promptTexts(bridge: BridgeHarness): string[] {
+  return bridge.opencode.callsTo('session.prompt').map(call => {
+    const body = (call.args as { body: { parts: Array<{ text?: string }> } }).body;
+    return body.parts.map(p => p.text || '').join('');
+  });
+}
+
+function lastReply(bridge: BridgeHarness): string {
+  return bridge.adapter.model(bridge.adapter.last().id).answer;
+}
+
+describe('prompt queue', () => {
+  let bridge: BridgeHarness;
+  afterEach(() => bridge?.stop());
+
+  it('holds follow-ups until the running turn finishes', async () => {
+    bridge = createBridgeHarness({ opencode: { holdPrompts: true } });
+    await bridge.send('first');
+    await bridge.tick();
+    await bridge.send('second');
+    await bridge.send('third');
+
+    assert.deepEqual(promptTexts(bridge), ['first']);
+    assert.match(lastReply(bridge), /queued \(#3\)/);
+
+    await bridge.opencode.finishPrompt();
+    assert.deepEqual(promptTexts(bridge), ['first', 'second']);
+
+    await bridge.opencode.finishPrompt();
+    await bridge.opencode.finishPrompt();
+    await bridge.idle();
+    assert.deepEqual(promptTexts(bridge), ['first', 'second', 'third']);
+  });
+
+  it('/queue lists waiting prompts and drops them', async () => {
+    bridge = createBridgeHarness({ opencode: { holdPrompts: true } });
+    await bridge.send('first');
+    await bridge.tick();
+    const secondId = await bridge.send('second prompt');
+
+    await bridge.send('/queue');
+    assert.match(lastReply(bridge), /#1 ▶️ first\n#2 ⏳ second prompt/);
+
+    await bridge.send('/queue drop 2');
+    assert.match(lastReply(bridge), /已取消 1 条/);
+    assert.ok(bridge.adapter.ops.some(op => op.op === 'unreact' && op.messageId === secondId));
+
+    await bridge.opencode.finishPrompt();
+    await bridge.idle();
+    assert.deepEqual(promptTexts(bridge), ['first']);
+  });
+
+  it('viewers can list but not drop the queue', async () => {
+    bridge = createBridgeHarness({ access: { default_role: 'viewer' } });
+    await bridge.send('/queue');
+    assert.match(lastReply(bridge), /队列为空/);
+
+    await bridge.send('/queue clear');
+    assert.match(lastReply(bridge), /需要 member 角色/);
+  });
+
+  it('merge mode sends follow-ups into the running turn', async () => {
+    bridge = createBridgeHarness({ queueMode: 'merge', opencode: { holdPrompts: true } });
+    await bridge.send('first');
+    await bridge.tick();
+    await bridge.send('also check tests');
+
+    assert.deepEqual(promptTexts(bridge), ['first', 'also check tests']);
+    assert.match(lastReply(bridge), /已合并到当前任务/);
+  });
+
+  it('merge mode keeps the running prompt reaction so /abort clears both', async () => {
+    bridge = createBridgeHarness({ queueMode: 'merge', opencode: { holdPrompts: true } });
+    bridge.bindSession('ses_1');
+    const first = await bridge.send('first');
+    await bridge.tick();
+    const merged = await bridge.send('also check tests');
+    await bridge.tick();
+
+    await bridge.send('/abort');
+
+    const removed = bridge.adapter.ops.flatMap(o => (o.op === 'unreact' ? [o.messageId] : []));
+    assert.ok(removed.includes(first), 'running prompt reaction removed');
+    assert.ok(removed.includes(merged), 'merged prompt reaction removed');
+    assert.equal(bridge.deps.activeReactions.size, 0);
+  });
+});
+
+describe('PromptQueue', () => {
+  function item(id: string, log: string[]): QueuedPrompt {
+    return {
+      messageId: id,
+      senderId: 'u',
+      preview: id,
+      enqueuedAt: 0,
+      run: async () => {
+        log.push(`run:${id}`);
+      },
+      cancel: async () => {
+        log.push(`cancel:${id}`);
+      },
+    };
+  }
+
+  it('drops waiting items by position but never the running one', async () => {
+    const queue = new PromptQueue();
+    const log: string[] = [];
+    let release!: () => void;
+    const blocker = item('a', log);
+    blocker.run = () => new Promise<void>(resolve => (release = resolve));
+
+    assert.equal(queue.submit('k', blocker), 1);
+    assert.equal(queue.submit('k', item('b', log)), 2);
+    assert.equal(queue.submit('k', item('c', log)), 3);
+
+    assert.deepEqual(queue.drop('k', [1, 3]).map(i => i.messageId), ['c']);
+    assert.deepEqual(queue.pending('k').map(i => i.messageId), ['b']);
+
+    release();
+    await queue.whenIdle('k');
+    assert.deepEqual(log, ['run:b']);
+    assert.equal(queue.isBusy('k'), false);
+  });
+});
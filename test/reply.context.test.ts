@@ -0,0 +1,72 @@
+// test/reply.context.test.ts
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FilePartInput, TextPartInput } from '@opencode-ai/sdk';
+import { createBridgeHarness } from './harness/bridge';
+import type { BridgeHarness } from './harness/bridge';
+
+type PromptPart = TextPartInput | FilePartInput;
+
+function promptParts(bridge: BridgeHarness): PromptPart[][] {
+  return bridge.opencode
+    .callsTo('session.prompt')
+    .map(call => (call.args as { body: { parts: PromptPart[] } }).body.parts);
+}
+
+const SCREENSHOT: FilePartInput = {
+  type: 'file',
+  mime: 'image/png',
+  filename: 'screenshot.png',
+  url: 'data:image/png;base64,iVBORw0KGgo=',
+};
+
+describe('reply and quote context', () => {
+  let bridge: BridgeHarness;
+  afterEach(() => bridge?.stop());
+
+  it('puts the quoted answer in front of the new text', async () => {
+    bridge = createBridgeHarness();
+    await bridge.send('fix this', {
+      quote: { text: 'The build fails in step 3.\nSee logs.', fromBot: true },
+    });
+    await bridge.idle();
+
+    const [parts] = promptParts(bridge);
+    assert.deepEqual(parts, [
+      {
+        type: 'text',
+        text: '[Replying to your earlier answer]\n> The build fails in step 3.\n> See logs.',
+      },
+      { type: 'text', text: 'fix this' },
+    ]);
+  });
+
+  it('re-attaches quoted images after the quote', async () => {
+    bridge = createBridgeHarness();
+    await bridge.send('what is wrong here?', {
+      quote: { text: '', author: '@alice', files: [SCREENSHOT] },
+    });
+    await bridge.idle();
+
+    const [parts] = promptParts(bridge);
+    assert.deepEqual(
+      parts.map(p => (p.type === 'text' ? p.text : p.filename)),
+      ['[Replying to @alice]\n> (attachment)', 'screenshot.png', 'what is wrong here?'],
+    );
+  });
+
+  it('leaves commands alone without loading the quote', async () => {
+    bridge = createBridgeHarness();
+    await bridge.send('/status', { quote: { text: 'earlier answer', fromBot: true } });
+    assert.equal(promptParts(bridge).length, 0);
+    assert.equal(bridge.quoteLoads, 0);
+  });
+
+  it('does not load quotes for denied senders', async () => {
+    bridge = createBridgeHarness({ access: { allowed_sender_ids: ['ou_someone_else'] } });
+    await bridge.send('look at this', { quote: { text: '', files: [SCREENSHOT] } });
+    await bridge.idle();
+    assert.equal(promptParts(bridge).length, 0);
+    assert.equal(bridge.quoteLoads, 0);
+  });
+});
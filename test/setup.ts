@@ -0,0 +1,7 @@
+// test/setup.ts
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// The logger reads these at import time; keep test runs quiet and out of ./logs.
+process.env.BRIDGE_LOG_STDOUT ??= 'false';
+process.env.BRIDGE_LOG_FILE ??= path.join(os.tmpdir(), 'bridge-test.log');
@@ -0,0 +1,193 @@
+// test/slack.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'node:crypto';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import { SlackAdapter } from '../src/slack/slack.adapter';
+import { renderSlack } from '../src/slack/slack.renderer';
+import type { SlackConfig } from '../src/types';
+import { type Incoming, freePort, runDisplay, waitFor } from './harness/adapter';
+import {
+  SLACK_BOT_TOKEN,
+  SLACK_BOT_USER,
+  SLACK_FILE_BYTES,
+  startMockSlackApi,
+} from './harness/slack.api';
+
+const SIGNING_SECRET = 'signing-secret';
+
+function blockTypes(blocks: Array<Record<string, unknown>>): string[] {
+  return blocks.map(b => String(b.type));
+}
+
+describe('renderSlack', () => {
+  it('renders thinking, tools, answer, status and a Stop button while streaming', () => {
+    const answer = 'Use **bold** and `code` <here>';
+    const { text, blocks } = renderSlack(runDisplay({ answer }));
+
+    assert.deepEqual(blockTypes(blocks), ['context', 'context', 'section', 'context', 'actions']);
+    assert.equal(text, answer);
+    const section = blocks[2] as { text: { text: string } };
+    assert.equal(section.text.text, 'Use *bold* and `code` &lt;here&gt;');
+    const stop = (blocks[4] as { elements: Array<{ value: string }> }).elements[0];
+    assert.equal(stop.value, 'abort');
+  });
+
+  it('splits long answers into sections under the Block Kit text limit', () => {
+    const answer = Array.from({ length: 400 }, (_, i) => `line ${i} ${'x'.repeat(20)}`).join('\n');
+    const { blocks } = renderSlack(runDisplay({ answer, status: { state: 'done' } }));
+
+    const sections = blocks.filter(b => b.type === 'section') as Array<{ text: { text: string } }>;
+    assert.ok(sections.length > 1);
+    for (const s of sections) assert.ok(s.text.text.length <= 3000);
+    assert.ok(!blocks.some(b => b.type === 'actions'));
+  });
+});
+
+describe('SlackAdapter (webhook mode against a mock Slack API)', () => {
+  let api: Awaited<ReturnType<typeof startMockSlackApi>>;
+  let adapter: SlackAdapter;
+  let callbackUrl: string;
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string; messageId: string }> = [];
+
+  const post = (body: string, contentType: string, signature?: string) => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const hmac = crypto.createHmac('sha256', SIGNING_SECRET).update(`v0:${timestamp}:${body}`);
+    const sig = signature ?? `v0=${hmac.digest('hex')}`;
+    return fetch(callbackUrl, {
+      method: 'POST',
+      headers: {
+        'content-type': contentType,
+        'x-slack-request-timestamp': timestamp,
+        'x-slack-signature': sig,
+      },
+      body,
+    });
+  };
+  const postEvent = (event: Record<string, unknown>) =>
+    post(JSON.stringify({ type: 'event_callback', event }), 'application/json');
+
+  before(async () => {
+    api = await startMockSlackApi();
+    callbackUrl = `http://127.0.0.1:${await freePort()}/slack/events`;
+    const config: SlackConfig = {
+      mode: 'webhook',
+      bot_token: SLACK_BOT_TOKEN,
+      signing_secret: SIGNING_SECRET,
+      callback_url: callbackUrl,
+      slash_command: '/opencode',
+      api_base_url: api.apiBaseUrl,
+    };
+    adapter = new SlackAdapter(config);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId, messageId) => {
+        actions.push({ chatId, value, senderId, messageId });
+        return '已中止';
+      },
+    );
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await api.close();
+  });
+
+  it('answers url_verification and rejects unsigned requests', async () => {
+    const body = JSON.stringify({ type: 'url_verification', challenge: 'abc' });
+    const ok = await post(body, 'application/json');
+    assert.deepEqual(await ok.json(), { challenge: 'abc' });
+
+    const rejected = await post(body, 'application/json', 'v0=forged');
+    assert.equal(rejected.status, 401);
+  });
+
+  it('forwards user messages with mentions stripped and private files downloaded', async () => {
+    await postEvent({
+      type: 'message',
+      subtype: 'file_share',
+      channel: 'C1',
+      user: 'U1',
+      ts: '1.0001',
+      text: `<@${SLACK_BOT_USER}> what is in &lt;this&gt;?`,
+      files: [{ id: 'F9', name: 'a.txt', mimetype: 'text/plain', url_private: api.fileUrl('a') }],
+    });
+    // Same message delivered again as app_mention, plus a bot echo: both ignored.
+    await postEvent({ type: 'app_mention', channel: 'C1', user: 'U1', ts: '1.0001', text: 'x' });
+    await postEvent({ type: 'message', channel: 'C1', bot_id: 'B1', ts: '1.0002', text: 'echo' });
+
+    const msg = await waitFor(() => incoming[0]);
+    assert.equal(msg.chatId, 'C1');
+    assert.equal(msg.messageId, '1.0001');
+    assert.equal(msg.senderId, 'U1');
+    assert.equal(msg.text, 'what is in <this>?');
+    const file = msg.parts?.[0] as FilePartInput;
+    assert.equal(file.url, `data:text/plain;base64,${SLACK_FILE_BYTES.toString('base64')}`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(incoming.length, 1);
+
+    const reaction = await adapter.addReaction('1.0001', 'Typing');
+    assert.equal(reaction, 'hourglass_flowing_sand');
+    await adapter.removeReaction('1.0001', reaction);
+    assert.deepEqual(
+      api.calls.filter(c => c.method.startsWith('reactions.')).map(c => c.body),
+      [
+        { channel: 'C1', timestamp: '1.0001', name: 'hourglass_flowing_sand' },
+        { channel: 'C1', timestamp: '1.0001', name: 'hourglass_flowing_sand' },
+      ],
+    );
+  });
+
+  it('maps the configured slash command onto bridge commands', async () => {
+    const form = new URLSearchParams({
+      command: '/opencode',
+      text: 'status',
+      user_id: 'U1',
+      channel_id: 'C1',
+      trigger_id: 't1',
+    });
+    const res = await post(form.toString(), 'application/x-www-form-urlencoded');
+    assert.deepEqual(await res.json(), { response_type: 'in_channel' });
+
+    const msg = await waitFor(() => incoming.find(m => m.messageId === 'slash:t1'));
+    assert.equal(msg.text, '/status');
+  });
+
+  it('streams with chat.update and uploads new files once', async () => {
+    const file = { filename: 'out.png', mime: 'image/png', url: 'data:image/png;base64,AAEC' };
+    const ts = await adapter.sendMessage('C1', runDisplay());
+    assert.ok(ts);
+    assert.equal(await adapter.editMessage('C1', ts, runDisplay({ files: [file] })), true);
+    const final = runDisplay({ files: [file], status: { state: 'done' } });
+    assert.equal(await adapter.editMessage('C1', ts, final), true);
+
+    const updates = api.callsTo('chat.update');
+    assert.equal(updates.length, 2);
+    assert.equal(updates[1].body.ts, ts);
+    assert.ok(!(updates[1].body.blocks as Array<{ type: string }>).some(b => b.type === 'actions'));
+    assert.equal(api.callsTo('files.completeUploadExternal').length, 1);
+    assert.deepEqual(api.uploads, [Buffer.from([0, 1, 2])]);
+    assert.ok(api.calls.every(c => c.authorization === `Bearer ${SLACK_BOT_TOKEN}`));
+  });
+
+  it('routes button clicks to the action handler and answers ephemerally', async () => {
+    const payload = {
+      type: 'block_actions',
+      user: { id: 'U1' },
+      channel: { id: 'C1' },
+      message: { ts: '1000.000100' },
+      actions: [{ action_id: 'bridge_action_0', value: 'abort' }],
+    };
+    const form = new URLSearchParams({ payload: JSON.stringify(payload) });
+    await post(form.toString(), 'application/x-www-form-urlencoded');
+
+    const ephemeral = await waitFor(() => api.callsTo('chat.postEphemeral')[0]);
+    assert.deepEqual(actions, [
+      { chatId: 'C1', value: 'abort', senderId: 'U1', messageId: '1000.000100' },
+    ]);
+    assert.deepEqual(ephemeral.body, { channel: 'C1', user: 'U1', text: '已中止' });
+  });
+});
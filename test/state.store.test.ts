@@ -0,0 +1,187 @@
+// test/state.store.test.ts
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { BridgeStateSnapshot, BridgeStateStore } from '../src/types';
+import {
+  BridgeStateSync,
+  JsonFileStateStore,
+  ObservedMap,
+  emptyStateSnapshot,
+} from '../src/bridge/state.store';
+import type { PersistedBridgeMaps } from '../src/bridge/state.store';
+import { createBridgeHarness, ADAPTER_KEY, CHAT_ID, SENDER_ID } from './harness/bridge';
+import type { BridgeHarness } from './harness/bridge';
+
+const CACHE_KEY = `${ADAPTER_KEY}:${CHAT_ID}`;
+
+function savedSnapshot(): BridgeStateSnapshot {
+  return {
+    ...emptyStateSnapshot(),
+    sessionCache: { [CACHE_KEY]: 'ses_saved', [`${ADAPTER_KEY}:chat_2`]: 'ses_other' },
+    sessionToAdapterKey: { ses_saved: ADAPTER_KEY, ses_other: ADAPTER_KEY },
+    sessionToCtx: { ses_saved: { chatId: CHAT_ID, senderId: SENDER_ID } },
+    chatAgent: { [CACHE_KEY]: 'build' },
+    chatModel: { [CACHE_KEY]: { providerID: 'anthropic', modelID: 'claude', name: 'Claude' } },
+    chatMaxFileSizeMb: { [CACHE_KEY]: 20 },
+    chatMaxFileRetry: { [CACHE_KEY]: 0 },
+  };
+}
+
+/** Store that hands out a fixed snapshot and records every save. */
+class MemoryStateStore implements BridgeStateStore {
+  readonly saves: BridgeStateSnapshot[] = [];
+
+  constructor(private readonly loaded: BridgeStateSnapshot | null = null) {}
+
+  async load() {
+    return this.loaded;
+  }
+
+  async save(snapshot: BridgeStateSnapshot) {
+    this.saves.push(snapshot);
+  }
+}
+
+function createMaps(): PersistedBridgeMaps {
+  return {
+    sessionCache: new ObservedMap(),
+    sessionToAdapterKey: new ObservedMap(),
+    sessionToCtx: new ObservedMap(),
+    chatAgent: new ObservedMap(),
+    chatModel: new ObservedMap(),
+    chatMaxFileSizeMb: new ObservedMap(),
+    chatMaxFileRetry: new ObservedMap(),
+  };
+}
+
+describe('JsonFileStateStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bridge-state-'));
+    file = path.join(dir, 'nested', 'state.json');
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('loads back what it saved', async () => {
+    const store = new JsonFileStateStore(file);
+    await store.save(savedSnapshot());
+
+    assert.deepEqual(await new JsonFileStateStore(file).load(), savedSnapshot());
+    assert.deepEqual(await fs.readdir(path.dirname(file)), ['state.json'], 'no temp file left');
+  });
+
+  it('starts empty without a state file', async () => {
+    assert.equal(await new JsonFileStateStore(file).load(), null);
+  });
+
+  it('ignores a corrupted file', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, '{"version":1,"sessionCache":{', 'utf8');
+
+    assert.equal(await new JsonFileStateStore(file).load(), null);
+  });
+
+  it('ignores a file written by an unsupported version', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ ...savedSnapshot(), version: 2 }), 'utf8');
+
+    assert.equal(await new JsonFileStateStore(file).load(), null);
+  });
+
+  it('drops malformed entries and keeps the rest', async () => {
+    const raw = {
+      ...savedSnapshot(),
+      sessionCache: { [CACHE_KEY]: 'ses_saved', broken: 42 },
+      chatMaxFileSizeMb: { [CACHE_KEY]: 20, negative: -1 },
+    };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(raw), 'utf8');
+
+    const loaded = await new JsonFileStateStore(file).load();
+    assert.deepEqual(loaded?.sessionCache, { [CACHE_KEY]: 'ses_saved' });
+    assert.deepEqual(loaded?.chatMaxFileSizeMb, { [CACHE_KEY]: 20 });
+  });
+});
+
+describe('BridgeStateSync', () => {
+  it('restores saved bindings without overwriting live ones', async () => {
+    const maps = createMaps();
+    maps.sessionCache.set(CACHE_KEY, 'ses_live');
+    maps.chatAgent.set(CACHE_KEY, 'review');
+    const store = new MemoryStateStore(savedSnapshot());
+    const sync = new BridgeStateSync(maps);
+
+    await sync.attach(store);
+    await sync.flush();
+
+    assert.equal(maps.sessionCache.get(CACHE_KEY), 'ses_live');
+    assert.equal(maps.sessionCache.get(`${ADAPTER_KEY}:chat_2`), 'ses_other');
+    assert.equal(maps.chatAgent.get(CACHE_KEY), 'review');
+    assert.deepEqual(maps.chatModel.get(CACHE_KEY), savedSnapshot().chatModel[CACHE_KEY]);
+    assert.equal(maps.chatMaxFileRetry.get(CACHE_KEY), 0);
+    assert.equal(store.saves.length, 0, 'restoring does not write the file back');
+  });
+
+  it('writes a burst of changes once', async () => {
+    const maps = createMaps();
+    const store = new MemoryStateStore();
+    const sync = new BridgeStateSync(maps);
+    await sync.attach(store);
+
+    maps.sessionCache.set(CACHE_KEY, 'ses_1');
+    maps.sessionToAdapterKey.set('ses_1', ADAPTER_KEY);
+    maps.sessionToCtx.set('ses_1', { chatId: CHAT_ID, senderId: SENDER_ID });
+    maps.chatAgent.set(CACHE_KEY, 'plan');
+    maps.chatAgent.delete(CACHE_KEY);
+    await sync.flush();
+
+    assert.equal(store.saves.length, 1);
+    assert.deepEqual(store.saves[0].sessionCache, { [CACHE_KEY]: 'ses_1' });
+    assert.deepEqual(store.saves[0].chatAgent, {});
+
+    maps.chatAgent.delete('missing');
+    await sync.flush();
+    assert.equal(store.saves.length, 1, 'no-op deletes do not write');
+  });
+
+  describe('with the bridge', () => {
+    let bridge: BridgeHarness;
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bridge-state-'));
+    });
+
+    afterEach(async () => {
+      bridge?.stop();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('/reset clears the persisted bindings', async () => {
+      const file = path.join(dir, 'state.json');
+      await new JsonFileStateStore(file).save(savedSnapshot());
+      bridge = createBridgeHarness({ access: { admin_sender_ids: [SENDER_ID] } });
+      const sync = new BridgeStateSync(bridge.deps);
+      await sync.attach(new JsonFileStateStore(file));
+      assert.equal(bridge.deps.sessionCache.get(CACHE_KEY), 'ses_saved');
+
+      await bridge.send('/reset');
+      await sync.flush();
+
+      const persisted = await new JsonFileStateStore(file).load();
+      const newSession = bridge.deps.sessionCache.get(CACHE_KEY);
+      assert.ok(newSession && newSession !== 'ses_saved');
+      assert.deepEqual(persisted?.sessionCache, { [CACHE_KEY]: newSession });
+      assert.deepEqual(persisted?.chatAgent, { [CACHE_KEY]: 'plan' }, 'the default agent');
+      assert.deepEqual(persisted?.chatModel, {});
+      assert.deepEqual(persisted?.chatMaxFileSizeMb, {});
+      assert.equal(persisted?.sessionToCtx.ses_saved, undefined);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+// test/telegram.group.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseTelegramChatId,
+  routeTelegramMessage,
+  telegramTopicChatId,
+  type TelegramRouteInput,
+  type TelegramRouteOptions,
+} from '../src/telegram/telegram.group';
+import { checkAccess } from '../src/handler/access';
+import { parseTelegramConfig } from '../index.telegram';
+
+function route(
+  input: Partial<TelegramRouteInput>,
+  options: Partial<TelegramRouteOptions> = {},
+) {
+  return routeTelegramMessage(
+    { chatType: 'supergroup', text: '', replyToBot: false, ...input },
+    { policy: 'mention', botUsername: 'OurBot', ...options },
+  );
+}
+
+describe('routeTelegramMessage', () => {
+  it('answers private chats as they are', () => {
+    assert.deepEqual(route({ chatType: 'private', text: 'hello' }), { text: 'hello' });
+    assert.deepEqual(route({ chatType: 'private', text: '/status@ourbot' }), { text: '/status' });
+  });
+
+  it('ignores commands addressed to other bots everywhere', () => {
+    assert.deepEqual(route({ chatType: 'private', text: '/help@OtherBot' }), {
+      skip: 'other_bot',
+    });
+    assert.deepEqual(route({ text: '/help@OtherBot' }, { policy: 'all' }), { skip: 'other_bot' });
+  });
+
+  it('needs a mention, a reply or an addressed command in mention mode', () => {
+    assert.deepEqual(route({ text: 'anyone around?' }), { skip: 'no_mention' });
+    assert.deepEqual(route({ text: '/status' }), { skip: 'no_mention' });
+    assert.deepEqual(route({ text: 'ping @someone_else' }), { skip: 'no_mention' });
+    assert.deepEqual(route({ text: '@ourbot fix the build' }), { text: 'fix the build' });
+    assert.deepEqual(route({ text: '/model@OurBot gpt-5' }), { text: '/model gpt-5' });
+    assert.deepEqual(route({ text: 'and the tests?', replyToBot: true }), {
+      text: 'and the tests?',
+    });
+  });
+
+  it('applies the commands and all policies', () => {
+    assert.deepEqual(route({ text: 'chatter' }, { policy: 'commands' }), { skip: 'not_command' });
+    assert.deepEqual(route({ text: '/status' }, { policy: 'commands' }), { text: '/status' });
+    assert.deepEqual(route({ text: 'chatter' }, { policy: 'all' }), { text: 'chatter' });
+  });
+
+  it('treats any mention as ours until getMe answered', () => {
+    assert.deepEqual(route({ text: '@whoever hi' }, { botUsername: undefined }), {
+      text: '@whoever hi',
+    });
+    assert.deepEqual(route({ text: '/help@somebot' }, { botUsername: undefined }), {
+      text: '/help',
+    });
+  });
+});
+
+describe('Telegram forum topics', () => {
+  it('gives each topic its own chat id and sends back into the topic', () => {
+    const topic = telegramTopicChatId('-100123', 42);
+    assert.notEqual(topic, telegramTopicChatId('-100123', 43));
+    assert.deepEqual(parseTelegramChatId(topic), { chat_id: '-100123', message_thread_id: 42 });
+    assert.deepEqual(parseTelegramChatId('-100123'), { chat_id: '-100123' });
+    assert.deepEqual(parseTelegramChatId('42'), { chat_id: '42' });
+  });
+
+  it('lets topics inherit the access of their group', () => {
+    const access = { allowed_chat_ids: ['-100123'] };
+    assert.deepEqual(checkAccess(access, telegramTopicChatId('-100123', 42), '7'), {
+      allowed: true,
+    });
+  });
+});
+
+describe('Telegram group configuration', () => {
+  it('defaults to mention-only and reads per-group overrides', () => {
+    assert.equal(parseTelegramConfig({ bot_token: 't' }).group_policy, 'mention');
+    const cfg = parseTelegramConfig({
+      bot_token: 't',
+      group_policy: 'all',
+      group_policies: { '-100123': 'commands' },
+    });
+    assert.equal(cfg.group_policy, 'all');
+    assert.deepEqual(cfg.group_policies, { '-100123': 'commands' });
+  });
+
+  it('falls back to mention-only for an invalid default policy', () => {
+    const cfg = parseTelegramConfig({ bot_token: 't', group_policy: 'loud' });
+    assert.equal(cfg.group_policy, 'mention');
+  });
+});
@@ -0,0 +1,200 @@
+// test/wecom.adapter.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FilePartInput } from '@opencode-ai/sdk';
+import { WeComAdapter } from '../src/wecom/wecom.adapter';
+import { WeComCrypto, parseWeComXml } from '../src/wecom/wecom.crypto';
+import { renderWeComMarkdown } from '../src/wecom/wecom.renderer';
+import type { WeComConfig } from '../src/types';
+import { type Incoming, freePort, runDisplay, waitFor } from './harness/adapter';
+import {
+  WECOM_CORP_ID,
+  WECOM_MEDIA_BYTES,
+  WECOM_SECRET,
+  startMockWeComApi,
+} from './harness/wecom.api';
+
+const TOKEN = 'callback-token';
+const AES_KEY = 'abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG';
+
+describe('WeCom callback crypto', () => {
+  it('round-trips messages and rejects another corp id', () => {
+    const crypto = new WeComCrypto(TOKEN, AES_KEY, WECOM_CORP_ID);
+    const encrypted = crypto.encrypt('<xml><Content><![CDATA[你好]]></Content></xml>');
+
+    assert.equal(parseWeComXml(crypto.decrypt(encrypted)).Content, '你好');
+    const signature = crypto.signature('1700000000', 'n1', encrypted);
+    assert.equal(crypto.verify(signature, '1700000000', 'n1', encrypted), true);
+    assert.equal(crypto.verify(signature, '1700000001', 'n1', encrypted), false);
+    assert.throws(() => new WeComCrypto(TOKEN, AES_KEY, 'other').decrypt(encrypted));
+  });
+});
+
+describe('renderWeComMarkdown', () => {
+  it('keeps the message under the 2048-byte markdown cap', () => {
+    const tools = [{ callID: 'c1', tool: 'bash', status: 'completed' as const, title: 'ls -la' }];
+    const rendered = renderWeComMarkdown(
+      runDisplay({ answer: '长'.repeat(2000), tools, status: { state: 'done' } }),
+    );
+
+    assert.ok(Buffer.byteLength(rendered) <= 2048);
+    assert.match(rendered, /^\*\*📝 Answer\*\*\n> ⚙️ bash\(completed\) ls -la/);
+    assert.match(rendered, /<font color="comment">✅ done \| build<\/font>$/);
+  });
+});
+
+describe('WeComAdapter (callback mode against a mock WeCom API)', () => {
+  let api: Awaited<ReturnType<typeof startMockWeComApi>>;
+  let adapter: WeComAdapter;
+  let callbackUrl: string;
+  const crypto = new WeComCrypto(TOKEN, AES_KEY, WECOM_CORP_ID);
+  const incoming: Incoming[] = [];
+  const actions: Array<{ chatId: string; value: string; senderId: string; messageId: string }> = [];
+
+  const callback = (fields: Record<string, string>) => {
+    const inner = Object.entries(fields)
+      .map(([k, v]) => `<${k}><![CDATA[${v}]]></${k}>`)
+      .join('');
+    const encrypted = crypto.encrypt(`<xml>${inner}</xml>`);
+    const query = new URLSearchParams({
+      msg_signature: crypto.signature('1700000000', 'nonce', encrypted),
+      timestamp: '1700000000',
+      nonce: 'nonce',
+    });
+    const to = `<ToUserName><![CDATA[${WECOM_CORP_ID}]]></ToUserName>`;
+    return fetch(`${callbackUrl}?${query}`, {
+      method: 'POST',
+      body: `<xml>${to}<Encrypt><![CDATA[${encrypted}]]></Encrypt></xml>`,
+    });
+  };
+
+  before(async () => {
+    api = await startMockWeComApi();
+    callbackUrl = `http://127.0.0.1:${await freePort()}/wecom/callback`;
+    const config: WeComConfig = {
+      corp_id: WECOM_CORP_ID,
+      agent_id: '1000002',
+      secret: WECOM_SECRET,
+      token: TOKEN,
+      encoding_aes_key: AES_KEY,
+      callback_url: callbackUrl,
+      api_base_url: api.apiBaseUrl,
+    };
+    adapter = new WeComAdapter(config);
+    await adapter.start(
+      async (chatId, text, messageId, senderId, parts) => {
+        incoming.push({ chatId, text, messageId, senderId, parts });
+      },
+      async (chatId, value, senderId, messageId) => {
+        actions.push({ chatId, value, senderId, messageId });
+        return '已中止';
+      },
+    );
+  });
+
+  after(async () => {
+    await adapter.stop();
+    await api.close();
+  });
+
+  it('answers URL verification with the decrypted echostr', async () => {
+    const echostr = crypto.encrypt('echo-123');
+    const query = new URLSearchParams({
+      msg_signature: crypto.signature('1700000000', 'nonce', echostr),
+      timestamp: '1700000000',
+      nonce: 'nonce',
+      echostr,
+    });
+    const ok = await fetch(`${callbackUrl}?${query}`);
+    assert.equal(await ok.text(), 'echo-123');
+
+    query.set('msg_signature', 'forged');
+    assert.equal((await fetch(`${callbackUrl}?${query}`)).status, 401);
+  });
+
+  it('forwards text once and downloads images into data URLs', async () => {
+    const text = { MsgType: 'text', FromUserName: 'zhangsan', Content: '你好', MsgId: '1' };
+    assert.equal(await (await callback(text)).text(), 'success');
+    await callback(text);
+    await callback({ MsgType: 'image', FromUserName: 'zhangsan', MediaId: 'MEDIA1', MsgId: '2' });
+
+    const image = await waitFor(() => incoming.find(m => m.messageId === '2'));
+    assert.deepEqual(
+      incoming.map(m => [m.chatId, m.text, m.messageId, m.senderId]),
+      [
+        ['zhangsan', '你好', '1', 'zhangsan'],
+        ['zhangsan', '', '2', 'zhangsan'],
+      ],
+    );
+    const file = image.parts?.[0] as FilePartInput;
+    assert.equal(file.filename, 'photo.jpg');
+    assert.equal(file.url, `data:image/jpeg;base64,${WECOM_MEDIA_BYTES.toString('base64')}`);
+  });
+
+  it('holds streaming runs and sends the final reply and files exactly once', async () => {
+    const before = api.calls.length;
+    const id = await adapter.sendMessage('zhangsan', runDisplay());
+    assert.ok(id);
+    assert.equal(await adapter.editMessage('zhangsan', id, runDisplay()), true);
+    assert.equal(api.calls.length, before);
+
+    api.expireTokenOnce();
+    const file = { filename: 'out.png', mime: 'image/png', url: 'data:image/png;base64,AAEC' };
+    const final = runDisplay({ files: [file], status: { state: 'done' } });
+    assert.equal(await adapter.editMessage('zhangsan', id, final), true);
+    assert.equal(await adapter.editMessage('zhangsan', id, final), true);
+
+    // The first upload hit an expired token and was retried with a fresh one.
+    const uploads = api.callsTo('/cgi-bin/media/upload');
+    assert.equal(uploads.length, 2);
+    assert.notEqual(uploads[0].query.access_token, uploads[1].query.access_token);
+    const sends = api.calls.slice(before).filter(c => c.path === '/cgi-bin/message/send');
+    const bodies = sends.map(c => c.body as { msgtype: string; markdown?: { content: string } });
+    assert.deepEqual(bodies.map(b => b.msgtype), ['image', 'markdown']);
+    assert.match(bodies[1].markdown?.content || '', /Here is the answer/);
+  });
+
+  it('sends button cards, routes clicks and collapses the card afterwards', async () => {
+    const taskId = await adapter.sendActionPrompt('zhangsan', {
+      title: '权限请求',
+      body: '允许执行 bash？',
+      actions: [
+        { label: '允许', value: 'perm:once', style: 'primary' },
+        { label: '拒绝', value: 'perm:reject', style: 'danger' },
+      ],
+    });
+    assert.ok(taskId);
+    const sent = api.callsTo('/cgi-bin/message/send').pop()?.body as {
+      template_card: { task_id: string; button_list: Array<{ key: string }> };
+    };
+    assert.equal(sent.template_card.task_id, taskId);
+    const keys = sent.template_card.button_list.map(b => b.key);
+    assert.deepEqual(keys, ['perm:once', 'perm:reject']);
+
+    await callback({
+      MsgType: 'event',
+      Event: 'template_card_event',
+      FromUserName: 'zhangsan',
+      EventKey: 'perm:once',
+      TaskId: taskId,
+      ResponseCode: 'resp-1',
+    });
+    await waitFor(() => actions[0]);
+    assert.deepEqual(actions, [
+      { chatId: 'zhangsan', value: 'perm:once', senderId: 'zhangsan', messageId: taskId },
+    ]);
+
+    const closed = await adapter.editActionPrompt('zhangsan', taskId, {
+      title: '权限请求',
+      body: '允许执行 bash？\n\n✅ 已允许（本次）',
+      actions: [],
+    });
+    assert.equal(closed, true);
+    assert.deepEqual(api.callsTo('/cgi-bin/message/update_template_card')[0].body, {
+      userids: ['zhangsan'],
+      agentid: 1000002,
+      response_code: 'resp-1',
+      button: { replace_name: '✅ 已允许（本次）' },
+    });
+  });
+});